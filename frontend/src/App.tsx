@@ -12,8 +12,17 @@ import { LinkDevices } from './screens/LinkDevices';
 import { CustomizeAlerts } from './screens/CustomizeAlerts';
 import { MainApp } from './screens/MainApp';
 import { Settings } from './screens/Settings';
+import { OfflineMaps } from './screens/OfflineMaps';
+import { MapLayers } from './screens/MapLayers';
+import { TrackerApiKeys } from './screens/TrackerApiKeys';
+import { ImportZones } from './screens/ImportZones';
+import { ExportData } from './screens/ExportData';
+import { ZoneHistory } from './screens/ZoneHistory';
+import { ZoneSchedule } from './screens/ZoneSchedule';
+import { GrazingPlanner } from './screens/GrazingPlanner';
 import { Toaster } from './components/ui/sonner';
 import { AlertNotifier } from './components/AlertNotifier';
+import { OfflineBanner } from './components/OfflineBanner';
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -157,6 +166,70 @@ const AppContent: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/offline-maps"
+        element={
+          <ProtectedRoute>
+            <OfflineMaps />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/map-layers"
+        element={
+          <ProtectedRoute>
+            <MapLayers />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/tracker-keys"
+        element={
+          <ProtectedRoute>
+            <TrackerApiKeys />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/import-zones"
+        element={
+          <ProtectedRoute>
+            <ImportZones />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/export"
+        element={
+          <ProtectedRoute>
+            <ExportData />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/zone-history"
+        element={
+          <ProtectedRoute>
+            <ZoneHistory />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/zone-schedule"
+        element={
+          <ProtectedRoute>
+            <ZoneSchedule />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/grazing-planner"
+        element={
+          <ProtectedRoute>
+            <GrazingPlanner />
+          </ProtectedRoute>
+        }
+      />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -170,6 +243,7 @@ export default function App() {
         <div className="app-container">
           <AppContent />
           <AlertNotifier />
+          <OfflineBanner />
           <Toaster />
         </div>
       </AppProvider>
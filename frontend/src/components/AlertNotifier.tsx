@@ -2,8 +2,9 @@ import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useSettings } from '../hooks/useSettings';
 import { useApp } from '../contexts/AppContext';
-import { AlertTriangle, Battery, Activity, Clock, X } from 'lucide-react';
+import { AlertTriangle, Battery, Activity, Clock, X, Ban } from 'lucide-react';
 
 type RawAlert = {
   id: string;
@@ -20,6 +21,7 @@ const DEDUPE_WINDOW_MS = 10000;
 
 export const AlertNotifier: React.FC = () => {
   const { user } = useAuth();
+  const { settings } = useSettings(user?.id);
   const navigate = useNavigate();
   const location = useLocation();
   const { activeMainTab, setActiveMainTab } = useApp();
@@ -44,6 +46,8 @@ export const AlertNotifier: React.FC = () => {
         return <Battery className="w-5 h-5 text-orange-500" />;
       case 'Inactivity Detected':
         return <Activity className="w-5 h-5 text-yellow-500" />;
+      case 'in_exclusion_zone':
+        return <Ban className="w-5 h-5 text-red-500" />;
       default:
         return <AlertTriangle className="w-5 h-5 text-gray-400" />;
     }
@@ -54,6 +58,8 @@ export const AlertNotifier: React.FC = () => {
       case 'out':
       case 'out_of_zone':
         return 'Out of Range';
+      case 'in_exclusion_zone':
+        return 'In Exclusion Zone';
       default:
         return type || 'Alert';
     }
@@ -66,9 +72,11 @@ export const AlertNotifier: React.FC = () => {
       case 'out_of_zone':
         return 'Animal has left the safety area';
       case 'Low Battery':
-        return 'Device battery is below 15%';
+        return `Device battery is below ${settings?.low_battery_threshold ?? 15}%`;
       case 'Inactivity Detected':
-        return 'No movement detected for over 15 minutes';
+        return `No movement detected for over ${settings?.inactivity_minutes ?? 15} minutes`;
+      case 'in_exclusion_zone':
+        return 'Animal has entered a keep-out area';
       default:
         return 'New alert from GeoSense';
     }
@@ -0,0 +1,223 @@
+import React from 'react';
+import { AlertTriangle, Ban, Battery, Activity, Check, Clock, Edit, Gauge, History, LocateFixed, Target } from 'lucide-react';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from './ui/drawer';
+import { Switch } from './ui/switch';
+import { BatteryIndicator } from './BatteryIndicator';
+import type { Device } from '../hooks/useDevices';
+import { LiveLocation, isLowAccuracyFix } from '../hooks/useLiveLocations';
+import type { Alert } from '../hooks/useAlerts';
+
+interface AnimalDetailSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trackerId: string | null;
+  device?: Device;
+  location?: LiveLocation;
+  alerts: Alert[];
+  isActive: boolean;
+  lowBatteryThreshold?: number;
+  isFollowing: boolean;
+  onFollowChange: (follow: boolean) => void;
+  onViewHistory: () => void;
+  onEditDevice: () => void;
+  onAcknowledgeAlert: (alert: Alert) => void;
+  acknowledgingId?: string | null;
+}
+
+const getAlertIcon = (type: Alert['type_alert']) => {
+  switch (type) {
+    case 'Out of Range':
+    case 'out':
+    case 'out_of_zone':
+      return <AlertTriangle className="w-4 h-4 text-red-500" />;
+    case 'Low Battery':
+      return <Battery className="w-4 h-4 text-orange-500" />;
+    case 'Inactivity Detected':
+      return <Activity className="w-4 h-4 text-yellow-500" />;
+    case 'in_exclusion_zone':
+      return <Ban className="w-4 h-4 text-red-500" />;
+    default:
+      return <AlertTriangle className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+const getAlertTitle = (type: Alert['type_alert']) => {
+  switch (type) {
+    case 'out':
+    case 'out_of_zone':
+      return 'Out of Range';
+    case 'in_exclusion_zone':
+      return 'In Exclusion Zone';
+    default:
+      return type;
+  }
+};
+
+const getTimeSince = (date: Date) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - date.getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+/**
+ * Non-modal bottom sheet for one tracker on the map: identity, latest fix,
+ * battery, active alerts and quick actions. The map stays usable behind it
+ * so follow mode can be watched.
+ */
+export const AnimalDetailSheet: React.FC<AnimalDetailSheetProps> = ({
+  open,
+  onOpenChange,
+  trackerId,
+  device,
+  location,
+  alerts,
+  isActive,
+  lowBatteryThreshold,
+  isFollowing,
+  onFollowChange,
+  onViewHistory,
+  onEditDevice,
+  onAcknowledgeAlert,
+  acknowledgingId,
+}) => {
+  const name = device?.animal_name || device?.name || `Tracker ${trackerId}`;
+  const lastFix = location ? new Date(location.captured_at || location.updated_at) : null;
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange} modal={false}>
+      {/* Above the map panes and floating controls */}
+      <DrawerContent className="z-[6000]">
+        <DrawerHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <DrawerTitle className="text-[var(--deep-forest)] truncate">{name}</DrawerTitle>
+            <span
+              className={`shrink-0 text-xs px-2 py-0.5 rounded-full ${
+                isActive ? 'bg-[var(--grass-green)]/15 text-[var(--deep-forest)]' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {isActive ? 'Active' : 'Inactive'}
+            </span>
+          </div>
+          <DrawerDescription>
+            {[`Tracker ${trackerId}`, device?.batch_id ? `Batch ${device.batch_id}` : null]
+              .filter(Boolean)
+              .join(' · ')}
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="px-4 pb-4 space-y-4 overflow-y-auto">
+          {/* Latest fix */}
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="flex items-start gap-2">
+              <Clock className="w-4 h-4 mt-0.5 text-gray-500" />
+              <div>
+                <p className="text-xs text-gray-500">Last fix</p>
+                <p className="text-[var(--deep-forest)]">{lastFix ? getTimeSince(lastFix) : 'No fix yet'}</p>
+                {lastFix && <p className="text-xs text-gray-500">{lastFix.toLocaleString()}</p>}
+              </div>
+            </div>
+            <div className="flex items-start gap-2">
+              <Gauge className="w-4 h-4 mt-0.5 text-gray-500" />
+              <div>
+                <p className="text-xs text-gray-500">Speed</p>
+                <p className="text-[var(--deep-forest)]">
+                  {location?.speed_mps != null ? `${(location.speed_mps * 3.6).toFixed(1)} km/h` : '–'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-start gap-2">
+              <Target className="w-4 h-4 mt-0.5 text-gray-500" />
+              <div>
+                <p className="text-xs text-gray-500">Accuracy</p>
+                <p className="text-[var(--deep-forest)]">
+                  {location?.accuracy_m != null ? `±${location.accuracy_m.toFixed(1)} m` : '–'}
+                </p>
+                {location && isLowAccuracyFix(location) && (
+                  <p className="text-xs text-orange-600">Low accuracy – position may be off</p>
+                )}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Battery</p>
+              <BatteryIndicator level={device?.battery_level} threshold={lowBatteryThreshold} />
+            </div>
+          </div>
+
+          {/* Active alerts */}
+          {alerts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500 uppercase">Active alerts</p>
+              {alerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className="flex items-center gap-3 rounded-lg border border-gray-200 px-3 py-2"
+                >
+                  {getAlertIcon(alert.type_alert)}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-[var(--deep-forest)] truncate">{getAlertTitle(alert.type_alert)}</p>
+                    <p className="text-xs text-gray-500">{getTimeSince(new Date(alert.created_at))}</p>
+                  </div>
+                  {alert.acknowledged_at ? (
+                    <span className="flex items-center gap-1 text-xs text-gray-500">
+                      <Check className="w-3 h-3" />
+                      Acknowledged
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onAcknowledgeAlert(alert)}
+                      disabled={acknowledgingId === alert.id}
+                      className="text-xs px-2 py-1 rounded-lg bg-[var(--grass-green)] text-white hover:bg-[var(--pine-green)] disabled:opacity-50"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Follow */}
+          <label className="flex items-center justify-between gap-3 rounded-lg bg-gray-50 px-3 py-2">
+            <span className="flex items-center gap-2 text-sm text-[var(--deep-forest)]">
+              <LocateFixed className="w-4 h-4" />
+              Follow on map
+            </span>
+            <Switch checked={isFollowing} onCheckedChange={(checked: boolean) => onFollowChange(checked)} />
+          </label>
+
+          {/* Quick actions */}
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={onViewHistory}
+              className="flex items-center justify-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-[var(--deep-forest)] hover:bg-gray-50"
+            >
+              <History className="w-4 h-4" />
+              View history
+            </button>
+            <button
+              type="button"
+              onClick={onEditDevice}
+              disabled={!device}
+              className="flex items-center justify-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-[var(--deep-forest)] hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Edit className="w-4 h-4" />
+              Edit device
+            </button>
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
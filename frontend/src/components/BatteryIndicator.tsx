@@ -0,0 +1,69 @@
+import React from 'react';
+import { Battery, BatteryFull, BatteryLow, BatteryMedium, BatteryWarning } from 'lucide-react';
+import { BatteryTrend } from '../hooks/useBatteryReadings';
+
+interface BatteryIndicatorProps {
+  level?: number | null; // 0-100, null/undefined = no reading yet
+  threshold?: number; // low battery threshold from settings
+  trend?: BatteryTrend | null;
+  className?: string;
+}
+
+export const formatBatteryTrend = (trend?: BatteryTrend | null) => {
+  if (!trend) return 'No trend yet';
+
+  const perDay = trend.percentPerDay;
+  if (Math.abs(perDay) < 0.5) return 'Stable';
+
+  const rate = `${perDay > 0 ? '+' : ''}${perDay.toFixed(1)}%/day`;
+  if (trend.hoursToEmpty === null) return `${rate} (charging)`;
+
+  const remaining =
+    trend.hoursToEmpty >= 48
+      ? `~${Math.round(trend.hoursToEmpty / 24)} days left`
+      : `~${Math.round(trend.hoursToEmpty)} h left`;
+  return `${rate} · ${remaining}`;
+};
+
+/**
+ * Battery icon + percent, red at or below the user's low battery threshold.
+ * Optionally shows the discharge trend underneath.
+ */
+export const BatteryIndicator: React.FC<BatteryIndicatorProps> = ({
+  level,
+  threshold = 15,
+  trend,
+  className = '',
+}) => {
+  const hasLevel = level !== null && level !== undefined;
+
+  let Icon = Battery;
+  let color = 'text-gray-400';
+  if (hasLevel) {
+    if (level <= threshold) {
+      Icon = BatteryWarning;
+      color = 'text-red-500';
+    } else if (level < 40) {
+      Icon = BatteryLow;
+      color = 'text-orange-500';
+    } else if (level < 75) {
+      Icon = BatteryMedium;
+      color = 'text-[var(--grass-green)]';
+    } else {
+      Icon = BatteryFull;
+      color = 'text-[var(--grass-green)]';
+    }
+  }
+
+  return (
+    <div className={`flex flex-col items-end ${className}`}>
+      <div className={`flex items-center gap-1 ${color}`}>
+        <Icon className="w-5 h-5" />
+        <span className="text-sm font-medium">{hasLevel ? `${Math.round(level)}%` : '--'}</span>
+      </div>
+      {trend !== undefined && (
+        <span className="text-xs text-gray-500">{formatBatteryTrend(trend)}</span>
+      )}
+    </div>
+  );
+};
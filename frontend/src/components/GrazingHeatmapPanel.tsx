@@ -0,0 +1,104 @@
+import React from 'react';
+import { X, Loader2 } from 'lucide-react';
+
+export const HEATMAP_WINDOWS_HOURS = [24, 72, 168, 720];
+
+export interface HeatmapFilterOption {
+  value: string;
+  label: string;
+}
+
+interface GrazingHeatmapPanelProps {
+  windowHours: number;
+  onWindowChange: (hours: number) => void;
+  filter: string;
+  filterOptions: Array<{ group: string; options: HeatmapFilterOption[] }>;
+  onFilterChange: (filter: string) => void;
+  loading?: boolean;
+  error?: string | null;
+  cellCount: number;
+  totalHours: number;
+  onClose: () => void;
+}
+
+const formatWindow = (hours: number) => (hours < 48 ? `Last ${hours}h` : `Last ${Math.round(hours / 24)} days`);
+
+/**
+ * MapTab panel for the grazing density heatmap: time window, batch/animal
+ * filter and a low-to-high legend.
+ */
+export const GrazingHeatmapPanel: React.FC<GrazingHeatmapPanelProps> = ({
+  windowHours,
+  onWindowChange,
+  filter,
+  filterOptions,
+  onFilterChange,
+  loading = false,
+  error,
+  cellCount,
+  totalHours,
+  onClose,
+}) => (
+  <div className="bg-white rounded-lg shadow-xl p-3 border-2 border-gray-300 space-y-2">
+    <div className="flex items-center gap-2">
+      <select
+        value={filter}
+        onChange={(e) => onFilterChange(e.target.value)}
+        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+      >
+        <option value="all">All animals</option>
+        {filterOptions
+          .filter(({ options }) => options.length > 0)
+          .map(({ group, options }) => (
+            <optgroup key={group} label={group}>
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+      </select>
+      <select
+        value={windowHours}
+        onChange={(e) => onWindowChange(Number(e.target.value))}
+        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+      >
+        {HEATMAP_WINDOWS_HOURS.map((h) => (
+          <option key={h} value={h}>
+            {formatWindow(h)}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onClose}
+        className="p-1 rounded-full hover:bg-gray-100 text-gray-500"
+        aria-label="Close heatmap"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+
+    {/* Legend */}
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      <span>Less time</span>
+      <div
+        className="flex-1 h-2 rounded-full"
+        style={{ background: 'linear-gradient(to right, #3FB7FF, #78A64A, #FFEE8A, #F59E0B, #EF4444)' }}
+      />
+      <span>More time</span>
+    </div>
+
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      {loading && <Loader2 className="w-3 h-3 animate-spin text-[var(--deep-forest)]" />}
+      {error ? (
+        <span className="text-red-600">Error loading heatmap: {error}</span>
+      ) : !loading && cellCount === 0 ? (
+        <span>No positions recorded in this window</span>
+      ) : (
+        <span>{totalHours.toFixed(1)} animal-hours recorded</span>
+      )}
+    </div>
+  </div>
+);
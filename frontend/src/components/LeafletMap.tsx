@@ -1,7 +1,184 @@
 import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
+import { BasemapType, TILE_SOURCES, getCachedTile } from '../lib/tileCache';
+import { HeatmapLayer, HeatmapPoint } from '../lib/heatmapLayer';
+import { TrackerMarker } from '../lib/trackerMarker';
+import { LatLngMultiPolygon, toLatLngPolygons } from '../lib/geometry';
+import { Measurement } from '../lib/measurement';
+import { MapLayer, createMapLayer } from '../lib/mapLayers';
 
-type BasemapType = 'street' | 'terrain' | 'satellite';
+// Keep-out (exclusion) zones are always drawn in red
+const EXCLUSION_ZONE_COLOR = '#EF4444';
+const INACTIVE_ZONE_COLOR = '#9CA3AF';
+
+// Marker clustering: markers within this many screen pixels of each other
+// are merged into one count badge. Disabled from CLUSTER_MAX_ZOOM on so every
+// animal is visible once zoomed in far enough.
+const DEFAULT_CLUSTER_RADIUS_PX = 60;
+const CLUSTER_MAX_ZOOM = 18;
+
+// GPS accuracy circles are only drawn from this zoom on; further out they
+// are smaller than the dot or cover the whole paddock
+const ACCURACY_MIN_ZOOM = 17;
+
+// Low-accuracy fixes: see-through dot with a dashed ring
+const LOW_ACCURACY_FILL_OPACITY = 0.35;
+const LOW_ACCURACY_DASH = '3 3';
+
+// Measure mode: taps this close (screen pixels) to a zone or measurement
+// vertex land exactly on it
+const MEASURE_SNAP_PX = 16;
+const MEASURE_COLOR = '#FACC15';
+
+type MarkerGroup = number[]; // indices into the markers prop
+
+// Groups marker indices that are chained within `radius` world pixels of each
+// other at the given zoom. Distance (not grid cell) based, so two animals next
+// to each other always share a badge, and the result does not depend on the
+// marker order. World (not screen) pixels keep clusters stable while panning.
+const groupMarkersByDistance = (
+  map: L.Map,
+  positions: [number, number][],
+  zoom: number,
+  radius: number
+): MarkerGroup[] => {
+  const points = positions.map((position) => map.project(position, zoom));
+
+  // Union-find over the marker indices
+  const parent = points.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  // Bucket by radius-sized cells so only the 3x3 neighbouring cells are compared
+  const cells = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const cx = Math.floor(point.x / radius);
+    const cy = Math.floor(point.y / radius);
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        cells.get(`${cx + dx}:${cy + dy}`)?.forEach((other) => {
+          if (point.distanceTo(points[other]) <= radius) {
+            parent[find(index)] = find(other);
+          }
+        });
+      }
+    }
+    const key = `${cx}:${cy}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      cells.set(key, [index]);
+    }
+  });
+
+  const groups = new Map<number, MarkerGroup>();
+  points.forEach((_, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(root, [index]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
+// Count badge with a ring showing the share of each marker colour (status)
+const createClusterIcon = (colors: string[]) => {
+  const counts = new Map<string, number>();
+  colors.forEach((color) => counts.set(color, (counts.get(color) || 0) + 1));
+
+  let offset = 0;
+  const segments = Array.from(counts.entries()).map(([color, count]) => {
+    const start = offset;
+    offset += (count / colors.length) * 100;
+    return `${color} ${start.toFixed(2)}% ${offset.toFixed(2)}%`;
+  });
+
+  const size = Math.round(32 + Math.min(16, Math.log2(colors.length) * 3));
+  return L.divIcon({
+    className: 'marker-cluster',
+    iconSize: [size, size],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:conic-gradient(${segments.join(', ')});display:flex;align-items:center;justify-content:center;box-shadow:0 1px 4px rgba(0,0,0,0.4);">
+      <span style="width:${size - 10}px;height:${size - 10}px;border-radius:50%;background:#ffffff;display:flex;align-items:center;justify-content:center;font-size:12px;font-weight:600;color:#1F3A2B;">${colors.length}</span>
+    </div>`,
+  });
+};
+
+// Identifies what the basemap tile layer shows; an edited custom layer
+// (new updated_at) is rebuilt
+const getBasemapKey = (basemap: BasemapType, customBasemap: MapLayer | null) =>
+  customBasemap ? `custom:${customBasemap.id}:${customBasemap.updated_at}` : basemap;
+
+// Round drag handle; a DOM marker so dragging works with touch too
+const createHandleIcon = (color: string, size: number) =>
+  L.divIcon({
+    className: 'map-handle',
+    iconSize: [size, size],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};border:${size >= 18 ? 3 : 2}px solid #ffffff;box-shadow:0 1px 4px rgba(0,0,0,0.5);cursor:grab;"></div>`,
+  });
+
+const getMarkerKey = (marker: { id?: string | number }, index: number) =>
+  marker.id !== undefined ? `id:${marker.id}` : `index:${index}`;
+
+// Basemap tile layer that serves tiles downloaded for offline use
+// (lib/tileCache) first and only falls back to the tile server
+class CachedTileLayer extends L.TileLayer {
+  private basemapType: BasemapType;
+
+  constructor(basemapType: BasemapType) {
+    const source = TILE_SOURCES[basemapType] || TILE_SOURCES.street;
+    super(source.url, {
+      attribution: source.attribution,
+      maxZoom: source.maxZoom,
+    });
+    this.basemapType = basemapType;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    let objectUrl: string | null = null;
+    const releaseObjectUrl = () => {
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+        objectUrl = null;
+      }
+    };
+    tile.onload = () => {
+      releaseObjectUrl();
+      done(undefined, tile);
+    };
+    tile.onerror = () => {
+      releaseObjectUrl();
+      done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} failed to load`), tile);
+    };
+
+    getCachedTile(this.basemapType, coords)
+      .catch(() => null)
+      .then((blob) => {
+        // Leaflet may have aborted the tile while we were reading the cache
+        if (tile.getAttribute('src')) return;
+        if (blob) {
+          objectUrl = URL.createObjectURL(blob);
+          tile.src = objectUrl;
+        } else {
+          tile.src = this.getTileUrl(coords);
+        }
+      });
+
+    return tile;
+  }
+}
 
 interface MapProps {
   center: [number, number];
@@ -12,17 +189,40 @@ interface MapProps {
   onPolygonClick?: (polygonIndex: number) => void;
   onMarkerClick?: (markerIndex: number) => void;
   polygons?: Array<{
-    coordinates: [number, number][];
+    /** One [lat, lng] ring, or polygons with holes (see lib/geometry) */
+    coordinates: [number, number][] | LatLngMultiPolygon;
     color?: string;
     fillColor?: string;
     fillOpacity?: number;
     id?: string | number;
+    /** 'exclude' renders as a red, dashed keep-out zone */
+    kind?: 'include' | 'exclude';
+    /** Zone switched off by its schedule: drawn grey */
+    inactive?: boolean;
+    /** Short text shown on the zone */
+    label?: string;
   }>;
   markers?: Array<{
+    /** Stable id (e.g. tracker id) so refreshes move markers instead of recreating them */
+    id?: string | number;
     position: [number, number];
     color: string;
     label?: string;
     popup?: React.ReactNode;
+    /** Direction of travel in degrees from north; draws an arrow when set */
+    heading?: number | null;
+    /** GPS accuracy radius in meters (see showAccuracy) */
+    accuracyM?: number | null;
+    /** Imprecise fix: drawn see-through with a dashed ring */
+    lowAccuracy?: boolean;
+  }>;
+  polylines?: Array<{
+    coordinates: [number, number][];
+    color?: string;
+    weight?: number;
+    opacity?: number;
+    dashArray?: string;
+    id?: string | number;
   }>;
   selectedPolygonId?: string | number | null;
   className?: string;
@@ -35,6 +235,70 @@ interface MapProps {
    * Basemap tile layer to display
    */
   basemap?: BasemapType;
+  /**
+   * User-defined basemap (lib/mapLayers); replaces basemap while set
+   */
+  customBasemap?: MapLayer | null;
+  /**
+   * User-defined overlays stacked above the basemap, first = lowest
+   */
+  overlays?: MapLayer[];
+  /**
+   * Merge nearby markers into count badges that split apart when zooming in
+   */
+  clusterMarkers?: boolean;
+  clusterRadius?: number;
+  /**
+   * Draw each marker's accuracyM as a translucent circle when zoomed in
+   */
+  showAccuracy?: boolean;
+  /**
+   * Density overlay drawn below zones and markers; null/undefined hides it
+   */
+  heatmap?: {
+    points: HeatmapPoint[];
+    cellM?: number; // grid cell size the points were aggregated to
+  } | null;
+  /**
+   * Animated move (e.g. to a search result). Pass a new object to fly again;
+   * bounds, when given, are fitted instead of zooming to the center.
+   */
+  flyTo?: {
+    center: [number, number];
+    zoom?: number;
+    bounds?: [[number, number], [number, number]];
+  } | null;
+  /**
+   * Marker drawn with a highlight ring (e.g. the animal whose details are open)
+   */
+  selectedMarkerId?: string | number | null;
+  /**
+   * Keep the map centred on this marker as its position updates. Dragging
+   * the map stops following and calls onFollowStop.
+   */
+  followMarkerId?: string | number | null;
+  onFollowStop?: () => void;
+  /**
+   * Measure mode while set: taps on the map, zones or markers go to
+   * onMeasurePoint (snapped to nearby vertices) instead of the click handlers
+   */
+  measurement?: Measurement | null;
+  onMeasurePoint?: (point: [number, number]) => void;
+  /**
+   * Draggable handles drawn above everything (e.g. a circle's centre and
+   * radius, zone vertices). Positions follow the prop except while being
+   * dragged; a tap without dragging calls onHandleClick.
+   */
+  handles?: Array<{
+    id: string;
+    position: [number, number];
+    color?: string;
+    size?: number; // px, default 20
+    title?: string;
+  }>;
+  onHandleDrag?: (id: string, position: [number, number]) => void;
+  onHandleDragEnd?: (id: string, position: [number, number]) => void;
+  onHandleClick?: (id: string) => void;
 }
 
 export const LeafletMap: React.FC<MapProps> = ({
@@ -47,88 +311,189 @@ export const LeafletMap: React.FC<MapProps> = ({
   onMarkerClick,
   polygons = [],
   markers = [],
+  polylines = [],
   selectedPolygonId,
   className = '',
   autoFitBounds = false,
   basemap = 'street',
+  customBasemap = null,
+  overlays = [],
+  clusterMarkers = false,
+  clusterRadius = DEFAULT_CLUSTER_RADIUS_PX,
+  showAccuracy = false,
+  heatmap,
+  flyTo,
+  selectedMarkerId,
+  followMarkerId,
+  onFollowStop,
+  measurement,
+  onMeasurePoint,
+  handles = [],
+  onHandleDrag,
+  onHandleDragEnd,
+  onHandleClick,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const polygonLayersRef = useRef<L.Polygon[]>([]);
-  const markerLayersRef = useRef<L.CircleMarker[]>([]);
+  const markerLayersRef = useRef<Map<string, TrackerMarker>>(new Map());
+  const markerKeysRef = useRef<string[]>([]); // marker index -> layer key
+  const clusterLayerRef = useRef<L.LayerGroup | null>(null);
+  const heatmapLayerRef = useRef<HeatmapLayer | null>(null);
+  const clusterOptionsRef = useRef({ enabled: clusterMarkers, radius: clusterRadius });
+  const showAccuracyRef = useRef(showAccuracy);
+  const polylineLayersRef = useRef<L.Polyline[]>([]);
   const tileLayerRef = useRef<L.TileLayer | null>(null);
   const onMapClickRef = useRef<MapProps["onMapClick"]>(onMapClick);
   const onZoomChangeRef = useRef<MapProps["onZoomChange"]>(onZoomChange);
   const onViewportChangeRef = useRef<MapProps["onViewportChange"]>(onViewportChange);
   const onPolygonClickRef = useRef<MapProps["onPolygonClick"]>(onPolygonClick);
   const onMarkerClickRef = useRef<MapProps["onMarkerClick"]>(onMarkerClick);
+  const onFollowStopRef = useRef<MapProps["onFollowStop"]>(onFollowStop);
+  const followKeyRef = useRef<string | null>(null);
+  const measurementRef = useRef<Measurement | null>(measurement ?? null);
+  const onMeasurePointRef = useRef<MapProps["onMeasurePoint"]>(onMeasurePoint);
+  const measureLayerRef = useRef<L.LayerGroup | null>(null);
+  const polygonsRef = useRef<MapProps["polygons"]>(polygons);
+  const handleLayersRef = useRef<Map<string, { marker: L.Marker; style: string }>>(new Map());
+  const draggingHandleRef = useRef<string | null>(null);
+  const onHandleDragRef = useRef<MapProps["onHandleDrag"]>(onHandleDrag);
+  const onHandleDragEndRef = useRef<MapProps["onHandleDragEnd"]>(onHandleDragEnd);
+  const onHandleClickRef = useRef<MapProps["onHandleClick"]>(onHandleClick);
   const currentZoomRef = useRef<number>(zoom);
   const isUserInteractionRef = useRef<boolean>(false);
   const hasAutoFittedRef = useRef<boolean>(false);
-  const currentBasemapRef = useRef<BasemapType>(basemap);
-
-  // Get tile layer URL and attribution based on basemap type
-  const getTileLayerConfig = (basemapType: BasemapType) => {
-    switch (basemapType) {
-      case 'street':
-        return {
-          url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
-          attribution: '© OpenStreetMap contributors',
-          maxZoom: 19,
-        };
-      case 'terrain':
-        return {
-          url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
-          attribution: '© OpenStreetMap contributors, © OpenTopoMap',
-          maxZoom: 17,
-        };
-      case 'satellite':
-        // Using Esri World Imagery (free, no API key required)
-        return {
-          url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-          attribution: '© Esri',
-          maxZoom: 19,
-        };
-      default:
-        return {
-          url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
-          attribution: '© OpenStreetMap contributors',
-          maxZoom: 19,
-        };
-    }
+  const currentBasemapRef = useRef<string>(basemap);
+  const overlayLayersRef = useRef<Map<number, { layer: L.TileLayer; version: string }>>(new Map());
+
+  // Shows each marker on its own or merged into a cluster badge for the
+  // current zoom. Only reads refs so map event handlers can call it.
+  const updateMarkerClusters = () => {
+    const map = mapInstanceRef.current;
+    const clusterLayer = clusterLayerRef.current;
+    if (!map || !clusterLayer) return;
+
+    clusterLayer.clearLayers();
+    const layers = markerKeysRef.current.map((key) => markerLayersRef.current.get(key)!);
+    const { enabled, radius } = clusterOptionsRef.current;
+    const zoomLevel = map.getZoom();
+
+    // Circles follow their marker: hidden while it is part of a cluster
+    const accuracyVisible = showAccuracyRef.current && zoomLevel >= ACCURACY_MIN_ZOOM;
+    layers.forEach((layer) => layer.setAccuracyVisible(accuracyVisible));
+
+    const groups: MarkerGroup[] =
+      enabled && zoomLevel < CLUSTER_MAX_ZOOM
+        ? groupMarkersByDistance(
+            map,
+            layers.map((layer) => {
+              const { lat, lng } = layer.getLatLng();
+              return [lat, lng] as [number, number];
+            }),
+            zoomLevel,
+            radius
+          )
+        : layers.map((_, index) => [index]);
+
+    groups.forEach((group) => {
+      if (group.length === 1) {
+        const layer = layers[group[0]];
+        if (!map.hasLayer(layer)) layer.addTo(map);
+        return;
+      }
+
+      const members = group.map((index) => layers[index]);
+      members.forEach((layer) => layer.remove());
+
+      const bounds = L.latLngBounds(members.map((layer) => layer.getLatLng()));
+      const cluster = L.marker(bounds.getCenter(), {
+        icon: createClusterIcon(members.map((layer) => layer.options.fillColor || '#78A64A')),
+        keyboard: false,
+        title: `${members.length} trackers`,
+      });
+      // Zoom in until the cluster splits apart
+      cluster.on('click', () => {
+        map.fitBounds(bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM });
+      });
+      clusterLayer.addLayer(cluster);
+    });
+  };
+
+  // Measure tap: snap to the closest zone or measurement vertex within
+  // MEASURE_SNAP_PX, so fence runs start on corners and tapping the first
+  // point again closes the shape
+  const handleMeasureTap = (latlng: L.LatLng) => {
+    const map = mapInstanceRef.current;
+    if (!map || !measurementRef.current) return;
+
+    const vertices: [number, number][] = [...measurementRef.current.points];
+    (polygonsRef.current || []).forEach((polygon) => {
+      toLatLngPolygons(polygon.coordinates).forEach((rings) => {
+        rings.forEach((ring) => vertices.push(...ring));
+      });
+    });
+
+    const tapPoint = map.latLngToContainerPoint(latlng);
+    let snapped: [number, number] = [latlng.lat, latlng.lng];
+    let bestDistance = MEASURE_SNAP_PX;
+    vertices.forEach((vertex) => {
+      const distance = map.latLngToContainerPoint(vertex).distanceTo(tapPoint);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        snapped = vertex;
+      }
+    });
+
+    onMeasurePointRef.current?.(snapped);
   };
 
   // Initialize map
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
 
-    // Create map instance without zoom control initially
+    // Create map instance without zoom control initially.
+    // All vector layers share one canvas so thousands of markers stay smooth
+    // and polygons underneath them remain clickable.
     const map = L.map(mapRef.current, {
       zoomControl: true,
       attributionControl: true,
+      preferCanvas: true,
     }).setView(center, zoom);
 
+    clusterLayerRef.current = L.layerGroup().addTo(map);
+
     // Add initial tile layer based on basemap prop
-    const tileConfig = getTileLayerConfig(basemap);
-    const tileLayer = L.tileLayer(tileConfig.url, {
-      attribution: tileConfig.attribution,
-      maxZoom: tileConfig.maxZoom,
-    });
+    const tileLayer = customBasemap ? createMapLayer(customBasemap) : new CachedTileLayer(basemap);
     
     tileLayer.addTo(map);
     tileLayerRef.current = tileLayer;
-    currentBasemapRef.current = basemap;
+    currentBasemapRef.current = getBasemapKey(basemap, customBasemap);
 
     // Handle map clicks (but not on polygons/markers)
     map.on('click', (e: any) => {
-      // Only trigger if clicking directly on the map, not on a layer
-      if (e.originalEvent && e.originalEvent.target === map.getContainer()) {
+      // Only trigger if clicking directly on the map, not on a layer.
+      // Clicks on empty parts of the vector canvas count as map clicks;
+      // polygons and markers stop their clicks from bubbling to the map.
+      const target = e.originalEvent?.target;
+      if (target && (target === map.getContainer() || target instanceof HTMLCanvasElement)) {
+        if (measurementRef.current) {
+          handleMeasureTap(e.latlng);
+          return;
+        }
         onMapClickRef.current?.(e.latlng.lat, e.latlng.lng);
       }
     });
 
+    // Panning by hand ends follow mode
+    map.on('dragstart', () => {
+      if (followKeyRef.current) {
+        onFollowStopRef.current?.();
+      }
+    });
+
     // Track zoom changes from user interaction
     map.on('zoomend', () => {
+      updateMarkerClusters();
       if (mapInstanceRef.current) {
         const newZoom = mapInstanceRef.current.getZoom();
         currentZoomRef.current = newZoom;
@@ -172,22 +537,46 @@ export const LeafletMap: React.FC<MapProps> = ({
   // Update tile layer when basemap changes
   useEffect(() => {
     if (!mapInstanceRef.current || !tileLayerRef.current) return;
-    if (currentBasemapRef.current === basemap) return; // Already using this basemap
+    const basemapKey = getBasemapKey(basemap, customBasemap);
+    if (currentBasemapRef.current === basemapKey) return; // Already using this basemap
 
     // Remove old tile layer
     mapInstanceRef.current.removeLayer(tileLayerRef.current);
 
     // Add new tile layer
-    const tileConfig = getTileLayerConfig(basemap);
-    const newTileLayer = L.tileLayer(tileConfig.url, {
-      attribution: tileConfig.attribution,
-      maxZoom: tileConfig.maxZoom,
-    });
+    const newTileLayer = customBasemap ? createMapLayer(customBasemap) : new CachedTileLayer(basemap);
     
     newTileLayer.addTo(mapInstanceRef.current);
     tileLayerRef.current = newTileLayer;
-    currentBasemapRef.current = basemap;
-  }, [basemap]);
+    currentBasemapRef.current = basemapKey;
+  }, [basemap, customBasemap]);
+
+  // Update overlay tile layers: keep unchanged ones, rebuild edited ones
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    const previous = overlayLayersRef.current;
+    const next = new Map<number, { layer: L.TileLayer; version: string }>();
+
+    overlays.forEach((overlay, index) => {
+      const existing = previous.get(overlay.id);
+      const entry =
+        existing && existing.version === overlay.updated_at
+          ? existing
+          : { layer: createMapLayer(overlay).addTo(map), version: overlay.updated_at };
+      if (existing && existing !== entry) existing.layer.remove();
+      // Above the basemap (z-index 1), in list order
+      entry.layer.setZIndex(10 + index);
+      next.set(overlay.id, entry);
+    });
+
+    previous.forEach((entry, id) => {
+      if (!next.has(id)) entry.layer.remove();
+    });
+
+    overlayLayersRef.current = next;
+  }, [overlays]);
 
   // Update zoom change callback
   useEffect(() => {
@@ -225,6 +614,33 @@ export const LeafletMap: React.FC<MapProps> = ({
     }
   }, [center, zoom]);
 
+  // Fly to a requested target (search results)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !flyTo) return;
+
+    if (flyTo.bounds) {
+      map.flyToBounds(flyTo.bounds, { padding: [40, 40], maxZoom: flyTo.zoom ?? 17 });
+    } else {
+      map.flyTo(flyTo.center, flyTo.zoom ?? map.getZoom());
+    }
+    // The parent learns the new center from onViewportChange; don't pan back
+    lastCenterRef.current = flyTo.center;
+  }, [flyTo]);
+
+  // Centre the map on the followed marker (keeps the user's zoom)
+  const panToFollowedMarker = () => {
+    const map = mapInstanceRef.current;
+    const layer = followKeyRef.current ? markerLayersRef.current.get(followKeyRef.current) : undefined;
+    if (!map || !layer) return;
+
+    const position = layer.getLatLng();
+    if (!map.getCenter().equals(position)) {
+      map.panTo(position);
+      lastCenterRef.current = [position.lat, position.lng];
+    }
+  };
+
   // Don't update zoom after initial mount - let user control it
   // Zoom is only set on initial mount above
 
@@ -238,6 +654,11 @@ export const LeafletMap: React.FC<MapProps> = ({
     onMarkerClickRef.current = onMarkerClick;
   }, [onMarkerClick]);
 
+  // Update follow stop callback
+  useEffect(() => {
+    onFollowStopRef.current = onFollowStop;
+  }, [onFollowStop]);
+
   // Update polygons
   useEffect(() => {
     if (!mapInstanceRef.current) return;
@@ -245,30 +666,43 @@ export const LeafletMap: React.FC<MapProps> = ({
     // Remove existing polygons
     polygonLayersRef.current.forEach((layer) => layer.remove());
     polygonLayersRef.current = [];
+    polygonsRef.current = polygons;
 
     // Add new polygons
     polygons.forEach((polygon, index) => {
-      if (polygon.coordinates.length < 3) return;
+      const parts = toLatLngPolygons(polygon.coordinates);
+      if (parts.length === 0) return;
 
       const isSelected = selectedPolygonId !== undefined && polygon.id === selectedPolygonId;
+      const isExclusion = polygon.kind === 'exclude';
+      const zoneColor = polygon.inactive ? INACTIVE_ZONE_COLOR : isExclusion ? EXCLUSION_ZONE_COLOR : undefined;
+      const fillOpacity = polygon.inactive ? 0.1 : (polygon.fillOpacity ?? 0.3);
       
-      const leafletPolygon = L.polygon(polygon.coordinates, {
-        color: isSelected ? '#3FB7FF' : (polygon.color || '#78A64A'),
-        fillColor: isSelected ? '#3FB7FF' : (polygon.fillColor || '#78A64A'),
-        fillOpacity: isSelected ? 0.5 : (polygon.fillOpacity ?? 0.3),
+      const leafletPolygon = L.polygon(parts, {
+        color: isSelected ? '#3FB7FF' : zoneColor ?? (polygon.color || '#78A64A'),
+        fillColor: isSelected ? '#3FB7FF' : zoneColor ?? (polygon.fillColor || '#78A64A'),
+        fillOpacity: isSelected ? 0.5 : fillOpacity,
         weight: isSelected ? 4 : 3,
+        dashArray: isExclusion ? '6 4' : undefined,
+        bubblingMouseEvents: false,
       }).addTo(mapInstanceRef.current!);
 
       // Ensure polygons stay visually below markers
       leafletPolygon.bringToBack();
 
-      // Add click handler for polygon
-      if (onPolygonClick) {
-        leafletPolygon.on('click', () => {
-          onPolygonClickRef.current?.(index);
-        });
+      if (polygon.label) {
+        leafletPolygon.bindTooltip(polygon.label, { permanent: true, direction: 'center', opacity: 0.85 });
       }
 
+      // Add click handler for polygon (measure taps inside a zone too)
+      leafletPolygon.on('click', (e: L.LeafletMouseEvent) => {
+        if (measurementRef.current) {
+          handleMeasureTap(e.latlng);
+          return;
+        }
+        onPolygonClickRef.current?.(index);
+      });
+
       // Make polygon interactive
       leafletPolygon.on('mouseover', function() {
         this.setStyle({
@@ -280,7 +714,7 @@ export const LeafletMap: React.FC<MapProps> = ({
         if (!isSelected) {
           this.setStyle({
             weight: 3,
-            fillOpacity: polygon.fillOpacity ?? 0.3,
+            fillOpacity,
           });
         }
       });
@@ -289,45 +723,269 @@ export const LeafletMap: React.FC<MapProps> = ({
     });
   }, [polygons, selectedPolygonId, onPolygonClick]);
 
+  // Update polylines (e.g. track playback)
+  useEffect(() => {
+    if (!mapInstanceRef.current) return;
+
+    // Remove existing polylines
+    polylineLayersRef.current.forEach((layer) => layer.remove());
+    polylineLayersRef.current = [];
+
+    polylines.forEach((polyline) => {
+      if (polyline.coordinates.length < 2) return;
+
+      const leafletPolyline = L.polyline(polyline.coordinates, {
+        color: polyline.color || '#3FB7FF',
+        weight: polyline.weight ?? 3,
+        opacity: polyline.opacity ?? 0.9,
+        dashArray: polyline.dashArray,
+        interactive: false,
+      }).addTo(mapInstanceRef.current!);
+
+      polylineLayersRef.current.push(leafletPolyline);
+    });
+
+    // Keep markers drawn above the new lines
+    markerLayersRef.current.forEach((layer) => layer.bringToFront());
+  }, [polylines]);
+
   // Update markers
+  // Markers are matched by id (or index) and moved in place, so the 5 s
+  // refresh of live positions does not recreate thousands of layers.
   useEffect(() => {
     if (!mapInstanceRef.current) return;
 
-    // Remove existing markers
-    markerLayersRef.current.forEach((layer) => layer.remove());
-    markerLayersRef.current = [];
+    const previous = markerLayersRef.current;
+    const next = new Map<string, TrackerMarker>();
 
-    // Add new markers
     markers.forEach((marker, index) => {
-      const circleMarker = L.circleMarker(marker.position, {
-        radius: 8,
+      const key = getMarkerKey(marker, index);
+      let circleMarker = previous.get(key);
+
+      if (circleMarker) {
+        circleMarker.setLatLng(marker.position);
+        circleMarker.setHeading(marker.heading ?? null);
+      } else {
+        circleMarker = new TrackerMarker(marker.position, {
+          radius: 8,
+          fillColor: marker.color,
+          color: '#ffffff',
+          weight: 3,
+          opacity: 1,
+          fillOpacity: 1,
+          bubblingMouseEvents: false,
+          heading: marker.heading ?? null,
+        });
+
+        // Look up the current index: the markers array changes on every refresh
+        circleMarker.on('click', (e: L.LeafletMouseEvent) => {
+          if (measurementRef.current) {
+            handleMeasureTap(e.latlng);
+            return;
+          }
+          const markerIndex = markerKeysRef.current.indexOf(key);
+          if (markerIndex !== -1) {
+            onMarkerClickRef.current?.(markerIndex);
+          }
+        });
+      }
+
+      // Add popup if label or popup provided (keep an open popup open on refresh)
+      const popupContent = (marker.popup || marker.label) as L.Content | undefined;
+      const popup = circleMarker.getPopup();
+      if (!popupContent) {
+        if (popup) circleMarker.unbindPopup();
+      } else if (!popup) {
+        circleMarker.bindPopup(popupContent, marker.popup ? { className: 'custom-popup' } : undefined);
+      } else if (popup.getContent() !== popupContent) {
+        popup.setContent(popupContent);
+      }
+
+      // Status colour, low-accuracy look and highlight ring for the selected marker
+      const isSelected = selectedMarkerId != null && marker.id === selectedMarkerId;
+      const style = {
         fillColor: marker.color,
-        color: '#ffffff',
-        weight: 3,
-        opacity: 1,
+        fillOpacity: marker.lowAccuracy ? LOW_ACCURACY_FILL_OPACITY : 1,
+        dashArray: marker.lowAccuracy ? LOW_ACCURACY_DASH : undefined,
+        color: isSelected ? '#3FB7FF' : '#ffffff',
+        weight: isSelected ? 4 : 3,
+      };
+      const current = circleMarker.options;
+      if (
+        current.fillColor !== style.fillColor ||
+        current.fillOpacity !== style.fillOpacity ||
+        current.dashArray !== style.dashArray ||
+        current.color !== style.color
+      ) {
+        circleMarker.setStyle(style);
+        circleMarker.setRadius(isSelected ? 11 : 8);
+      }
+      circleMarker.setAccuracy(marker.accuracyM ?? null);
+
+      next.set(key, circleMarker);
+    });
+
+    previous.forEach((layer, key) => {
+      if (!next.has(key)) layer.remove();
+    });
+
+    markerLayersRef.current = next;
+    markerKeysRef.current = markers.map((marker, index) => getMarkerKey(marker, index));
+    // New markers are added last, so they are drawn above polygons
+    updateMarkerClusters();
+    panToFollowedMarker();
+  }, [markers, selectedMarkerId]);
+
+  // Start/stop following a marker
+  useEffect(() => {
+    followKeyRef.current =
+      followMarkerId != null ? getMarkerKey({ id: followMarkerId }, -1) : null;
+    panToFollowedMarker();
+  }, [followMarkerId]);
+
+  // Update measure point callback
+  useEffect(() => {
+    onMeasurePointRef.current = onMeasurePoint;
+  }, [onMeasurePoint]);
+
+  // Draw the measurement: dashed line (or area once closed) and its vertices
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    measurementRef.current = measurement ?? null;
+    map.getContainer().style.cursor = measurement ? 'crosshair' : '';
+
+    measureLayerRef.current?.remove();
+    measureLayerRef.current = null;
+    if (!measurement || measurement.points.length === 0) return;
+
+    const layer = L.layerGroup();
+    const { points, closed } = measurement;
+    const pathOptions = {
+      color: MEASURE_COLOR,
+      weight: 3,
+      dashArray: '6 6',
+      interactive: false,
+    };
+    if (closed) {
+      L.polygon(points, { ...pathOptions, fillColor: MEASURE_COLOR, fillOpacity: 0.2 }).addTo(layer);
+    } else if (points.length > 1) {
+      L.polyline(points, pathOptions).addTo(layer);
+    }
+
+    points.forEach((point, index) => {
+      // The first point is the target for closing the shape
+      const isCloseTarget = index === 0 && !closed && points.length >= 3;
+      L.circleMarker(point, {
+        radius: isCloseTarget ? 7 : 5,
+        color: '#1F3A2B',
+        weight: 2,
+        fillColor: isCloseTarget ? '#ffffff' : MEASURE_COLOR,
         fillOpacity: 1,
-      }).addTo(mapInstanceRef.current!);
+        interactive: false,
+      }).addTo(layer);
+    });
 
-      // Ensure markers are always drawn above polygons
-      circleMarker.bringToFront();
+    measureLayerRef.current = layer.addTo(map);
+  }, [measurement]);
 
-      // Add click handler for marker
-      if (onMarkerClick) {
-        circleMarker.on('click', () => {
-          onMarkerClickRef.current?.(index);
+  // Update handle drag callbacks
+  useEffect(() => {
+    onHandleDragRef.current = onHandleDrag;
+    onHandleDragEndRef.current = onHandleDragEnd;
+    onHandleClickRef.current = onHandleClick;
+  }, [onHandleDrag, onHandleDragEnd, onHandleClick]);
+
+  // Update drag handles, matched by id so a drag in progress is not broken
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    const previous = handleLayersRef.current;
+    const next = new Map<string, { marker: L.Marker; style: string }>();
+
+    handles.forEach((handle) => {
+      const color = handle.color || '#F59E0B';
+      const size = handle.size ?? 20;
+      const style = `${color}:${size}`;
+      let entry = previous.get(handle.id);
+
+      if (!entry) {
+        const marker = L.marker(handle.position, {
+          icon: createHandleIcon(color, size),
+          draggable: true,
+          keyboard: false,
+          title: handle.title,
+          zIndexOffset: 1000,
+        });
+        const toPosition = () => {
+          const { lat, lng } = marker.getLatLng();
+          return [lat, lng] as [number, number];
+        };
+        marker.on('dragstart', () => {
+          draggingHandleRef.current = handle.id;
+        });
+        marker.on('drag', () => {
+          onHandleDragRef.current?.(handle.id, toPosition());
         });
+        marker.on('dragend', () => {
+          draggingHandleRef.current = null;
+          onHandleDragEndRef.current?.(handle.id, toPosition());
+        });
+        // Leaflet drops the click that ends a drag, so this is a plain tap
+        marker.on('click', (e: L.LeafletMouseEvent) => {
+          if (measurementRef.current) {
+            handleMeasureTap(e.latlng);
+            return;
+          }
+          onHandleClickRef.current?.(handle.id);
+        });
+        entry = { marker: marker.addTo(map), style };
+      } else {
+        if (draggingHandleRef.current !== handle.id) {
+          entry.marker.setLatLng(handle.position);
+        }
+        if (entry.style !== style) {
+          entry.marker.setIcon(createHandleIcon(color, size));
+          entry = { ...entry, style };
+        }
       }
 
-      // Add popup if label or popup provided
-      if (marker.popup) {
-        circleMarker.bindPopup(marker.popup, { className: 'custom-popup' });
-      } else if (marker.label) {
-        circleMarker.bindPopup(marker.label);
-      }
+      next.set(handle.id, entry);
+    });
 
-      markerLayersRef.current.push(circleMarker);
+    previous.forEach((entry, id) => {
+      if (!next.has(id)) entry.marker.remove();
     });
-  }, [markers, onMarkerClick]);
+
+    handleLayersRef.current = next;
+  }, [handles]);
+
+  // Re-cluster when clustering or accuracy circles are switched on/off
+  useEffect(() => {
+    clusterOptionsRef.current = { enabled: clusterMarkers, radius: clusterRadius };
+    showAccuracyRef.current = showAccuracy;
+    updateMarkerClusters();
+  }, [clusterMarkers, clusterRadius, showAccuracy]);
+
+  // Update heatmap overlay in place (no remove/re-add when the data changes)
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (!heatmap) {
+      heatmapLayerRef.current?.remove();
+      heatmapLayerRef.current = null;
+      return;
+    }
+
+    if (heatmapLayerRef.current) {
+      heatmapLayerRef.current.setData(heatmap.points, heatmap.cellM);
+    } else {
+      heatmapLayerRef.current = new HeatmapLayer(heatmap.points, heatmap.cellM).addTo(map);
+    }
+  }, [heatmap]);
 
   // Auto-fit bounds once if requested and no saved viewport is being used
   // Uses dynamic padding to achieve ~70% window occupancy (15% padding on each side)
@@ -340,8 +998,11 @@ export const LeafletMap: React.FC<MapProps> = ({
 
     // Include ALL geofence polygons
     polygons.forEach((polygon) => {
-      polygon.coordinates.forEach(([lat, lng]) => {
-        bounds.extend([lat, lng]);
+      // Outlines are enough, holes lie inside them
+      toLatLngPolygons(polygon.coordinates).forEach(([outline]) => {
+        outline.forEach(([lat, lng]) => {
+          bounds.extend([lat, lng]);
+        });
       });
     });
 
@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as turf from '@turf/turf';
+import { Clock, Crosshair, Hexagon, Loader2, MapPin, PawPrint, Search } from 'lucide-react';
+import type { Geofence } from '../hooks/useGeofences';
+import type { Device } from '../hooks/useDevices';
+import type { LiveLocation } from '../hooks/useLiveLocations';
+import {
+  GeocodeResult,
+  GeocodeResultKind,
+  LocalSearchEntry,
+  addRecentSearch,
+  clearRecentSearches,
+  coordinateProvider,
+  createLocalProvider,
+  createNominatimProvider,
+  getRecentSearches,
+} from '../lib/geocoding';
+
+const placeProvider = createNominatimProvider();
+
+const KIND_ICONS: Record<GeocodeResultKind, React.ElementType> = {
+  coordinate: Crosshair,
+  geofence: Hexagon,
+  animal: PawPrint,
+  place: MapPin,
+};
+
+/**
+ * Search entries for our own zones (fit to their bounds) and animals (at
+ * their last known position).
+ */
+export const buildLocalSearchEntries = (
+  geofences: Geofence[],
+  devices: Device[] = [],
+  locations: LiveLocation[] = []
+): LocalSearchEntry[] => {
+  const entries: LocalSearchEntry[] = [];
+
+  geofences.forEach((geofence) => {
+    if (!geofence.boundary_inner?.coordinates?.length) return;
+    try {
+      const [west, south, east, north] = turf.bbox(geofence.boundary_inner as any);
+      entries.push({
+        id: `geofence:${geofence.id}`,
+        kind: 'geofence',
+        label: geofence.name,
+        detail: geofence.kind === 'exclude' ? 'Keep-out zone' : 'Safe zone',
+        lat: (south + north) / 2,
+        lng: (west + east) / 2,
+        bounds: [[south, west], [north, east]],
+      });
+    } catch (err) {
+      console.error('Failed to index geofence for search:', err);
+    }
+  });
+
+  const devicesByTracker = new Map(devices.map((d) => [d.tracker_id, d]));
+  locations.forEach((location) => {
+    const device = devicesByTracker.get(location.tracker_id);
+    const name = device?.animal_name || device?.name;
+    entries.push({
+      id: `animal:${location.tracker_id}`,
+      kind: 'animal',
+      label: name || `Tracker ${location.tracker_id}`,
+      detail: [name ? `Tracker ${location.tracker_id}` : null, device?.batch_id ? `Batch ${device.batch_id}` : null]
+        .filter(Boolean)
+        .join(' · '),
+      lat: location.lat,
+      lng: location.lng,
+    });
+  });
+
+  return entries;
+};
+
+interface LocationSearchProps {
+  localEntries: LocalSearchEntry[];
+  onSelect: (result: GeocodeResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom-sheet search: coordinates and our own zones/animals match while
+ * typing, places and addresses are looked up on Enter (the public Nominatim
+ * instance does not allow search-as-you-type).
+ */
+export const LocationSearch: React.FC<LocationSearchProps> = ({ localEntries, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [instantResults, setInstantResults] = useState<GeocodeResult[]>([]);
+  const [placeResults, setPlaceResults] = useState<GeocodeResult[] | null>(null);
+  const [placeLoading, setPlaceLoading] = useState(false);
+  const [placeError, setPlaceError] = useState<string | null>(null);
+  const [recent, setRecent] = useState<GeocodeResult[]>(() => getRecentSearches());
+  const abortRef = useRef<AbortController | null>(null);
+
+  const entriesRef = useRef(localEntries);
+  entriesRef.current = localEntries;
+  const localProvider = useMemo(() => createLocalProvider(() => entriesRef.current), []);
+
+  // Coordinates and local names update while typing
+  useEffect(() => {
+    let cancelled = false;
+    setPlaceResults(null);
+    setPlaceError(null);
+
+    Promise.all([coordinateProvider.search(query), localProvider.search(query, { limit: 6 })]).then(
+      ([coordinates, local]) => {
+        if (!cancelled) setInstantResults([...coordinates, ...local]);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, localProvider]);
+
+  // Cancel a running place search when the sheet closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSearchPlaces = async () => {
+    if (!query.trim()) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setPlaceLoading(true);
+      setPlaceError(null);
+      const results = await placeProvider.search(query, { signal: controller.signal });
+      setPlaceResults(results);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error searching places:', err);
+      setPlaceError(
+        typeof navigator !== 'undefined' && !navigator.onLine
+          ? 'Place search needs a connection'
+          : err instanceof Error
+          ? err.message
+          : 'Place search failed'
+      );
+    } finally {
+      if (abortRef.current === controller) {
+        setPlaceLoading(false);
+        abortRef.current = null;
+      }
+    }
+  };
+
+  const handleSelect = (result: GeocodeResult) => {
+    setRecent(addRecentSearch(result));
+    onSelect(result);
+    onClose();
+  };
+
+  const renderResult = (result: GeocodeResult, icon?: React.ElementType) => {
+    const Icon = icon || KIND_ICONS[result.kind];
+    return (
+      <button
+        key={result.id}
+        onClick={() => handleSelect(result)}
+        className="w-full flex items-start gap-3 px-2 py-2 text-left hover:bg-gray-50 rounded-lg"
+      >
+        <Icon className="w-4 h-4 mt-0.5 text-[var(--grass-green)] flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm text-[var(--deep-forest)] truncate">{result.label}</p>
+          {result.detail && <p className="text-xs text-gray-500 truncate">{result.detail}</p>}
+        </div>
+      </button>
+    );
+  };
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <div className="absolute inset-0 bg-black/50 z-[2000] flex items-end">
+      <div className="bg-white w-full p-4 rounded-t-2xl max-h-[75%] flex flex-col">
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            placeholder="Place, address, zone, animal or coordinates"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearchPlaces()}
+            className="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)]"
+            autoFocus
+          />
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {!hasQuery ? (
+            recent.length > 0 ? (
+              <div>
+                <div className="flex items-center justify-between px-2 mb-1">
+                  <p className="text-xs text-gray-500 uppercase">Recent</p>
+                  <button
+                    onClick={() => {
+                      clearRecentSearches();
+                      setRecent([]);
+                    }}
+                    className="text-xs text-gray-500 underline"
+                  >
+                    Clear
+                  </button>
+                </div>
+                {recent.map((result) => renderResult(result, Clock))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 text-center py-2">
+                Try "51.9692, 7.5957", 51°58'9"N 7°35'45"E, "32U 411234 5759876" or a zone name
+              </p>
+            )
+          ) : (
+            <>
+              {instantResults.length > 0 && <div>{instantResults.map((result) => renderResult(result))}</div>}
+
+              {placeLoading ? (
+                <div className="flex items-center justify-center gap-2 py-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-[var(--deep-forest)]" />
+                  <span className="text-sm text-[var(--deep-forest)]">Searching places...</span>
+                </div>
+              ) : placeError ? (
+                <p className="text-sm text-red-600 text-center">{placeError}</p>
+              ) : placeResults ? (
+                placeResults.length > 0 ? (
+                  <div>
+                    <p className="text-xs text-gray-500 uppercase px-2 mb-1">Places</p>
+                    {placeResults.map((result) => renderResult(result))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 text-center">No places found</p>
+                )
+              ) : (
+                <button
+                  onClick={handleSearchPlaces}
+                  className="w-full bg-[var(--grass-green)] text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+                >
+                  <Search className="w-4 h-4" />
+                  Search places
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Ruler, Undo2, Trash2, X } from 'lucide-react';
+import {
+  DistanceUnits,
+  Measurement,
+  formatArea,
+  formatDistance,
+  measureAreaM2,
+  measureLengthM,
+} from '../lib/measurement';
+
+interface MeasurePanelProps {
+  measurement: Measurement;
+  units: DistanceUnits;
+  onUndo: () => void;
+  onClear: () => void;
+  onCloseShape: () => void;
+  onExit: () => void;
+}
+
+/**
+ * Readout for the map measure mode: running distance while tapping points,
+ * perimeter and area once the shape is closed.
+ */
+export const MeasurePanel: React.FC<MeasurePanelProps> = ({
+  measurement,
+  units,
+  onUndo,
+  onClear,
+  onCloseShape,
+  onExit,
+}) => {
+  const { points, closed } = measurement;
+  const lengthM = measureLengthM(measurement);
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-3 border-2 border-gray-300 space-y-2">
+      <div className="flex items-center gap-2">
+        <Ruler className="w-4 h-4 text-[var(--deep-forest)]" />
+        <div className="flex-1 min-w-0">
+          {points.length < 2 ? (
+            <p className="text-sm text-gray-600">Tap the map to add points</p>
+          ) : closed ? (
+            <p className="text-sm text-[var(--deep-forest)]">
+              <span className="font-semibold">{formatArea(measureAreaM2(measurement), units)}</span>
+              <span className="text-gray-500"> · perimeter {formatDistance(lengthM, units)}</span>
+            </p>
+          ) : (
+            <p className="text-sm text-[var(--deep-forest)]">
+              <span className="font-semibold">{formatDistance(lengthM, units)}</span>
+              <span className="text-gray-500"> · {points.length} points</span>
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onExit}
+          className="p-1 rounded-full hover:bg-gray-100 text-gray-500"
+          aria-label="Stop measuring"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {points.length >= 3 && !closed && (
+        <p className="text-xs text-gray-500">Tap the first point (or Close shape) to measure the area</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={points.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg border border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Undo2 className="w-3 h-3" />
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={points.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg border border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Trash2 className="w-3 h-3" />
+          Clear
+        </button>
+        {!closed && (
+          <button
+            type="button"
+            onClick={onCloseShape}
+            disabled={points.length < 3}
+            className="ml-auto px-2 py-1 text-xs rounded-lg bg-[var(--grass-green)] text-white hover:bg-[var(--pine-green)] disabled:opacity-50"
+          >
+            Close shape
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from './GeoButton';
+import {
+  AVERAGE_TILE_BYTES,
+  BasemapType,
+  DownloadProgress,
+  MAX_DOWNLOAD_ZOOM,
+  MAX_TILES_PER_AREA,
+  TILE_SOURCES,
+  TileBounds,
+  countTiles,
+  downloadTileArea,
+  formatBytes,
+} from '../lib/tileCache';
+
+interface OfflineAreaDownloadProps {
+  bounds: TileBounds | null; // null when there are no geofences yet
+  basemap: BasemapType;
+  defaultName: string;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = Array.from({ length: MAX_DOWNLOAD_ZOOM - 9 }, (_, i) => i + 10);
+
+/**
+ * "Download area for offline use": stores the basemap tiles of the given
+ * bounding box for a zoom range so the map works without a connection.
+ */
+export const OfflineAreaDownload: React.FC<OfflineAreaDownloadProps> = ({
+  bounds,
+  basemap,
+  defaultName,
+  onClose,
+}) => {
+  const source = TILE_SOURCES[basemap];
+  const [name, setName] = useState(defaultName);
+  const [minZoom, setMinZoom] = useState(12);
+  const [maxZoom, setMaxZoom] = useState(Math.min(17, source.maxZoom));
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const tileCount = useMemo(
+    () => (bounds && minZoom <= maxZoom ? countTiles(bounds, minZoom, maxZoom) : 0),
+    [bounds, minZoom, maxZoom]
+  );
+  const tooLarge = tileCount > MAX_TILES_PER_AREA;
+  const isDownloading = progress !== null;
+
+  const handleDownload = async () => {
+    if (!bounds) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: tileCount, failed: 0 });
+
+    try {
+      const area = await downloadTileArea({
+        name: name.trim() || defaultName,
+        basemap,
+        bounds,
+        minZoom,
+        maxZoom,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      if (area.failed_count > 0) {
+        toast.warning(`Offline map saved, ${area.failed_count} tiles could not be downloaded`);
+      } else {
+        toast.success(`Offline map saved (${formatBytes(area.bytes)})`);
+      }
+      onClose();
+    } catch (err) {
+      if (controller.signal.aborted) {
+        toast.info('Download cancelled');
+      } else {
+        console.error('Error downloading offline area:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to download offline map');
+      }
+      setProgress(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-4 border-2 border-gray-300 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[var(--deep-forest)]">Download for offline use</h4>
+        <button onClick={handleClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+          <X className="w-4 h-4 text-gray-600" />
+        </button>
+      </div>
+
+      {!bounds ? (
+        <p className="text-sm text-gray-600">Draw a zone first – the download covers all your zones.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-600">
+            {source.label} tiles around all your zones. Downloaded maps are listed under Settings → Offline maps.
+          </p>
+
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isDownloading}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)]"
+            placeholder="Name"
+          />
+
+          <div className="flex items-center gap-2 text-sm text-[var(--deep-forest)]">
+            <span>Zoom</span>
+            <select
+              value={minZoom}
+              onChange={(e) => setMinZoom(Number(e.target.value))}
+              disabled={isDownloading}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {ZOOM_LEVELS.filter((z) => z <= maxZoom).map((z) => (
+                <option key={z} value={z}>{z}</option>
+              ))}
+            </select>
+            <span>to</span>
+            <select
+              value={maxZoom}
+              onChange={(e) => setMaxZoom(Number(e.target.value))}
+              disabled={isDownloading}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {ZOOM_LEVELS.filter((z) => z >= minZoom && z <= source.maxZoom).map((z) => (
+                <option key={z} value={z}>{z}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className={`text-xs ${tooLarge ? 'text-red-600' : 'text-gray-600'}`}>
+            {tileCount} tiles, about {formatBytes(tileCount * AVERAGE_TILE_BYTES)}
+            {tooLarge && ` – too large (max ${MAX_TILES_PER_AREA} tiles), lower the maximum zoom`}
+          </p>
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[var(--grass-green)] transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-600">
+                {progress.done} / {progress.total} tiles
+                {progress.failed > 0 && ` · ${progress.failed} failed`}
+              </p>
+            </div>
+          )}
+
+          {isDownloading ? (
+            <GeoButton variant="secondary" onClick={() => abortRef.current?.abort()} className="w-full">
+              <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
+              Cancel download
+            </GeoButton>
+          ) : (
+            <GeoButton
+              variant="primary"
+              onClick={handleDownload}
+              disabled={tooLarge || tileCount === 0}
+              className="w-full"
+            >
+              <Download className="w-4 h-4 mr-2 inline" />
+              Download
+            </GeoButton>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
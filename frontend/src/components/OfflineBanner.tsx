@@ -0,0 +1,71 @@
+import React, { useEffect } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { startOfflineSync } from '../lib/offlineQueue';
+
+/**
+ * App-wide offline indicator: shows when the app runs on cached data, how
+ * many changes wait to sync, and lets the user resolve sync conflicts.
+ * Also starts replaying the offline write queue whenever we are back online.
+ */
+export const OfflineBanner: React.FC = () => {
+  const { isOnline, pendingCount, conflicts, keepMine, keepServer, syncNow } = useOfflineSync();
+
+  useEffect(() => startOfflineSync(), []);
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-0 left-0 right-0 flex justify-center pointer-events-none" style={{ zIndex: 3000 }}>
+      <div className="w-full max-w-md m-2 space-y-2 pointer-events-auto">
+        {(!isOnline || pendingCount > 0) && (
+          <div className="bg-[var(--deep-forest)] text-white rounded-lg px-3 py-2 shadow-lg flex items-center gap-2 text-sm">
+            {isOnline ? (
+              <RefreshCw className="w-4 h-4 animate-spin flex-shrink-0" />
+            ) : (
+              <WifiOff className="w-4 h-4 flex-shrink-0" />
+            )}
+            <span className="flex-1">
+              {isOnline ? 'Syncing' : 'Offline – showing last known data'}
+              {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+            </span>
+            {isOnline && pendingCount > 0 && (
+              <button onClick={() => syncNow()} className="underline text-xs">
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
+        {conflicts.map((conflict) => (
+          <div key={conflict.id} className="bg-white rounded-lg px-3 py-2 shadow-lg border-2 border-orange-400 text-sm">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-orange-500 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-[var(--deep-forest)] font-medium">{conflict.write.label} was not synced</p>
+                <p className="text-gray-600 text-xs">{conflict.reason}</p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 mt-2">
+              <button onClick={() => keepServer(conflict)} className="text-xs text-gray-600 underline">
+                Discard my change
+              </button>
+              <button
+                onClick={async () => {
+                  const { error } = await keepMine(conflict);
+                  if (error) toast.error('Could not apply your change');
+                }}
+                className="text-xs text-[var(--grass-green)] font-medium underline"
+              >
+                Keep my change
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
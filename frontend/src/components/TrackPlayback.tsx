@@ -0,0 +1,166 @@
+import React from 'react';
+import { Play, Pause, X, Loader2, MapPin } from 'lucide-react';
+
+export type PlaybackSpeed = 1 | 10 | 60;
+
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [1, 10, 60];
+
+export const PLAYBACK_WINDOWS_HOURS = [1, 6, 12, 24];
+
+interface TrackPlaybackProps {
+  trackerIds: string[];
+  trackerId: string | null;
+  onTrackerChange: (trackerId: string) => void;
+  windowHours: number;
+  onWindowChange: (hours: number) => void;
+  start: number; // ms since epoch
+  end: number; // ms since epoch
+  currentTime: number; // ms since epoch
+  onSeek: (time: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  speed: PlaybackSpeed;
+  onSpeedChange: (speed: PlaybackSpeed) => void;
+  loading?: boolean;
+  error?: string | null;
+  pointCount: number;
+  currentSpeedMps?: number | null;
+  geofenceName?: string | null;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) =>
+  new Date(ms).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Bottom panel for MapTab history playback: tracker/window pickers,
+ * play/pause, speed selector and a time scrubber.
+ */
+export const TrackPlayback: React.FC<TrackPlaybackProps> = ({
+  trackerIds,
+  trackerId,
+  onTrackerChange,
+  windowHours,
+  onWindowChange,
+  start,
+  end,
+  currentTime,
+  onSeek,
+  isPlaying,
+  onTogglePlay,
+  speed,
+  onSpeedChange,
+  loading = false,
+  error,
+  pointCount,
+  currentSpeedMps,
+  geofenceName,
+  onClose,
+}) => {
+  const hasTrack = pointCount > 0 && end > start;
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-3 border-2 border-gray-300 space-y-3">
+      {/* Pickers */}
+      <div className="flex items-center gap-2">
+        <select
+          value={trackerId || ''}
+          onChange={(e) => onTrackerChange(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+        >
+          <option value="" disabled>
+            Select tracker
+          </option>
+          {trackerIds.map((id) => (
+            <option key={id} value={id}>
+              Tracker {id}
+            </option>
+          ))}
+        </select>
+        <select
+          value={windowHours}
+          onChange={(e) => onWindowChange(Number(e.target.value))}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+        >
+          {PLAYBACK_WINDOWS_HOURS.map((h) => (
+            <option key={h} value={h}>
+              Last {h}h
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-full hover:bg-gray-100 text-gray-500"
+          aria-label="Close playback"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center gap-2 py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-[var(--deep-forest)]" />
+          <span className="text-sm text-[var(--deep-forest)]">Loading track...</span>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 text-center">Error loading track: {error}</p>
+      ) : !trackerId ? (
+        <p className="text-sm text-gray-500 text-center">Choose a tracker to replay its track</p>
+      ) : !hasTrack ? (
+        <p className="text-sm text-gray-500 text-center">No positions recorded in this window</p>
+      ) : (
+        <>
+          {/* Scrubber */}
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onTogglePlay}
+              className="bg-[var(--grass-green)] hover:bg-[var(--pine-green)] text-white p-2 rounded-lg transition-colors"
+              aria-label={isPlaying ? 'Pause playback' : 'Play track'}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <input
+              type="range"
+              min={start}
+              max={end}
+              step={1000}
+              value={currentTime}
+              onChange={(e) => onSeek(Number(e.target.value))}
+              className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-[var(--grass-green)]"
+            />
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {PLAYBACK_SPEEDS.map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => onSpeedChange(s)}
+                  className={`px-2 py-1 text-xs transition-colors ${
+                    speed === s
+                      ? 'bg-[var(--grass-green)] text-white'
+                      : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Current moment */}
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{formatClock(currentTime)}</span>
+            <span className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              {geofenceName || 'Outside all zones'}
+            </span>
+            <span>
+              {currentSpeedMps != null ? `${(currentSpeedMps * 3.6).toFixed(1)} km/h` : '–'}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
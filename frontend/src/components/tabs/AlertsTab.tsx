@@ -2,6 +2,7 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlerts, Alert } from '../../hooks/useAlerts';
+import { useSettings } from '../../hooks/useSettings';
 import {
   AlertTriangle,
   Battery,
@@ -10,6 +11,7 @@ import {
   Bell,
   ChevronRight,
   Trash2,
+  Ban,
 } from 'lucide-react';
 import welcomeImage from '../../assets/20250621-P1300259-2-3.jpg';
 
@@ -17,6 +19,7 @@ export const AlertsTab: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { alerts, loading, error, deleteAlert } = useAlerts(user?.id, true);
+  const { settings } = useSettings(user?.id);
 
   const getAlertIcon = (type: Alert['type_alert']) => {
     switch (type) {
@@ -28,6 +31,8 @@ export const AlertsTab: React.FC = () => {
         return <Battery className="w-5 h-5 text-orange-500" />;
       case 'Inactivity Detected':
         return <Activity className="w-5 h-5 text-yellow-500" />;
+      case 'in_exclusion_zone':
+        return <Ban className="w-5 h-5 text-red-500" />;
       default:
         return <AlertTriangle className="w-5 h-5 text-gray-400" />;
     }
@@ -38,6 +43,8 @@ export const AlertsTab: React.FC = () => {
       case 'out':
       case 'out_of_zone':
         return 'Out of Range';
+      case 'in_exclusion_zone':
+        return 'In Exclusion Zone';
       default:
         return type;
     }
@@ -50,9 +57,11 @@ export const AlertsTab: React.FC = () => {
       case 'out_of_zone':
         return 'Animal has left the safety area';
       case 'Low Battery':
-        return 'Device battery is below 15%';
+        return `Device battery is below ${settings?.low_battery_threshold ?? 15}%`;
       case 'Inactivity Detected':
-        return 'No movement detected for over 15 minutes';
+        return `No movement detected for over ${settings?.inactivity_minutes ?? 15} minutes`;
+      case 'in_exclusion_zone':
+        return 'Animal has entered a keep-out area';
     }
   };
 
@@ -149,6 +158,11 @@ export const AlertsTab: React.FC = () => {
                           Resolved
                         </span>
                       )}
+                      {alert.active && alert.acknowledged_at && (
+                        <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                          Acknowledged
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="flex items-center gap-1 text-sm text-gray-500">
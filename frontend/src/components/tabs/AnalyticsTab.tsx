@@ -3,8 +3,11 @@ import { useAuth } from '../../hooks/useAuth';
 import { useDevices } from '../../hooks/useDevices';
 import { useAlerts } from '../../hooks/useAlerts';
 import { useLiveLocations } from '../../hooks/useLiveLocations';
+import { useSettings } from '../../hooks/useSettings';
+import { useBatteryReadings, getBatteryTrend } from '../../hooks/useBatteryReadings';
+import { BatteryIndicator, formatBatteryTrend } from '../BatteryIndicator';
 import { ChevronDown, ChevronUp, Calendar } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import welcomeImage from '../../assets/20250621-P1300259-2-3.jpg';
 
 export const AnalyticsTab: React.FC = () => {
@@ -15,6 +18,10 @@ export const AnalyticsTab: React.FC = () => {
   // 2) still derive active-alert state per tracker
   const { alerts } = useAlerts(user?.id, false);
   const { locations } = useLiveLocations(user?.id, 5000);
+  const { settings } = useSettings(user?.id);
+  // Last 3 days of battery readings for the discharge trend
+  const { readingsByTracker } = useBatteryReadings(devices.map((d) => d.tracker_id), 72);
+  const lowBatteryThreshold = settings?.low_battery_threshold ?? 15;
   const [expandedDevice, setExpandedDevice] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
 
@@ -47,6 +54,9 @@ export const AnalyticsTab: React.FC = () => {
     });
   }, [locations]);
 
+  const formatBatteryTime = (ts: string) =>
+    new Date(ts).toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
   const toggleDevice = (deviceId: string) => {
     setExpandedDevice(expandedDevice === deviceId ? null : deviceId);
   };
@@ -145,6 +155,8 @@ export const AnalyticsTab: React.FC = () => {
         <div className="space-y-3">
           {devices.map((device) => {
             const isExpanded = expandedDevice === device.id;
+            const batteryReadings = readingsByTracker[device.tracker_id] || [];
+            const batteryTrend = getBatteryTrend(batteryReadings);
             return (
               <div key={device.id} className="bg-white rounded-lg shadow-sm overflow-hidden">
                 {/* Device Header */}
@@ -156,11 +168,14 @@ export const AnalyticsTab: React.FC = () => {
                     <h4 className="text-[var(--deep-forest)]">{device.animal_name || device.name || 'Unknown'}</h4>
                     <p className="text-sm text-gray-600">ID: {device.tracker_id}</p>
                   </div>
-                  {isExpanded ? (
-                    <ChevronUp className="w-5 h-5 text-gray-400" />
-                  ) : (
-                    <ChevronDown className="w-5 h-5 text-gray-400" />
-                  )}
+                  <div className="flex items-center gap-3">
+                    <BatteryIndicator level={device.battery_level} threshold={lowBatteryThreshold} />
+                    {isExpanded ? (
+                      <ChevronUp className="w-5 h-5 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="w-5 h-5 text-gray-400" />
+                    )}
+                  </div>
                 </button>
 
                 {/* Device Details */}
@@ -212,6 +227,37 @@ export const AnalyticsTab: React.FC = () => {
                         <p className="text-sm text-gray-600">Total Distance</p>
                         <p className="text-[var(--deep-forest)]">{Number(device.total_distance).toFixed(2)} km</p>
                       </div>
+                      <div className="bg-gray-50 rounded-lg p-3 col-span-2">
+                        <p className="text-sm text-gray-600">Battery Trend</p>
+                        <p className="text-[var(--deep-forest)]">{formatBatteryTrend(batteryTrend)}</p>
+                      </div>
+                    </div>
+
+                    {/* Battery Level Chart - y-axis percent, x-axis time (last 3 days) */}
+                    <div>
+                      <h4 className="text-[var(--deep-forest)] mb-2">Battery Level</h4>
+                      {batteryReadings.length > 0 ? (
+                        <div className="h-48">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={batteryReadings}>
+                              <CartesianGrid strokeDasharray="3 3" />
+                              <XAxis dataKey="ts" tickFormatter={formatBatteryTime} tick={{ fontSize: 10 }} minTickGap={24} />
+                              <YAxis domain={[0, 100]} label={{ value: 'Battery (%)', angle: -90, position: 'insideLeft' }} tick={{ fontSize: 10 }} />
+                              <Tooltip labelFormatter={(label) => formatBatteryTime(String(label))} formatter={(value) => [`${value}%`, 'Battery']} />
+                              <ReferenceLine y={lowBatteryThreshold} stroke="#EF4444" strokeDasharray="4 4" />
+                              <Line
+                                type="monotone"
+                                dataKey="percent"
+                                stroke="#3FB7FF"
+                                strokeWidth={2}
+                                dot={false}
+                              />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">No battery readings in the last 3 days</p>
+                      )}
                     </div>
 
                     {/* Movement Timeline Chart - y-axis speed, x-axis hours */}
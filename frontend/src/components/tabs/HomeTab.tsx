@@ -3,9 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useDevices } from '../../hooks/useDevices';
 import { useAlerts } from '../../hooks/useAlerts';
-import { CheckCircle2, AlertTriangle, Clock, Smartphone, ChevronRight } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, Clock, Smartphone, ChevronRight, Battery } from 'lucide-react';
 import { useGeofences } from '../../hooks/useGeofences';
 import { useLiveLocations } from '../../hooks/useLiveLocations';
+import { useSettings } from '../../hooks/useSettings';
+import { useBatteryReadings, getBatteryTrend } from '../../hooks/useBatteryReadings';
+import { BatteryIndicator } from '../BatteryIndicator';
 import welcomeImage from '../../assets/20250621-P1300259-2-3.jpg';
 
 export const HomeTab: React.FC = () => {
@@ -14,7 +17,11 @@ export const HomeTab: React.FC = () => {
   const { devices } = useDevices(user?.id);
   const { alerts } = useAlerts(user?.id, true);
   const { geofences } = useGeofences(user?.id);
-  const { locations } = useLiveLocations(user?.id, 5000);
+  const { locations, isStale: locationsStale, cachedAt: locationsCachedAt } = useLiveLocations(user?.id, 5000);
+  const { settings } = useSettings(user?.id);
+  const { readingsByTracker, refetch: refetchBattery } = useBatteryReadings(
+    devices.map((d) => d.tracker_id)
+  );
   const [lastUpdate, setLastUpdate] = useState(new Date());
 
   useEffect(() => {
@@ -25,6 +32,14 @@ export const HomeTab: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Battery readings arrive far less often than positions; refresh with the clock
+  useEffect(() => {
+    refetchBattery();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastUpdate]);
+
+  const lowBatteryThreshold = settings?.low_battery_threshold ?? 15;
+
   // Calculate counts according to requirements:
   // - Active Alerts: count of alerts where active = true
   // - Animals Outside: count of devices that are active (green/red markers) AND have active alert (red markers)
@@ -194,6 +209,30 @@ export const HomeTab: React.FC = () => {
           </div>
         </div>
 
+        {/* Battery */}
+        {devices.length > 0 && (
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-5">
+            <div className="flex items-center justify-center gap-3 mb-3">
+              <Battery className="w-6 h-6 text-[var(--accent-aqua)]" />
+              <h3 className="text-[var(--deep-forest)] text-[22px]">Battery</h3>
+            </div>
+            <div className="space-y-2">
+              {devices.map((device) => (
+                <div key={device.id} className="flex items-center justify-between gap-3">
+                  <p className="text-[var(--deep-forest)] text-[18px] truncate">
+                    {device.animal_name || device.name || device.tracker_id}
+                  </p>
+                  <BatteryIndicator
+                    level={device.battery_level}
+                    threshold={lowBatteryThreshold}
+                    trend={getBatteryTrend(readingsByTracker[device.tracker_id] || [])}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Last Update */}
         <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-5">
           <div className="flex items-center justify-center gap-3 mb-2">
@@ -210,7 +249,9 @@ export const HomeTab: React.FC = () => {
             </span>
           </p>
           <p className="text-[18px] text-gray-600 mt-1 text-center">
-            System is monitoring your herd
+            {locationsStale && locationsCachedAt
+              ? `Offline – positions from ${formatTime(new Date(locationsCachedAt))}`
+              : 'System is monitoring your herd'}
           </p>
         </div>
 
@@ -1,17 +1,73 @@
 import React, { useState, useMemo } from 'react';
+import * as turf from '@turf/turf';
 import { LeafletMap } from '../LeafletMap';
 import { GeoButton } from '../GeoButton';
-import { MapPin, Trash2, Edit, Loader2, Map, Mountain, Satellite, Layers, Plus, Search, Navigation } from 'lucide-react';
+import { TrackPlayback, PlaybackSpeed } from '../TrackPlayback';
+import { OfflineAreaDownload } from '../OfflineAreaDownload';
+import { GrazingHeatmapPanel } from '../GrazingHeatmapPanel';
+import { LocationSearch, buildLocalSearchEntries } from '../LocationSearch';
+import { AnimalDetailSheet } from '../AnimalDetailSheet';
+import { MeasurePanel } from '../MeasurePanel';
+import { MapPin, Trash2, Edit, Loader2, Map, Mountain, Satellite, Layers, Plus, Search, Navigation, History, Download, Group, Flame, LocateFixed, X, Target, Ruler, ImageIcon, Layers2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
-import { useLiveLocations } from '../../hooks/useLiveLocations';
-import { useGeofences } from '../../hooks/useGeofences';
-import { useAlerts } from '../../hooks/useAlerts';
+import { useLiveLocations, isLowAccuracyFix } from '../../hooks/useLiveLocations';
+import { useGeofences, GeofenceKind } from '../../hooks/useGeofences';
+import { useAlerts, Alert } from '../../hooks/useAlerts';
+import { useLocationHistory } from '../../hooks/useLocationHistory';
+import { useDevices } from '../../hooks/useDevices';
+import { useGrazingDensity } from '../../hooks/useGrazingDensity';
+import { useSettings } from '../../hooks/useSettings';
+import { useMeasureTool } from '../../hooks/useMeasureTool';
+import { useMapLayers } from '../../hooks/useMapLayers';
 import { supabase } from '../../lib/supabase';
+import { TileBounds } from '../../lib/tileCache';
+import { CUSTOM_BASEMAP_PREFIX, customBasemapKey, findCustomBasemap } from '../../lib/mapLayers';
+import { GeocodeResult } from '../../lib/geocoding';
+import { LatLngMultiPolygon, isPointInPolygons, toLatLngPolygons } from '../../lib/geometry';
+import {
+  ALL_SCHEDULE_DAYS,
+  ZoneScheduleStatus,
+  formatScheduleChange,
+  getZoneScheduleStatus,
+  toScheduleWindows,
+  zoneCenter,
+} from '../../lib/zoneSchedule';
 import { toast } from 'sonner';
 
 type BasemapType = 'street' | 'terrain' | 'satellite';
 
+const isBuiltinBasemap = (value: string): value is BasemapType =>
+  value === 'street' || value === 'terrain' || value === 'satellite';
+
+// Seconds without a fix before a tracker is shown as inactive (grey)
+const LIVE_ACTIVE_SECONDS = 30;
+
+// Marker coloring rules:
+// - green: live_location_active = true AND has_active_alert = false
+// - red: live_location_active = true AND has_active_alert = true
+// - grey: live_location_active = false
+const getLiveMarkerColor = (isActive: boolean, hasAlert: boolean) => {
+  if (!isActive) return '#9CA3AF'; // Grey (inactive)
+  return hasAlert ? '#EF4444' : '#78A64A'; // Red: active but has alert, Green: active and no alert
+};
+
+// Below this speed GPS headings are mostly noise, so no direction arrow
+const HEADING_MIN_SPEED_MPS = 0.3;
+
+// Margin around the zones' bounding box for offline map downloads (fraction of its size)
+const OFFLINE_AREA_PADDING = 0.1;
+
+// Playback clock tick (real time)
+const PLAYBACK_TICK_MS = 250;
+
+// How often scheduled zones are re-checked for switching on / off
+const SCHEDULE_TICK_MS = 60 * 1000;
+
+// "On until 19:42" / "Off until Tue 06:00"
+const scheduleLabel = (status: ZoneScheduleStatus, timeZone: string, now: Date) =>
+  `${status.active ? 'On' : 'Off'}${status.nextChange ? ` until ${formatScheduleChange(status.nextChange, timeZone, now)}` : ''}`;
+
 export const MapTab: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -22,7 +78,11 @@ export const MapTab: React.FC = () => {
   const [selectedGeofenceId, setSelectedGeofenceId] = useState<number | null>(null);
   const { locations, loading: locationsLoading, error: locationsError } = useLiveLocations(user?.id, 5000);
   const { geofences, loading: geofencesLoading, error: geofencesError } = useGeofences(user?.id);
-  const { alerts } = useAlerts(user?.id, true);
+  const { alerts, acknowledgeAlert } = useAlerts(user?.id, true);
+  const { devices } = useDevices(user?.id);
+  const { settings } = useSettings(user?.id);
+  const measureTool = useMeasureTool();
+  const { layers: mapLayers } = useMapLayers(user?.id);
 
   const geolocationRequestedRef = React.useRef(false);
   const saveViewportTimeoutRef = React.useRef<number | null>(null);
@@ -30,13 +90,17 @@ export const MapTab: React.FC = () => {
 
   const LAST_VIEWPORT_KEY = 'MapTab:lastViewport';
   const BASEMAP_KEY = 'MapTab:basemap';
+  const CLUSTER_KEY = 'MapTab:clusterMarkers';
+  const ACCURACY_KEY = 'MapTab:showAccuracy';
+  const OVERLAYS_KEY = 'MapTab:overlays';
 
-  // Basemap state with localStorage persistence
-  const [activeBasemap, setActiveBasemap] = useState<BasemapType>(() => {
+  // Basemap state with localStorage persistence: a built-in basemap or
+  // 'custom:<id>' for a user-defined one (Settings → Map layers)
+  const [basemapChoice, setBasemapChoice] = useState<string>(() => {
     if (typeof window === 'undefined') return 'satellite';
     try {
       const saved = window.localStorage.getItem(BASEMAP_KEY);
-      if (saved === 'street' || saved === 'terrain' || saved === 'satellite') {
+      if (saved && (isBuiltinBasemap(saved) || saved.startsWith(CUSTOM_BASEMAP_PREFIX))) {
         return saved;
       }
     } catch (err) {
@@ -45,12 +109,133 @@ export const MapTab: React.FC = () => {
     return 'satellite';
   });
 
+  // Enabled user-defined overlays (map_layers ids), persisted like the basemap
+  const [activeOverlayIds, setActiveOverlayIds] = useState<number[]>(() => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const saved = JSON.parse(window.localStorage.getItem(OVERLAYS_KEY) || '[]');
+      return Array.isArray(saved) ? saved.filter((id): id is number => typeof id === 'number') : [];
+    } catch (err) {
+      console.error('Failed to load saved overlays:', err);
+      return [];
+    }
+  });
+
+  // A deleted custom basemap falls back to satellite
+  const customBasemap = useMemo(() => findCustomBasemap(mapLayers, basemapChoice), [mapLayers, basemapChoice]);
+  const activeBasemap: BasemapType = isBuiltinBasemap(basemapChoice) ? basemapChoice : 'satellite';
+  const customBasemapLayers = useMemo(() => mapLayers.filter((l) => l.usage === 'basemap'), [mapLayers]);
+  const overlayLayers = useMemo(() => mapLayers.filter((l) => l.usage === 'overlay'), [mapLayers]);
+  const activeOverlays = useMemo(
+    () => overlayLayers.filter((l) => activeOverlayIds.includes(l.id)),
+    [overlayLayers, activeOverlayIds]
+  );
+
+  // Marker clustering (on by default, persisted like the basemap)
+  const [clusterMarkers, setClusterMarkers] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return true;
+    try {
+      return window.localStorage.getItem(CLUSTER_KEY) !== 'false';
+    } catch (err) {
+      console.error('Failed to load marker clustering preference:', err);
+      return true;
+    }
+  });
+
+  // GPS accuracy circles when zoomed in (on by default, persisted)
+  const [showAccuracy, setShowAccuracy] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return true;
+    try {
+      return window.localStorage.getItem(ACCURACY_KEY) !== 'false';
+    } catch (err) {
+      console.error('Failed to load accuracy circle preference:', err);
+      return true;
+    }
+  });
+
   const [isBasemapMenuOpen, setIsBasemapMenuOpen] = useState(false);
+  const [isOfflineDownloadOpen, setIsOfflineDownloadOpen] = useState(false);
+
+  // Grazing density heatmap: 'all', 'batch:<batch_id>' or 'tracker:<tracker_id>'
+  const [isHeatmapOn, setIsHeatmapOn] = useState(false);
+  const [heatmapWindowHours, setHeatmapWindowHours] = useState<number>(72);
+  const [heatmapFilter, setHeatmapFilter] = useState<string>('all');
   const [showSearchModal, setShowSearchModal] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [flyTarget, setFlyTarget] = useState<{
+    center: [number, number];
+    zoom?: number;
+    bounds?: [[number, number], [number, number]];
+  } | null>(null);
+
+  // Animal detail sheet and follow mode (tracker ids)
+  const [selectedTrackerId, setSelectedTrackerId] = useState<string | null>(null);
+  const [followTrackerId, setFollowTrackerId] = useState<string | null>(null);
+  const [acknowledgingAlertId, setAcknowledgingAlertId] = useState<string | null>(null);
+
+  // History playback state
+  const [isPlaybackOpen, setIsPlaybackOpen] = useState(false);
+  const [playbackTrackerId, setPlaybackTrackerId] = useState<string | null>(null);
+  const [playbackWindowHours, setPlaybackWindowHours] = useState<number>(1);
+  const [playbackRange, setPlaybackRange] = useState<{ from: Date; to: Date } | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
+  const {
+    points: trackPoints,
+    loading: trackLoading,
+    error: trackError,
+  } = useLocationHistory(
+    isPlaybackOpen ? playbackTrackerId : null,
+    playbackRange?.from,
+    playbackRange?.to
+  );
+
+  const heatmapTrackerIds = useMemo(() => {
+    if (heatmapFilter.startsWith('tracker:')) {
+      return [heatmapFilter.slice('tracker:'.length)];
+    }
+    if (heatmapFilter.startsWith('batch:')) {
+      const batchId = heatmapFilter.slice('batch:'.length);
+      return devices.filter((d) => d.batch_id === batchId).map((d) => d.tracker_id);
+    }
+    return null; // whole herd
+  }, [heatmapFilter, devices]);
 
-  const handleBasemapChange = (basemap: BasemapType) => {
-    setActiveBasemap(basemap);
+  const {
+    cells: heatmapCells,
+    loading: heatmapLoading,
+    error: heatmapError,
+  } = useGrazingDensity(isHeatmapOn, heatmapWindowHours, heatmapTrackerIds);
+
+  const heatmapFilterOptions = useMemo(() => {
+    const batchIds = Array.from(
+      new Set(devices.map((d) => d.batch_id).filter((id): id is string => !!id))
+    ).sort();
+    return [
+      {
+        group: 'Batches',
+        options: batchIds.map((id) => ({ value: `batch:${id}`, label: `Batch ${id}` })),
+      },
+      {
+        group: 'Animals',
+        options: devices.map((d) => ({
+          value: `tracker:${d.tracker_id}`,
+          label: d.animal_name || d.name || `Tracker ${d.tracker_id}`,
+        })),
+      },
+    ];
+  }, [devices]);
+
+  const heatmap = useMemo(
+    () =>
+      isHeatmapOn
+        ? { points: heatmapCells.map((c) => ({ lat: c.lat, lng: c.lng, weight: c.dwell_s })) }
+        : null,
+    [isHeatmapOn, heatmapCells]
+  );
+
+  const handleBasemapChange = (basemap: string) => {
+    setBasemapChoice(basemap);
     setIsBasemapMenuOpen(false); // Close menu after selection
     if (typeof window !== 'undefined') {
       try {
@@ -61,38 +246,44 @@ export const MapTab: React.FC = () => {
     }
   };
 
-  type LatLng = [number, number];
-
-  function toLatLngArray(input: any): LatLng[] {
-    if (!input) return [];
-
-    // Si viene como string JSON
-    if (typeof input === "string") {
-      try { input = JSON.parse(input); } catch { return []; }
-    }
-
-    // Si viene como GeoJSON Feature
-    if (input?.type === "Feature" && input?.geometry) input = input.geometry;
-
-    // GeoJSON Polygon: coordinates[0] es el anillo exterior en [lng,lat]
-    if (input?.type === "Polygon" && Array.isArray(input.coordinates)) {
-      const ring = input.coordinates[0] ?? [];
-      return ring.map(([lng, lat]: number[]) => [lat, lng]);
+  // Overlays stack, so the menu stays open
+  const handleToggleOverlay = (id: number) => {
+    const next = activeOverlayIds.includes(id)
+      ? activeOverlayIds.filter((overlayId) => overlayId !== id)
+      : [...activeOverlayIds, id];
+    setActiveOverlayIds(next);
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(OVERLAYS_KEY, JSON.stringify(next));
+      } catch (err) {
+        console.error('Failed to save overlay preference:', err);
+      }
     }
+  };
 
-    // GeoJSON MultiPolygon: toma el primer polígono/anillo
-    if (input?.type === "MultiPolygon" && Array.isArray(input.coordinates)) {
-      const ring = input.coordinates?.[0]?.[0] ?? [];
-      return ring.map(([lng, lat]: number[]) => [lat, lng]);
+  const handleToggleClustering = () => {
+    const next = !clusterMarkers;
+    setClusterMarkers(next);
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(CLUSTER_KEY, String(next));
+      } catch (err) {
+        console.error('Failed to save marker clustering preference:', err);
+      }
     }
+  };
 
-    // Formato viejo: [[lat,lng], ...]
-    if (Array.isArray(input) && input.length && Array.isArray(input[0])) {
-      return input.map((p: any) => [Number(p[0]), Number(p[1])] as LatLng);
+  const handleToggleAccuracy = () => {
+    const next = !showAccuracy;
+    setShowAccuracy(next);
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(ACCURACY_KEY, String(next));
+      } catch (err) {
+        console.error('Failed to save accuracy circle preference:', err);
+      }
     }
-
-    return [];
-  }
+  };
 
   // Load last saved viewport from localStorage on mount
   React.useEffect(() => {
@@ -200,9 +391,9 @@ export const MapTab: React.FC = () => {
 
     // Prefer geofence polygons
     if (geofences.length > 0) {
-      const coords = toLatLngArray(geofences[0].boundary_inner);
-      if (coords.length > 0) {
-        setMapCenter(coords[0]);
+      const parts = toLatLngPolygons(geofences[0].boundary_inner);
+      if (parts.length > 0) {
+        setMapCenter(parts[0][0][0]);
         return;
       }
     }
@@ -244,6 +435,7 @@ export const MapTab: React.FC = () => {
   // Clear selection when clicking on map (not on polygon)
   const handleMapClick = () => {
     setSelectedGeofenceId(null);
+    setSelectedTrackerId(null);
   };
 
   const handleUseCurrentLocation = () => {
@@ -263,12 +455,18 @@ export const MapTab: React.FC = () => {
     }
   };
 
-  const handleSearchLocation = async () => {
-    if (!searchQuery.trim()) return;
-    
-    toast.info('Geocoding service will be implemented soon');
-    setShowSearchModal(false);
-    setSearchQuery('');
+  const searchEntries = useMemo(
+    () => buildLocalSearchEntries(geofences, devices, locations),
+    [geofences, devices, locations]
+  );
+
+  // Fly to the chosen search result; the viewport is saved via onViewportChange
+  const handleSearchSelect = (result: GeocodeResult) => {
+    setFlyTarget({
+      center: [result.lat, result.lng],
+      zoom: result.kind === 'animal' ? 18 : 17,
+      bounds: result.bounds,
+    });
   };
 
   const stopLeaflet = (e: React.SyntheticEvent) => {
@@ -339,32 +537,81 @@ export const MapTab: React.FC = () => {
   //  });
   //}
 
+  // Scheduled zones: switched on / off right now, and when that changes
+  const [scheduleNow, setScheduleNow] = useState(() => new Date());
+  React.useEffect(() => {
+    const intervalId = window.setInterval(() => setScheduleNow(new Date()), SCHEDULE_TICK_MS);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const farmTimeZone = settings?.timezone ?? 'UTC';
+  const scheduleStatuses = useMemo(() => {
+    const statuses: Record<number, ZoneScheduleStatus> = {};
+    geofences.forEach((geofence) => {
+      if (!geofence.schedule_enabled) return;
+      const center = zoneCenter(geofence.boundary_inner);
+      if (!center) return;
+      statuses[geofence.id] = getZoneScheduleStatus(
+        {
+          schedule_enabled: true,
+          schedule_days: geofence.schedule_days ?? ALL_SCHEDULE_DAYS,
+          schedule_windows: toScheduleWindows(geofence.schedule_windows),
+        },
+        center,
+        farmTimeZone,
+        scheduleNow
+      );
+    });
+    return statuses;
+  }, [geofences, farmTimeZone, scheduleNow]);
+
   // Prepare polygons from geofences (only inner_geom, not outer_geom)
   const polygons = useMemo(() => {
     const polyArray: Array<{
-      coordinates: [number, number][];
+      coordinates: LatLngMultiPolygon;
       color: string;
       fillColor: string;
       fillOpacity: number;
       id: number;
+      kind: GeofenceKind;
+      inactive?: boolean;
+      label?: string;
     }> = [];
 
     geofences.forEach((geofence) => {
-      const coords = toLatLngArray(geofence.boundary_inner);
+      // All parts and holes of the zone
+      const parts = toLatLngPolygons(geofence.boundary_inner);
 
-      if (coords.length >= 3) {
+      if (parts.length > 0) {
         // Only show inner_geom (main geofence) - per requirements, do not render outer_geom
         polyArray.push({
-          coordinates: coords,
+          coordinates: parts,
           color: '#78A64A',
           fillColor: '#78A64A',
           fillOpacity: 0.3,
           id: geofence.id,
+          kind: geofence.kind || 'include', // exclusion zones are drawn red by LeafletMap
+          // Switched off by its schedule: grey, and ignored by alerts
+          inactive: scheduleStatuses[geofence.id]?.active === false,
+          label: scheduleStatuses[geofence.id] && scheduleLabel(scheduleStatuses[geofence.id], farmTimeZone, scheduleNow),
         });
       }
     });
 
     return polyArray;
+  }, [geofences, scheduleStatuses, farmTimeZone, scheduleNow]);
+
+  // Bounding box of all zones (plus a margin) for "download for offline use"
+  const offlineAreaBounds = useMemo((): TileBounds | null => {
+    const features = geofences
+      .filter((g) => g.boundary_inner?.coordinates?.length)
+      .map((g) => turf.feature(g.boundary_inner as any));
+    if (features.length === 0) return null;
+
+    const [west, south, east, north] = turf.bbox(turf.featureCollection(features));
+    const padLng = (east - west) * OFFLINE_AREA_PADDING;
+    const padLat = (north - south) * OFFLINE_AREA_PADDING;
+    return [west - padLng, south - padLat, east + padLng, north + padLat];
   }, [geofences]);
 
   // Handle polygon click
@@ -376,6 +623,7 @@ export const MapTab: React.FC = () => {
       const geofence = geofences.find(g => g.id === polygon.id);
       if (geofence && geofence.user_id === user?.id) {
         setSelectedGeofenceId(polygon.id);
+        setSelectedTrackerId(null);
       } else {
         console.warn('Attempted to select geofence not owned by current user');
       }
@@ -395,11 +643,8 @@ export const MapTab: React.FC = () => {
   };
 
 
-  // Prepare markers from live locations with coloring rules:
-  // - green: live_location_active = true AND has_active_alert = false
-  // - red: live_location_active = true AND has_active_alert = true
-  // - grey: live_location_active = false
-  const markers = useMemo(() => {
+  // Prepare markers from live locations with coloring rules (see getLiveMarkerColor)
+  const liveMarkers = useMemo(() => {
     return locations
       .filter((location) => {
         // Only include locations with valid geometry or lat/lng fallback
@@ -410,8 +655,8 @@ export const MapTab: React.FC = () => {
         const now = new Date();
         const secondsSinceUpdate = (now.getTime() - updatedAt.getTime()) / 1000;
         
-        // Determine if location is active (updated within last 1 minute)
-        const live_location_active = secondsSinceUpdate <= 30;
+        // Determine if location is active (updated within last 30 seconds)
+        const live_location_active = secondsSinceUpdate <= LIVE_ACTIVE_SECONDS;
         
         // Check if device has active alert
         // Find device by tracker_id, then check if it has active alerts
@@ -423,14 +668,7 @@ export const MapTab: React.FC = () => {
         const has_active_alert = deviceAlerts.length > 0;
         
         // Determine marker color based on rules
-        let color = '#9CA3AF'; // Grey (default - inactive)
-        if (live_location_active) {
-          if (has_active_alert) {
-            color = '#EF4444'; // Red: active but has alert
-          } else {
-            color = '#78A64A'; // Green: active and no alert
-          }
-        }
+        const color = getLiveMarkerColor(live_location_active, has_active_alert);
 
         // Extract lat/lng from geometry (GeoJSON Point format: [lng, lat])
         // Fallback to lat/lng columns if geom is not available
@@ -447,27 +685,215 @@ export const MapTab: React.FC = () => {
           markerLng = location.lng;
         }
 
-        // Build popup content
-        const popupContent = `
-          <div style="padding: 8px;">
-            <strong>Tracker: ${location.tracker_id}</strong><br/>
-            <small>Updated: ${updatedAt.toLocaleString()}</small><br/>
-            <small>Status: ${live_location_active ? 'Active' : 'Inactive'}</small><br/>
-            ${has_active_alert ? '<small style="color: red;">⚠ Has Active Alert</small><br/>' : ''}
-            ${location.speed_mps !== null ? `<small>Speed: ${(location.speed_mps * 3.6).toFixed(1)} km/h</small><br/>` : ''}
-            ${location.accuracy_m !== null ? `<small>Accuracy: ${location.accuracy_m.toFixed(1)}m</small>` : ''}
-          </div>
-        `;
+        // Direction arrow only while the animal is actually moving
+        const isMoving = location.speed_mps != null && location.speed_mps >= HEADING_MIN_SPEED_MPS;
 
+        // Details open in AnimalDetailSheet on tap, so no popup
         return {
+          id: location.tracker_id,
           position: [markerLat, markerLng] as [number, number],
           color,
-          label: `Tracker ${location.tracker_id}`,
-          popup: popupContent,
+          heading: isMoving ? location.heading_deg : null,
+          accuracyM: location.accuracy_m,
+          lowAccuracy: isLowAccuracyFix(location),
+          isActive: live_location_active,
         };
       });
   }, [locations, alerts]);
 
+  // ==========================================================================
+  // Animal detail sheet / follow mode
+  // ==========================================================================
+
+  const handleMarkerClick = (markerIndex: number) => {
+    // Playback markers are history fixes, not live animals
+    if (isPlaybackOpen) return;
+    const marker = liveMarkers[markerIndex];
+    if (marker) {
+      setSelectedTrackerId(marker.id);
+      setSelectedGeofenceId(null);
+    }
+  };
+
+  const selectedAnimal = useMemo(() => {
+    if (!selectedTrackerId) return null;
+    return {
+      device: devices.find((d) => d.tracker_id === selectedTrackerId),
+      location: locations.find((l) => l.tracker_id === selectedTrackerId),
+      alerts: alerts.filter((a) => a.device?.tracker_id === selectedTrackerId),
+      isActive: liveMarkers.find((m) => m.id === selectedTrackerId)?.isActive ?? false,
+    };
+  }, [selectedTrackerId, devices, locations, alerts, liveMarkers]);
+
+  const followDevice = followTrackerId ? devices.find((d) => d.tracker_id === followTrackerId) : undefined;
+  const followName = followDevice?.animal_name || followDevice?.name || `Tracker ${followTrackerId}`;
+
+  const handleAcknowledgeAlert = async (alert: Alert) => {
+    if (!user?.id) return;
+    try {
+      setAcknowledgingAlertId(alert.id);
+      await acknowledgeAlert(alert.id, user.id);
+    } catch (err) {
+      console.error('Failed to acknowledge alert:', err);
+      toast.error('Failed to acknowledge alert. Please try again.');
+    } finally {
+      setAcknowledgingAlertId(null);
+    }
+  };
+
+  const handleViewHistory = () => {
+    if (!selectedTrackerId) return;
+    setPlaybackTrackerId(selectedTrackerId);
+    setIsPlaying(false);
+    setIsPlaybackOpen(true);
+    setFollowTrackerId(null);
+    setSelectedTrackerId(null);
+  };
+
+  const handleEditDevice = () => {
+    const device = selectedAnimal?.device;
+    if (!device) return;
+    navigate(`/link-devices?mode=edit&device=${device.id}`, {
+      state: {
+        mode: 'edit',
+        from: { pathname: '/main', mainTab: 'map' }
+      }
+    });
+  };
+
+  // ==========================================================================
+  // History playback
+  // ==========================================================================
+
+  const playbackTrackerIds = useMemo(
+    () => Array.from(new Set(locations.map((l) => l.tracker_id))).sort(),
+    [locations]
+  );
+
+  // Default to the first tracker when the panel opens
+  React.useEffect(() => {
+    if (isPlaybackOpen && !playbackTrackerId && playbackTrackerIds.length > 0) {
+      setPlaybackTrackerId(playbackTrackerIds[0]);
+    }
+  }, [isPlaybackOpen, playbackTrackerId, playbackTrackerIds]);
+
+  // Fix the time window when the panel opens or the window/tracker changes,
+  // so polling re-renders don't trigger new history queries
+  React.useEffect(() => {
+    if (!isPlaybackOpen) {
+      setPlaybackRange(null);
+      return;
+    }
+    const to = new Date();
+    const from = new Date(to.getTime() - playbackWindowHours * 60 * 60 * 1000);
+    setPlaybackRange({ from, to });
+  }, [isPlaybackOpen, playbackWindowHours, playbackTrackerId]);
+
+  const trackTimes = useMemo(
+    () => trackPoints.map((p) => new Date(p.captured_at).getTime()),
+    [trackPoints]
+  );
+  const playbackStart = trackTimes.length > 0 ? trackTimes[0] : 0;
+  const playbackEnd = trackTimes.length > 0 ? trackTimes[trackTimes.length - 1] : 0;
+
+  // Rewind whenever a new track is loaded
+  React.useEffect(() => {
+    setIsPlaying(false);
+    setPlaybackTime(playbackStart);
+  }, [trackPoints, playbackStart]);
+
+  // Playback clock: advance scrubber time by tick * speed
+  React.useEffect(() => {
+    if (!isPlaying) return;
+    const intervalId = window.setInterval(() => {
+      setPlaybackTime((t) => {
+        const next = t + PLAYBACK_TICK_MS * playbackSpeed;
+        if (next >= playbackEnd) {
+          setIsPlaying(false);
+          return playbackEnd;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+    return () => window.clearInterval(intervalId);
+  }, [isPlaying, playbackSpeed, playbackEnd]);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && playbackTime >= playbackEnd) {
+      // Restart from the beginning when play is pressed at the end
+      setPlaybackTime(playbackStart);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleClosePlayback = () => {
+    setIsPlaying(false);
+    setIsPlaybackOpen(false);
+  };
+
+  // Index of the last fix at or before the scrubber time (binary search)
+  const playbackIndex = useMemo(() => {
+    if (trackTimes.length === 0) return -1;
+    let lo = 0;
+    let hi = trackTimes.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (trackTimes[mid] <= playbackTime) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }, [trackTimes, playbackTime]);
+
+  const playbackPoint = playbackIndex >= 0 ? trackPoints[playbackIndex] : null;
+
+  // Geofence the animal was in at the current playback moment
+  // (an exclusion zone wins over the safe area around it)
+  const playbackGeofence = useMemo(() => {
+    if (!playbackPoint) return null;
+    const matches = polygons.filter((polygon) =>
+      isPointInPolygons([playbackPoint.lat, playbackPoint.lng], polygon.coordinates)
+    );
+    const match = matches.find((m) => m.kind === 'exclude') || matches[0];
+    return match ? geofences.find((g) => g.id === match.id) || null : null;
+  }, [playbackPoint, polygons, geofences]);
+
+  const playbackMarkers = useMemo(() => {
+    if (!playbackPoint) return [];
+    // Same coloring rules as live markers:
+    // - active: the shown fix is at most LIVE_ACTIVE_SECONDS older than the scrubber time
+    // - alert: outside all safe areas, or inside an exclusion zone (what the trigger alerts on)
+    const isActive = (playbackTime - new Date(playbackPoint.captured_at).getTime()) / 1000 <= LIVE_ACTIVE_SECONDS;
+    const hasSafeAreas = polygons.some((p) => p.kind === 'include');
+    const hasAlert = playbackGeofence
+      ? playbackGeofence.kind === 'exclude'
+      : hasSafeAreas;
+    return [
+      {
+        position: [playbackPoint.lat, playbackPoint.lng] as [number, number],
+        color: getLiveMarkerColor(isActive, hasAlert),
+        label: `Tracker ${playbackTrackerId} – ${new Date(playbackPoint.captured_at).toLocaleString()}`,
+      },
+    ];
+  }, [playbackPoint, playbackTime, playbackGeofence, polygons, playbackTrackerId]);
+
+  const playbackPolylines = useMemo(() => {
+    if (trackPoints.length < 2) return [];
+    const fullTrack = trackPoints.map((p) => [p.lat, p.lng] as [number, number]);
+    return [
+      // Whole window, faint
+      { coordinates: fullTrack, color: '#FFFFFF', weight: 3, opacity: 0.6, dashArray: '4 6', id: 'track-full' },
+      // Travelled so far, solid
+      { coordinates: fullTrack.slice(0, playbackIndex + 1), color: '#3FB7FF', weight: 4, opacity: 0.95, id: 'track-travelled' },
+    ];
+  }, [trackPoints, playbackIndex]);
+
+  const markers = isPlaybackOpen ? playbackMarkers : liveMarkers;
+  const polylines = isPlaybackOpen ? playbackPolylines : [];
 
 
 
@@ -505,14 +931,51 @@ export const MapTab: React.FC = () => {
         onZoomChange={setMapZoom}
         onMapClick={handleMapClick}
         onPolygonClick={handlePolygonClick}
+        onMarkerClick={handleMarkerClick}
         polygons={polygons}
         markers={markers}
+        polylines={polylines}
         selectedPolygonId={selectedGeofenceId}
         autoFitBounds={!hasSavedViewport}
         basemap={activeBasemap}
+        customBasemap={customBasemap}
+        overlays={activeOverlays}
+        clusterMarkers={clusterMarkers && !isPlaybackOpen}
+        showAccuracy={showAccuracy}
+        heatmap={heatmap}
+        flyTo={flyTarget}
+        selectedMarkerId={isPlaybackOpen ? null : selectedTrackerId}
+        followMarkerId={isPlaybackOpen ? null : followTrackerId}
+        onFollowStop={() => setFollowTrackerId(null)}
+        measurement={measureTool.measurement}
+        onMeasurePoint={measureTool.addPoint}
         className="w-full h-full"
       />
 
+      {/* Follow mode indicator (the sheet has its own toggle) */}
+      {followTrackerId && !selectedTrackerId && !isPlaybackOpen && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[2000] pointer-events-auto">
+          <div className="flex items-center gap-2 bg-[var(--deep-forest)] text-white rounded-full pl-3 pr-1 py-1 shadow-lg">
+            <LocateFixed className="w-4 h-4" />
+            <button
+              type="button"
+              onClick={() => setSelectedTrackerId(followTrackerId)}
+              className="text-sm max-w-[10rem] truncate"
+            >
+              Following {followName}
+            </button>
+            <button
+              type="button"
+              onClick={() => setFollowTrackerId(null)}
+              className="p-1 rounded-full hover:bg-white/20"
+              aria-label="Stop following"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Floating buttons - Search and Current Location */}
       <div className="absolute right-4 top-4 z-[5000] pointer-events-auto">
         <div className="bg-[var(--grass-green)]/90 backdrop-blur-sm rounded-lg p-1 shadow-lg flex flex-col gap-2">
@@ -539,9 +1002,96 @@ export const MapTab: React.FC = () => {
           >
             <Navigation className="w-4 h-4 text-[var(--deep-forest)]" />
           </button>
+
+          <button
+            onPointerDown={stopLeaflet}
+            onClick={(e) => {
+              stopLeaflet(e);
+              setIsPlaybackOpen(!isPlaybackOpen);
+              setIsPlaying(false);
+              measureTool.stop();
+            }}
+            className={`p-3 rounded-lg transition-colors ${
+              isPlaybackOpen ? 'bg-[var(--deep-forest)] text-white' : 'bg-white/90 hover:bg-white text-[var(--deep-forest)]'
+            }`}
+            title="Track history playback"
+          >
+            <History className="w-4 h-4" />
+          </button>
+
+          <button
+            onPointerDown={stopLeaflet}
+            onClick={(e) => {
+              stopLeaflet(e);
+              // Measuring takes over map taps: drop selections and playback
+              if (!measureTool.isMeasuring) {
+                setSelectedGeofenceId(null);
+                setSelectedTrackerId(null);
+                handleClosePlayback();
+              }
+              measureTool.toggle();
+            }}
+            className={`p-3 rounded-lg transition-colors ${
+              measureTool.isMeasuring ? 'bg-[var(--deep-forest)] text-white' : 'bg-white/90 hover:bg-white text-[var(--deep-forest)]'
+            }`}
+            aria-pressed={measureTool.isMeasuring}
+            title="Measure distance and area"
+          >
+            <Ruler className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
+      {/* Measure panel */}
+      {measureTool.measurement && (
+        <div
+          className="absolute left-4 right-4 bottom-16 pointer-events-auto"
+          style={{ zIndex: 2000 }}
+        >
+          <MeasurePanel
+            measurement={measureTool.measurement}
+            units={settings?.units ?? 'km'}
+            onUndo={measureTool.undo}
+            onClear={measureTool.clear}
+            onCloseShape={measureTool.close}
+            onExit={measureTool.stop}
+          />
+        </div>
+      )}
+
+      {/* History Playback Panel */}
+      {isPlaybackOpen && (
+        <div
+          className="absolute left-4 right-4 bottom-16 pointer-events-auto"
+          style={{ zIndex: 2000 }}
+        >
+          <TrackPlayback
+            trackerIds={playbackTrackerIds}
+            trackerId={playbackTrackerId}
+            onTrackerChange={setPlaybackTrackerId}
+            windowHours={playbackWindowHours}
+            onWindowChange={setPlaybackWindowHours}
+            start={playbackStart}
+            end={playbackEnd}
+            currentTime={playbackTime}
+            onSeek={(t) => {
+              setIsPlaying(false);
+              setPlaybackTime(t);
+            }}
+            isPlaying={isPlaying}
+            onTogglePlay={handleTogglePlay}
+            speed={playbackSpeed}
+            onSpeedChange={setPlaybackSpeed}
+            loading={trackLoading}
+            error={trackError}
+            pointCount={trackPoints.length}
+            currentSpeedMps={playbackPoint?.speed_mps}
+            geofenceName={playbackGeofence?.name}
+            onClose={handleClosePlayback}
+          />
+        </div>
+      )}
+
       {/* Draw Geofence Shortcut Button - Bottom Right */}
       <div 
         className="absolute bottom-4 right-4 pointer-events-auto"
@@ -590,7 +1140,7 @@ export const MapTab: React.FC = () => {
                 type="button"
                 onClick={() => handleBasemapChange('street')}
                 className={`p-2 rounded-md transition-all ${
-                  activeBasemap === 'street'
+                  !customBasemap && activeBasemap === 'street'
                     ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
                     : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                 }`}
@@ -603,7 +1153,7 @@ export const MapTab: React.FC = () => {
                 type="button"
                 onClick={() => handleBasemapChange('terrain')}
                 className={`p-2 rounded-md transition-all ${
-                  activeBasemap === 'terrain'
+                  !customBasemap && activeBasemap === 'terrain'
                     ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
                     : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                 }`}
@@ -616,7 +1166,7 @@ export const MapTab: React.FC = () => {
                 type="button"
                 onClick={() => handleBasemapChange('satellite')}
                 className={`p-2 rounded-md transition-all ${
-                  activeBasemap === 'satellite'
+                  !customBasemap && activeBasemap === 'satellite'
                     ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
                     : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                 }`}
@@ -625,11 +1175,147 @@ export const MapTab: React.FC = () => {
               >
                 <Satellite className="w-5 h-5" />
               </button>
+              {/* User-defined basemaps and overlays (Settings → Map layers) */}
+              {customBasemapLayers.map((layer) => (
+                <button
+                  key={layer.id}
+                  type="button"
+                  onClick={() => handleBasemapChange(customBasemapKey(layer))}
+                  className={`p-2 rounded-md transition-all flex items-center gap-2 text-xs max-w-[10rem] ${
+                    customBasemap?.id === layer.id
+                      ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
+                      : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                  }`}
+                  aria-label={`Basemap ${layer.name}`}
+                  title={layer.name}
+                >
+                  <ImageIcon className="w-5 h-5 shrink-0" />
+                  <span className="truncate">{layer.name}</span>
+                </button>
+              ))}
+              {overlayLayers.length > 0 && <div className="border-t border-gray-200" />}
+              {overlayLayers.map((layer) => {
+                const isActive = activeOverlayIds.includes(layer.id);
+                return (
+                  <button
+                    key={layer.id}
+                    type="button"
+                    onClick={() => handleToggleOverlay(layer.id)}
+                    className={`p-2 rounded-md transition-all flex items-center gap-2 text-xs max-w-[10rem] ${
+                      isActive
+                        ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
+                        : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                    }`}
+                    aria-label={`Overlay ${layer.name}`}
+                    aria-pressed={isActive}
+                    title={layer.name}
+                  >
+                    <Layers2 className="w-5 h-5 shrink-0" />
+                    <span className="truncate">{layer.name}</span>
+                  </button>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => {
+                  setIsHeatmapOn(!isHeatmapOn);
+                  setIsBasemapMenuOpen(false);
+                }}
+                className={`p-2 rounded-md transition-all ${
+                  isHeatmapOn
+                    ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
+                    : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                }`}
+                aria-label="Grazing heatmap"
+                aria-pressed={isHeatmapOn}
+                title="Grazing heatmap"
+              >
+                <Flame className="w-5 h-5" />
+              </button>
+              <div className="border-t border-gray-200" />
+              <button
+                type="button"
+                onClick={handleToggleClustering}
+                className={`p-2 rounded-md transition-all ${
+                  clusterMarkers
+                    ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
+                    : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                }`}
+                aria-label="Group nearby animals"
+                aria-pressed={clusterMarkers}
+                title="Group nearby animals"
+              >
+                <Group className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={handleToggleAccuracy}
+                className={`p-2 rounded-md transition-all ${
+                  showAccuracy
+                    ? 'bg-[var(--grass-green)] text-white ring-2 ring-[var(--deep-forest)]'
+                    : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                }`}
+                aria-label="Show GPS accuracy"
+                aria-pressed={showAccuracy}
+                title="Show GPS accuracy when zoomed in"
+              >
+                <Target className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setIsBasemapMenuOpen(false);
+                  setIsOfflineDownloadOpen(true);
+                }}
+                // Custom services are not cached for offline use
+                disabled={!!customBasemap}
+                className="p-2 rounded-md transition-all bg-gray-50 text-gray-700 hover:bg-gray-100 disabled:opacity-40"
+                aria-label="Download area for offline use"
+                title={customBasemap ? 'Offline download is only available for the built-in basemaps' : 'Download area for offline use'}
+              >
+                <Download className="w-5 h-5" />
+              </button>
             </div>
           )}
         </div>
       </div>
 
+      {/* Grazing heatmap panel */}
+      {isHeatmapOn && (
+        <div
+          className="absolute left-4 right-20 top-4 pointer-events-auto"
+          style={{ zIndex: 2000 }}
+        >
+          <GrazingHeatmapPanel
+            windowHours={heatmapWindowHours}
+            onWindowChange={setHeatmapWindowHours}
+            filter={heatmapFilter}
+            filterOptions={heatmapFilterOptions}
+            onFilterChange={setHeatmapFilter}
+            loading={heatmapLoading}
+            error={heatmapError}
+            cellCount={heatmapCells.length}
+            totalHours={heatmapCells.reduce((sum, c) => sum + c.dwell_s, 0) / 3600}
+            onClose={() => setIsHeatmapOn(false)}
+          />
+        </div>
+      )}
+
+      {/* Offline map download panel */}
+      {isOfflineDownloadOpen && (
+        <div
+          className="absolute left-4 right-4 bottom-16 pointer-events-auto"
+          style={{ zIndex: 2100 }}
+        >
+          <OfflineAreaDownload
+            bounds={offlineAreaBounds}
+            basemap={activeBasemap}
+            defaultName={`My zones (${new Date().toLocaleDateString()})`}
+            onClose={() => setIsOfflineDownloadOpen(false)}
+          />
+        </div>
+      )}
+
       {/* Bottom Controls - Show Edit Zone button when polygon is selected */}
       {selectedGeofenceId && (
         <div className="absolute bottom-4 left-4 right-4 z-[1000]">
@@ -666,38 +1352,33 @@ export const MapTab: React.FC = () => {
         </div>
       )}
 
+      {/* Animal details */}
+      <AnimalDetailSheet
+        open={!!selectedAnimal && !isPlaybackOpen}
+        onOpenChange={(open) => {
+          if (!open) setSelectedTrackerId(null);
+        }}
+        trackerId={selectedTrackerId}
+        device={selectedAnimal?.device}
+        location={selectedAnimal?.location}
+        alerts={selectedAnimal?.alerts || []}
+        isActive={selectedAnimal?.isActive ?? false}
+        lowBatteryThreshold={settings?.low_battery_threshold ?? 15}
+        isFollowing={!!selectedTrackerId && followTrackerId === selectedTrackerId}
+        onFollowChange={(follow) => setFollowTrackerId(follow ? selectedTrackerId : null)}
+        onViewHistory={handleViewHistory}
+        onEditDevice={handleEditDevice}
+        onAcknowledgeAlert={handleAcknowledgeAlert}
+        acknowledgingId={acknowledgingAlertId}
+      />
+
       {/* Search Modal */}
       {showSearchModal && (
-        <div className="absolute inset-0 bg-black/50 z-[2000] flex items-end">
-          <div className="bg-white w-full p-4 rounded-t-2xl">
-            <div className="flex gap-2 mb-4">
-              <input
-                type="text"
-                placeholder="Search place or address"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSearchLocation()}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)]"
-                autoFocus
-              />
-              <button
-                onClick={() => setShowSearchModal(false)}
-                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
-              >
-                Cancel
-              </button>
-            </div>
-            <button
-              onClick={handleSearchLocation}
-              className="w-full bg-[var(--grass-green)] text-white px-4 py-2 rounded-lg"
-            >
-              Search
-            </button>
-            <p className="text-xs text-gray-500 mt-2 text-center">
-              TODO: Geocoding service integration
-            </p>
-          </div>
-        </div>
+        <LocationSearch
+          localEntries={searchEntries}
+          onSelect={handleSearchSelect}
+          onClose={() => setShowSearchModal(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface AlertRule {
+  id: number;
+  user_id: string;
+  geofence_id: number;
+  batch_id: string | null; // null = all batches of the geofence
+  enable_out_of_range: boolean;
+  enable_inactivity: boolean;
+  enable_low_battery: boolean;
+  enable_exclusion_zone: boolean; // exclude zones only
+  buffer_m: number; // 0-50
+  grace_period_s: number;
+  schedule_days: number[]; // 0 = Sunday ... 6 = Saturday
+  schedule_start: string | null; // 'HH:MM[:SS]', null = all day
+  schedule_end: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const useAlertRules = (userId?: string) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = async () => {
+    try {
+      setError(null);
+
+      // SECURITY: Always require userId - do not fetch rules without user context
+      if (!userId) {
+        setRules([]);
+        setLoading(false);
+        return;
+      }
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this)
+      const { data, error: fetchError } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('geofence_id', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setRules(data || []);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching alert rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch alert rules');
+      setLoading(false);
+    }
+  };
+
+  // Insert or update a rule (matched on geofence_id + batch_id)
+  const saveRule = async (rule: AlertRuleInput & { id?: number }) => {
+    if (!userId) return { data: null, error: new Error('No user') };
+
+    try {
+      const { id, ...fields } = rule;
+      const query = id
+        ? supabase
+            .from('alert_rules')
+            .update(fields)
+            .eq('id', id)
+            .eq('user_id', userId) // SECURITY: only own rules
+        : supabase
+            .from('alert_rules')
+            .insert({ ...fields, user_id: userId });
+
+      const { data, error: saveError } = await query.select().single();
+
+      if (saveError) {
+        throw saveError;
+      }
+
+      return { data: data as AlertRule, error: null };
+    } catch (err) {
+      console.error('Error saving alert rule:', err);
+      return { data: null, error: err };
+    }
+  };
+
+  const deleteRule = async (id: number) => {
+    if (!userId) return { error: new Error('No user') };
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('alert_rules')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId); // SECURITY: only own rules
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      return { error: null };
+    } catch (err) {
+      console.error('Error deleting alert rule:', err);
+      return { error: err };
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+
+    // SECURITY: Filter subscription by user_id
+    const channel = supabase
+      .channel('alert_rules_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'alert_rules',
+          filter: userId ? `user_id=eq.${userId}` : undefined,
+        },
+        () => {
+          fetchRules();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  return { rules, loading, error, saveRule, deleteRule, refetch: fetchRules };
+};
@@ -1,12 +1,15 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useCachedState } from './useCachedState';
+import { isOnline, isNetworkError, queueWrite, QUEUE_FAILED_MESSAGE } from '../lib/offlineQueue';
 
 export interface Alert {
   id: string;
   device_id: string;
-  // Include DB-driven 'out' / 'out_of_zone' types in addition to existing ones
-  type_alert: 'Inactivity Detected' | 'Out of Range' | 'Low Battery' | 'out' | 'out_of_zone';
+  // Include DB-driven 'out' / 'out_of_zone' / 'in_exclusion_zone' types in addition to existing ones
+  type_alert: 'Inactivity Detected' | 'Out of Range' | 'Low Battery' | 'out' | 'out_of_zone' | 'in_exclusion_zone';
   active: boolean;
+  acknowledged_at?: string | null; // seen by the user; still active (migration 034)
   created_at: string;
   updated_at: string;
   // Joined data
@@ -18,13 +21,24 @@ export interface Alert {
 }
 
 export const useAlerts = (userId?: string, activeOnly: boolean = true) => {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
+  // Last-known alerts from IndexedDB while offline / before the first fetch
+  const {
+    data: alerts,
+    setFresh,
+    updateCached,
+    isStale,
+    markStale,
+    cachedAt,
+  } = useCachedState<Alert[]>(
+    userId ? `alerts:${userId}:${activeOnly ? 'active' : 'all'}` : null,
+    []
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchAlerts = async () => {
     if (!userId) {
-      setAlerts([]);
+      setFresh([]);
       setLoading(false);
       return;
     }
@@ -58,11 +72,12 @@ export const useAlerts = (userId?: string, activeOnly: boolean = true) => {
         throw fetchError;
       }
 
-      setAlerts((data || []) as Alert[]);
+      setFresh((data || []) as Alert[]);
       setLoading(false);
     } catch (err) {
       console.error('Error fetching alerts:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch alerts');
+      markStale();
       setLoading(false);
     }
   };
@@ -111,19 +126,90 @@ export const useAlerts = (userId?: string, activeOnly: boolean = true) => {
       return;
     }
 
-    const { error: deleteError } = await supabase
-      .from('alerts')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', ownerId);
+    // Offline: queue the delete and replay it once back online
+    const queueDelete = async () => {
+      const queuedId = await queueWrite({
+        table: 'alerts',
+        op: 'delete',
+        match: { id, user_id: ownerId },
+        label: 'Delete alert',
+      });
+      if (queuedId === null) throw new Error(QUEUE_FAILED_MESSAGE);
+    };
+
+    if (!isOnline()) {
+      await queueDelete();
+    } else {
+      const { error: deleteError } = await supabase
+        .from('alerts')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', ownerId);
+
+      if (deleteError) {
+        if (!isNetworkError(deleteError)) {
+          throw deleteError;
+        }
+        await queueDelete();
+      }
+    }
+
+    // Optimistically update local state (and the offline cache)
+    updateCached((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  // Marks an alert as seen without resolving it, so the trigger does not
+  // open a new one for the same episode
+  const acknowledgeAlert = async (id: string, ownerId?: string) => {
+    if (!ownerId) {
+      return;
+    }
+
+    const acknowledgedAt = new Date().toISOString();
+
+    // Offline: queue the update and replay it once back online
+    const queueAcknowledge = async () => {
+      const queuedId = await queueWrite({
+        table: 'alerts',
+        op: 'update',
+        values: { acknowledged_at: acknowledgedAt },
+        match: { id, user_id: ownerId },
+        label: 'Acknowledge alert',
+      });
+      if (queuedId === null) throw new Error(QUEUE_FAILED_MESSAGE);
+    };
 
-    if (deleteError) {
-      throw deleteError;
+    if (!isOnline()) {
+      await queueAcknowledge();
+    } else {
+      const { error: updateError } = await supabase
+        .from('alerts')
+        .update({ acknowledged_at: acknowledgedAt })
+        .eq('id', id)
+        .eq('user_id', ownerId);
+
+      if (updateError) {
+        if (!isNetworkError(updateError)) {
+          throw updateError;
+        }
+        await queueAcknowledge();
+      }
     }
 
-    // Optimistically update local state
-    setAlerts((prev) => prev.filter((a) => a.id !== id));
+    // Optimistically update local state (and the offline cache)
+    updateCached((prev) =>
+      prev.map((a) => (a.id === id ? { ...a, acknowledged_at: acknowledgedAt } : a))
+    );
   };
 
-  return { alerts, loading, error, refetch: fetchAlerts, deleteAlert };
+  return {
+    alerts,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    cachedAt,
+    refetch: fetchAlerts,
+    deleteAlert,
+    acknowledgeAlert,
+  };
 };
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { clearOfflineData } from '../lib/offlineStore';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
 
 export interface Profile {
@@ -95,6 +96,8 @@ export const useAuth = () => {
 
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
+    // Cached data and queued writes belong to this user only
+    await clearOfflineData();
     return { error };
   };
 
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface BatteryReading {
+  tracker_id: string;
+  ts: string;
+  percent: number; // 0-100
+  voltage_v: number | null;
+}
+
+export interface BatteryTrend {
+  percentPerDay: number; // negative = discharging
+  hoursToEmpty: number | null; // null when not discharging
+}
+
+// PostgREST returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+// A trend needs at least this much history to mean anything
+const MIN_TREND_SPAN_MS = 30 * 60 * 1000;
+
+/**
+ * Discharge trend from a tracker's readings (oldest first): least-squares
+ * slope in percent per day and the projected time until 0%.
+ */
+export const getBatteryTrend = (readings: BatteryReading[]): BatteryTrend | null => {
+  if (readings.length < 2) return null;
+
+  const t0 = new Date(readings[0].ts).getTime();
+  const tLast = new Date(readings[readings.length - 1].ts).getTime();
+  if (tLast - t0 < MIN_TREND_SPAN_MS) return null;
+
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  readings.forEach((reading) => {
+    const x = (new Date(reading.ts).getTime() - t0) / 3600000; // hours
+    sumX += x;
+    sumY += reading.percent;
+    sumXY += x * reading.percent;
+    sumXX += x * x;
+  });
+
+  const n = readings.length;
+  const denominator = n * sumXX - sumX * sumX;
+  if (denominator === 0) return null;
+
+  const percentPerHour = (n * sumXY - sumX * sumY) / denominator;
+  const latest = readings[readings.length - 1].percent;
+
+  return {
+    percentPerDay: percentPerHour * 24,
+    hoursToEmpty: percentPerHour < 0 ? latest / -percentPerHour : null,
+  };
+};
+
+/**
+ * Loads battery readings (battery_readings, see migration 031) for the given
+ * trackers over the last `hours`, oldest first, grouped by tracker_id.
+ */
+export const useBatteryReadings = (trackerIds: string[], hours: number = 72) => {
+  const [readings, setReadings] = useState<BatteryReading[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable dependency for the effect (callers usually pass a fresh array)
+  const trackerKey = [...trackerIds].sort().join(',');
+
+  const fetchReadings = async () => {
+    if (!trackerKey) {
+      setReadings([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const sinceIso = new Date(Date.now() - hours * 3600000).toISOString();
+      const all: BatteryReading[] = [];
+      let offset = 0;
+
+      // SECURITY: RLS only returns readings for trackers linked to the current user
+      while (true) {
+        const { data, error: fetchError } = await supabase
+          .from('battery_readings')
+          .select('tracker_id, ts, percent, voltage_v')
+          .in('tracker_id', trackerKey.split(','))
+          .gte('ts', sinceIso)
+          .order('ts', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (fetchError) {
+          throw fetchError;
+        }
+
+        const page = (data || []) as BatteryReading[];
+        all.push(...page);
+
+        if (page.length < PAGE_SIZE) break;
+        offset += PAGE_SIZE;
+      }
+
+      setReadings(all);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching battery readings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch battery readings');
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReadings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trackerKey, hours]);
+
+  const readingsByTracker = useMemo(() => {
+    const grouped: Record<string, BatteryReading[]> = {};
+    readings.forEach((reading) => {
+      if (!grouped[reading.tracker_id]) {
+        grouped[reading.tracker_id] = [];
+      }
+      grouped[reading.tracker_id].push(reading);
+    });
+    return grouped;
+  }, [readings]);
+
+  return { readings, readingsByTracker, loading, error, refetch: fetchReadings };
+};
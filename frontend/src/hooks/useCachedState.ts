@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { readCache, writeCache } from '../lib/offlineStore';
+
+/**
+ * State backed by the IndexedDB cache (lib/offlineStore).
+ *
+ * On mount (or when cacheKey changes) the last-known value is shown straight
+ * away and marked stale. setFresh() stores a value that just came from
+ * Supabase; markStale() keeps showing the cached value after a failed fetch.
+ * A null cacheKey (no user yet) disables caching.
+ */
+export const useCachedState = <T>(cacheKey: string | null, initial: T) => {
+  const [data, setData] = useState<T>(initial);
+  const [isStale, setIsStale] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // Fresh data wins over a cache read that resolves later
+  const hasFreshRef = useRef(false);
+
+  useEffect(() => {
+    hasFreshRef.current = false;
+    if (!cacheKey) return;
+
+    let cancelled = false;
+    readCache<T>(cacheKey).then((entry) => {
+      if (cancelled || !entry || hasFreshRef.current) return;
+      setData(entry.data);
+      setCachedAt(entry.cached_at);
+      setIsStale(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey]);
+
+  const setFresh = (value: T) => {
+    hasFreshRef.current = true;
+    setData(value);
+    setIsStale(false);
+    setCachedAt(new Date().toISOString());
+    if (cacheKey) {
+      writeCache(cacheKey, value);
+    }
+  };
+
+  const markStale = () => setIsStale(true);
+
+  // Local (optimistic) change that should also survive a reload while offline
+  const updateCached = (updater: (prev: T) => T) => {
+    setData((prev) => {
+      const next = updater(prev);
+      if (cacheKey) {
+        writeCache(cacheKey, next);
+      }
+      return next;
+    });
+  };
+
+  return { data, setData, setFresh, updateCached, isStale, markStale, cachedAt };
+};
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useCachedState } from './useCachedState';
 
 export interface Device {
   id: string;
@@ -23,7 +24,14 @@ export interface Device {
 }
 
 export const useDevices = (userId?: string) => {
-  const [devices, setDevices] = useState<Device[]>([]);
+  // Last-known devices from IndexedDB while offline / before the first fetch
+  const {
+    data: devices,
+    setFresh: setDevices,
+    isStale,
+    markStale,
+    cachedAt,
+  } = useCachedState<Device[]>(userId ? `devices:${userId}` : null, []);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -50,6 +58,7 @@ export const useDevices = (userId?: string) => {
     } catch (err) {
       console.error('Error fetching devices:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch devices');
+      markStale();
       setLoading(false);
     }
   };
@@ -79,5 +88,12 @@ export const useDevices = (userId?: string) => {
     };
   }, [userId]);
 
-  return { devices, loading, error, refetch: fetchDevices };
+  return {
+    devices,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    cachedAt,
+    refetch: fetchDevices,
+  };
 };
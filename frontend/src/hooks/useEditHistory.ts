@@ -0,0 +1,49 @@
+import { useState } from 'react';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Bounded undo / redo stacks of editor snapshots. Call record() with the
+ * state before each edit; undo() / redo() take the current state and return
+ * the one to restore (null when there is nothing to go back / forward to).
+ */
+export const useEditHistory = <T>(limit: number = DEFAULT_LIMIT) => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const record = (previous: T) => {
+    // The oldest steps fall off once the limit is reached
+    setPast((current) => [...current, previous].slice(-limit));
+    setFuture([]);
+  };
+
+  const undo = (current: T): T | null => {
+    if (past.length === 0) return null;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([current, ...future].slice(0, limit));
+    return previous;
+  };
+
+  const redo = (current: T): T | null => {
+    if (future.length === 0) return null;
+    const next = future[0];
+    setFuture(future.slice(1));
+    setPast([...past, current].slice(-limit));
+    return next;
+  };
+
+  const reset = () => {
+    setPast([]);
+    setFuture([]);
+  };
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    record,
+    undo,
+    redo,
+    reset,
+  };
+};
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { CircleShape } from '../lib/geometry';
+import type { Geofence, GeofenceKind } from './useGeofences';
+
+// Row of public.geofence_versions (migration 039)
+export interface GeofenceVersion {
+  id: number;
+  geofence_id: number;
+  user_id: string;
+  version: number;
+  name: string;
+  kind: GeofenceKind;
+  boundary_inner: Geofence['boundary_inner'];
+  boundary_outer: Geofence['boundary_outer'];
+  buffer_m: number;
+  shape: CircleShape | null;
+  author_id: string | null;
+  author_email: string | null;
+  restored_from_version: number | null;
+  created_at: string;
+}
+
+/** Saved versions of one zone, newest first */
+export const useGeofenceVersions = (userId?: string, geofenceId?: number | null) => {
+  const [versions, setVersions] = useState<GeofenceVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = async () => {
+    try {
+      setError(null);
+
+      // SECURITY: Always require userId - do not fetch versions without user context
+      if (!userId || !geofenceId) {
+        setVersions([]);
+        setLoading(false);
+        return;
+      }
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this)
+      const { data, error: fetchError } = await supabase
+        .from('geofence_versions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('geofence_id', geofenceId)
+        .order('version', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setVersions(data || []);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching geofence versions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch zone history');
+      setLoading(false);
+    }
+  };
+
+  // Puts the version back on the zone; the database records that as a new version
+  const restoreVersion = async (versionId: number) => {
+    if (!userId) return { data: null, error: new Error('No user') };
+
+    try {
+      const { data, error: restoreError } = await supabase.rpc('restore_geofence_version', {
+        p_version_id: versionId,
+      });
+
+      if (restoreError) {
+        throw restoreError;
+      }
+
+      await fetchVersions();
+      return { data: data as GeofenceVersion, error: null };
+    } catch (err) {
+      console.error('Error restoring geofence version:', err);
+      return { data: null, error: err };
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchVersions();
+  }, [userId, geofenceId]);
+
+  return {
+    versions,
+    loading,
+    error,
+    refetch: fetchVersions,
+    restoreVersion,
+  };
+};
@@ -1,10 +1,17 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useCachedState } from './useCachedState';
+import type { CircleShape } from '../lib/geometry';
+import type { ScheduleWindow } from '../lib/zoneSchedule';
+
+// include = safe area (alert when outside), exclude = keep-out area (alert when inside)
+export type GeofenceKind = 'include' | 'exclude';
 
 export interface Geofence {
   id: number;
   name: string;
   user_id: string;
+  kind: GeofenceKind;
   // Supabase/PostGIS geometry(MultiPolygon, 4326) is serialized as GeoJSON.
   // We accept either Polygon or MultiPolygon in the API response.
   boundary_inner: {
@@ -18,12 +25,26 @@ export interface Geofence {
     coordinates: number[][][] | number[][][][];
   } | null;
   buffer_m: number;
+  // Circle the boundary was drawn as, so the editor can re-open it (null = polygon)
+  shape?: CircleShape | null;
+  // Activation schedule in the farm timezone (migration 040); off = always active
+  schedule_enabled?: boolean;
+  schedule_days?: number[];
+  schedule_windows?: ScheduleWindow[];
   created_at: string;
   updated_at: string;
 }
 
 export const useGeofences = (userId?: string) => {
-  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  // Last-known geofences from IndexedDB while offline / before the first fetch
+  const {
+    data: geofences,
+    setFresh: setGeofences,
+    updateCached,
+    isStale,
+    markStale,
+    cachedAt,
+  } = useCachedState<Geofence[]>(userId ? `geofences:${userId}` : null, []);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -54,10 +75,17 @@ export const useGeofences = (userId?: string) => {
     } catch (err) {
       console.error('Error fetching geofences:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch geofences');
+      markStale();
       setLoading(false);
     }
   };
 
+  // Queued offline edits show straight away (and survive a reload) until they sync
+  const updateLocal = (id: number, changes: Partial<Geofence>) =>
+    updateCached((prev) => prev.map((g) => (g.id === id ? { ...g, ...changes } : g)));
+
+  const removeLocal = (id: number) => updateCached((prev) => prev.filter((g) => g.id !== id));
+
   useEffect(() => {
     // Initial fetch
     fetchGeofences();
@@ -86,5 +114,14 @@ export const useGeofences = (userId?: string) => {
     };
   }, [userId]);
 
-  return { geofences, loading, error, refetch: fetchGeofences };
+  return {
+    geofences,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    cachedAt,
+    refetch: fetchGeofences,
+    updateLocal,
+    removeLocal,
+  };
 };
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface GrazingDensityCell {
+  lat: number; // cell center
+  lng: number;
+  dwell_s: number; // seconds spent in the cell
+  fixes: number;
+  trackers: number;
+}
+
+// Grid cell size of the heatmap in meters
+const DEFAULT_CELL_M = 10;
+
+/**
+ * Time spent per grid cell (get_grazing_density, migration 033) for the
+ * last `windowHours`. `trackerIds` narrows it to a batch or one animal;
+ * null means the whole herd.
+ *
+ * The previous cells stay visible while a new window loads, so the heatmap
+ * updates in place instead of flashing empty.
+ */
+export const useGrazingDensity = (
+  enabled: boolean,
+  windowHours: number,
+  trackerIds: string[] | null,
+  cellM: number = DEFAULT_CELL_M
+) => {
+  const [cells, setCells] = useState<GrazingDensityCell[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a window/filter that is no longer selected
+  const requestIdRef = useRef(0);
+
+  // Stable dependency for the tracker list
+  const trackerKey = trackerIds ? [...trackerIds].sort().join(',') : '*';
+
+  const fetchDensity = async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+
+    if (trackerIds && trackerIds.length === 0) {
+      setCells([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const to = new Date();
+      const from = new Date(to.getTime() - windowHours * 60 * 60 * 1000);
+
+      // SECURITY: get_grazing_density runs with the caller's rights, so RLS
+      // on location_history limits it to the user's own trackers
+      const { data, error: rpcError } = await supabase.rpc('get_grazing_density', {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_tracker_ids: trackerIds,
+        p_cell_m: cellM,
+      });
+
+      if (requestId !== requestIdRef.current) return;
+      if (rpcError) {
+        throw rpcError;
+      }
+
+      setCells((data || []) as GrazingDensityCell[]);
+      setLoading(false);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error fetching grazing density:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch grazing density');
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDensity();
+  }, [enabled, windowHours, trackerKey, cellM]);
+
+  return {
+    cells,
+    loading,
+    error,
+    refetch: fetchDensity,
+  };
+};
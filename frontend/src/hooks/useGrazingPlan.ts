@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+// Row of public.grazing_plan_entries (migration 041)
+export interface GrazingPlanEntry {
+  id: number;
+  user_id: string;
+  geofence_id: number;
+  batch_id: string | null; // null = whole herd
+  planned_entry: string; // 'yyyy-mm-dd'
+  planned_exit: string; // last day in the paddock
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type GrazingPlanEntryInput = Omit<GrazingPlanEntry, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+/** The user's rotation plan, ordered by planned entry day */
+export const useGrazingPlan = (userId?: string) => {
+  const [entries, setEntries] = useState<GrazingPlanEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = async () => {
+    try {
+      setError(null);
+
+      // SECURITY: Always require userId - do not fetch the plan without user context
+      if (!userId) {
+        setEntries([]);
+        setLoading(false);
+        return;
+      }
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this)
+      const { data, error: fetchError } = await supabase
+        .from('grazing_plan_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .order('planned_entry', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setEntries(data || []);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching grazing plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch grazing plan');
+      setLoading(false);
+    }
+  };
+
+  // Insert a new entry, or update it when an id is given
+  const saveEntry = async (entry: GrazingPlanEntryInput & { id?: number }) => {
+    if (!userId) return { data: null, error: new Error('No user') };
+
+    try {
+      const { id, ...fields } = entry;
+      const query = id
+        ? supabase
+            .from('grazing_plan_entries')
+            .update(fields)
+            .eq('id', id)
+            .eq('user_id', userId) // SECURITY: only own entries
+        : supabase
+            .from('grazing_plan_entries')
+            .insert({ ...fields, user_id: userId });
+
+      const { data, error: saveError } = await query.select().single();
+
+      if (saveError) {
+        throw saveError;
+      }
+
+      await fetchEntries();
+      return { data: data as GrazingPlanEntry, error: null };
+    } catch (err) {
+      console.error('Error saving grazing plan entry:', err);
+      return { data: null, error: err };
+    }
+  };
+
+  const deleteEntry = async (id: number) => {
+    if (!userId) return { error: new Error('No user') };
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('grazing_plan_entries')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId); // SECURITY: only own entries
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      await fetchEntries();
+      return { error: null };
+    } catch (err) {
+      console.error('Error deleting grazing plan entry:', err);
+      return { error: err };
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+
+    // SECURITY: Filter subscription by user_id
+    const channel = supabase
+      .channel('grazing_plan_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'grazing_plan_entries',
+          filter: userId ? `user_id=eq.${userId}` : undefined,
+        },
+        () => {
+          fetchEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  return { entries, loading, error, saveEntry, deleteEntry, refetch: fetchEntries };
+};
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useCachedState } from './useCachedState';
 
 export interface LiveLocation {
   tracker_id: string;
@@ -18,8 +19,23 @@ export interface LiveLocation {
   is_high_accuracy: boolean | null;
 }
 
+// Fixes with a larger error radius than this are flagged as low accuracy
+export const LOW_ACCURACY_M = 20;
+
+// is_high_accuracy is only set by trackers that report it (default false),
+// so the reported error radius decides; an explicit true always wins
+export const isLowAccuracyFix = (location: Pick<LiveLocation, 'accuracy_m' | 'is_high_accuracy'>) =>
+  location.is_high_accuracy !== true && location.accuracy_m != null && location.accuracy_m > LOW_ACCURACY_M;
+
 export const useLiveLocations = (userId?: string, pollInterval: number = 5000) => {
-  const [locations, setLocations] = useState<LiveLocation[]>([]);
+  // Last-known positions from IndexedDB while offline / before the first fetch
+  const {
+    data: locations,
+    setFresh: setLocations,
+    isStale,
+    markStale,
+    cachedAt,
+  } = useCachedState<LiveLocation[]>(userId ? `live_locations:${userId}` : null, []);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -68,6 +84,7 @@ export const useLiveLocations = (userId?: string, pollInterval: number = 5000) =
     } catch (err) {
       console.error('Error fetching live locations:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch locations');
+      markStale();
       setLoading(false);
     }
   };
@@ -113,5 +130,12 @@ export const useLiveLocations = (userId?: string, pollInterval: number = 5000) =
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userId, pollInterval]); // fetchLocations is stable, no need to include
 
-  return { locations, loading, error, refetch: fetchLocations };
+  return {
+    locations,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    cachedAt,
+    refetch: fetchLocations,
+  };
 };
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface LocationHistoryPoint {
+  tracker_id: string;
+  captured_at: string;
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+  speed_mps: number | null;
+  heading_deg: number | null;
+  altitude_m: number | null;
+  is_high_accuracy: boolean | null;
+}
+
+// PostgREST returns at most 1000 rows per request by default
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Loads stored positions (location_history, see migration 027) for one
+ * tracker between `from` and `to`, oldest first.
+ *
+ * Rows are fetched page by page until the window is exhausted, so long
+ * windows are not cut off at the server row limit.
+ */
+export const useLocationHistory = (
+  trackerId?: string | null,
+  from?: Date | null,
+  to?: Date | null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+) => {
+  const [points, setPoints] = useState<LocationHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore pages of a tracker/window that is no longer selected
+  const requestIdRef = useRef(0);
+
+  const fromIso = from ? from.toISOString() : null;
+  const toIso = to ? to.toISOString() : null;
+
+  const fetchHistory = async () => {
+    const requestId = ++requestIdRef.current;
+
+    if (!trackerId || !fromIso || !toIso) {
+      setPoints([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const all: LocationHistoryPoint[] = [];
+      let offset = 0;
+
+      // SECURITY: RLS only returns history for trackers linked to the current user
+      while (true) {
+        const { data, error: fetchError } = await supabase
+          .from('location_history')
+          .select('tracker_id, captured_at, lat, lng, accuracy_m, speed_mps, heading_deg, altitude_m, is_high_accuracy')
+          .eq('tracker_id', trackerId)
+          .gte('captured_at', fromIso)
+          .lte('captured_at', toIso)
+          .order('captured_at', { ascending: true })
+          .range(offset, offset + pageSize - 1);
+
+        if (requestId !== requestIdRef.current) return;
+        if (fetchError) {
+          throw fetchError;
+        }
+
+        const page = (data || []) as LocationHistoryPoint[];
+        all.push(...page);
+
+        if (page.length < pageSize) break;
+        offset += pageSize;
+      }
+
+      setPoints(all);
+      setLoading(false);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error fetching location history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch location history');
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trackerId, fromIso, toIso, pageSize]);
+
+  return { points, loading, error, refetch: fetchHistory };
+};
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { MapLayer, MapLayerInput } from '../lib/mapLayers';
+import { useCachedState } from './useCachedState';
+
+export const useMapLayers = (userId?: string) => {
+  // Last-known layers from IndexedDB so the layer menu works offline
+  const {
+    data: layers,
+    setFresh: setLayers,
+    isStale,
+    markStale,
+  } = useCachedState<MapLayer[]>(userId ? `mapLayers:${userId}` : null, []);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLayers = async () => {
+    try {
+      setError(null);
+
+      // SECURITY: Always require userId - do not fetch layers without user context
+      if (!userId) {
+        setLayers([]);
+        setLoading(false);
+        return;
+      }
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this)
+      const { data, error: fetchError } = await supabase
+        .from('map_layers')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setLayers(data || []);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching map layers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch map layers');
+      markStale();
+      setLoading(false);
+    }
+  };
+
+  // Insert a new layer, or update an existing one when id is given
+  const saveLayer = async (layer: MapLayerInput & { id?: number }) => {
+    if (!userId) return { data: null, error: new Error('No user') };
+
+    try {
+      const { id, ...fields } = layer;
+      const query = id
+        ? supabase
+            .from('map_layers')
+            .update(fields)
+            .eq('id', id)
+            .eq('user_id', userId) // SECURITY: only own layers
+        : supabase
+            .from('map_layers')
+            .insert({ ...fields, user_id: userId });
+
+      const { data, error: saveError } = await query.select().single();
+
+      if (saveError) {
+        throw saveError;
+      }
+
+      await fetchLayers();
+      return { data: data as MapLayer, error: null };
+    } catch (err) {
+      console.error('Error saving map layer:', err);
+      return { data: null, error: err };
+    }
+  };
+
+  const deleteLayer = async (id: number) => {
+    if (!userId) return { error: new Error('No user') };
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('map_layers')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId); // SECURITY: only own layers
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      await fetchLayers();
+      return { error: null };
+    } catch (err) {
+      console.error('Error deleting map layer:', err);
+      return { error: err };
+    }
+  };
+
+  useEffect(() => {
+    fetchLayers();
+
+    // SECURITY: Filter subscription by user_id
+    const channel = supabase
+      .channel('map_layers_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'map_layers',
+          filter: userId ? `user_id=eq.${userId}` : undefined,
+        },
+        () => {
+          fetchLayers();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  return {
+    layers,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    saveLayer,
+    deleteLayer,
+    refetch: fetchLayers,
+  };
+};
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { EMPTY_MEASUREMENT, Measurement } from '../lib/measurement';
+
+const samePoint = (a: [number, number], b: [number, number]) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * State for the map measure mode (see LeafletMap's measurement prop).
+ * measurement is null while the tool is off.
+ */
+export const useMeasureTool = () => {
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+
+  const start = () => setMeasurement(EMPTY_MEASUREMENT);
+  const stop = () => setMeasurement(null);
+  const toggle = () => setMeasurement((current) => (current ? null : EMPTY_MEASUREMENT));
+  const clear = () => setMeasurement((current) => (current ? EMPTY_MEASUREMENT : null));
+
+  const addPoint = (point: [number, number]) => {
+    setMeasurement((current) => {
+      if (!current) return current;
+      // A tap after closing starts a new measurement
+      if (current.closed) return { points: [point], closed: false };
+      // LeafletMap snaps taps near the first point onto it: close the shape
+      if (current.points.length >= 3 && samePoint(point, current.points[0])) {
+        return { ...current, closed: true };
+      }
+      // Ignore a double tap on the same vertex
+      const last = current.points[current.points.length - 1];
+      if (last && samePoint(point, last)) return current;
+      return { points: [...current.points, point], closed: false };
+    });
+  };
+
+  const undo = () => {
+    setMeasurement((current) => {
+      if (!current) return current;
+      if (current.closed) return { ...current, closed: false };
+      return { points: current.points.slice(0, -1), closed: false };
+    });
+  };
+
+  const close = () => {
+    setMeasurement((current) => (current && current.points.length >= 3 ? { ...current, closed: true } : current));
+  };
+
+  return {
+    measurement,
+    isMeasuring: measurement !== null,
+    start,
+    stop,
+    toggle,
+    clear,
+    addPoint,
+    undo,
+    close,
+  };
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import {
+  TileArea,
+  deleteTileArea,
+  getStorageEstimate,
+  getTileAreas,
+  subscribeTileCache,
+} from '../lib/tileCache';
+
+/**
+ * Map areas downloaded for offline use (lib/tileCache) and the browser's
+ * storage usage for this app.
+ */
+export const useOfflineAreas = () => {
+  const [areas, setAreas] = useState<TileArea[]>([]);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAreas = async () => {
+    try {
+      setError(null);
+      const [storedAreas, estimate] = await Promise.all([getTileAreas(), getStorageEstimate()]);
+      setAreas(storedAreas);
+      setUsage(estimate);
+    } catch (err) {
+      console.error('Error fetching offline areas:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch offline maps');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAreas();
+    return subscribeTileCache(() => {
+      fetchAreas();
+    });
+  }, []);
+
+  const deleteArea = async (area: TileArea) => {
+    try {
+      await deleteTileArea(area);
+      return { error: null };
+    } catch (err) {
+      console.error('Error deleting offline area:', err);
+      return { error: err };
+    }
+  };
+
+  return {
+    areas,
+    usage,
+    loading,
+    error,
+    deleteArea,
+    refetch: fetchAreas,
+  };
+};
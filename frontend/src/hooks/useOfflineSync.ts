@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import {
+  WriteConflict,
+  discardConflict,
+  getQueuedWrites,
+  getWriteConflicts,
+  isOnline as getIsOnline,
+  overwriteConflict,
+  replayQueue,
+  subscribeOfflineQueue,
+} from '../lib/offlineQueue';
+
+/**
+ * Connection state, number of queued offline writes and unresolved
+ * conflicts from the replay (lib/offlineQueue).
+ */
+export const useOfflineSync = () => {
+  const [isOnline, setIsOnline] = useState(getIsOnline());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<WriteConflict[]>([]);
+
+  const refresh = async () => {
+    const [queued, unresolved] = await Promise.all([getQueuedWrites(), getWriteConflicts()]);
+    setPendingCount(queued.length);
+    setConflicts(unresolved);
+  };
+
+  useEffect(() => {
+    refresh();
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const unsubscribe = subscribeOfflineQueue(() => {
+      refresh();
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  const keepMine = async (conflict: WriteConflict) => {
+    try {
+      await overwriteConflict(conflict);
+      return { error: null };
+    } catch (err) {
+      console.error('Error applying conflicting write:', err);
+      return { error: err };
+    }
+  };
+
+  const keepServer = async (conflict: WriteConflict) => {
+    await discardConflict(conflict);
+  };
+
+  return {
+    isOnline,
+    pendingCount,
+    conflicts,
+    keepMine,
+    keepServer,
+    syncNow: replayQueue,
+  };
+};
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+// Row of public.paddock_occupancy_daily (migration 041)
+export interface PaddockOccupancyDay {
+  geofence_id: number;
+  day: string; // 'yyyy-mm-dd' in the farm timezone
+  batch_id: string | null;
+  dwell_s: number;
+  fixes: number;
+  trackers: number;
+}
+
+// Row of get_paddock_rest_days() (migration 041)
+export interface PaddockRestDays {
+  geofence_id: number;
+  last_grazed: string;
+  source: 'tracked' | 'planned';
+  rest_days: number; // 0 = grazed today
+}
+
+// PostgREST returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Actual paddock occupancy per day and batch between two local days (both
+ * included), and the rest days of every paddock. The rollup is refreshed
+ * hourly in the database, so today's row lags by up to an hour.
+ */
+export const usePaddockOccupancy = (userId?: string, fromDay?: string | null, toDay?: string | null) => {
+  const [days, setDays] = useState<PaddockOccupancyDay[]>([]);
+  const [restDays, setRestDays] = useState<PaddockRestDays[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a range that is no longer shown
+  const requestIdRef = useRef(0);
+
+  const fetchOccupancy = async () => {
+    const requestId = ++requestIdRef.current;
+
+    // SECURITY: Always require userId - do not fetch occupancy without user context
+    if (!userId || !fromDay || !toDay) {
+      setDays([]);
+      setRestDays([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const all: PaddockOccupancyDay[] = [];
+      let offset = 0;
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this)
+      while (true) {
+        const { data, error: fetchError } = await supabase
+          .from('paddock_occupancy_daily')
+          .select('geofence_id, day, batch_id, dwell_s, fixes, trackers')
+          .eq('user_id', userId)
+          .gte('day', fromDay)
+          .lte('day', toDay)
+          .order('day', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (fetchError) {
+          throw fetchError;
+        }
+
+        const page = (data || []) as PaddockOccupancyDay[];
+        all.push(...page);
+
+        if (page.length < PAGE_SIZE) break;
+        offset += PAGE_SIZE;
+      }
+
+      // SECURITY: get_paddock_rest_days runs with the caller's rights (RLS)
+      const { data: restData, error: rpcError } = await supabase.rpc('get_paddock_rest_days');
+
+      if (requestId !== requestIdRef.current) return;
+      if (rpcError) {
+        throw rpcError;
+      }
+
+      setDays(all);
+      setRestDays((restData || []) as PaddockRestDays[]);
+      setLoading(false);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error fetching paddock occupancy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch paddock occupancy');
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOccupancy();
+  }, [userId, fromDay, toDay]);
+
+  return {
+    days,
+    restDays,
+    loading,
+    error,
+    refetch: fetchOccupancy,
+  };
+};
@@ -1,21 +1,34 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useCachedState } from './useCachedState';
+import type { DistanceUnits } from '../lib/measurement';
 
 export interface Settings {
   id: string;
   user_id: string;
-  inactivity_minutes?: number; // Deprecated, kept for migration compatibility
-  low_battery_threshold?: number; // Deprecated, kept for migration compatibility
+  inactivity_minutes?: number; // Minutes without movement before an inactivity alert (default 15)
+  inactivity_speed_threshold_mps?: number; // Below this average speed a minute counts as no movement
+  low_battery_threshold?: number; // Battery percent that opens a Low Battery alert (default 15)
+  low_battery_clear_margin?: number; // Alert clears at threshold + margin percent (hysteresis, default 5)
   enable_out_of_range: boolean;
   enable_inactiviy: boolean; // Note: matches DB column name exactly (with typo)
   enable_low_battery: boolean;
   boundary_buffer_m: number; // Boundary buffer distance in meters (0-50)
+  units?: DistanceUnits; // Distances in km/m + hectares, or miles/ft + acres (default 'km')
+  timezone?: string; // Farm timezone (IANA name) zone and alert rule schedules run in (default 'UTC')
   created_at: string;
   updated_at: string;
 }
 
 export const useSettings = (userId?: string) => {
-  const [settings, setSettings] = useState<Settings | null>(null);
+  // Last-known settings from IndexedDB while offline / before the first fetch
+  const {
+    data: settings,
+    setFresh: setSettings,
+    isStale,
+    markStale,
+    cachedAt,
+  } = useCachedState<Settings | null>(userId ? `settings:${userId}` : null, null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -62,6 +75,7 @@ export const useSettings = (userId?: string) => {
     } catch (err) {
       console.error('Error fetching settings:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch settings');
+      markStale();
       setLoading(false);
     }
   };
@@ -119,5 +133,13 @@ export const useSettings = (userId?: string) => {
     };
   }, [userId]);
 
-  return { settings, loading, error, updateSettings, refetch: fetchSettings };
+  return {
+    settings,
+    loading: loading && !isStale,
+    error,
+    isStale,
+    cachedAt,
+    updateSettings,
+    refetch: fetchSettings,
+  };
 };
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+// Row of public.tracker_api_keys (migration 032), without the hash
+export interface TrackerApiKey {
+  id: number;
+  tracker_id: string;
+  key_prefix: string; // first characters of the key, to tell keys apart
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/** Active API keys the user's trackers push fixes to POST /api/ingest with */
+export const useTrackerApiKeys = (userId?: string) => {
+  const [keys, setKeys] = useState<TrackerApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchKeys = async () => {
+    try {
+      setError(null);
+
+      // SECURITY: Always require userId - do not fetch keys without user context
+      if (!userId) {
+        setKeys([]);
+        setLoading(false);
+        return;
+      }
+
+      // SECURITY: Explicitly filter by user_id (defense in depth - RLS also enforces this).
+      // Only metadata columns: key_hash never leaves the database.
+      const { data, error: fetchError } = await supabase
+        .from('tracker_api_keys')
+        .select('id, tracker_id, key_prefix, label, created_at, last_used_at')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setKeys(data || []);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching tracker API keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch API keys');
+      setLoading(false);
+    }
+  };
+
+  // Returns the plain key; it cannot be read again later
+  const createKey = async (trackerId: string, label: string | null) => {
+    if (!userId) return { data: null, error: new Error('No user') };
+
+    try {
+      // SECURITY: create_tracker_api_key only accepts trackers linked to the caller
+      const { data, error: createError } = await supabase.rpc('create_tracker_api_key', {
+        p_tracker_id: trackerId,
+        p_label: label,
+      });
+
+      if (createError) {
+        throw createError;
+      }
+
+      await fetchKeys();
+      return { data: data as string, error: null };
+    } catch (err) {
+      console.error('Error creating tracker API key:', err);
+      return { data: null, error: err };
+    }
+  };
+
+  const revokeKey = async (id: number) => {
+    if (!userId) return { error: new Error('No user') };
+
+    try {
+      // SECURITY: revoke_tracker_api_key only touches the caller's own keys
+      const { error: revokeError } = await supabase.rpc('revoke_tracker_api_key', { p_key_id: id });
+
+      if (revokeError) {
+        throw revokeError;
+      }
+
+      await fetchKeys();
+      return { error: null };
+    } catch (err) {
+      console.error('Error revoking tracker API key:', err);
+      return { error: err };
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  return { keys, loading, error, createKey, revokeKey, refetch: fetchKeys };
+};
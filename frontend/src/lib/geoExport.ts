@@ -0,0 +1,26 @@
+// File formats live in shared/geoExport.mjs, also used by GET /api/export
+export {
+  MAX_TRACK_DAYS,
+  exportGeofences,
+  exportTrack,
+} from '../../../shared/geoExport.mjs';
+export type {
+  ExportFile,
+  ExportTrack,
+  GeofenceExportFormat,
+  TrackExportFormat,
+} from '../../../shared/geoExport.mjs';
+import type { ExportFile } from '../../../shared/geoExport.mjs';
+
+/** Saves the file through a temporary download link */
+export const downloadExport = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the browser has picked the download up
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
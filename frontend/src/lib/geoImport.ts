@@ -0,0 +1,616 @@
+import proj4 from 'proj4';
+import { unzipSync, strFromU8 } from 'fflate';
+import { LatLngMultiPolygon, findGeometryProblem, toLatLngPolygons } from './geometry';
+
+export type GeoImportFormat = 'geojson' | 'kml' | 'kmz' | 'gpx' | 'shapefile';
+export type ImportedPropertyValue = string | number | boolean | null;
+
+/** One area read from a file, already in [lat, lng] (EPSG:4326) */
+export interface ImportedFeature {
+  id: number; // position among the imported areas
+  polygons: LatLngMultiPolygon;
+  properties: Record<string, ImportedPropertyValue>;
+  // Local geometry check for the preview; the server validates again on save
+  problem: string | null;
+}
+
+export interface GeoImportResult {
+  format: GeoImportFormat;
+  features: ImportedFeature[];
+  propertyKeys: string[]; // union of all feature properties, in file order
+  skipped: number; // points, open lines and empty geometries
+  reprojectedFrom: string | null; // e.g. 'EPSG:25832'
+}
+
+export const GEO_IMPORT_ACCEPT = '.geojson,.json,.kml,.kmz,.gpx,.zip';
+export const GEO_IMPORT_FORMAT_LABELS: Record<GeoImportFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  kmz: 'KMZ',
+  gpx: 'GPX',
+  shapefile: 'Shapefile',
+};
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const MAX_FEATURES = 500;
+
+// Source-CRS area before reprojection: polygons of rings of [x, y]
+type Position = number[];
+type RawPolygons = Position[][][];
+
+interface RawFeature {
+  polygons: RawPolygons;
+  properties: Record<string, ImportedPropertyValue>;
+}
+
+interface RawImport {
+  features: RawFeature[];
+  skipped: number;
+  projection: Projection | null; // null = already longitude / latitude
+}
+
+interface Projection {
+  label: string;
+  definition: string; // proj4 string or WKT
+}
+
+// ---------------------------------------------------------------------------
+// Coordinate systems
+// ---------------------------------------------------------------------------
+
+// Projected systems farm GIS exports commonly use; everything else needs a
+// .prj file (WKT) to be read.
+const NAMED_PROJECTIONS: Record<number, string> = {
+  27700: '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs',
+  2193: '+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  2154: '+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  28992: '+proj=sterea +lat_0=52.15616055555555 +lon_0=5.38763888888889 +k=0.9999079 +x_0=155000 +y_0=463000 +ellps=bessel +towgs84=565.417,50.3319,465.552,-0.398957,0.343988,-1.8774,4.0725 +units=m +no_defs',
+  3035: '+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+};
+
+// Geographic systems close enough to WGS84 for paddock boundaries
+const GEOGRAPHIC_CODES = new Set([4326, 4258, 4269, 4283, 4167, 7844]);
+
+const utm = (zone: number, south: boolean, datum: string) =>
+  `+proj=utm +zone=${zone} ${south ? '+south ' : ''}${datum} +units=m +no_defs`;
+
+/** proj4 definition for an EPSG code; null = no reprojection needed */
+const epsgProjection = (code: number): Projection | null => {
+  const label = `EPSG:${code}`;
+  if (GEOGRAPHIC_CODES.has(code)) return null;
+  if (code === 3857 || code === 900913 || code === 102100) return { label, definition: 'EPSG:3857' };
+  if (NAMED_PROJECTIONS[code]) return { label, definition: NAMED_PROJECTIONS[code] };
+
+  const grs80 = '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0';
+  if (code >= 32601 && code <= 32660) return { label, definition: utm(code - 32600, false, '+datum=WGS84') };
+  if (code >= 32701 && code <= 32760) return { label, definition: utm(code - 32700, true, '+datum=WGS84') };
+  if (code >= 25828 && code <= 25838) return { label, definition: utm(code - 25800, false, grs80) }; // ETRS89
+  if (code >= 26901 && code <= 26923) return { label, definition: utm(code - 26900, false, '+datum=NAD83') };
+  if (code >= 28348 && code <= 28358) return { label, definition: utm(code - 28300, true, grs80) }; // GDA94 MGA
+  if (code >= 7846 && code <= 7859) return { label, definition: utm(code - 7800, true, grs80) }; // GDA2020 MGA
+
+  throw new Error(`Unsupported coordinate system ${label}. Export the file in EPSG:4326 (WGS 84) instead.`);
+};
+
+/** GeoJSON 2008 "crs" member, e.g. urn:ogc:def:crs:EPSG::25832 */
+const geoJSONProjection = (crs: any): Projection | null => {
+  const name = crs?.properties?.name;
+  if (typeof name !== 'string' || /CRS84/i.test(name)) return null;
+  const match = name.match(/EPSG:(?:[\d.]*:)?(\d+)$/i);
+  if (!match) throw new Error(`Unsupported coordinate system "${name}"`);
+  return epsgProjection(Number(match[1]));
+};
+
+/** Shapefile .prj (ESRI WKT) */
+const wktProjection = (wkt: string): Projection | null => {
+  const text = wkt.trim();
+  if (!text || /^GEOGCS/i.test(text)) return null;
+  const name = text.match(/^PROJCS\["([^"]+)"/i)?.[1];
+  return { label: name ? name.replace(/_/g, ' ') : 'projected coordinates', definition: text };
+};
+
+const toLatLngFeatures = (raw: RawImport): ImportedFeature[] => {
+  let forward: (position: Position) => Position = (position) => position;
+
+  if (raw.projection) {
+    try {
+      const converter = proj4(raw.projection.definition, 'EPSG:4326');
+      forward = (position) => converter.forward([position[0], position[1]]);
+    } catch {
+      throw new Error(`Could not read the coordinate system (${raw.projection.label})`);
+    }
+  }
+
+  return raw.features.map((feature, id) => {
+    const coordinates = feature.polygons.map((rings) =>
+      rings.map((ring) =>
+        ring.map((position) => {
+          const [lng, lat] = forward(position);
+          if (!(Math.abs(lng) <= 180 && Math.abs(lat) <= 90)) {
+            throw new Error(
+              'The coordinates are not longitude / latitude. Include the coordinate system ' +
+                '(.prj file or GeoJSON "crs") or export in EPSG:4326.'
+            );
+          }
+          return [lng, lat];
+        })
+      )
+    );
+    const polygons = toLatLngPolygons({ type: 'MultiPolygon', coordinates });
+    return { id, polygons, properties: feature.properties, problem: findGeometryProblem(polygons) };
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+const toPropertyValue = (value: unknown): ImportedPropertyValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+const isClosedLine = (line: Position[]) => line.length >= 4 && samePosition(line[0], line[line.length - 1]);
+
+const isPositionList = (value: unknown): value is Position[] =>
+  Array.isArray(value) &&
+  value.every((position) => Array.isArray(position) && position.length >= 2 && position.every(Number.isFinite));
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+/** Area parts of a GeoJSON geometry; closed line strings count as outlines */
+const geoJSONPolygons = (geometry: any): RawPolygons => {
+  switch (geometry?.type) {
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+    case 'LineString':
+      return isPositionList(geometry.coordinates) && isClosedLine(geometry.coordinates)
+        ? [[geometry.coordinates]]
+        : [];
+    case 'MultiLineString':
+      return (geometry.coordinates ?? [])
+        .filter((line: unknown) => isPositionList(line) && isClosedLine(line))
+        .map((line: Position[]) => [line]);
+    case 'GeometryCollection':
+      return (geometry.geometries ?? []).flatMap(geoJSONPolygons);
+    default:
+      return [];
+  }
+};
+
+const parseGeoJSON = (text: string): RawImport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const features: any[] =
+    data?.type === 'FeatureCollection'
+      ? data.features ?? []
+      : data?.type === 'Feature'
+        ? [data]
+        : data?.type
+          ? [{ type: 'Feature', geometry: data, properties: {} }]
+          : [];
+  if (!Array.isArray(features) || features.length === 0) throw new Error('No GeoJSON features found');
+
+  const result: RawImport = { features: [], skipped: 0, projection: geoJSONProjection(data.crs) };
+  for (const feature of features) {
+    const polygons = geoJSONPolygons(feature?.geometry);
+    if (polygons.length === 0) {
+      result.skipped += 1;
+      continue;
+    }
+    const properties: Record<string, ImportedPropertyValue> = {};
+    Object.entries(feature.properties ?? {}).forEach(([key, value]) => {
+      properties[key] = toPropertyValue(value);
+    });
+    result.features.push({ polygons, properties });
+  }
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// KML / KMZ / GPX (XML)
+// ---------------------------------------------------------------------------
+
+// Namespace-agnostic lookups (KML files come with and without prefixes)
+const descendants = (element: Element | Document, name: string) =>
+  Array.from(element.getElementsByTagNameNS('*', name));
+
+const children = (element: Element, name: string) =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+const childText = (element: Element, name: string) => children(element, name)[0]?.textContent?.trim() ?? null;
+
+const parseXml = (text: string, label: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`The ${label} file is not valid XML`);
+  return doc;
+};
+
+/** KML "lng,lat[,alt] lng,lat[,alt] ..." */
+const kmlCoordinates = (element: Element | undefined): Position[] =>
+  (element?.textContent ?? '')
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(',').map(Number))
+    .filter((position) => position.length >= 2 && Number.isFinite(position[0]) && Number.isFinite(position[1]));
+
+const kmlRing = (boundary: Element) => kmlCoordinates(descendants(boundary, 'coordinates')[0]);
+
+const kmlPolygons = (placemark: Element): RawPolygons => {
+  const polygons: RawPolygons = descendants(placemark, 'Polygon').map((polygon) => [
+    ...children(polygon, 'outerBoundaryIs').map(kmlRing),
+    ...children(polygon, 'innerBoundaryIs').map(kmlRing),
+  ]);
+
+  // Boundaries traced as closed lines
+  descendants(placemark, 'LineString')
+    .map((line) => kmlCoordinates(children(line, 'coordinates')[0]))
+    .filter(isClosedLine)
+    .forEach((line) => polygons.push([line]));
+
+  return polygons.filter((rings) => rings.length > 0 && rings[0].length >= 3);
+};
+
+const kmlProperties = (placemark: Element) => {
+  const properties: Record<string, ImportedPropertyValue> = {};
+  const name = childText(placemark, 'name');
+  if (name) properties.name = name;
+
+  // <Data name="..."><value/></Data> and <SchemaData><SimpleData name="..."/></SchemaData>
+  descendants(placemark, 'Data').forEach((data) => {
+    const key = data.getAttribute('name');
+    if (key) properties[key] = childText(data, 'value');
+  });
+  descendants(placemark, 'SimpleData').forEach((data) => {
+    const key = data.getAttribute('name');
+    if (key) properties[key] = data.textContent?.trim() ?? null;
+  });
+  return properties;
+};
+
+const parseKml = (text: string): RawImport => {
+  const placemarks = descendants(parseXml(text, 'KML'), 'Placemark');
+  if (placemarks.length === 0) throw new Error('No placemarks found in the KML file');
+
+  const result: RawImport = { features: [], skipped: 0, projection: null }; // KML is always WGS84
+  placemarks.forEach((placemark) => {
+    const polygons = kmlPolygons(placemark);
+    if (polygons.length === 0) {
+      result.skipped += 1;
+    } else {
+      result.features.push({ polygons, properties: kmlProperties(placemark) });
+    }
+  });
+  return result;
+};
+
+const unzip = (buffer: ArrayBuffer) => {
+  try {
+    // Skip macOS resource forks
+    return unzipSync(new Uint8Array(buffer), { filter: (file) => !file.name.startsWith('__MACOSX/') });
+  } catch {
+    throw new Error('Could not unzip the file');
+  }
+};
+
+const parseKmz = (buffer: ArrayBuffer): RawImport => {
+  const files = unzip(buffer);
+  const names = Object.keys(files).filter((name) => /\.kml$/i.test(name));
+  const main = names.find((name) => /(^|\/)doc\.kml$/i.test(name)) ?? names[0];
+  if (!main) throw new Error('No KML document found in the KMZ file');
+  return parseKml(strFromU8(files[main]));
+};
+
+/** GPX tracks and routes walked along a boundary; each segment becomes an outline */
+const parseGpx = (text: string): RawImport => {
+  const doc = parseXml(text, 'GPX');
+  const points = (parent: Element, name: string): Position[] =>
+    children(parent, name)
+      .map((point) => [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))])
+      .filter((position) => position.every(Number.isFinite));
+
+  const paths = [
+    ...descendants(doc, 'trk').map((track) => ({
+      element: track,
+      lines: children(track, 'trkseg').map((segment) => points(segment, 'trkpt')),
+    })),
+    ...descendants(doc, 'rte').map((route) => ({ element: route, lines: [points(route, 'rtept')] })),
+  ];
+  if (paths.length === 0) throw new Error('No tracks or routes found in the GPX file');
+
+  const result: RawImport = { features: [], skipped: 0, projection: null };
+  paths.forEach(({ element, lines }) => {
+    const polygons = lines.filter((line) => line.length >= 3).map((line) => [line]);
+    if (polygons.length === 0) {
+      result.skipped += 1;
+      return;
+    }
+    const properties: Record<string, ImportedPropertyValue> = {};
+    ['name', 'desc', 'type'].forEach((key) => {
+      const value = childText(element, key);
+      if (value) properties[key] = value;
+    });
+    result.features.push({ polygons, properties });
+  });
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Zipped Shapefile (.shp + .dbf, optional .prj / .cpg)
+// ---------------------------------------------------------------------------
+
+const SHP_POLYGON_TYPES = new Set([5, 15, 25]); // Polygon, PolygonZ, PolygonM
+const SHP_POLYLINE_TYPES = new Set([3, 13, 23]);
+
+// Shoelace sum: negative = clockwise, which the spec uses for outer rings
+const signedArea = (ring: Position[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0) / 2;
+
+const pointInRing = ([x, y]: Position, ring: Position[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/** Groups shapefile rings into outlines (clockwise) with their holes */
+const groupShpRings = (rings: Position[][]): RawPolygons => {
+  const polygons: RawPolygons = [];
+  const holes: Position[][] = [];
+  rings.forEach((ring) => (signedArea(ring) <= 0 ? polygons.push([ring]) : holes.push(ring)));
+
+  holes.forEach((hole) => {
+    const owner = polygons.find((rings) => pointInRing(hole[0], rings[0]));
+    // Writers that ignore ring orientation: treat an orphan hole as an outline
+    if (owner) owner.push(hole);
+    else polygons.push([hole]);
+  });
+  return polygons;
+};
+
+/** Polygon records of a .shp file, in record order (null = not an area) */
+const parseShp = (bytes: Uint8Array): (RawPolygons | null)[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 100 || view.getInt32(0, false) !== 9994) throw new Error('The .shp file is damaged');
+
+  const records: (RawPolygons | null)[] = [];
+  let offset = 100;
+  while (offset + 8 <= bytes.byteLength) {
+    const contentBytes = view.getInt32(offset + 4, false) * 2; // big-endian, 16-bit words
+    const start = offset + 8;
+    offset = start + contentBytes;
+    if (contentBytes < 4 || offset > bytes.byteLength) break;
+
+    const shapeType = view.getInt32(start, true);
+    const isPolygon = SHP_POLYGON_TYPES.has(shapeType);
+    if (!isPolygon && !SHP_POLYLINE_TYPES.has(shapeType)) {
+      records.push(null);
+      continue;
+    }
+
+    // bbox (4 doubles), numParts, numPoints, part starts, then x/y pairs
+    const numParts = view.getInt32(start + 36, true);
+    const numPoints = view.getInt32(start + 40, true);
+    const pointsStart = start + 44 + numParts * 4;
+    const parts: Position[][] = [];
+    for (let part = 0; part < numParts; part++) {
+      const from = view.getInt32(start + 44 + part * 4, true);
+      const to = part + 1 < numParts ? view.getInt32(start + 48 + part * 4, true) : numPoints;
+      const ring: Position[] = [];
+      for (let i = from; i < to; i++) {
+        const at = pointsStart + i * 16;
+        ring.push([view.getFloat64(at, true), view.getFloat64(at + 8, true)]);
+      }
+      parts.push(ring);
+    }
+
+    const polygons = isPolygon
+      ? groupShpRings(parts.filter((ring) => ring.length >= 4))
+      : parts.filter(isClosedLine).map((line) => [line]);
+    records.push(polygons.length > 0 ? polygons : null);
+  }
+  return records;
+};
+
+/** .cpg code page, e.g. "UTF-8", "1252", "ISO-8859-1" */
+const textDecoder = (codePage: string | null) => {
+  const label = codePage?.trim() ?? '';
+  try {
+    return new TextDecoder(/^\d+$/.test(label) ? `windows-${label}` : label || 'utf-8');
+  } catch {
+    return new TextDecoder('utf-8');
+  }
+};
+
+/** Attribute rows of a .dbf file, in record order */
+const parseDbf = (bytes: Uint8Array, decoder: TextDecoder) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 32) return [];
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let at = 32; at + 32 <= headerLength && bytes[at] !== 0x0d; at += 32) {
+    const nameBytes = bytes.subarray(at, at + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: decoder.decode(end >= 0 ? nameBytes.subarray(0, end) : nameBytes).trim(),
+      type: String.fromCharCode(bytes[at + 11]),
+      length: bytes[at + 16],
+    });
+  }
+
+  const rows: Record<string, ImportedPropertyValue>[] = [];
+  for (let record = 0; record < recordCount; record++) {
+    let at = headerLength + record * recordLength + 1; // skip the deletion flag
+    if (at + recordLength - 1 > bytes.byteLength) break;
+    const row: Record<string, ImportedPropertyValue> = {};
+    fields.forEach((field) => {
+      const raw = decoder.decode(bytes.subarray(at, at + field.length)).trim();
+      at += field.length;
+      if (field.type === 'N' || field.type === 'F') {
+        row[field.name] = raw === '' || Number.isNaN(Number(raw)) ? null : Number(raw);
+      } else if (field.type === 'L') {
+        row[field.name] = /^[TtYy]$/.test(raw) ? true : /^[FfNn]$/.test(raw) ? false : null;
+      } else {
+        row[field.name] = raw || null;
+      }
+    });
+    rows.push(row);
+  }
+  return rows;
+};
+
+const parseShapefileZip = (files: Record<string, Uint8Array>): RawImport => {
+  const names = Object.keys(files);
+  const shpNames = names.filter((name) => /\.shp$/i.test(name));
+  if (shpNames.length === 0) throw new Error('No .shp file found in the zip');
+
+  const sibling = (shpName: string, extension: string) => {
+    const base = shpName.slice(0, -4).toLowerCase();
+    const name = names.find((candidate) => candidate.toLowerCase() === `${base}.${extension}`);
+    return name ? files[name] : null;
+  };
+
+  const result: RawImport = { features: [], skipped: 0, projection: null };
+  shpNames.forEach((shpName, layerIndex) => {
+    const prj = sibling(shpName, 'prj');
+    const projection = prj ? wktProjection(strFromU8(prj)) : null;
+    if (layerIndex > 0 && projection?.definition !== result.projection?.definition) {
+      throw new Error('The zip holds layers in different coordinate systems; import them one at a time');
+    }
+    result.projection = projection;
+
+    const cpg = sibling(shpName, 'cpg');
+    const dbf = sibling(shpName, 'dbf');
+    const rows = dbf ? parseDbf(dbf, textDecoder(cpg ? strFromU8(cpg) : null)) : [];
+
+    parseShp(files[shpName]).forEach((polygons, index) => {
+      if (!polygons) {
+        result.skipped += 1;
+      } else {
+        result.features.push({ polygons, properties: rows[index] ?? {} });
+      }
+    });
+  });
+  return result;
+};
+
+const parseZip = (buffer: ArrayBuffer): RawImport => {
+  const files = unzip(buffer);
+  const names = Object.keys(files);
+  // A zipped KML instead of a shapefile
+  if (!names.some((name) => /\.shp$/i.test(name))) {
+    const kml = names.find((name) => /\.kml$/i.test(name));
+    if (kml) return parseKml(strFromU8(files[kml]));
+  }
+  return parseShapefileZip(files);
+};
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+const detectFormat = (fileName: string): GeoImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'geojson':
+    case 'json':
+      return 'geojson';
+    case 'kml':
+    case 'kmz':
+    case 'gpx':
+      return extension;
+    case 'zip':
+      return 'shapefile';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Reads the areas of a GIS file in the browser (nothing is uploaded) and
+ * reprojects them to EPSG:4326. Throws an Error with a user-facing message.
+ */
+export const parseGeoFile = async (file: File): Promise<GeoImportResult> => {
+  const format = detectFormat(file.name);
+  if (!format) throw new Error('Unsupported file type. Use GeoJSON, KML, KMZ, GPX or a zipped Shapefile.');
+  if (file.size > MAX_FILE_BYTES) throw new Error('The file is too large (max 20 MB)');
+
+  let raw: RawImport;
+  switch (format) {
+    case 'geojson':
+      raw = parseGeoJSON(await file.text());
+      break;
+    case 'kml':
+      raw = parseKml(await file.text());
+      break;
+    case 'gpx':
+      raw = parseGpx(await file.text());
+      break;
+    case 'kmz':
+      raw = parseKmz(await file.arrayBuffer());
+      break;
+    case 'shapefile':
+      raw = parseZip(await file.arrayBuffer());
+      break;
+  }
+
+  if (raw.features.length === 0) throw new Error('The file contains no areas (polygons or closed boundaries)');
+  if (raw.features.length > MAX_FEATURES) {
+    throw new Error(`The file has more than ${MAX_FEATURES} areas; split it into smaller files`);
+  }
+
+  const features = toLatLngFeatures(raw).filter((feature) => feature.polygons.length > 0);
+  const propertyKeys: string[] = [];
+  features.forEach((feature) =>
+    Object.keys(feature.properties).forEach((key) => {
+      if (!propertyKeys.includes(key)) propertyKeys.push(key);
+    })
+  );
+
+  return {
+    format,
+    features: features.map((feature, id) => ({ ...feature, id })),
+    propertyKeys,
+    skipped: raw.skipped + raw.features.length - features.length,
+    reprojectedFrom: raw.projection?.label ?? null,
+  };
+};
+
+const NAME_KEY_CANDIDATES = ['name', 'title', 'label', 'paddock', 'field'];
+
+/** Property most likely to hold the zone name, or '' for none */
+export const guessNameProperty = (propertyKeys: string[]) => {
+  for (const candidate of NAME_KEY_CANDIDATES) {
+    const key = propertyKeys.find((propertyKey) => propertyKey.toLowerCase() === candidate);
+    if (key) return key;
+  }
+  return propertyKeys[0] ?? '';
+};
+
+/** Zone name from the chosen property, falling back to "<fallback> <n>" */
+export const importedFeatureName = (feature: ImportedFeature, nameProperty: string, fallback: string) => {
+  const value = nameProperty ? feature.properties[nameProperty] : null;
+  const name = value === null || value === undefined ? '' : String(value).trim();
+  return name || `${fallback} ${feature.id + 1}`;
+};
@@ -0,0 +1,307 @@
+// Location search for MapTab and DrawGeofence.
+//
+// Results come from providers behind one interface:
+// - coordinates typed by the user ("lat, lng", DMS or UTM), parsed locally
+// - our own geofence and animal names (local entries supplied by the screen)
+// - a Nominatim-compatible HTTP endpoint for places and addresses
+//   (VITE_GEOCODER_URL, defaults to the public OSM instance; self-hostable)
+//
+// Chosen results and remote answers are kept in localStorage so recent
+// searches work offline and repeated queries do not hit the server again.
+
+export type GeocodeResultKind = 'coordinate' | 'geofence' | 'animal' | 'place';
+
+export interface GeocodeResult {
+  id: string;
+  kind: GeocodeResultKind;
+  label: string;
+  detail?: string;
+  lat: number;
+  lng: number;
+  // [[south, west], [north, east]]; the map fits these instead of zooming to a point
+  bounds?: [[number, number], [number, number]];
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search: (query: string, options?: { signal?: AbortSignal; limit?: number }) => Promise<GeocodeResult[]>;
+}
+
+// Entry for the local provider (built by the screen from its own data)
+export type LocalSearchEntry = Omit<GeocodeResult, 'kind'> & { kind: 'geofence' | 'animal' };
+
+const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org';
+const DEFAULT_LIMIT = 8;
+
+const RECENT_KEY = 'geocoding:recent';
+const RESULT_CACHE_KEY = 'geocoding:cache';
+const MAX_RECENT = 8;
+const MAX_CACHED_QUERIES = 30;
+const RESULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Coordinate parsing
+// ============================================================================
+
+const isValidLatLng = (lat: number, lng: number) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const coordinateResult = (lat: number, lng: number, detail: string): GeocodeResult => ({
+  id: `coord:${lat.toFixed(6)},${lng.toFixed(6)}`,
+  kind: 'coordinate',
+  label: `${lat.toFixed(6)}, ${lng.toFixed(6)}`,
+  detail,
+  lat,
+  lng,
+});
+
+// "51.9692, 7.5957" / "51.9692 7.5957" / "-33.9;18.4"
+const parseDecimal = (query: string): GeocodeResult | null => {
+  const match = query.match(/^\s*([+-]?\d{1,2}(?:\.\d+)?)\s*[,;\s]\s*([+-]?\d{1,3}(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  return isValidLatLng(lat, lng) ? coordinateResult(lat, lng, 'Latitude, longitude') : null;
+};
+
+// 51°58'9.1"N 7°35'44.7"E, N 51° 58.152' E 7° 35.745', 51.9692°N 7.5957°E
+const DMS_VALUE = String.raw`(\d{1,3}(?:\.\d+)?)\s*°\s*(?:(\d{1,2}(?:\.\d+)?)\s*['′]\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*(?:["″]|'')\s*)?`;
+// Hemisphere letter either before every value or after every value
+const DMS_PREFIXED = new RegExp(String.raw`([NSEW])\s*${DMS_VALUE}`, 'gi');
+const DMS_SUFFIXED = new RegExp(`${DMS_VALUE}([NSEW])`, 'gi');
+
+const parseDms = (query: string): GeocodeResult | null => {
+  const prefixed = /^\s*[NSEW]/i.test(query);
+  const parts = Array.from(query.matchAll(prefixed ? DMS_PREFIXED : DMS_SUFFIXED)).map((m) =>
+    prefixed
+      ? { hemisphere: m[1], deg: m[2], min: m[3], sec: m[4] }
+      : { hemisphere: m[4], deg: m[1], min: m[2], sec: m[3] }
+  );
+  if (parts.length !== 2) return null;
+
+  let lat: number | null = null;
+  let lng: number | null = null;
+
+  for (const part of parts) {
+    const hemisphere = part.hemisphere.toUpperCase();
+    const value =
+      parseFloat(part.deg) + (part.min ? parseFloat(part.min) / 60 : 0) + (part.sec ? parseFloat(part.sec) / 3600 : 0);
+    const signed = hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+    if (hemisphere === 'N' || hemisphere === 'S') {
+      lat = signed;
+    } else {
+      lng = signed;
+    }
+  }
+
+  if (lat === null || lng === null || !isValidLatLng(lat, lng)) return null;
+  return coordinateResult(lat, lng, 'Degrees, minutes, seconds');
+};
+
+// WGS84 UTM -> lat/lng (Snyder, "Map Projections - A Working Manual")
+const utmToLatLng = (zone: number, southern: boolean, easting: number, northing: number) => {
+  const a = 6378137;
+  const f = 1 / 298.257223563;
+  const k0 = 0.9996;
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const x = easting - 500000;
+  const y = southern ? northing - 10000000 : northing;
+  const lng0 = ((zone - 1) * 6 - 180 + 3) * (Math.PI / 180);
+
+  const mu = y / k0 / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const tanPhi = Math.tan(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t1 = tanPhi ** 2;
+  const c1 = ep2 * cosPhi ** 2;
+  const r1 = (a * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * k0);
+
+  const lat =
+    phi1 -
+    ((n1 * tanPhi) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+  const lng =
+    lng0 +
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+      cosPhi;
+
+  return { lat: lat * (180 / Math.PI), lng: lng * (180 / Math.PI) };
+};
+
+// "32U 411234 5759876" or "32 U 411234E 5759876N".
+// The letter is the latitude band (C-M south, N-X north), as on GPS units.
+const parseUtm = (query: string): GeocodeResult | null => {
+  const match = query
+    .trim()
+    .match(/^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d{5,7}(?:\.\d+)?)\s*m?E?\s*[,\s]\s*(\d{6,8}(?:\.\d+)?)\s*m?N?$/i);
+  if (!match) return null;
+
+  const zone = parseInt(match[1], 10);
+  if (zone < 1 || zone > 60) return null;
+  const band = match[2].toUpperCase();
+  const easting = parseFloat(match[3]);
+  const northing = parseFloat(match[4]);
+  if (easting < 100000 || easting > 900000 || northing > 10000000) return null;
+
+  const { lat, lng } = utmToLatLng(zone, band < 'N', easting, northing);
+  return isValidLatLng(lat, lng) ? coordinateResult(lat, lng, `UTM ${zone}${band}`) : null;
+};
+
+export const parseCoordinates = (query: string): GeocodeResult | null =>
+  parseDecimal(query) || parseDms(query) || parseUtm(query);
+
+export const coordinateProvider: GeocodingProvider = {
+  name: 'Coordinates',
+  search: async (query) => {
+    const result = parseCoordinates(query);
+    return result ? [result] : [];
+  },
+};
+
+// ============================================================================
+// Local provider (geofences, animals)
+// ============================================================================
+
+export const createLocalProvider = (getEntries: () => LocalSearchEntry[]): GeocodingProvider => ({
+  name: 'My zones and animals',
+  search: async (query, options) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    return getEntries()
+      .map((entry) => {
+        const label = entry.label.toLowerCase();
+        const rank = label.startsWith(needle)
+          ? 0
+          : label.includes(needle)
+          ? 1
+          : entry.detail?.toLowerCase().includes(needle)
+          ? 2
+          : -1;
+        return { entry, rank };
+      })
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.entry.label.localeCompare(b.entry.label))
+      .slice(0, options?.limit ?? DEFAULT_LIMIT)
+      .map(({ entry }) => entry);
+  },
+});
+
+// ============================================================================
+// Nominatim provider
+// ============================================================================
+
+interface NominatimPlace {
+  place_id: number | string;
+  display_name: string;
+  lat: string;
+  lon: string;
+  boundingbox?: [string, string, string, string]; // south, north, west, east
+}
+
+type ResultCache = Record<string, { results: GeocodeResult[]; cached_at: number }>;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.error(`Failed to read ${key}:`, err);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save ${key}:`, err);
+  }
+};
+
+export const createNominatimProvider = (
+  baseUrl: string = import.meta.env.VITE_GEOCODER_URL || DEFAULT_GEOCODER_URL
+): GeocodingProvider => ({
+  name: 'Places',
+  search: async (query, options) => {
+    const q = query.trim();
+    if (!q) return [];
+    const limit = options?.limit ?? DEFAULT_LIMIT;
+    const cacheKey = `${baseUrl}|${q.toLowerCase()}|${limit}`;
+
+    const cache = readJson<ResultCache>(RESULT_CACHE_KEY, {});
+    const cached = cache[cacheKey];
+    if (cached && Date.now() - cached.cached_at < RESULT_CACHE_TTL_MS) {
+      return cached.results;
+    }
+
+    const params = new URLSearchParams({ q, format: 'jsonv2', limit: String(limit) });
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/search?${params.toString()}`, {
+      signal: options?.signal,
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`Place search failed (HTTP ${response.status})`);
+    }
+
+    const places = (await response.json()) as NominatimPlace[];
+    const results: GeocodeResult[] = places
+      .map((place) => {
+        const [label, ...rest] = place.display_name.split(', ');
+        const bbox = place.boundingbox?.map(Number);
+        return {
+          id: `place:${place.place_id}`,
+          kind: 'place' as const,
+          label,
+          detail: rest.join(', ') || undefined,
+          lat: parseFloat(place.lat),
+          lng: parseFloat(place.lon),
+          bounds:
+            bbox && bbox.every(Number.isFinite)
+              ? ([[bbox[0], bbox[2]], [bbox[1], bbox[3]]] as [[number, number], [number, number]])
+              : undefined,
+        };
+      })
+      .filter((result) => isValidLatLng(result.lat, result.lng));
+
+    // Keep only the most recent queries
+    const entries = Object.entries({ ...cache, [cacheKey]: { results, cached_at: Date.now() } })
+      .sort(([, a], [, b]) => b.cached_at - a.cached_at)
+      .slice(0, MAX_CACHED_QUERIES);
+    writeJson(RESULT_CACHE_KEY, Object.fromEntries(entries));
+
+    return results;
+  },
+});
+
+// ============================================================================
+// Recent searches
+// ============================================================================
+
+export const getRecentSearches = () => readJson<GeocodeResult[]>(RECENT_KEY, []);
+
+export const addRecentSearch = (result: GeocodeResult) => {
+  const recent = [result, ...getRecentSearches().filter((r) => r.id !== result.id)].slice(0, MAX_RECENT);
+  writeJson(RECENT_KEY, recent);
+  return recent;
+};
+
+export const clearRecentSearches = () => writeJson(RECENT_KEY, []);
@@ -0,0 +1,265 @@
+import * as turf from '@turf/turf';
+
+// Leaflet order. Rings are open: the closing point of GeoJSON is dropped.
+export type LatLng = [number, number];
+export type LatLngRing = LatLng[];
+/** rings[0] is the outer boundary, any further rings are holes */
+export type LatLngPolygon = LatLngRing[];
+export type LatLngMultiPolygon = LatLngPolygon[];
+
+// geofences.boundary_inner / boundary_outer are geometry(MultiPolygon, 4326)
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: number[][][][]; // [lng, lat], closed rings
+}
+
+const samePoint = (a: number[], b: number[]) => a[0] === b[0] && a[1] === b[1];
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  Number.isFinite(Number(value[0])) &&
+  Number.isFinite(Number(value[1]));
+
+// 1 = position, 2 = ring, 3 = polygon, 4 = multipolygon
+const nestingDepth = (value: unknown) => {
+  let depth = 0;
+  let current: unknown = value;
+  while (Array.isArray(current)) {
+    depth += 1;
+    current = current[0];
+  }
+  return depth;
+};
+
+export const openRing = <T extends number[]>(ring: T[]): T[] =>
+  ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]) ? ring.slice(0, -1) : ring;
+
+export const closeRing = <T extends number[]>(ring: T[]): T[] =>
+  ring.length > 0 && !samePoint(ring[0], ring[ring.length - 1]) ? [...ring, ring[0]] : ring;
+
+const fromGeoJSONRing = (ring: unknown): LatLngRing =>
+  Array.isArray(ring)
+    ? openRing(ring.filter(isPosition).map(([lng, lat]) => [Number(lat), Number(lng)] as LatLng))
+    : [];
+
+const toLatLngRing = (ring: unknown): LatLngRing =>
+  Array.isArray(ring)
+    ? openRing(ring.filter(isPosition).map(([lat, lng]) => [Number(lat), Number(lng)] as LatLng))
+    : [];
+
+// Drops rings that cannot form an area, and parts without a usable outline
+const cleanPolygons = (polygons: LatLngMultiPolygon): LatLngMultiPolygon =>
+  polygons
+    .filter((rings) => rings.length > 0 && rings[0].length >= 3)
+    .map((rings) => [rings[0], ...rings.slice(1).filter((hole) => hole.length >= 3)]);
+
+/**
+ * Reads a zone boundary into [lat, lng] polygons with holes. Accepts GeoJSON
+ * Polygon / MultiPolygon (also as Feature or JSON string) and the older
+ * [lat, lng] forms: one ring, one polygon's rings, or a list of polygons.
+ */
+export const toLatLngPolygons = (input: unknown): LatLngMultiPolygon => {
+  let value: any = input;
+  if (!value) return [];
+
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  if (value?.type === 'Feature' && value?.geometry) value = value.geometry;
+
+  if (value?.type === 'Polygon' && Array.isArray(value.coordinates)) {
+    return cleanPolygons([value.coordinates.map(fromGeoJSONRing)]);
+  }
+
+  if (value?.type === 'MultiPolygon' && Array.isArray(value.coordinates)) {
+    return cleanPolygons(
+      value.coordinates.map((polygon: unknown) => (Array.isArray(polygon) ? polygon.map(fromGeoJSONRing) : []))
+    );
+  }
+
+  if (Array.isArray(value)) {
+    switch (nestingDepth(value)) {
+      case 2:
+        return cleanPolygons([[toLatLngRing(value)]]);
+      case 3:
+        return cleanPolygons([value.map(toLatLngRing)]);
+      case 4:
+        return cleanPolygons(value.map((polygon: unknown[]) => polygon.map(toLatLngRing)));
+    }
+  }
+
+  return [];
+};
+
+/** [lat, lng] polygons -> GeoJSON MultiPolygon with closed [lng, lat] rings */
+export const toMultiPolygonGeometry = (polygons: LatLngMultiPolygon): MultiPolygonGeometry => ({
+  type: 'MultiPolygon',
+  coordinates: polygons.map((rings) =>
+    rings.map((ring) => closeRing(ring.map(([lat, lng]) => [lng, lat])))
+  ),
+});
+
+/** Wraps a GeoJSON Polygon (e.g. turf output) as a MultiPolygon */
+export const asMultiPolygonGeometry = (geometry: any): MultiPolygonGeometry | null => {
+  if (geometry?.type === 'MultiPolygon') return geometry as MultiPolygonGeometry;
+  if (geometry?.type === 'Polygon') return { type: 'MultiPolygon', coordinates: [geometry.coordinates] };
+  return null;
+};
+
+export const countVertices = (polygons: LatLngMultiPolygon) =>
+  polygons.reduce((sum, rings) => sum + rings.reduce((n, ring) => n + ring.length, 0), 0);
+
+const ringPolygon = (ring: LatLngRing) => turf.polygon([closeRing(ring.map(([lat, lng]) => [lng, lat]))]);
+
+/** True when the point lies in the area (inside an outline, not in a hole) */
+export const isPointInPolygons = (point: LatLng, polygons: LatLngMultiPolygon) =>
+  polygons.length > 0 &&
+  turf.booleanPointInPolygon(turf.point([point[1], point[0]]), toMultiPolygonGeometry(polygons));
+
+/** Index of the part whose outline contains the whole ring, or -1 */
+export const findContainingPart = (ring: LatLngRing, polygons: LatLngMultiPolygon) =>
+  polygons.findIndex((rings) => {
+    const outline = ringPolygon(rings[0]);
+    return ring.every(([lat, lng]) => turf.booleanPointInPolygon(turf.point([lng, lat]), outline));
+  });
+
+/** Self-intersection check for a single ring */
+export const isSimpleRing = (ring: LatLngRing) =>
+  ring.length < 3 || turf.kinks(ringPolygon(ring)).features.length === 0;
+
+/**
+ * Local version of the server's validate_polygon_simple (used offline):
+ * returns why the shape is invalid, or null.
+ */
+export const findGeometryProblem = (polygons: LatLngMultiPolygon): string | null => {
+  for (const rings of polygons) {
+    if (!rings.every(isSimpleRing)) return 'Zone edges must not cross each other';
+
+    const outline = ringPolygon(rings[0]);
+    const holes = rings.slice(1).map(ringPolygon);
+    if (!holes.every((hole) => turf.booleanWithin(hole, outline))) {
+      return 'A hole must lie inside its zone';
+    }
+    for (let i = 0; i < holes.length; i++) {
+      for (let j = i + 1; j < holes.length; j++) {
+        if (!turf.booleanDisjoint(holes[i], holes[j])) return 'Holes must not overlap';
+      }
+    }
+  }
+
+  const outlines = polygons.map((rings) => ringPolygon(rings[0]));
+  for (let i = 0; i < outlines.length; i++) {
+    for (let j = i + 1; j < outlines.length; j++) {
+      if (!turf.booleanDisjoint(outlines[i], outlines[j])) return 'Zone parts must not overlap';
+    }
+  }
+
+  return null;
+};
+
+const ringLine = (ring: LatLngRing) => turf.lineString(closeRing(ring.map(([lat, lng]) => [lng, lat])));
+
+const toLatLng = (feature: any): LatLng => [feature.geometry.coordinates[1], feature.geometry.coordinates[0]];
+
+/**
+ * Where the shape's edges cross: inside one ring, and between its outlines
+ * and holes. Used to show the user what made an edit invalid.
+ */
+export const findCrossings = (polygons: LatLngMultiPolygon): LatLng[] => {
+  const rings = polygons.flat().filter((ring) => ring.length >= 3);
+  const crossings: LatLng[] = [];
+
+  rings.forEach((ring) => {
+    turf.kinks(ringPolygon(ring)).features.forEach((feature: any) => crossings.push(toLatLng(feature)));
+  });
+  for (let i = 0; i < rings.length; i++) {
+    for (let j = i + 1; j < rings.length; j++) {
+      turf.lineIntersect(ringLine(rings[i]), ringLine(rings[j])).features.forEach((feature: any) =>
+        crossings.push(toLatLng(feature))
+      );
+    }
+  }
+  return crossings;
+};
+
+const multiPolygonFeature = (polygons: LatLngMultiPolygon) =>
+  turf.multiPolygon(toMultiPolygonGeometry(polygons).coordinates);
+
+/** Geodesic area in square meters (holes excluded) */
+export const polygonsAreaM2 = (polygons: LatLngMultiPolygon) =>
+  polygons.length > 0 ? turf.area(multiPolygonFeature(polygons)) : 0;
+
+export interface ShapeDifference {
+  /** Inside `after` but not `before` */
+  added: LatLngMultiPolygon;
+  /** Inside `before` but not `after` */
+  removed: LatLngMultiPolygon;
+  addedM2: number;
+  removedM2: number;
+}
+
+// turf.difference returns null when nothing is left
+const subtract = (a: LatLngMultiPolygon, b: LatLngMultiPolygon): LatLngMultiPolygon => {
+  if (a.length === 0) return [];
+  if (b.length === 0) return a;
+  return toLatLngPolygons(turf.difference(multiPolygonFeature(a), multiPolygonFeature(b)));
+};
+
+/** Area gained and lost between two versions of a zone */
+export const compareShapes = (before: LatLngMultiPolygon, after: LatLngMultiPolygon): ShapeDifference => {
+  const added = subtract(after, before);
+  const removed = subtract(before, after);
+  return { added, removed, addedM2: polygonsAreaM2(added), removedM2: polygonsAreaM2(removed) };
+};
+
+/** Editable circle a zone was drawn as (geofences.shape, migration 038) */
+export interface CircleShape {
+  type: 'circle';
+  center: LatLng;
+  radius_m: number;
+}
+
+export const distanceM = (a: LatLng, b: LatLng) =>
+  turf.distance(turf.point([a[1], a[0]]), turf.point([b[1], b[0]]), { units: 'meters' });
+
+/** Point at distanceM from origin in the given compass bearing (degrees) */
+export const destinationPoint = (origin: LatLng, distance: number, bearing: number): LatLng => {
+  const [lng, lat] = turf.destination(turf.point([origin[1], origin[0]]), distance, bearing, { units: 'meters' })
+    .geometry.coordinates;
+  return [lat, lng];
+};
+
+// About one vertex per 10 m of edge: round enough for a small pen, still
+// light for alert checks on big circles
+export const circleVertexCount = (radiusM: number) =>
+  Math.min(64, Math.max(24, Math.round((2 * Math.PI * radiusM) / 10)));
+
+/** Polygon ring approximating a circle (what is saved as boundary_inner) */
+export const circleToRing = ({ center, radius_m }: CircleShape): LatLngRing =>
+  fromGeoJSONRing(
+    turf.circle([center[1], center[0]], radius_m, { steps: circleVertexCount(radius_m), units: 'meters' })
+      .geometry.coordinates[0]
+  );
+
+/** Axis-aligned rectangle from two opposite corners */
+export const rectangleToRing = (a: LatLng, b: LatLng): LatLngRing => [
+  [a[0], a[1]],
+  [a[0], b[1]],
+  [b[0], b[1]],
+  [b[0], a[1]],
+];
+
+/** Reads geofences.shape; null when it is not a usable circle */
+export const toCircleShape = (input: unknown): CircleShape | null => {
+  const value = input as Partial<CircleShape> | null;
+  if (value?.type !== 'circle' || !isPosition(value.center)) return null;
+  const radius = Number(value.radius_m);
+  if (!(radius > 0)) return null;
+  return { type: 'circle', center: [Number(value.center[0]), Number(value.center[1])], radius_m: radius };
+};
@@ -0,0 +1,139 @@
+import type { GrazingPlanEntry } from '../hooks/useGrazingPlan';
+import type { PaddockOccupancyDay } from '../hooks/usePaddockOccupancy';
+
+// Calendar days are 'yyyy-mm-dd' in the farm timezone, as in
+// paddock_occupancy_daily (migration 041)
+
+// Total dwell time that makes a day count as grazed; same default as
+// get_paddock_rest_days(), so animals crossing a paddock do not count
+export const MIN_GRAZED_DWELL_S = 3600;
+
+// Tracked days this far around a planned stay count as that stay
+// (early entry / late exit)
+export const PLAN_SLACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/** Whole days from `from` to `to` (negative when `to` is earlier) */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// The calendar component works with local midnight Dates
+export const dayToDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const dateToDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const formatDay = (day: string) =>
+  dayToDate(day).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+/** A plan entry's batch, for display */
+export const batchLabel = (batchId: string | null) => (batchId ? `Batch ${batchId}` : 'Whole herd');
+
+/**
+ * Days a paddock was grazed by a batch (null = any batch): the batch rows of
+ * a day are summed before the MIN_GRAZED_DWELL_S threshold is applied.
+ */
+export const grazedDays = (occupancy: PaddockOccupancyDay[], geofenceId: number, batchId: string | null) => {
+  const dwellByDay = new Map<string, number>();
+  occupancy.forEach((row) => {
+    if (row.geofence_id !== geofenceId) return;
+    if (batchId !== null && row.batch_id !== batchId) return;
+    dwellByDay.set(row.day, (dwellByDay.get(row.day) ?? 0) + row.dwell_s);
+  });
+  return new Set(Array.from(dwellByDay).filter(([, dwell]) => dwell >= MIN_GRAZED_DWELL_S).map(([day]) => day));
+};
+
+export type PlanEntryState =
+  | 'upcoming' // planned entry still ahead
+  | 'waiting' // planned entry passed, animals not tracked in the paddock yet
+  | 'grazing' // tracked in the paddock today or yesterday
+  | 'done' // tracked stay is over
+  | 'missed'; // planned stay is over without any tracked grazing
+
+export interface PlanComparison {
+  state: PlanEntryState;
+  actualEntry: string | null; // first / last tracked day around the plan
+  actualExit: string | null;
+  entryDelta: number | null; // days late (+) or early (-)
+  exitDelta: number | null; // null while still grazing
+  plannedDays: number;
+  grazedDays: number; // tracked days within the planned stay
+}
+
+/** Planned vs actual occupancy of one entry, from the paddock's grazed days */
+export const comparePlanEntry = (entry: GrazingPlanEntry, grazed: Set<string>, today: string): PlanComparison => {
+  const plannedDays = daysBetween(entry.planned_entry, entry.planned_exit) + 1;
+  const from = addDays(entry.planned_entry, -PLAN_SLACK_DAYS);
+  const to = addDays(entry.planned_exit, PLAN_SLACK_DAYS) < today ? addDays(entry.planned_exit, PLAN_SLACK_DAYS) : today;
+  const tracked = Array.from(grazed).filter((day) => day >= from && day <= to).sort();
+  const inPlan = tracked.filter((day) => day >= entry.planned_entry && day <= entry.planned_exit).length;
+
+  if (tracked.length === 0) {
+    const state = today < entry.planned_entry ? 'upcoming' : today <= entry.planned_exit ? 'waiting' : 'missed';
+    return { state, actualEntry: null, actualExit: null, entryDelta: null, exitDelta: null, plannedDays, grazedDays: 0 };
+  }
+
+  const actualEntry = tracked[0];
+  const actualExit = tracked[tracked.length - 1];
+  // The rollup lags up to an hour, so yesterday still counts as "there"
+  const stillGrazing = actualExit >= addDays(today, -1);
+  return {
+    state: stillGrazing ? 'grazing' : 'done',
+    actualEntry,
+    actualExit,
+    entryDelta: daysBetween(entry.planned_entry, actualEntry),
+    exitDelta: stillGrazing ? null : daysBetween(entry.planned_exit, actualExit),
+    plannedDays,
+    grazedDays: inPlan,
+  };
+};
+
+const offsetText = (delta: number) =>
+  delta === 0 ? 'on time' : `${Math.abs(delta)} day${Math.abs(delta) === 1 ? '' : 's'} ${delta > 0 ? 'late' : 'early'}`;
+
+// "Entered 2 days late · left on time"
+export const describeComparison = (comparison: PlanComparison, entry: GrazingPlanEntry, today: string) => {
+  switch (comparison.state) {
+    case 'upcoming': {
+      const days = daysBetween(today, entry.planned_entry);
+      return days === 1 ? 'Starts tomorrow' : `Starts in ${days} days`;
+    }
+    case 'waiting': {
+      const days = daysBetween(entry.planned_entry, today);
+      return days === 0 ? 'Due to move in today' : `Not in the paddock yet (${days} day${days === 1 ? '' : 's'} overdue)`;
+    }
+    case 'missed':
+      return 'No grazing tracked';
+    case 'grazing': {
+      const over = daysBetween(entry.planned_exit, today);
+      return `Entered ${offsetText(comparison.entryDelta ?? 0)} · ${
+        over > 0 ? `${over} day${over === 1 ? '' : 's'} past planned exit` : 'in the paddock'
+      }`;
+    }
+    case 'done':
+      return `Entered ${offsetText(comparison.entryDelta ?? 0)} · left ${offsetText(comparison.exitDelta ?? 0)}`;
+  }
+};
+
+/**
+ * Other entries that book the same batch over overlapping days. A whole
+ * herd entry overlaps with every batch.
+ */
+export const findPlanOverlaps = (
+  entries: GrazingPlanEntry[],
+  candidate: Pick<GrazingPlanEntry, 'batch_id' | 'planned_entry' | 'planned_exit'> & { id?: number }
+) =>
+  entries.filter(
+    (entry) =>
+      entry.id !== candidate.id &&
+      (entry.batch_id === null || candidate.batch_id === null || entry.batch_id === candidate.batch_id) &&
+      entry.planned_entry <= candidate.planned_exit &&
+      candidate.planned_entry <= entry.planned_exit
+  );
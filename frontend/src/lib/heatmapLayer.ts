@@ -0,0 +1,172 @@
+import L from 'leaflet';
+
+export interface HeatmapPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+// Low -> high density (brand blue, green, yellow, orange, red)
+const GRADIENT_STOPS: Array<[number, string]> = [
+  [0.0, 'rgba(63, 183, 255, 0)'],
+  [0.2, '#3FB7FF'],
+  [0.45, '#78A64A'],
+  [0.65, '#FFEE8A'],
+  [0.85, '#F59E0B'],
+  [1.0, '#EF4444'],
+];
+
+// Cells above this weight percentile are all drawn at full intensity, so one
+// water trough or gate does not wash out the rest of the paddock
+const MAX_WEIGHT_PERCENTILE = 0.95;
+const MAX_OPACITY = 0.75;
+const MIN_RADIUS_PX = 6;
+const MAX_RADIUS_PX = 60;
+
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+
+const buildPalette = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  GRADIENT_STOPS.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+};
+
+const buildStamp = (radius: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = radius * 2;
+  canvas.height = radius * 2;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+  return canvas;
+};
+
+/**
+ * Canvas heatmap overlay. Points are grid cells with a weight (e.g. time
+ * spent); each is drawn as a blurred spot roughly the size of its cell and
+ * the summed intensity is coloured through GRADIENT_STOPS.
+ *
+ * setData() replaces the points in place, so changing the time window does
+ * not remove and re-add the layer.
+ */
+export class HeatmapLayer extends L.Layer {
+  private canvas: HTMLCanvasElement | null = null;
+  private points: HeatmapPoint[] = [];
+  private maxWeight = 1;
+  private cellM = 10;
+  private palette: Uint8ClampedArray | null = null;
+  private stamps = new Map<number, HTMLCanvasElement>();
+
+  constructor(points: HeatmapPoint[] = [], cellM = 10) {
+    super();
+    this.setData(points, cellM);
+  }
+
+  setData(points: HeatmapPoint[], cellM?: number) {
+    this.points = points;
+    if (cellM) this.cellM = cellM;
+
+    const weights = points.map((p) => p.weight).sort((a, b) => a - b);
+    const index = Math.min(weights.length - 1, Math.floor(weights.length * MAX_WEIGHT_PERCENTILE));
+    this.maxWeight = weights.length > 0 ? Math.max(weights[index], Number.EPSILON) : 1;
+
+    this.redraw();
+    return this;
+  }
+
+  onAdd(map: L.Map) {
+    // Below the vector canvas (overlayPane, 400) so zones and markers stay on top
+    const pane = map.getPane('heatmapPane') || map.createPane('heatmapPane');
+    pane.style.zIndex = '350';
+    pane.style.pointerEvents = 'none';
+
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-layer') as HTMLCanvasElement;
+    pane.appendChild(this.canvas);
+
+    map.on('moveend resize', this.redraw, this);
+    map.on('zoomstart', this.hide, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    map.off('moveend resize', this.redraw, this);
+    map.off('zoomstart', this.hide, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    return this;
+  }
+
+  // The drawing is in screen pixels; hide it while Leaflet animates a zoom
+  private hide() {
+    if (this.canvas) this.canvas.style.display = 'none';
+  }
+
+  private getStamp(radius: number) {
+    let stamp = this.stamps.get(radius);
+    if (!stamp) {
+      stamp = buildStamp(radius);
+      this.stamps.set(radius, stamp);
+    }
+    return stamp;
+  }
+
+  redraw() {
+    const map = this._map;
+    const canvas = this.canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    canvas.style.display = '';
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx || this.points.length === 0) return;
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    // Spot radius follows the grid cell size at the current zoom
+    const metersPerPixel =
+      (EARTH_CIRCUMFERENCE_M * Math.cos((map.getCenter().lat * Math.PI) / 180)) / 2 ** (map.getZoom() + 8);
+    const radius = Math.round(
+      Math.max(MIN_RADIUS_PX, Math.min(MAX_RADIUS_PX, (this.cellM / metersPerPixel) * 1.5))
+    );
+    const stamp = this.getStamp(radius);
+
+    this.points.forEach((point) => {
+      const { x, y } = map.latLngToContainerPoint([point.lat, point.lng]);
+      if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) return;
+      ctx.globalAlpha = Math.min(1, Math.max(0.05, point.weight / this.maxWeight));
+      ctx.drawImage(stamp, x - radius, y - radius);
+    });
+    ctx.globalAlpha = 1;
+
+    // Colourize: map accumulated alpha to the gradient palette
+    if (!this.palette) this.palette = buildPalette();
+    const palette = this.palette;
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const data = image.data;
+    for (let i = 3; i < data.length; i += 4) {
+      const alpha = data[i];
+      if (alpha === 0) continue;
+      const offset = alpha * 4;
+      data[i - 3] = palette[offset];
+      data[i - 2] = palette[offset + 1];
+      data[i - 1] = palette[offset + 2];
+      data[i] = Math.round(alpha * MAX_OPACITY);
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+}
@@ -0,0 +1,81 @@
+import L from 'leaflet';
+
+export type MapLayerKind = 'xyz' | 'tms' | 'wms';
+export type MapLayerUsage = 'basemap' | 'overlay';
+
+// Row of public.map_layers (migration 037)
+export interface MapLayer {
+  id: number;
+  user_id: string;
+  name: string;
+  kind: MapLayerKind;
+  url: string; // xyz/tms: template with {z} {x} {y}; wms: service base URL
+  attribution: string;
+  max_zoom: number;
+  opacity: number; // 0-1
+  usage: MapLayerUsage;
+  wms_layers: string | null; // WMS LAYERS parameter, comma-separated
+  wms_format: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MapLayerInput = Omit<MapLayer, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const MAP_LAYER_KIND_LABELS: Record<MapLayerKind, string> = {
+  xyz: 'XYZ tiles',
+  tms: 'TMS tiles',
+  wms: 'WMS service',
+};
+
+// Basemap values for custom layers ('custom:<id>'), next to the built-in
+// 'street' | 'terrain' | 'satellite'
+export const CUSTOM_BASEMAP_PREFIX = 'custom:';
+
+export const customBasemapKey = (layer: Pick<MapLayer, 'id'>) => `${CUSTOM_BASEMAP_PREFIX}${layer.id}`;
+
+export const findCustomBasemap = (layers: MapLayer[], basemap: string) =>
+  basemap.startsWith(CUSTOM_BASEMAP_PREFIX)
+    ? layers.find((layer) => layer.usage === 'basemap' && customBasemapKey(layer) === basemap) ?? null
+    : null;
+
+/** Why the layer cannot be used, or null */
+export const validateMapLayer = (input: MapLayerInput): string | null => {
+  if (!input.name.trim()) return 'Give the layer a name';
+  if (!/^https?:\/\//i.test(input.url.trim())) return 'The URL must start with http:// or https://';
+  if (input.kind === 'wms') {
+    if (!input.wms_layers?.trim()) return 'Enter the WMS layer name(s)';
+  } else if (!['{z}', '{x}', '{y}'].every((placeholder) => input.url.includes(placeholder))) {
+    return 'The URL template needs {z}, {x} and {y}';
+  }
+  if (!Number.isInteger(input.max_zoom) || input.max_zoom < 1 || input.max_zoom > 24) {
+    return 'Max zoom must be between 1 and 24';
+  }
+  if (!(input.opacity >= 0 && input.opacity <= 1)) return 'Opacity must be between 0 and 100%';
+  return null;
+};
+
+/**
+ * Leaflet layer for a custom service. Tiles come straight from the service
+ * (no offline cache); zooming past max_zoom scales up the last level.
+ */
+export const createMapLayer = (layer: MapLayer): L.TileLayer => {
+  const options: L.TileLayerOptions = {
+    attribution: layer.attribution,
+    maxNativeZoom: layer.max_zoom,
+    maxZoom: 22,
+    opacity: layer.opacity,
+  };
+
+  if (layer.kind === 'wms') {
+    return L.tileLayer.wms(layer.url.trim(), {
+      ...options,
+      layers: layer.wms_layers?.trim() ?? '',
+      format: layer.wms_format || 'image/png',
+      // Overlays need see-through tiles
+      transparent: layer.usage === 'overlay',
+    });
+  }
+
+  return L.tileLayer(layer.url.trim(), { ...options, tms: layer.kind === 'tms' });
+};
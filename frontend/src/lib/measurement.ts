@@ -0,0 +1,47 @@
+import * as turf from '@turf/turf';
+import { LatLng, closeRing } from './geometry';
+
+// Matches the Units choice on the Settings screen (settings.units)
+export type DistanceUnits = 'km' | 'miles';
+
+export interface Measurement {
+  points: LatLng[];
+  /** Closed into an area by tapping the first point again */
+  closed: boolean;
+}
+
+export const EMPTY_MEASUREMENT: Measurement = { points: [], closed: false };
+
+const M_PER_MILE = 1609.344;
+const M_PER_FOOT = 0.3048;
+const M2_PER_HECTARE = 10000;
+const M2_PER_ACRE = 4046.8564224;
+
+const toLngLat = ([lat, lng]: LatLng) => [lng, lat];
+
+/** Geodesic length in meters; includes the closing edge of a closed shape */
+export const measureLengthM = ({ points, closed }: Measurement) => {
+  if (points.length < 2) return 0;
+  const line = closed ? closeRing(points.map(toLngLat)) : points.map(toLngLat);
+  return turf.length(turf.lineString(line), { units: 'meters' });
+};
+
+/** Geodesic area in square meters; 0 until the shape is closed */
+export const measureAreaM2 = ({ points, closed }: Measurement) => {
+  if (!closed || points.length < 3) return 0;
+  return turf.area(turf.polygon([closeRing(points.map(toLngLat))]));
+};
+
+// Short runs read better in m / ft than as fractions of a km / mile
+export const formatDistance = (meters: number, units: DistanceUnits) => {
+  if (units === 'miles') {
+    const miles = meters / M_PER_MILE;
+    return miles < 0.1 ? `${Math.round(meters / M_PER_FOOT)} ft` : `${miles.toFixed(2)} mi`;
+  }
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`;
+};
+
+export const formatArea = (squareMeters: number, units: DistanceUnits) =>
+  units === 'miles'
+    ? `${(squareMeters / M2_PER_ACRE).toFixed(2)} ac`
+    : `${(squareMeters / M2_PER_HECTARE).toFixed(2)} ha`;
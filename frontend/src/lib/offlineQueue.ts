@@ -0,0 +1,240 @@
+import { supabase } from './supabase';
+import {
+  QUEUE_STORE,
+  CONFLICT_STORE,
+  addRecord,
+  deleteRecord,
+  getAllRecords,
+  putRecord,
+} from './offlineStore';
+
+export type QueuedWriteOp = 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface QueuedWrite {
+  id?: number; // assigned by IndexedDB, defines replay order
+  table: string;
+  op: QueuedWriteOp;
+  values?: Record<string, unknown>; // insert / update / upsert
+  match?: Record<string, string | number>; // eq filters for update / delete (always include user_id)
+  onConflict?: string; // upsert
+  // updated_at of the row when the user edited it; replay stops with a
+  // conflict when the server row changed since (update / delete only)
+  expectedUpdatedAt?: string | null;
+  label: string; // shown to the user, e.g. 'Edit zone "North"'
+  queuedAt: string;
+}
+
+export interface WriteConflict {
+  id?: number;
+  write: QueuedWrite;
+  reason: string;
+  serverRow: Record<string, unknown> | null;
+  detectedAt: string;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  remaining: number; // still queued (went offline again)
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeOfflineQueue = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Network failures surface as fetch TypeErrors in supabase-js
+export const isNetworkError = (err: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = err instanceof Error ? err.message : (err as { message?: string } | null)?.message || '';
+  return /Failed to fetch|NetworkError|Load failed|fetch failed|Network request failed/i.test(message);
+};
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export const getQueuedWrites = () => getAllRecords<QueuedWrite>(QUEUE_STORE);
+
+export const getWriteConflicts = () => getAllRecords<WriteConflict>(CONFLICT_STORE);
+
+// Shown when queueWrite() could not store the write (IndexedDB unavailable)
+export const QUEUE_FAILED_MESSAGE = 'Could not save the change on this device. Please try again once you are online.';
+
+/** Stores a write for replay; resolves null when it could not be stored */
+export const queueWrite = async (write: Omit<QueuedWrite, 'id' | 'queuedAt'>) => {
+  const id = await addRecord(QUEUE_STORE, { ...write, queuedAt: new Date().toISOString() });
+  notify();
+  return id;
+};
+
+const matchKey = (write: QueuedWrite) =>
+  `${write.table}:${JSON.stringify(Object.entries(write.match || {}).sort(([a], [b]) => a.localeCompare(b)))}`;
+
+// Executes one write against Supabase; throws on error. Resolves the row's new
+// updated_at for an update, so later queued edits of the same row can be chained.
+const performWrite = async (write: QueuedWrite): Promise<string | null> => {
+  const table = supabase.from(write.table);
+
+  switch (write.op) {
+    case 'insert': {
+      const { error } = await table.insert(write.values || {});
+      if (error) throw error;
+      return null;
+    }
+    case 'upsert': {
+      const { error } = await table.upsert(write.values || {}, { onConflict: write.onConflict, ignoreDuplicates: false });
+      if (error) throw error;
+      return null;
+    }
+    case 'update': {
+      const { data, error } = await table.update(write.values || {}).match(write.match || {}).select('updated_at');
+      if (error) throw error;
+      const row = (data as { updated_at?: string }[] | null)?.[0];
+      return row?.updated_at ?? null;
+    }
+    case 'delete': {
+      const { error } = await table.delete().match(write.match || {});
+      if (error) throw error;
+      return null;
+    }
+  }
+};
+
+/**
+ * Later queued edits of a row were made on top of the applied one: they carry
+ * either the updated_at it expected or the one it set locally. The server sets
+ * its own updated_at, so they expect that one instead (otherwise they would
+ * conflict with the user's own edit).
+ */
+const chainExpectedUpdatedAt = async (writes: QueuedWrite[], applied: QueuedWrite, updatedAt: string) => {
+  const key = matchKey(applied);
+  const later = writes.filter(
+    (write) =>
+      (write.id ?? 0) > (applied.id ?? 0) &&
+      write.expectedUpdatedAt &&
+      (write.expectedUpdatedAt === applied.expectedUpdatedAt ||
+        write.expectedUpdatedAt === applied.values?.updated_at) &&
+      matchKey(write) === key
+  );
+
+  for (const write of later) {
+    write.expectedUpdatedAt = updatedAt;
+    await putRecord(QUEUE_STORE, write);
+  }
+};
+
+// Returns a conflict reason, or null when the write can be applied
+const detectConflict = async (
+  write: QueuedWrite
+): Promise<{ reason: string; serverRow: Record<string, unknown> | null } | null> => {
+  if (write.op !== 'update' && write.op !== 'delete') return null;
+  if (!write.match || Object.keys(write.match).length === 0) return null;
+
+  const { data, error } = await supabase.from(write.table).select('*').match(write.match).maybeSingle();
+  if (error) throw error;
+
+  if (!data) {
+    // Deleting something that is already gone is fine
+    return write.op === 'delete' ? null : { reason: 'Deleted on the server', serverRow: null };
+  }
+
+  if (write.expectedUpdatedAt && data.updated_at && data.updated_at !== write.expectedUpdatedAt) {
+    return { reason: 'Changed on the server since you edited it', serverRow: data };
+  }
+
+  return null;
+};
+
+let replayPromise: Promise<ReplayResult> | null = null;
+
+/**
+ * Replays queued writes in the order they were made. Stops (keeping the rest
+ * queued) as soon as the network drops again. Writes that conflict or fail on
+ * the server are moved to the conflict list for the user to resolve.
+ */
+export const replayQueue = (): Promise<ReplayResult> => {
+  if (replayPromise) return replayPromise;
+
+  replayPromise = (async () => {
+    const result: ReplayResult = { applied: 0, conflicts: 0, remaining: 0 };
+    const writes = (await getQueuedWrites()).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+    for (let i = 0; i < writes.length; i += 1) {
+      const write = writes[i];
+      try {
+        const conflict = await detectConflict(write);
+        if (conflict) {
+          await addRecord(CONFLICT_STORE, {
+            write,
+            reason: conflict.reason,
+            serverRow: conflict.serverRow,
+            detectedAt: new Date().toISOString(),
+          } as WriteConflict);
+          result.conflicts += 1;
+        } else {
+          const updatedAt = await performWrite(write);
+          if (updatedAt && write.expectedUpdatedAt) {
+            await chainExpectedUpdatedAt(writes, write, updatedAt);
+          }
+          result.applied += 1;
+        }
+        await deleteRecord(QUEUE_STORE, write.id as number);
+      } catch (err) {
+        if (isNetworkError(err)) {
+          result.remaining = writes.length - i;
+          break;
+        }
+        console.error('Error replaying queued write:', err);
+        await addRecord(CONFLICT_STORE, {
+          write,
+          reason: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Rejected by the server',
+          serverRow: null,
+          detectedAt: new Date().toISOString(),
+        } as WriteConflict);
+        await deleteRecord(QUEUE_STORE, write.id as number);
+        result.conflicts += 1;
+      }
+      notify();
+    }
+
+    return result;
+  })().finally(() => {
+    replayPromise = null;
+    notify();
+  });
+
+  return replayPromise;
+};
+
+// Conflict resolution: apply the local change anyway, or drop it
+export const overwriteConflict = async (conflict: WriteConflict) => {
+  await performWrite(conflict.write);
+  await deleteRecord(CONFLICT_STORE, conflict.id as number);
+  notify();
+};
+
+export const discardConflict = async (conflict: WriteConflict) => {
+  await deleteRecord(CONFLICT_STORE, conflict.id as number);
+  notify();
+};
+
+/**
+ * Replays the queue now and whenever the browser comes back online.
+ * Returns a cleanup function.
+ */
+export const startOfflineSync = () => {
+  const handleOnline = () => {
+    replayQueue().catch((err) => console.error('Error replaying offline queue:', err));
+  };
+
+  window.addEventListener('online', handleOnline);
+  if (isOnline()) handleOnline();
+
+  return () => window.removeEventListener('online', handleOnline);
+};
@@ -0,0 +1,124 @@
+// IndexedDB storage for the offline data layer:
+// - cache:     last-known query results, keyed e.g. 'devices:<userId>'
+// - queue:     writes made while offline, replayed in insertion order
+// - conflicts: queued writes the server rejected or that would overwrite newer data
+// - tiles / tile_areas: basemap tiles downloaded for offline use (lib/tileCache)
+//
+// Every function degrades to a no-op when IndexedDB is unavailable
+// (private browsing, old WebViews); the app then simply works online-only.
+
+const DB_NAME = 'geosense-offline';
+const DB_VERSION = 2;
+
+export const CACHE_STORE = 'cache';
+export const QUEUE_STORE = 'queue';
+export const CONFLICT_STORE = 'conflicts';
+export const TILE_STORE = 'tiles';
+export const TILE_AREA_STORE = 'tile_areas';
+
+export interface CacheEntry<T> {
+  key: string;
+  data: T;
+  cached_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+        db.createObjectStore(CONFLICT_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(TILE_STORE)) {
+        db.createObjectStore(TILE_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(TILE_AREA_STORE)) {
+        db.createObjectStore(TILE_AREA_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error opening offline store:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T | null> => {
+  const db = await openDb();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    try {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      request.onsuccess = () => resolve((request.result ?? null) as T | null);
+      request.onerror = () => {
+        console.error(`Offline store ${storeName} request failed:`, request.error);
+        resolve(null);
+      };
+    } catch (err) {
+      console.error(`Offline store ${storeName} transaction failed:`, err);
+      resolve(null);
+    }
+  });
+};
+
+export const readCache = <T>(key: string) =>
+  runRequest<CacheEntry<T>>(CACHE_STORE, 'readonly', (store) => store.get(key));
+
+export const writeCache = async <T>(key: string, data: T) => {
+  const entry: CacheEntry<T> = { key, data, cached_at: new Date().toISOString() };
+  await runRequest(CACHE_STORE, 'readwrite', (store) => store.put(entry));
+  return entry;
+};
+
+// Store helpers for the queue / conflict stores (auto-increment ids keep order)
+export const addRecord = <T extends object>(storeName: string, record: T) =>
+  runRequest<number>(storeName, 'readwrite', (store) => store.add(record));
+
+export const putRecord = <T extends object>(storeName: string, record: T) =>
+  runRequest<number>(storeName, 'readwrite', (store) => store.put(record));
+
+export const getRecord = <T>(storeName: string, key: IDBValidKey) =>
+  runRequest<T>(storeName, 'readonly', (store) => store.get(key));
+
+export const deleteRecord = (storeName: string, id: IDBValidKey) =>
+  runRequest(storeName, 'readwrite', (store) => store.delete(id));
+
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> =>
+  (await runRequest<T[]>(storeName, 'readonly', (store) => store.getAll())) || [];
+
+// Called on sign out so the next user never sees cached data.
+// Downloaded map tiles are public basemap data and are kept.
+export const clearOfflineData = async () => {
+  await Promise.all(
+    [CACHE_STORE, QUEUE_STORE, CONFLICT_STORE].map((storeName) =>
+      runRequest(storeName, 'readwrite', (store) => store.clear())
+    )
+  );
+};
@@ -0,0 +1,300 @@
+import {
+  TILE_STORE,
+  TILE_AREA_STORE,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+} from './offlineStore';
+
+export type BasemapType = 'street' | 'terrain' | 'satellite';
+
+export interface TileSource {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  label: string;
+}
+
+export const TILE_SOURCES: Record<BasemapType, TileSource> = {
+  street: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
+    maxZoom: 19,
+    label: 'Street map',
+  },
+  terrain: {
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors, © OpenTopoMap',
+    maxZoom: 17,
+    label: 'Terrain map',
+  },
+  satellite: {
+    // Using Esri World Imagery (free, no API key required)
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© Esri',
+    maxZoom: 19,
+    label: 'Satellite imagery',
+  },
+};
+
+const SUBDOMAINS = ['a', 'b', 'c'];
+
+// Keeps single downloads reasonable (tile servers forbid bulk scraping)
+export const MAX_TILES_PER_AREA = 5000;
+export const MAX_DOWNLOAD_ZOOM = 18;
+// Rough average tile size, only used for the estimate shown before downloading
+export const AVERAGE_TILE_BYTES = 20 * 1024;
+const DOWNLOAD_CONCURRENCY = 4;
+
+// [west, south, east, north] in degrees, same order as turf.bbox
+export type TileBounds = [number, number, number, number];
+
+export interface TileArea {
+  id: string;
+  name: string;
+  basemap: BasemapType;
+  bounds: TileBounds;
+  min_zoom: number;
+  max_zoom: number;
+  tile_count: number;
+  failed_count: number;
+  bytes: number;
+  created_at: string;
+}
+
+interface CachedTile {
+  key: string;
+  blob: Blob;
+  area_ids: string[]; // tiles shared by overlapping areas are stored once
+  cached_at: string;
+}
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeTileCache = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const tileKey = (basemap: BasemapType, { z, x, y }: TileCoord) => `${basemap}/${z}/${x}/${y}`;
+
+// Web Mercator (slippy map) tile numbers
+const lngToTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const latToTileY = (lat: number, z: number) => {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+export const getTileCoords = (bounds: TileBounds, minZoom: number, maxZoom: number): TileCoord[] => {
+  const [west, south, east, north] = bounds;
+  const coords: TileCoord[] = [];
+
+  for (let z = minZoom; z <= maxZoom; z += 1) {
+    const max = 2 ** z - 1;
+    const minX = Math.max(0, lngToTileX(west, z));
+    const maxX = Math.min(max, lngToTileX(east, z));
+    const minY = Math.max(0, latToTileY(north, z));
+    const maxY = Math.min(max, latToTileY(south, z));
+    for (let x = minX; x <= maxX; x += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        coords.push({ z, x, y });
+      }
+    }
+  }
+
+  return coords;
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number) => {
+  const [west, south, east, north] = bounds;
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z += 1) {
+    const width = lngToTileX(east, z) - lngToTileX(west, z) + 1;
+    const height = latToTileY(south, z) - latToTileY(north, z) + 1;
+    count += Math.max(0, width) * Math.max(0, height);
+  }
+  return count;
+};
+
+export const getTileUrl = (basemap: BasemapType, { z, x, y }: TileCoord) =>
+  TILE_SOURCES[basemap].url
+    .replace('{s}', SUBDOMAINS[(x + y) % SUBDOMAINS.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+/**
+ * Cached tile image, or null when the tile was never downloaded.
+ * Used by LeafletMap before falling back to the network.
+ */
+export const getCachedTile = async (basemap: BasemapType, coord: TileCoord) => {
+  const tile = await getRecord<CachedTile>(TILE_STORE, tileKey(basemap, coord));
+  return tile?.blob ?? null;
+};
+
+export const getTileAreas = async () =>
+  (await getAllRecords<TileArea>(TILE_AREA_STORE)).sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+// Stores one tile for an area; returns its size in bytes
+const storeTile = async (area: TileArea, coord: TileCoord, signal?: AbortSignal) => {
+  const key = tileKey(area.basemap, coord);
+  const existing = await getRecord<CachedTile>(TILE_STORE, key);
+
+  if (existing) {
+    if (!existing.area_ids.includes(area.id)) {
+      await putRecord(TILE_STORE, { ...existing, area_ids: [...existing.area_ids, area.id] });
+    }
+    return existing.blob.size;
+  }
+
+  const response = await fetch(getTileUrl(area.basemap, coord), { signal });
+  if (!response.ok) {
+    throw new Error(`Tile ${key} failed with HTTP ${response.status}`);
+  }
+  const blob = await response.blob();
+  const tile: CachedTile = { key, blob, area_ids: [area.id], cached_at: new Date().toISOString() };
+  await putRecord(TILE_STORE, tile);
+  return blob.size;
+};
+
+/**
+ * Downloads all tiles of a bounding box and zoom range for offline use.
+ * Tiles that fail are counted and skipped; aborting via the signal removes
+ * everything downloaded so far.
+ */
+export const downloadTileArea = async (options: {
+  name: string;
+  basemap: BasemapType;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  onProgress?: (progress: DownloadProgress) => void;
+  signal?: AbortSignal;
+}): Promise<TileArea> => {
+  const { name, basemap, bounds, onProgress, signal } = options;
+  const minZoom = Math.max(0, options.minZoom);
+  const maxZoom = Math.min(options.maxZoom, TILE_SOURCES[basemap].maxZoom, MAX_DOWNLOAD_ZOOM);
+
+  if (minZoom > maxZoom) {
+    throw new Error('Invalid zoom range');
+  }
+
+  const coords = getTileCoords(bounds, minZoom, maxZoom);
+  if (coords.length > MAX_TILES_PER_AREA) {
+    throw new Error(`Area too large: ${coords.length} tiles (max ${MAX_TILES_PER_AREA}). Lower the maximum zoom.`);
+  }
+
+  // Ask the browser not to evict offline maps under storage pressure
+  if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+    navigator.storage.persist().catch(() => undefined);
+  }
+
+  const area: TileArea = {
+    id: `${basemap}-${Date.now()}`,
+    name,
+    basemap,
+    bounds,
+    min_zoom: minZoom,
+    max_zoom: maxZoom,
+    tile_count: 0,
+    failed_count: 0,
+    bytes: 0,
+    created_at: new Date().toISOString(),
+  };
+  await putRecord(TILE_AREA_STORE, area);
+  notify();
+
+  const progress: DownloadProgress = { done: 0, total: coords.length, failed: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < coords.length && !signal?.aborted) {
+      const coord = coords[next];
+      next += 1;
+      try {
+        area.bytes += await storeTile(area, coord, signal);
+        area.tile_count += 1;
+      } catch (err) {
+        if (signal?.aborted) return;
+        console.error('Error downloading tile:', err);
+        progress.failed += 1;
+      }
+      progress.done += 1;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  if (signal?.aborted) {
+    await deleteTileArea(area);
+    throw new DOMException('Download cancelled', 'AbortError');
+  }
+
+  area.failed_count = progress.failed;
+  await putRecord(TILE_AREA_STORE, area);
+  notify();
+  return area;
+};
+
+/**
+ * Removes an area and every tile no other area still uses.
+ */
+export const deleteTileArea = async (area: TileArea) => {
+  const coords = getTileCoords(area.bounds, area.min_zoom, area.max_zoom);
+
+  for (const coord of coords) {
+    const key = tileKey(area.basemap, coord);
+    const tile = await getRecord<CachedTile>(TILE_STORE, key);
+    if (!tile) continue;
+
+    const areaIds = tile.area_ids.filter((id) => id !== area.id);
+    if (areaIds.length === 0) {
+      await deleteRecord(TILE_STORE, key);
+    } else if (areaIds.length !== tile.area_ids.length) {
+      await putRecord(TILE_STORE, { ...tile, area_ids: areaIds });
+    }
+  }
+
+  await deleteRecord(TILE_AREA_STORE, area.id);
+  notify();
+};
+
+// Origin-wide storage usage (IndexedDB, caches, ...) as reported by the browser
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (err) {
+    console.error('Error reading storage estimate:', err);
+    return null;
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,142 @@
+import L from 'leaflet';
+
+export interface TrackerMarkerOptions extends L.CircleMarkerOptions {
+  heading?: number | null; // degrees clockwise from north
+}
+
+const ARROW_LENGTH_PX = 7;
+const ARROW_HALF_WIDTH_PX = 5;
+
+/**
+ * Circle marker for a live tracker with an optional direction-of-travel
+ * arrow and GPS accuracy circle.
+ *
+ * The arrow is painted by the shared canvas renderer right after the dot,
+ * so it costs no extra layer (with the SVG renderer it is simply not drawn).
+ * The accuracy circle is a separate non-interactive L.Circle in meters that
+ * comes and goes with the marker, e.g. when it is merged into a cluster.
+ */
+export class TrackerMarker extends L.CircleMarker {
+  private heading: number | null;
+  private accuracyCircle: L.Circle | null = null;
+  private accuracyVisible = false;
+
+  constructor(latlng: L.LatLngExpression, options: TrackerMarkerOptions = {}) {
+    super(latlng, options);
+    this.heading = options.heading ?? null;
+  }
+
+  setHeading(heading: number | null) {
+    if (heading === this.heading) return this;
+    this.heading = heading;
+    return this.redraw();
+  }
+
+  /** Accuracy radius in meters; null removes the circle */
+  setAccuracy(radiusM: number | null) {
+    if (!radiusM || radiusM <= 0) {
+      this.accuracyCircle?.remove();
+      this.accuracyCircle = null;
+      return this;
+    }
+
+    if (this.accuracyCircle) {
+      if (this.accuracyCircle.getRadius() !== radiusM) this.accuracyCircle.setRadius(radiusM);
+    } else {
+      this.accuracyCircle = L.circle(this.getLatLng(), {
+        radius: radiusM,
+        weight: 1,
+        opacity: 0.6,
+        fillOpacity: 0.12,
+        interactive: false,
+      });
+    }
+    this.syncAccuracyCircle();
+    return this;
+  }
+
+  /** Show the accuracy circle while the marker itself is on the map */
+  setAccuracyVisible(visible: boolean) {
+    this.accuracyVisible = visible;
+    this.syncAccuracyCircle();
+    return this;
+  }
+
+  setLatLng(latlng: L.LatLngExpression) {
+    super.setLatLng(latlng);
+    this.accuracyCircle?.setLatLng(latlng);
+    return this;
+  }
+
+  onAdd(map: L.Map) {
+    super.onAdd(map);
+    this.syncAccuracyCircle();
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    this.accuracyCircle?.remove();
+    super.onRemove(map);
+    return this;
+  }
+
+  private syncAccuracyCircle() {
+    const circle = this.accuracyCircle;
+    if (!circle) return;
+
+    const map = this._map;
+    if (!map || !this.accuracyVisible) {
+      circle.remove();
+      return;
+    }
+
+    const color = this.options.fillColor || this.options.color;
+    if (circle.options.color !== color) circle.setStyle({ color, fillColor: color });
+    if (!map.hasLayer(circle)) {
+      circle.addTo(map);
+      // Canvas paints in add order: keep the dot above its own circle
+      this.bringToFront();
+    }
+  }
+
+  // Leaflet internals (CircleMarker/Canvas): grow the pixel bounds so canvas
+  // redraws and culling include the arrow tip
+  _updateBounds() {
+    (L.CircleMarker.prototype as any)._updateBounds.call(this);
+    const self = this as any;
+    if (this.heading !== null && self._pxBounds) {
+      const pad = L.point(ARROW_LENGTH_PX + 2, ARROW_LENGTH_PX + 2);
+      self._pxBounds = L.bounds(self._pxBounds.min.subtract(pad), self._pxBounds.max.add(pad));
+    }
+  }
+
+  _updatePath() {
+    (L.CircleMarker.prototype as any)._updatePath.call(this);
+
+    const self = this as any;
+    const renderer = self._renderer;
+    const ctx: CanvasRenderingContext2D | undefined = renderer?._ctx;
+    if (this.heading === null || !ctx || !renderer._drawing || self._empty()) return;
+
+    const { x, y } = self._point as L.Point;
+    const radius: number = self._radius;
+
+    ctx.save();
+    ctx.translate(x, y);
+    // Canvas rotates clockwise and "up" is -y, same as a compass heading
+    ctx.rotate((this.heading * Math.PI) / 180);
+    ctx.beginPath();
+    ctx.moveTo(0, -(radius + ARROW_LENGTH_PX + 1));
+    ctx.lineTo(ARROW_HALF_WIDTH_PX, -(radius - 1));
+    ctx.lineTo(-ARROW_HALF_WIDTH_PX, -(radius - 1));
+    ctx.closePath();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = this.options.fillColor || this.options.color || '#78A64A';
+    ctx.fill();
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = '#ffffff';
+    ctx.stroke();
+    ctx.restore();
+  }
+}
@@ -0,0 +1,224 @@
+import * as turf from '@turf/turf';
+
+// Same rules as geofence_is_active() in migration 040, which decides what the
+// alert trigger counts; keep the two in sync.
+
+export const ALL_SCHEDULE_DAYS = [0, 1, 2, 3, 4, 5, 6]; // 0 = Sunday, as EXTRACT(DOW)
+
+// A window edge: clock time 'HH:MM' or the sun event at the zone
+export type ScheduleEdge = string;
+export const SUN_EDGES = ['sunrise', 'sunset'] as const;
+
+export interface ScheduleWindow {
+  start: ScheduleEdge;
+  start_offset_min: number;
+  end: ScheduleEdge;
+  end_offset_min: number;
+}
+
+/** geofences.schedule_* columns */
+export interface ZoneSchedule {
+  schedule_enabled: boolean;
+  schedule_days: number[];
+  schedule_windows: ScheduleWindow[]; // [] = all day
+}
+
+export interface ZoneScheduleStatus {
+  active: boolean;
+  /** Next time the zone switches on or off; null = not within the next week */
+  nextChange: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead "next switch" is looked for
+const LOOKAHEAD_DAYS = 8;
+
+export const isSunEdge = (edge: ScheduleEdge): edge is (typeof SUN_EDGES)[number] =>
+  (SUN_EDGES as readonly string[]).includes(edge);
+
+// Calendar days are handled as UTC midnights so adding days never hits DST
+const dayFromKey = (key: string) => Date.parse(`${key}T00:00:00Z`);
+const dayKey = (dayMs: number) => new Date(dayMs).toISOString().slice(0, 10);
+
+const safeTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    // Unknown timezone name: evaluate in UTC rather than failing
+    return 'UTC';
+  }
+};
+
+// Wall-clock fields of an instant in a timezone
+const zonedParts = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  const get = (type: string) => Number(value(type));
+  return {
+    date: `${value('year')}-${value('month')}-${value('day')}`,
+    wallMs: Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')),
+  };
+};
+
+const offsetMs = (at: Date, timeZone: string) => zonedParts(at, timeZone).wallMs - Math.floor(at.getTime() / 1000) * 1000;
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** IANA names for the farm timezone picker (older browsers: just the local one and UTC) */
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return Array.from(new Set(['UTC', browserTimeZone(), ...zones]));
+};
+
+/** Local calendar day (yyyy-mm-dd) of an instant in the timezone */
+export const localDay = (at: Date, timeZone: string) => zonedParts(at, safeTimeZone(timeZone)).date;
+
+// 'HH:MM' on a local day -> instant
+const zonedTime = (day: string, time: string, timeZone: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null;
+  const wall = dayFromKey(day) + (hours * 60 + minutes) * 60000;
+  const first = wall - offsetMs(new Date(wall), timeZone);
+  // Second pass settles times next to a DST switch
+  return wall - offsetMs(new Date(first), timeZone);
+};
+
+const radians = (deg: number) => (deg * Math.PI) / 180;
+const degrees = (rad: number) => (rad * 180) / Math.PI;
+const wrap360 = (deg: number) => deg - 360 * Math.floor(deg / 360);
+
+/**
+ * Sunrise / sunset (sunrise equation, as sun_event_at() in migration 040)
+ * for a calendar day at a position; null during polar day / night.
+ */
+export const sunEventAt = (day: string, lat: number, lng: number, event: 'sunrise' | 'sunset'): Date | null => {
+  const jStar = (dayFromKey(day) - Date.UTC(2000, 0, 1)) / DAY_MS - lng / 360;
+  const anomaly = wrap360(357.5291 + 0.98560028 * jStar);
+  const eclipticLng = wrap360(
+    anomaly +
+      1.9148 * Math.sin(radians(anomaly)) +
+      0.02 * Math.sin(radians(2 * anomaly)) +
+      0.0003 * Math.sin(radians(3 * anomaly)) +
+      180 +
+      102.9372
+  );
+  const transit = 2451545 + jStar + 0.0053 * Math.sin(radians(anomaly)) - 0.0069 * Math.sin(radians(2 * eclipticLng));
+  const declination = Math.asin(Math.sin(radians(eclipticLng)) * Math.sin(radians(23.4397)));
+  const cosHourAngle =
+    (Math.sin(radians(-0.833)) - Math.sin(radians(lat)) * Math.sin(declination)) /
+    (Math.cos(radians(lat)) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const julian = transit + ((event === 'sunrise' ? -1 : 1) * degrees(Math.acos(cosHourAngle))) / 360;
+  return new Date((julian - 2440587.5) * DAY_MS);
+};
+
+const edgeAt = (edge: ScheduleEdge, offsetMin: number, day: string, center: [number, number], timeZone: string) => {
+  const base = isSunEdge(edge) ? sunEventAt(day, center[0], center[1], edge)?.getTime() ?? null : zonedTime(day, edge, timeZone);
+  return base === null ? null : base + (offsetMin || 0) * 60000;
+};
+
+// Active [start, end) intervals of windows starting on the given local days
+const activeIntervals = (schedule: ZoneSchedule, center: [number, number], timeZone: string, days: string[]) => {
+  const intervals: [number, number][] = [];
+  days.forEach((day) => {
+    if (!schedule.schedule_days.includes(new Date(dayFromKey(day)).getUTCDay())) return;
+
+    if (schedule.schedule_windows.length === 0) {
+      const next = dayKey(dayFromKey(day) + DAY_MS);
+      const start = zonedTime(day, '00:00', timeZone);
+      const end = zonedTime(next, '00:00', timeZone);
+      if (start !== null && end !== null) intervals.push([start, end]);
+      return;
+    }
+
+    schedule.schedule_windows.forEach((window) => {
+      const start = edgeAt(window.start, window.start_offset_min, day, center, timeZone);
+      let end = edgeAt(window.end, window.end_offset_min, day, center, timeZone);
+      if (start === null || end === null) return;
+      // Overnight: ends on the next day
+      if (end <= start) {
+        end = edgeAt(window.end, window.end_offset_min, dayKey(dayFromKey(day) + DAY_MS), center, timeZone);
+        if (end === null) return;
+      }
+      intervals.push([start, end]);
+    });
+  });
+
+  // Merge overlapping / touching intervals so switches are real changes
+  intervals.sort((a, b) => a[0] - b[0]);
+  return intervals.reduce<[number, number][]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) last[1] = Math.max(last[1], interval[1]);
+    else merged.push([...interval]);
+    return merged;
+  }, []);
+};
+
+/** Zone centroid as [lat, lng], the point sunrise / sunset are computed for */
+export const zoneCenter = (boundary: unknown): [number, number] | null => {
+  try {
+    const [lng, lat] = turf.centroid(boundary as any).geometry.coordinates;
+    return Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Whether the zone is switched on at `at`, and when that next changes */
+export const getZoneScheduleStatus = (
+  schedule: ZoneSchedule,
+  center: [number, number],
+  timeZone: string,
+  at: Date = new Date()
+): ZoneScheduleStatus => {
+  if (!schedule.schedule_enabled) return { active: true, nextChange: null };
+
+  const tz = safeTimeZone(timeZone);
+  const today = dayFromKey(localDay(at, tz));
+  const days = Array.from({ length: LOOKAHEAD_DAYS + 1 }, (_, i) => dayKey(today + (i - 1) * DAY_MS));
+  const now = at.getTime();
+  const intervals = activeIntervals(schedule, center, tz, days);
+
+  const current = intervals.find(([start, end]) => now >= start && now < end);
+  if (current) {
+    // Still on at the end of the look-ahead: no switch to show
+    const lastDayEnd = zonedTime(dayKey(today + LOOKAHEAD_DAYS * DAY_MS), '00:00', tz) ?? Infinity;
+    return { active: true, nextChange: current[1] >= lastDayEnd ? null : new Date(current[1]) };
+  }
+  const next = intervals.find(([start]) => start > now);
+  return { active: false, nextChange: next ? new Date(next[0]) : null };
+};
+
+/** Reads geofences.schedule_windows, dropping malformed entries */
+export const toScheduleWindows = (input: unknown): ScheduleWindow[] =>
+  Array.isArray(input)
+    ? input
+        .filter((window) => typeof window?.start === 'string' && typeof window?.end === 'string')
+        .map((window) => ({
+          start: window.start,
+          start_offset_min: Number(window.start_offset_min) || 0,
+          end: window.end,
+          end_offset_min: Number(window.end_offset_min) || 0,
+        }))
+    : [];
+
+// "19:42" today, "Tue 06:15" on another day
+export const formatScheduleChange = (at: Date, timeZone: string, now: Date = new Date()) => {
+  const tz = safeTimeZone(timeZone);
+  const time = at.toLocaleTimeString(undefined, { timeZone: tz, hour: '2-digit', minute: '2-digit' });
+  return localDay(at, tz) === localDay(now, tz)
+    ? time
+    : `${at.toLocaleDateString(undefined, { timeZone: tz, weekday: 'short' })} ${time}`;
+};
@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { isOnline, isNetworkError } from './offlineQueue';
+import { LatLngMultiPolygon, findGeometryProblem, toMultiPolygonGeometry } from './geometry';
+
+/**
+ * Validates a zone (parts with holes) with the server's
+ * validate_polygon_simple, falling back to the local check when offline.
+ * Used by both the drawing and the import flow.
+ */
+export const validateZoneGeometry = async (shape: LatLngMultiPolygon): Promise<boolean> => {
+  const polygons = shape.filter((rings) => rings[0]?.length >= 3);
+  if (polygons.length === 0) return true; // Allow incomplete polygons
+
+  try {
+    const geojson = toMultiPolygonGeometry(polygons);
+
+    // Offline: local check (crossing edges, holes, overlapping parts);
+    // the server validates again on sync
+    const validateLocally = () => findGeometryProblem(polygons) === null;
+
+    if (!isOnline()) {
+      return validateLocally();
+    }
+
+    const { data, error } = await supabase.rpc('validate_polygon_simple', {
+      p_geojson: geojson
+    });
+
+    if (error) {
+      if (isNetworkError(error)) {
+        return validateLocally();
+      }
+      console.error('Validation error:', error);
+      return false;
+    }
+
+    return data === true;
+  } catch (error) {
+    console.error('Validation failed:', error);
+    return false;
+  }
+};
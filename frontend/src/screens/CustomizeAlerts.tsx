@@ -1,24 +1,48 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { GeoButton } from '../components/GeoButton';
 import { useAuth } from '../hooks/useAuth';
 import { useSettings } from '../hooks/useSettings';
 import { useGeofences } from '../hooks/useGeofences';
+import { useAlertRules, AlertRuleInput } from '../hooks/useAlertRules';
+import { useDevices } from '../hooks/useDevices';
 import { useApp } from '../contexts/AppContext';
 import { Switch } from '../components/ui/switch';
-import { AlertTriangle, Battery, Activity, MapPin } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { AlertTriangle, Battery, Activity, MapPin, Clock, CalendarDays, Trash2, Ban } from 'lucide-react';
 import { toast } from 'sonner';
 import backgroundImage from '../assets/P1260790-2.jpg';
 import logo from '../assets/logo.png';
 
+type AlertRuleDraft = AlertRuleInput & { id?: number };
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Grace period options (seconds outside before alerting)
+const GRACE_PERIOD_OPTIONS = [
+  { value: 0, label: 'Immediately' },
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 120, label: '2 minutes' },
+  { value: 300, label: '5 minutes' },
+  { value: 600, label: '10 minutes' },
+  { value: 1800, label: '30 minutes' },
+];
+
+// Low battery threshold options (percent, per user - applies to all zones)
+const LOW_BATTERY_THRESHOLD_OPTIONS = [5, 10, 15, 20, 25, 30];
+
+const ruleKey = (geofenceId: number, batchId: string | null) => `${geofenceId}:${batchId ?? ''}`;
+
 export const CustomizeAlerts: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [searchParams] = useSearchParams();
   const { user } = useAuth();
-  const { settings, updateSettings, loading: settingsLoading } = useSettings(user?.id);
+  const { settings, loading: settingsLoading, updateSettings } = useSettings(user?.id);
   const { geofences, loading: geofencesLoading } = useGeofences(user?.id);
+  const { rules, saveRule, deleteRule, loading: rulesLoading } = useAlertRules(user?.id);
+  const { devices } = useDevices(user?.id);
   const { navigateBackToLast, setLastRoute, setLastMainTab } = useApp();
   
   // Get mode from URL params or location state, default to 'create'
@@ -37,61 +61,185 @@ export const CustomizeAlerts: React.FC = () => {
     }
   }, [fromState, setLastRoute, setLastMainTab]);
   
-  // Alert settings state (from Supabase settings table)
-  const [outOfRange, setOutOfRange] = useState(true);
-  const [lowBattery, setLowBattery] = useState(true);
-  const [inactivity, setInactivity] = useState(true);
-  
-  // Boundary Buffer state (local only, saved on Save button click)
+  // Rule drafts keyed by geofence + batch (local only, saved on Save button click)
+  const [drafts, setDrafts] = useState<Record<string, AlertRuleDraft>>({});
+  const [dirtyKeys, setDirtyKeys] = useState<string[]>([]);
+  const [removedRuleIds, setRemovedRuleIds] = useState<number[]>([]);
+  const [draftsLoaded, setDraftsLoaded] = useState(false);
   const [selectedGeofenceId, setSelectedGeofenceId] = useState<number | null>(null);
-  const [bufferEnabled, setBufferEnabled] = useState(false);
-  const [bufferMeters, setBufferMeters] = useState(0);
-  
-  // Load settings from Supabase and initialize local state
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lowBatteryThreshold, setLowBatteryThreshold] = useState<number | null>(null);
+
+  const isLoading = settingsLoading || rulesLoading || geofencesLoading;
+  // Rule schedules run in the farm timezone (settings.timezone), like zone schedules
+  const farmTimeZone = settings?.timezone ?? 'UTC';
+
+  // Load saved rules once into local drafts
   useEffect(() => {
-    if (settings) {
-      setOutOfRange(settings.enable_out_of_range ?? true);
-      setLowBattery(settings.enable_low_battery ?? true);
-      setInactivity(settings.enable_inactiviy ?? true); // Note: matches DB column name
-      
-      // Initialize Boundary Buffer local state from DB
-      const bufferValue = settings.boundary_buffer_m ?? 0;
-      setBufferMeters(Math.max(0, Math.min(50, bufferValue))); // Clamp to 0-50
-      setBufferEnabled(bufferValue > 0);
+    if (draftsLoaded || rulesLoading) return;
+    const initial: Record<string, AlertRuleDraft> = {};
+    rules.forEach((rule) => {
+      initial[ruleKey(rule.geofence_id, rule.batch_id)] = {
+        id: rule.id,
+        geofence_id: rule.geofence_id,
+        batch_id: rule.batch_id,
+        enable_out_of_range: rule.enable_out_of_range,
+        enable_inactivity: rule.enable_inactivity,
+        enable_low_battery: rule.enable_low_battery,
+        enable_exclusion_zone: rule.enable_exclusion_zone,
+        buffer_m: rule.buffer_m,
+        grace_period_s: rule.grace_period_s,
+        schedule_days: rule.schedule_days,
+        schedule_start: rule.schedule_start ? rule.schedule_start.slice(0, 5) : null,
+        schedule_end: rule.schedule_end ? rule.schedule_end.slice(0, 5) : null,
+      };
+    });
+    setDrafts(initial);
+    setDraftsLoaded(true);
+  }, [rules, rulesLoading, draftsLoaded]);
+
+  // Threshold is a user setting, not part of the rules
+  useEffect(() => {
+    if (settings && lowBatteryThreshold === null) {
+      setLowBatteryThreshold(settings.low_battery_threshold ?? 15);
     }
-  }, [settings]);
-  
-  // Load first geofence by default (for geofence selector only)
+  }, [settings, lowBatteryThreshold]);
+
+  // Load first geofence by default
   useEffect(() => {
     if (geofences.length > 0 && !selectedGeofenceId) {
       setSelectedGeofenceId(geofences[0].id);
     }
   }, [geofences, selectedGeofenceId]);
-  
-  
+
+  // Batches the user has assigned to devices
+  const batchIds = useMemo(
+    () =>
+      Array.from(
+        new Set(devices.map((d) => d.batch_id).filter((b): b is string => !!b))
+      ).sort(),
+    [devices]
+  );
+
+  // Default (all batches) rule for a geofence; falls back to the global settings
+  // when the geofence has no saved rule yet
+  const getDefaultDraft = (geofenceId: number): AlertRuleDraft =>
+    drafts[ruleKey(geofenceId, null)] || {
+      geofence_id: geofenceId,
+      batch_id: null,
+      enable_out_of_range: settings?.enable_out_of_range ?? true,
+      enable_inactivity: settings?.enable_inactiviy ?? true, // Note: matches DB column name
+      enable_low_battery: settings?.enable_low_battery ?? true,
+      enable_exclusion_zone: true,
+      buffer_m: Math.max(0, Math.min(50, settings?.boundary_buffer_m ?? 0)),
+      grace_period_s: 0,
+      schedule_days: [...ALL_DAYS],
+      schedule_start: null,
+      schedule_end: null,
+    };
+
+  // Keep-out zones alert on entering instead of leaving
+  const isExclusionZone = geofences.find((g) => g.id === selectedGeofenceId)?.kind === 'exclude';
+
+  const currentKey = selectedGeofenceId ? ruleKey(selectedGeofenceId, selectedBatchId) : null;
+  const currentDraft: AlertRuleDraft | null = selectedGeofenceId
+    ? drafts[currentKey!] || getDefaultDraft(selectedGeofenceId)
+    : null;
+
+  // Batch rules that exist for the selected geofence
+  const geofenceBatchRules = useMemo(
+    () =>
+      Object.values(drafts)
+        .filter((d) => d.geofence_id === selectedGeofenceId && d.batch_id !== null)
+        .map((d) => d.batch_id as string)
+        .sort(),
+    [drafts, selectedGeofenceId]
+  );
+
+  const updateDraft = (changes: Partial<AlertRuleDraft>) => {
+    if (!currentKey || !currentDraft) return;
+    setDrafts((prev) => ({ ...prev, [currentKey]: { ...currentDraft, ...changes } }));
+    setDirtyKeys((prev) => (prev.includes(currentKey) ? prev : [...prev, currentKey]));
+  };
+
+  const handleAddBatchRule = (batchId: string) => {
+    if (!selectedGeofenceId || !batchId) return;
+    const key = ruleKey(selectedGeofenceId, batchId);
+    if (!drafts[key]) {
+      // Start from the geofence's default rule
+      const base = getDefaultDraft(selectedGeofenceId);
+      setDrafts((prev) => ({ ...prev, [key]: { ...base, id: undefined, batch_id: batchId } }));
+      setDirtyKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
+    }
+    setSelectedBatchId(batchId);
+  };
+
+  const handleRemoveBatchRule = () => {
+    if (!currentKey || !currentDraft || currentDraft.batch_id === null) return;
+    if (currentDraft.id) {
+      setRemovedRuleIds((prev) => [...prev, currentDraft.id!]);
+    }
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[currentKey];
+      return next;
+    });
+    setDirtyKeys((prev) => prev.filter((k) => k !== currentKey));
+    setSelectedBatchId(null);
+  };
+
+  const toggleDay = (day: number) => {
+    if (!currentDraft) return;
+    const days = currentDraft.schedule_days.includes(day)
+      ? currentDraft.schedule_days.filter((d) => d !== day)
+      : [...currentDraft.schedule_days, day].sort();
+    updateDraft({ schedule_days: days });
+  };
+
   const handleSaveSettings = async () => {
     if (!user?.id) return;
-    
+
+    // A rule without days would never alert
+    const noDays = dirtyKeys.map((key) => drafts[key]).find((draft) => draft && draft.schedule_days.length === 0);
+    if (noDays) {
+      const zoneName = geofences.find((g) => g.id === noDays.geofence_id)?.name ?? 'a zone';
+      toast.error(`Select at least one day for ${zoneName}${noDays.batch_id ? ` (batch ${noDays.batch_id})` : ''}`);
+      return;
+    }
+
+    setIsSaving(true);
     try {
-      // Compute final boundary_buffer_m value: 0 if toggle OFF, slider value if ON
-      const finalBufferMeters = bufferEnabled ? Math.max(0, Math.min(50, bufferMeters)) : 0;
-      
-      // Upsert settings (create if doesn't exist, update if exists)
-      const updates: any = {
-        enable_out_of_range: outOfRange,
-        enable_inactiviy: inactivity, // Note: matches DB column name
-        enable_low_battery: lowBattery,
-        boundary_buffer_m: finalBufferMeters, // Save Boundary Buffer value
-      };
-      
-      const { error } = await updateSettings(updates);
-      
-      if (error) {
-        throw error;
+      // Delete removed batch rules
+      for (const id of removedRuleIds) {
+        const { error } = await deleteRule(id);
+        if (error) throw error;
       }
-      
-      toast.success('Settings saved successfully');
-      
+
+      // Upsert changed rules
+      for (const key of dirtyKeys) {
+        const draft = drafts[key];
+        if (!draft) continue;
+        const { error } = await saveRule({
+          ...draft,
+          // Clamp buffer to 0-50 (same range as the DB check)
+          buffer_m: Math.max(0, Math.min(50, draft.buffer_m)),
+          // Both ends of the window are needed, otherwise treat as all day
+          schedule_start: draft.schedule_start && draft.schedule_end ? draft.schedule_start : null,
+          schedule_end: draft.schedule_start && draft.schedule_end ? draft.schedule_end : null,
+        });
+        if (error) throw error;
+      }
+
+      if (lowBatteryThreshold !== null && lowBatteryThreshold !== settings?.low_battery_threshold) {
+        const { error } = await updateSettings({ low_battery_threshold: lowBatteryThreshold });
+        if (error) throw error;
+      }
+
+      setDirtyKeys([]);
+      setRemovedRuleIds([]);
+      toast.success('Alert rules saved successfully');
+
       // Navigate based on mode
       if (mode === 'create') {
         // Create mode: Continue goes to MainApp HomeTab
@@ -101,8 +249,10 @@ export const CustomizeAlerts: React.FC = () => {
         navigateBackToLast(navigate);
       }
     } catch (error: any) {
-      console.error('Error saving settings:', error);
-      toast.error('Failed to save settings');
+      console.error('Error saving alert rules:', error);
+      toast.error('Failed to save alert rules');
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -136,149 +286,341 @@ export const CustomizeAlerts: React.FC = () => {
             {mode === 'create' ? 'Create Alerts' : 'Edit Alerts'}
           </h2>
         </div>
-        <p className="text-sm opacity-90">Choose which notifications you want to receive</p>
+        <p className="text-sm opacity-90">Choose which notifications you want to receive for each zone</p>
       </div>
 
       {/* Alert Settings */}
       <div className="flex-1 p-4 space-y-4 relative z-10 overflow-y-auto">
-        {/* Geofence Selector (if multiple geofences) */}
-        {geofences.length > 1 && (
-          <div className="bg-white/90 rounded-lg p-4">
-            <label className="block text-sm font-medium text-[var(--deep-forest)] mb-2">
-              Select Geofence
-            </label>
-            <select
-              value={selectedGeofenceId || ''}
-              onChange={(e) => {
-                const id = parseInt(e.target.value);
-                setSelectedGeofenceId(id);
-                // Note: Buffer value is now stored in settings, not geofences
-                // The geofence selector is only for selecting which geofence to apply buffer to (future use)
-              }}
-              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
-            >
-              {geofences.map((geofence) => (
-                <option key={geofence.id} value={geofence.id}>
-                  {geofence.name}
-                </option>
-              ))}
-            </select>
+        {/* Geofence Selector */}
+        {geofences.length > 0 && (
+          <div className="bg-white/90 rounded-lg p-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-[var(--deep-forest)] mb-2">
+                Select Geofence
+              </label>
+              <select
+                value={selectedGeofenceId || ''}
+                onChange={(e) => {
+                  setSelectedGeofenceId(parseInt(e.target.value));
+                  setSelectedBatchId(null);
+                }}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+              >
+                {geofences.map((geofence) => (
+                  <option key={geofence.id} value={geofence.id}>
+                    {geofence.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Rule scope: all batches or a specific batch */}
+            <div>
+              <label className="block text-sm font-medium text-[var(--deep-forest)] mb-2">
+                Applies To
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {[null, ...geofenceBatchRules].map((batchId) => (
+                  <button
+                    key={batchId ?? 'all'}
+                    type="button"
+                    onClick={() => setSelectedBatchId(batchId)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      selectedBatchId === batchId
+                        ? 'bg-[var(--grass-green)] text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {batchId === null ? 'All batches' : `Batch ${batchId}`}
+                  </button>
+                ))}
+              </div>
+              {batchIds.filter((b) => !geofenceBatchRules.includes(b)).length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleAddBatchRule(e.target.value)}
+                  className="mt-2 w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-sm text-gray-600"
+                >
+                  <option value="" disabled>
+                    + Add rule for a batch
+                  </option>
+                  {batchIds
+                    .filter((b) => !geofenceBatchRules.includes(b))
+                    .map((b) => (
+                      <option key={b} value={b}>
+                        Batch {b}
+                      </option>
+                    ))}
+                </select>
+              )}
+              {selectedBatchId !== null && (
+                <button
+                  type="button"
+                  onClick={handleRemoveBatchRule}
+                  className="mt-2 flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove rule for batch {selectedBatchId}
+                </button>
+              )}
+            </div>
           </div>
         )}
-        
-        {!selectedGeofenceId && geofences.length === 0 && (
+
+        {geofences.length === 0 && !geofencesLoading && (
           <div className="bg-white/90 rounded-lg p-4 text-center">
             <p className="text-sm text-gray-600">
-              No geofences found. Create a geofence first to configure buffer settings.
+              No geofences found. Create a geofence first to configure alert rules.
             </p>
           </div>
         )}
 
-        {/* Out of Range */}
-        <div className="bg-white/90 rounded-lg p-4">
-          <div className="flex items-start justify-between gap-3">
-            <div className="flex-1">
-              <div className="flex items-center gap-2 mb-2">
-                <AlertTriangle className="w-5 h-5 text-[var(--grass-green)]" />
-                <h4 className="text-[var(--deep-forest)]">Out of Range</h4>
+        {currentDraft && (
+          <>
+            {isExclusionZone ? (
+              /* Exclusion Zone */
+              <div className="bg-white/90 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Ban className="w-5 h-5 text-red-500" />
+                      <h4 className="text-[var(--deep-forest)]">Exclusion Zone</h4>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Alert when tracker enters this keep-out area
+                    </p>
+                  </div>
+                  <Switch
+                    checked={currentDraft.enable_exclusion_zone}
+                    onCheckedChange={(checked: boolean) => updateDraft({ enable_exclusion_zone: checked })}
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
-              <p className="text-sm text-gray-600">
-                Alert when tracker is outside fence for more than 30 seconds
-              </p>
-            </div>
-            <Switch
-              checked={outOfRange}
-              onCheckedChange={setOutOfRange}
-              disabled={settingsLoading}
-            />
-          </div>
-        </div>
+            ) : (
+              /* Out of Range */
+              <div className="bg-white/90 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <AlertTriangle className="w-5 h-5 text-[var(--grass-green)]" />
+                      <h4 className="text-[var(--deep-forest)]">Out of Range</h4>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Alert when tracker leaves this zone
+                    </p>
+                  </div>
+                  <Switch
+                    checked={currentDraft.enable_out_of_range}
+                    onCheckedChange={(checked: boolean) => updateDraft({ enable_out_of_range: checked })}
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+            )}
 
-        {/* Low Battery */}
-        <div className="bg-white/90 rounded-lg p-4">
-          <div className="flex items-start justify-between gap-3">
-            <div className="flex-1">
-              <div className="flex items-center gap-2 mb-2">
-                <Battery className="w-5 h-5 text-[var(--accent-aqua)]" />
-                <h4 className="text-[var(--deep-forest)]">Low Battery</h4>
+            {/* Low Battery */}
+            <div className="bg-white/90 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Battery className="w-5 h-5 text-[var(--accent-aqua)]" />
+                    <h4 className="text-[var(--deep-forest)]">Low Battery</h4>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Alert when battery level drops to {lowBatteryThreshold ?? 15}%
+                  </p>
+                </div>
+                <Switch
+                  checked={currentDraft.enable_low_battery}
+                  onCheckedChange={(checked: boolean) => updateDraft({ enable_low_battery: checked })}
+                  disabled={isLoading}
+                />
               </div>
-              <p className="text-sm text-gray-600">
-                Alert when battery level drops below 15%
-              </p>
+              {currentDraft.enable_low_battery && (
+                <div className="mt-3">
+                  <select
+                    value={lowBatteryThreshold ?? 15}
+                    onChange={(e) => setLowBatteryThreshold(parseInt(e.target.value))}
+                    disabled={isLoading}
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+                  >
+                    {LOW_BATTERY_THRESHOLD_OPTIONS.map((value) => (
+                      <option key={value} value={value}>
+                        {value}%
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Applies to all zones. Clears again at {(lowBatteryThreshold ?? 15) + (settings?.low_battery_clear_margin ?? 5)}%.
+                  </p>
+                </div>
+              )}
             </div>
-            <Switch
-              checked={lowBattery}
-              onCheckedChange={setLowBattery}
-              disabled={settingsLoading}
-            />
-          </div>
-        </div>
 
-        {/* Inactivity */}
-        <div className="bg-white/90 rounded-lg p-4">
-          <div className="flex items-start justify-between gap-3">
-            <div className="flex-1">
-              <div className="flex items-center gap-2 mb-2">
-                <Activity className="w-5 h-5 text-[var(--high-yellow)]" />
-                <h4 className="text-[var(--deep-forest)]">Inactivity</h4>
+            {/* Inactivity */}
+            <div className="bg-white/90 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Activity className="w-5 h-5 text-[var(--high-yellow)]" />
+                    <h4 className="text-[var(--deep-forest)]">Inactivity</h4>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Alert when no movement detected for {settings?.inactivity_minutes ?? 15} minutes
+                  </p>
+                </div>
+                <Switch
+                  checked={currentDraft.enable_inactivity}
+                  onCheckedChange={(checked: boolean) => updateDraft({ enable_inactivity: checked })}
+                  disabled={isLoading}
+                />
               </div>
-              <p className="text-sm text-gray-600">
-                Alert when no movement detected for 15 minutes
-              </p>
             </div>
-            <Switch
-              checked={inactivity}
-              onCheckedChange={setInactivity}
-              disabled={settingsLoading}
-            />
-          </div>
-        </div>
-        
-        {/* Boundary Buffer - Moved to bottom */}
-        <div className="bg-white/90 rounded-lg p-4">
-          <div className="flex items-start justify-between gap-3 mb-3">
-            <div className="flex-1">
+
+            {/* Boundary Buffer (safe areas only) */}
+            {!isExclusionZone && (
+              <div className="bg-white/90 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <MapPin className="w-5 h-5 text-[var(--grass-green)]" />
+                      <h4 className="text-[var(--deep-forest)]">Boundary Buffer</h4>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Add a buffer zone around your geofence boundary
+                    </p>
+                  </div>
+                  <Switch
+                    checked={currentDraft.buffer_m > 0}
+                    onCheckedChange={(checked: boolean) => updateDraft({ buffer_m: checked ? 10 : 0 })}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                {currentDraft.buffer_m > 0 && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm text-gray-600">Buffer Distance</label>
+                      <span className="text-sm font-medium text-[var(--deep-forest)]">
+                        {currentDraft.buffer_m} m
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="50"
+                      step="1"
+                      value={currentDraft.buffer_m}
+                      onChange={(e) => {
+                        const newValue = parseInt(e.target.value);
+                        updateDraft({ buffer_m: Math.max(0, Math.min(50, newValue)) }); // Clamp to 0-50
+                      }}
+                      disabled={isLoading}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-[var(--grass-green)]"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Grace Period */}
+            <div className="bg-white/90 rounded-lg p-4">
               <div className="flex items-center gap-2 mb-2">
-                <MapPin className="w-5 h-5 text-[var(--grass-green)]" />
-                <h4 className="text-[var(--deep-forest)]">Boundary Buffer</h4>
+                <Clock className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="text-[var(--deep-forest)]">Grace Period</h4>
               </div>
-              <p className="text-sm text-gray-600">
-                Add a buffer zone around your geofence boundary
+              <p className="text-sm text-gray-600 mb-3">
+                {isExclusionZone
+                  ? 'How long an animal may stay inside before you are alerted'
+                  : 'How long an animal may stay outside before you are alerted'}
               </p>
+              <select
+                value={currentDraft.grace_period_s}
+                onChange={(e) => updateDraft({ grace_period_s: parseInt(e.target.value) })}
+                disabled={isLoading}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+              >
+                {GRACE_PERIOD_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
             </div>
-            <Switch
-              checked={bufferEnabled}
-              onCheckedChange={setBufferEnabled}
-              disabled={settingsLoading}
-            />
-          </div>
-          
-          {bufferEnabled && (
-            <div className="mt-4 space-y-2">
-              <div className="flex items-center justify-between">
-                <label className="text-sm text-gray-600">Buffer Distance</label>
-                <span className="text-sm font-medium text-[var(--deep-forest)]">
-                  {bufferMeters} m
-                </span>
+
+            {/* Schedule */}
+            <div className="bg-white/90 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <CalendarDays className="w-5 h-5 text-[var(--grass-green)]" />
+                    <h4 className="text-[var(--deep-forest)]">Schedule</h4>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Only alert on these days{currentDraft.schedule_start ? ' and hours' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-600">All day</span>
+                  <Switch
+                    checked={!currentDraft.schedule_start}
+                    onCheckedChange={(checked: boolean) =>
+                      updateDraft(
+                        checked
+                          ? { schedule_start: null, schedule_end: null }
+                          : { schedule_start: '20:00', schedule_end: '06:00' }
+                      )
+                    }
+                    disabled={isLoading}
+                  />
+                </div>
               </div>
-              <input
-                type="range"
-                min="0"
-                max="50"
-                step="1"
-                value={bufferMeters}
-                onChange={(e) => {
-                  const newValue = parseInt(e.target.value);
-                  setBufferMeters(Math.max(0, Math.min(50, newValue))); // Clamp to 0-50, local state only
-                }}
-                disabled={settingsLoading}
-                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-[var(--grass-green)]"
-              />
-              <div className="flex justify-between text-xs text-gray-500">
+
+              <div className="flex justify-between gap-1">
+                {ALL_DAYS.map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    disabled={isLoading}
+                    className={`flex-1 py-1 rounded-lg text-xs transition-colors ${
+                      currentDraft.schedule_days.includes(day)
+                        ? 'bg-[var(--grass-green)] text-white'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {DAY_LABELS[day]}
+                  </button>
+                ))}
               </div>
+
+              <p className="mt-3 text-xs text-gray-500">
+                Times in {farmTimeZone} (change the farm timezone in Settings).
+              </p>
+
+              {currentDraft.schedule_start && (
+                <div className="mt-3 flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={currentDraft.schedule_start}
+                    onChange={(e) => updateDraft({ schedule_start: e.target.value })}
+                    disabled={isLoading}
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+                  />
+                  <span className="text-sm text-gray-600">to</span>
+                  <input
+                    type="time"
+                    value={currentDraft.schedule_end || ''}
+                    onChange={(e) => updateDraft({ schedule_end: e.target.value })}
+                    disabled={isLoading}
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+                  />
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
 
       {/* Bottom Buttons */}
@@ -297,7 +639,7 @@ export const CustomizeAlerts: React.FC = () => {
                 variant="primary" 
                 onClick={handleSaveSettings}
                 className="flex-1"
-                disabled={settingsLoading}
+                disabled={isLoading || isSaving}
               >
                 Continue
               </GeoButton>
@@ -315,7 +657,7 @@ export const CustomizeAlerts: React.FC = () => {
                 variant="primary" 
                 onClick={handleSaveSettings}
                 className="flex-1"
-                disabled={settingsLoading}
+                disabled={isLoading || isSaving}
               >
                 Save
               </GeoButton>
@@ -1,17 +1,93 @@
-import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import * as turf from '@turf/turf';
 import { LeafletMap } from '../components/LeafletMap';
+import { LocationSearch, buildLocalSearchEntries } from '../components/LocationSearch';
+import { MeasurePanel } from '../components/MeasurePanel';
 import { GeoButton } from '../components/GeoButton';
 import { useAuth } from '../hooks/useAuth';
-import { useGeofences } from '../hooks/useGeofences';
+import { useGeofences, Geofence, GeofenceKind } from '../hooks/useGeofences';
+import { useDevices } from '../hooks/useDevices';
+import { useLiveLocations } from '../hooks/useLiveLocations';
+import { useSettings } from '../hooks/useSettings';
+import { useMeasureTool } from '../hooks/useMeasureTool';
+import { useEditHistory } from '../hooks/useEditHistory';
 import { useApp } from '../contexts/AppContext';
 import { supabase } from '../lib/supabase';
-import { Search, Navigation, X, Trash2, Move } from 'lucide-react';
+import { isOnline, isNetworkError, queueWrite, QueuedWrite, QUEUE_FAILED_MESSAGE } from '../lib/offlineQueue';
+import { GeocodeResult } from '../lib/geocoding';
+import { validateZoneGeometry } from '../lib/zoneValidation';
+import {
+  CircleShape,
+  LatLng,
+  LatLngMultiPolygon,
+  asMultiPolygonGeometry,
+  circleToRing,
+  destinationPoint,
+  distanceM,
+  findContainingPart,
+  findCrossings,
+  findGeometryProblem,
+  rectangleToRing,
+  toCircleShape,
+  toLatLngPolygons,
+  toMultiPolygonGeometry,
+} from '../lib/geometry';
+import { formatDistance, measureAreaM2 } from '../lib/measurement';
+import { Search, Navigation, X, Trash2, Undo2, Redo2, History, Clock, ShieldCheck, Ban, SquarePlus, CircleDashed, Ruler, Pentagon, Circle, RectangleHorizontal } from 'lucide-react';
 import { toast } from 'sonner';
 import logo from '../assets/logo.png';
 
-type LatLng = [number, number];
+// A vertex of the shape: part, ring (0 = outline, 1+ = holes) and point.
+// part -1 is the ring currently being drawn.
+interface VertexRef {
+  part: number;
+  ring: number;
+  index: number;
+}
+
+// Polygon: one tap per vertex. Circle: centre, then edge. Rectangle: two corners.
+type DrawTool = 'polygon' | 'circle' | 'rectangle';
+
+// Smaller circles / rectangles are almost certainly a mis-tap
+const MIN_CIRCLE_RADIUS_M = 2;
+const MIN_ZONE_AREA_M2 = 4;
+
+const sameVertex = (a: VertexRef | null, b: VertexRef) =>
+  !!a && a.part === b.part && a.ring === b.ring && a.index === b.index;
+
+// What undo / redo restore
+interface ShapeSnapshot {
+  savedShape: LatLngMultiPolygon;
+  currentPolygon: LatLng[];
+  circle: CircleShape | null;
+  drawingRing: 'part' | 'hole' | null;
+}
+
+// Map handle ids: 'vertex:<part>:<ring>:<index>' drags a vertex,
+// 'mid:<part>:<ring>:<index>' inserts one after <index>
+type VertexHandleKind = 'vertex' | 'mid';
+
+const vertexHandleId = (kind: VertexHandleKind, ref: VertexRef) => `${kind}:${ref.part}:${ref.ring}:${ref.index}`;
+
+const parseVertexHandleId = (id: string): { kind: VertexHandleKind; ref: VertexRef } | null => {
+  const [kind, part, ring, index] = id.split(':');
+  if (kind !== 'vertex' && kind !== 'mid') return null;
+  return { kind, ref: { part: Number(part), ring: Number(ring), index: Number(index) } };
+};
+
+// Applies `update` to one ring of the shape
+const updateRing = (
+  shape: LatLngMultiPolygon,
+  ref: VertexRef,
+  update: (ring: LatLng[]) => LatLng[]
+): LatLngMultiPolygon =>
+  shape.map((rings, part) =>
+    part === ref.part ? rings.map((ring, r) => (r === ref.ring ? update(ring) : ring)) : rings
+  );
+
+// Animal positions are only needed for search here, no need for the 5 s live poll
+const SEARCH_LOCATIONS_POLL_MS = 60000;
 
 const VIEWPORT_STORAGE_KEY = 'drawGeofence:lastViewport';
 
@@ -25,7 +101,16 @@ export const DrawGeofence: React.FC = () => {
   const location = useLocation();
   const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
-  const { geofences, refetch: refetchGeofences } = useGeofences(user?.id);
+  const {
+    geofences,
+    refetch: refetchGeofences,
+    updateLocal: updateLocalGeofence,
+    removeLocal: removeLocalGeofence,
+  } = useGeofences(user?.id);
+  const { devices } = useDevices(user?.id);
+  const { locations } = useLiveLocations(user?.id, SEARCH_LOCATIONS_POLL_MS);
+  const { settings } = useSettings(user?.id);
+  const measureTool = useMeasureTool();
   const { navigateBackToLast, setLastRoute, setLastMainTab } = useApp();
   
   // Get navigation state from location
@@ -39,18 +124,40 @@ export const DrawGeofence: React.FC = () => {
   const [mapCenter, setMapCenter] = useState<[number, number]>([51.969205, 7.595761]);
   const [mapZoom, setMapZoom] = useState<number>(17); // Maximum zoom level
   
-  // Polygon state
+  // Shape state: completed parts with their holes, plus the ring being drawn
   const [currentPolygon, setCurrentPolygon] = useState<LatLng[]>([]);
-  const [savedPolygon, setSavedPolygon] = useState<LatLng[]>([]);
+  const [savedShape, setSavedShape] = useState<LatLngMultiPolygon>([]);
+  // What the ring being drawn becomes once the shape exists (null = its first outline)
+  const [drawingRing, setDrawingRing] = useState<'part' | 'hole' | null>(null);
+  const [drawTool, setDrawTool] = useState<DrawTool>('polygon');
+  // Circle the shape was drawn as; savedShape holds its polygon approximation
+  const [circle, setCircle] = useState<CircleShape | null>(null);
+  // First tap of a circle (centre) or rectangle (corner)
+  const [anchorPoint, setAnchorPoint] = useState<LatLng | null>(null);
+  // State before a circle handle drag, restored if the result is invalid
+  const circleDragStartRef = useRef<ShapeSnapshot | null>(null);
   const [bufferMeters, setBufferMeters] = useState<number>(0);
+  const [zoneKind, setZoneKind] = useState<GeofenceKind>('include');
   
   // UI state
   const [showSearchModal, setShowSearchModal] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedPointIndex, setSelectedPointIndex] = useState<number | null>(null);
+  const [flyTarget, setFlyTarget] = useState<{
+    center: [number, number];
+    zoom?: number;
+    bounds?: [[number, number], [number, number]];
+  } | null>(null);
+  const [selectedVertex, setSelectedVertex] = useState<VertexRef | null>(null);
   const [selectedPointPosition, setSelectedPointPosition] = useState<LatLng | null>(null);
-  const [isMovingPoint, setIsMovingPoint] = useState(false);
-  const [movingPointIndex, setMovingPointIndex] = useState<number | null>(null);
+  // Shape while a vertex is dragged (and until the result is validated)
+  const [dragPreview, setDragPreview] = useState<{
+    id: string;
+    dragging: boolean;
+    savedShape: LatLngMultiPolygon;
+    currentPolygon: LatLng[];
+  } | null>(null);
+  // Where the last rejected edit made edges cross
+  const [crossings, setCrossings] = useState<LatLng[]>([]);
+  const history = useEditHistory<ShapeSnapshot>();
   const [isValidating, setIsValidating] = useState(false);
   
   // Refs
@@ -135,78 +242,39 @@ export const DrawGeofence: React.FC = () => {
   // Initialize polygon if editing
   useEffect(() => {
     if (editingGeofence && editingGeofence.boundary_inner) {
-      const coords = toLatLngArray(editingGeofence.boundary_inner);
-      if (coords.length >= 3) {
-        setSavedPolygon(coords);
-      // Center map on geofence
-      if (coords.length > 0) {
-        const ring: number[][] = coords.map(([lat, lng]: LatLng) => [lng, lat]);
-        const center = turf.centroid(turf.polygon([ring]));
+      setZoneKind(editingGeofence.kind || 'include');
+      // All parts and holes of the zone
+      const parts = toLatLngPolygons(editingGeofence.boundary_inner);
+      if (parts.length > 0) {
+        // Saved circles come back as an editable circle (a single ring)
+        const savedCircle =
+          parts.length === 1 && parts[0].length === 1 ? toCircleShape(editingGeofence.shape) : null;
+        setSavedShape(parts);
+        setCircle(savedCircle);
+        setDrawTool(savedCircle ? 'circle' : 'polygon');
+        setAnchorPoint(null);
+        setCurrentPolygon([]);
+        setDrawingRing(null);
+        setCrossings([]);
+        history.reset();
+        // Center map on geofence
+        const center = turf.centroid(turf.feature(toMultiPolygonGeometry(parts)));
         const centerCoords = center.geometry.coordinates;
         setMapCenter([centerCoords[1] as number, centerCoords[0] as number] as [number, number]);
       }
-      }
     } else if (mode === 'create') {
-      setSavedPolygon([]);
+      setSavedShape([]);
       setCurrentPolygon([]);
+      setDrawingRing(null);
+      setCircle(null);
+      setAnchorPoint(null);
+      setZoneKind('include');
+      setCrossings([]);
+      history.reset();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [editingGeofence, mode]);
 
-  function toLatLngArray(input: any): LatLng[] {
-    if (!input) return [];
-    if (typeof input === "string") {
-      try { input = JSON.parse(input); } catch { return []; }
-    }
-    if (input?.type === "Feature" && input?.geometry) input = input.geometry;
-    if (input?.type === "Polygon" && Array.isArray(input.coordinates)) {
-      const ring = input.coordinates[0] ?? [];
-      return ring.map(([lng, lat]: number[]) => [lat, lng]);
-    }
-    if (input?.type === "MultiPolygon" && Array.isArray(input.coordinates)) {
-      const ring = input.coordinates?.[0]?.[0] ?? [];
-      return ring.map(([lng, lat]: number[]) => [lat, lng]);
-    }
-    if (Array.isArray(input) && input.length && Array.isArray(input[0])) {
-      return input.map((p: any) => [Number(p[0]), Number(p[1])] as LatLng);
-    }
-    return [];
-  }
-
-  // Validate polygon geometry using Supabase RPC
-  const validatePolygon = useCallback(async (polygon: LatLng[]): Promise<boolean> => {
-    if (polygon.length < 3) return true; // Allow incomplete polygons
-    
-    try {
-      // Convert to GeoJSON Polygon
-      const ring: number[][] = polygon.map(([lat, lng]) => [lng, lat]);
-      // Ensure closed ring
-      const first = ring[0];
-      const last = ring[ring.length - 1];
-      if (first[0] !== last[0] || first[1] !== last[1]) {
-        ring.push([first[0], first[1]]);
-      }
-      
-      const geojson = {
-        type: 'Polygon',
-        coordinates: [ring]
-      };
-
-      const { data, error } = await supabase.rpc('validate_polygon_simple', {
-        p_geojson: geojson
-      });
-
-      if (error) {
-        console.error('Validation error:', error);
-        return false;
-      }
-
-      return data === true;
-    } catch (error) {
-      console.error('Validation failed:', error);
-      return false;
-    }
-  }, []);
-
   // Debounced validation (not used currently, but kept for future use)
   // const validatePolygonDebounced = useCallback(async (polygon: LatLng[]) => {
   //   if (validationTimeoutRef.current) {
@@ -240,77 +308,139 @@ export const DrawGeofence: React.FC = () => {
     }
   };
 
-  const handleSearchLocation = async () => {
-    if (!searchQuery.trim()) return;
-    
-    toast.info('Geocoding service will be implemented soon');
-    setMapCenter([51.969205, 7.595761]);
-    setShowSearchModal(false);
-    setSearchQuery('');
+  const searchEntries = useMemo(
+    () => buildLocalSearchEntries(geofences, devices, locations),
+    [geofences, devices, locations]
+  );
+
+  const handleSearchSelect = (result: GeocodeResult) => {
+    setFlyTarget({
+      center: [result.lat, result.lng],
+      zoom: 17, // Maximum zoom level
+      bounds: result.bounds,
+    });
   };
 
-  const handleMapClick = async (lat: number, lng: number) => {
-    // If moving a point, place it at the clicked location
-    if (isMovingPoint && movingPointIndex !== null) {
-      const displayPolygon = savedPolygon.length > 0 ? savedPolygon : currentPolygon;
-      const newPolygon: LatLng[] = [...displayPolygon];
-      newPolygon[movingPointIndex] = [lat, lng] as LatLng;
-      
-      // Validate the new polygon
-      setIsValidating(true);
-      const isValid = await validatePolygon(newPolygon);
-      setIsValidating(false);
-      
-      if (!isValid) {
-        toast.error('Please draw a non-overlapping zone');
-        setIsMovingPoint(false);
-        setMovingPointIndex(null);
-        return;
-      }
-      
-      // Update polygon
-      if (savedPolygon.length > 0) {
-        setSavedPolygon(newPolygon);
-      } else {
-        setCurrentPolygon(newPolygon);
+  const currentSnapshot = (): ShapeSnapshot => ({ savedShape, currentPolygon, circle, drawingRing });
+
+  const restoreSnapshot = (snapshot: ShapeSnapshot) => {
+    setSavedShape(snapshot.savedShape);
+    setCurrentPolygon(snapshot.currentPolygon);
+    setCircle(snapshot.circle);
+    setDrawingRing(snapshot.drawingRing);
+    setAnchorPoint(null);
+    setSelectedVertex(null);
+    setSelectedPointPosition(null);
+    setCrossings([]);
+  };
+
+  // Applies an edit and records the previous state for undo
+  const applyEdit = (changes: Partial<ShapeSnapshot>) => {
+    const previous = currentSnapshot();
+    history.record(previous);
+    restoreSnapshot({ ...previous, ...changes });
+  };
+
+  // Validates what an edit changed (the ring being drawn on its own) and
+  // shows where edges cross when it is rejected
+  const validateEdit = async (changes: Partial<ShapeSnapshot>) => {
+    const candidates: LatLngMultiPolygon[] = [];
+    if (changes.savedShape) candidates.push(changes.savedShape);
+    if (changes.currentPolygon && changes.currentPolygon.length >= 3) candidates.push([[changes.currentPolygon]]);
+
+    setIsValidating(true);
+    try {
+      for (const candidate of candidates) {
+        if (!(await validateZoneGeometry(candidate))) {
+          setCrossings(findCrossings(candidate));
+          toast.error('Please draw a non-overlapping zone');
+          return false;
+        }
       }
-      
-      setIsMovingPoint(false);
-      setMovingPointIndex(null);
-      return;
+      return true;
+    } finally {
+      setIsValidating(false);
     }
-    
+  };
+
+  const commitEdit = async (changes: Partial<ShapeSnapshot>) => {
+    if (!(await validateEdit(changes))) return false;
+    applyEdit(changes);
+    return true;
+  };
+
+  const handleUndo = () => {
+    const previous = history.undo(currentSnapshot());
+    if (previous) restoreSnapshot(previous);
+  };
+
+  const handleRedo = () => {
+    const next = history.redo(currentSnapshot());
+    if (next) restoreSnapshot(next);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleMapClick = async (lat: number, lng: number) => {
     // If in edit mode and clicking empty space, switch to create mode
-    if (mode === 'edit' && selectedPointIndex === null) {
+    // (not while drawing an extra part or hole of the zone)
+    if (mode === 'edit' && selectedVertex === null && !drawingRing) {
       setMode('create');
       setSelectedGeofenceId(null);
-      setSavedPolygon([]);
+      setSavedShape([]);
       setCurrentPolygon([]);
+      setCircle(null);
+      setDrawTool('polygon');
+      setCrossings([]);
+      history.reset();
       return;
     }
-    
-    // If editing existing polygon, don't allow adding new points
-    if (mode === 'edit' && savedPolygon.length > 0) {
+
+    // Circle / rectangle: the first tap anchors, the second one finishes
+    if (drawTool !== 'polygon' && savedShape.length === 0 && !drawingRing) {
+      if (!anchorPoint) {
+        setAnchorPoint([lat, lng]);
+        return;
+      }
+      const anchor = anchorPoint;
+      setAnchorPoint(null);
+      if (drawTool === 'circle') {
+        const newCircle: CircleShape = { type: 'circle', center: anchor, radius_m: distanceM(anchor, [lat, lng]) };
+        if (newCircle.radius_m < MIN_CIRCLE_RADIUS_M) {
+          toast.error('The circle is too small');
+          return;
+        }
+        await applyOutline(circleToRing(newCircle), newCircle);
+      } else {
+        await applyOutline(rectangleToRing(anchor, [lat, lng]));
+      }
       return;
     }
     
-    // Add point to current polygon
-    const newPolygon: LatLng[] = [...currentPolygon, [lat, lng] as LatLng];
-    
-    // Validate if polygon has 3+ points (4th point onward)
-    if (newPolygon.length >= 3) {
-      setIsValidating(true);
-      const isValid = await validatePolygon(newPolygon);
-      setIsValidating(false);
-      
-      if (!isValid) {
-        toast.error('Please draw a non-overlapping zone');
-        return; // Don't add the point
-      }
+    // Once the shape exists, new points only go into an extra part or hole
+    if (savedShape.length > 0 && !drawingRing) {
+      return;
     }
     
-    setCurrentPolygon(newPolygon);
-    setSelectedPointIndex(null);
+    // Add point to current polygon (validated from the 3rd point on;
+    // an invalid point is not added)
+    await commitEdit({ currentPolygon: [...currentPolygon, [lat, lng] as LatLng] });
   };
 
   const handlePolygonClick = (polygonIndex: number) => {
@@ -329,35 +459,146 @@ export const DrawGeofence: React.FC = () => {
     }
   };
 
-  const handleMarkerClick = (markerIndex: number) => {
-    const displayPolygon = savedPolygon.length > 0 ? savedPolygon : currentPolygon;
-    if (displayPolygon[markerIndex]) {
-      setSelectedPointIndex(markerIndex);
-      setSelectedPointPosition(displayPolygon[markerIndex]);
+  const getVertex = (ref: VertexRef): LatLng | undefined =>
+    ref.part === -1 ? currentPolygon[ref.index] : savedShape[ref.part]?.[ref.ring]?.[ref.index];
+
+  // Shape with the dragged vertex moved, or with a vertex inserted at a midpoint
+  const moveVertexHandle = (id: string, position: LatLng) => {
+    const parsed = parseVertexHandleId(id);
+    if (!parsed) return null;
+    const { kind, ref } = parsed;
+    const edit = (ring: LatLng[]) =>
+      kind === 'vertex'
+        ? ring.map((point, i) => (i === ref.index ? position : point))
+        : [...ring.slice(0, ref.index + 1), position, ...ring.slice(ref.index + 1)];
+    return ref.part === -1
+      ? { savedShape, currentPolygon: edit(currentPolygon) }
+      : { savedShape: updateRing(savedShape, ref, edit), currentPolygon };
+  };
+
+  const handleHandleDrag = (id: string, position: LatLng) => {
+    if (id.startsWith('circle-')) {
+      handleCircleDrag(id, position);
+      return;
+    }
+    const moved = moveVertexHandle(id, position);
+    if (moved) setDragPreview({ id, dragging: true, ...moved });
+  };
+
+  const handleHandleDragEnd = async (id: string, position: LatLng) => {
+    if (id.startsWith('circle-')) {
+      await handleCircleDragEnd(id, position);
+      return;
     }
+    const moved = moveVertexHandle(id, position);
+    if (!moved) return;
+    // Keep showing the result while it is validated; an invalid move snaps back
+    setDragPreview({ id, dragging: false, ...moved });
+    await commitEdit(
+      parseVertexHandleId(id)?.ref.part === -1
+        ? { currentPolygon: moved.currentPolygon }
+        : { savedShape: moved.savedShape }
+    );
+    setDragPreview(null);
   };
 
-  const handleMovePoint = () => {
-    if (selectedPointIndex !== null) {
-      setIsMovingPoint(true);
-      setMovingPointIndex(selectedPointIndex);
-      setSelectedPointIndex(null);
-      setSelectedPointPosition(null);
-      toast.info('Click on the map to move this point');
+  // A tap on a vertex opens its actions
+  const handleHandleClick = (id: string) => {
+    const parsed = parseVertexHandleId(id);
+    if (parsed?.kind !== 'vertex') return;
+    const position = getVertex(parsed.ref);
+    if (position) {
+      setSelectedVertex(parsed.ref);
+      setSelectedPointPosition(position);
     }
   };
 
-  const handleDeletePoint = (index: number) => {
-    if (savedPolygon.length > 0) {
-      const newPolygon = savedPolygon.filter((_, i) => i !== index);
-      setSavedPolygon(newPolygon);
+  const handleDeletePoint = async (ref: VertexRef) => {
+    setSelectedVertex(null);
+    setSelectedPointPosition(null);
+    if (ref.part === -1) {
+      await commitEdit({ currentPolygon: currentPolygon.filter((_, i) => i !== ref.index) });
+      return;
+    }
+
+    const ring = savedShape[ref.part]?.[ref.ring] ?? [];
+    if (ring.length > 3) {
+      await commitEdit({ savedShape: updateRing(savedShape, ref, (r) => r.filter((_, i) => i !== ref.index)) });
+    } else if (ref.ring > 0 || savedShape.length > 1) {
+      // A hole or an extra part needs 3 points: drop it
+      handleDeleteRing(ref);
     } else {
-      const newPolygon = currentPolygon.filter((_, i) => i !== index);
-      setCurrentPolygon(newPolygon);
+      // Last outline: keep the remaining points and continue drawing
+      applyEdit({ savedShape: [], currentPolygon: ring.filter((_, i) => i !== ref.index), drawingRing: null });
     }
-    setSelectedPointIndex(null);
-    setIsMovingPoint(false);
-    setMovingPointIndex(null);
+  };
+
+  // Removes the hole, or the whole part (with its holes) for an outline
+  const handleDeleteRing = (ref: VertexRef) => {
+    applyEdit({
+      savedShape:
+        ref.ring > 0
+          ? savedShape.map((rings, part) => (part === ref.part ? rings.filter((_, r) => r !== ref.ring) : rings))
+          : savedShape.filter((_, part) => part !== ref.part),
+    });
+  };
+
+  // Circle / rectangle outline: validated like a completed polygon
+  const applyOutline = async (ring: LatLng[], circleShape: CircleShape | null = null) => {
+    if (measureAreaM2({ points: ring, closed: true }) < MIN_ZONE_AREA_M2) {
+      toast.error('The zone is too small');
+      return;
+    }
+
+    if (await commitEdit({ savedShape: [[ring]], circle: circleShape, currentPolygon: [] })) {
+      setBufferMeters(0);
+    }
+  };
+
+  const handleToolChange = (tool: DrawTool) => {
+    setDrawTool(tool);
+    setAnchorPoint(null);
+    setCurrentPolygon([]);
+  };
+
+  // Circle handles: the centre moves the circle, the edge handle sets the radius
+  const resizeCircle = (id: string, position: LatLng) => {
+    if (!circle) return null;
+    const next: CircleShape =
+      id === 'circle-center'
+        ? { ...circle, center: position }
+        : { ...circle, radius_m: Math.max(MIN_CIRCLE_RADIUS_M, distanceM(circle.center, position)) };
+    setCircle(next);
+    setSavedShape([[circleToRing(next)]]);
+    return next;
+  };
+
+  const handleCircleDrag = (id: string, position: LatLng) => {
+    if (!circleDragStartRef.current) circleDragStartRef.current = currentSnapshot();
+    resizeCircle(id, position);
+  };
+
+  const handleCircleDragEnd = async (id: string, position: LatLng) => {
+    const start = circleDragStartRef.current;
+    circleDragStartRef.current = null;
+    const next = resizeCircle(id, position);
+    if (!next || !start) return;
+
+    if (await validateEdit({ savedShape: [[circleToRing(next)]] })) {
+      history.record(start);
+    } else {
+      restoreSnapshot(start);
+    }
+  };
+
+  const handleStartRing = (kind: 'part' | 'hole') => {
+    // With holes or extra parts the zone is no longer a plain circle
+    applyEdit({ circle: null, drawingRing: kind, currentPolygon: [] });
+    toast.info(kind === 'hole' ? 'Tap inside the zone to draw the hole' : 'Tap the map to draw the extra part');
+  };
+
+  const handleCancelRing = () => {
+    applyEdit({ drawingRing: null, currentPolygon: [] });
   };
 
   const handleCompletePolygon = async () => {
@@ -365,29 +606,39 @@ export const DrawGeofence: React.FC = () => {
       toast.error('A geofence needs at least 3 points.');
       return;
     }
+
+    // The first ring is the outline; later ones become a hole or an extra part
+    let newShape: LatLngMultiPolygon;
+    if (drawingRing === 'hole') {
+      const part = findContainingPart(currentPolygon, savedShape);
+      if (part === -1) {
+        toast.error('Draw the hole inside the zone');
+        return;
+      }
+      newShape = savedShape.map((rings, p) => (p === part ? [...rings, currentPolygon] : rings));
+    } else {
+      newShape = [...savedShape, [currentPolygon]];
+    }
+
+    const problem = findGeometryProblem(newShape);
+    if (problem) {
+      setCrossings(findCrossings(newShape));
+      toast.error(problem);
+      return;
+    }
     
     // Final validation
-    setIsValidating(true);
-    const isValid = await validatePolygon(currentPolygon);
-    setIsValidating(false);
-    
-    if (!isValid) {
-      toast.error('Please draw a non-overlapping zone');
+    if (!(await commitEdit({ savedShape: newShape, currentPolygon: [], drawingRing: null }))) {
       return;
     }
-    
-    setSavedPolygon(currentPolygon);
-    setCurrentPolygon([]);
-    setBufferMeters(0);
+    if (!drawingRing) {
+      setBufferMeters(0);
+    }
   };
 
   const handleClearPolygon = () => {
-    setSavedPolygon([]);
-    setCurrentPolygon([]);
+    applyEdit({ savedShape: [], currentPolygon: [], drawingRing: null, circle: null });
     setBufferMeters(0);
-    setSelectedPointIndex(null);
-    setIsMovingPoint(false);
-    setMovingPointIndex(null);
   };
 
   const handleBack = () => {
@@ -406,16 +657,18 @@ export const DrawGeofence: React.FC = () => {
   };
 
   const handleSaveGeofence = async () => {
-    const polygonToSave = savedPolygon.length > 0 ? savedPolygon : currentPolygon;
+    // An unfinished extra part or hole is not saved
+    const shapeToSave: LatLngMultiPolygon =
+      savedShape.length > 0 ? savedShape : currentPolygon.length >= 3 ? [[currentPolygon]] : [];
     
-    if (polygonToSave.length < 3) {
+    if (shapeToSave.length === 0) {
       toast.error('Please draw a geofence with at least 3 points.');
       return;
     }
 
     // Final validation before save
     setIsValidating(true);
-    const isValid = await validatePolygon(polygonToSave);
+    const isValid = await validateZoneGeometry(shapeToSave);
     setIsValidating(false);
     
     if (!isValid) {
@@ -428,28 +681,58 @@ export const DrawGeofence: React.FC = () => {
       return;
     }
 
-    try {
-      const ring: number[][] = polygonToSave.map(([lat, lng]) => [lng, lat]);
-      const first = ring[0];
-      const last = ring[ring.length - 1];
-      if (first[0] !== last[0] || first[1] !== last[1]) {
-        ring.push([first[0], first[1]]);
+    // Write to replay later if we turn out to be offline
+    let pendingWrite: Omit<QueuedWrite, 'id' | 'queuedAt'> | null = null;
+
+    // Queues the write and shows an edit straight away; false (after telling
+    // the user) when it could not be stored, so the drawing stays on screen
+    const queueForLater = async (write: Omit<QueuedWrite, 'id' | 'queuedAt'>) => {
+      if ((await queueWrite(write)) === null) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return false;
+      }
+      if (write.op === 'update' && selectedGeofenceId) {
+        updateLocalGeofence(selectedGeofenceId, write.values as Partial<Geofence>);
       }
+      return true;
+    };
 
-      const innerFeature = turf.polygon([ring]);
+    try {
+      // Both boundary columns are geometry(MultiPolygon)
+      const innerGeometry = toMultiPolygonGeometry(shapeToSave);
 
       let outerGeom: any = null;
       if (bufferMeters && bufferMeters > 0 && mode === 'create') {
-        const buffered = turf.buffer(innerFeature, bufferMeters, { units: "meters" }) as any;
-        const g = buffered?.geometry;
-        if (g?.type === "Polygon") {
-          outerGeom = g;
-        } else if (g?.type === "MultiPolygon") {
-          outerGeom = { type: "Polygon", coordinates: g.coordinates[0] };
-        }
+        const buffered = turf.buffer(turf.feature(innerGeometry), bufferMeters, { units: "meters" }) as any;
+        outerGeom = asMultiPolygonGeometry(buffered?.geometry);
       }
 
       if (mode === 'edit' && selectedGeofenceId) {
+        const existing = geofences.find((g) => g.id === selectedGeofenceId);
+        pendingWrite = {
+          table: 'geofences',
+          op: 'update',
+          values: {
+            boundary_inner: innerGeometry,
+            boundary_outer: outerGeom,
+            buffer_m: bufferMeters,
+            kind: zoneKind,
+            shape: circle,
+            updated_at: new Date().toISOString(),
+          },
+          match: { id: selectedGeofenceId, user_id: user.id },
+          // Replay stops with a conflict if the zone was edited elsewhere meanwhile
+          expectedUpdatedAt: existing?.updated_at ?? null,
+          label: `Edit zone "${existing?.name || 'Zone'}"`,
+        };
+
+        if (!isOnline()) {
+          if (!(await queueForLater(pendingWrite))) return;
+          toast.success('Offline: zone change will sync when you are back online');
+          navigateBackToLast(navigate);
+          return;
+        }
+
         // SECURITY: Verify ownership before update (defense in depth)
         // First, verify the geofence exists and belongs to the user
         const { data: existingGeofence, error: verifyError } = await supabase
@@ -459,6 +742,10 @@ export const DrawGeofence: React.FC = () => {
           .eq('user_id', user.id)
           .single();
 
+        if (verifyError && isNetworkError(verifyError)) {
+          throw verifyError;
+        }
+
         if (verifyError || !existingGeofence) {
           toast.error('You don\'t have permission to edit this zone.');
           console.error('Geofence ownership verification failed:', verifyError);
@@ -469,9 +756,11 @@ export const DrawGeofence: React.FC = () => {
         const { data: updatedData, error: updateError } = await supabase
           .from('geofences')
           .update({
-            boundary_inner: innerFeature.geometry,
+            boundary_inner: innerGeometry,
             boundary_outer: outerGeom,
             buffer_m: bufferMeters,
+            kind: zoneKind,
+            shape: circle,
             updated_at: new Date().toISOString(),
           })
           .eq('id', selectedGeofenceId)
@@ -494,15 +783,32 @@ export const DrawGeofence: React.FC = () => {
         // Edit mode: navigate back to last screen/tab
         navigateBackToLast(navigate);
       } else {
+        const newGeofence = {
+          name: zoneKind === 'exclude' ? "Exclusion Zone" : "My Safe Zone",
+          user_id: user.id,
+          boundary_inner: innerGeometry,
+          boundary_outer: outerGeom,
+          buffer_m: bufferMeters,
+          kind: zoneKind,
+          shape: circle,
+        };
+        pendingWrite = {
+          table: 'geofences',
+          op: 'insert',
+          values: newGeofence,
+          label: `Create zone "${newGeofence.name}"`,
+        };
+
+        if (!isOnline()) {
+          if (!(await queueForLater(pendingWrite))) return;
+          toast.success('Offline: zone will sync when you are back online');
+          navigate('/link-devices', { state: { mode: 'create', from: { pathname: '/draw-geofence', mainTab: undefined } } });
+          return;
+        }
+
         const { data, error } = await supabase
           .from('geofences')
-          .insert({
-            name: "My Safe Zone",
-            user_id: user.id,
-            boundary_inner: innerFeature.geometry,
-            boundary_outer: outerGeom,
-            buffer_m: bufferMeters,
-          })
+          .insert(newGeofence)
           .select()
           .single();
 
@@ -515,6 +821,17 @@ export const DrawGeofence: React.FC = () => {
         navigate('/link-devices', { state: { mode: 'create', from: { pathname: '/draw-geofence', mainTab: undefined } } });
       }
     } catch (error: any) {
+      // Connection dropped mid-save: queue it instead of losing the drawing
+      if (pendingWrite && isNetworkError(error)) {
+        if (!(await queueForLater(pendingWrite))) return;
+        toast.success('Connection lost: zone will sync when you are back online');
+        if (pendingWrite.op === 'insert') {
+          navigate('/link-devices', { state: { mode: 'create', from: { pathname: '/draw-geofence', mainTab: undefined } } });
+        } else {
+          navigateBackToLast(navigate);
+        }
+        return;
+      }
       console.error('Save geofence failed', error);
       toast.error('Unable to save zone: ' + (error?.message || 'unknown error'));
     }
@@ -527,7 +844,47 @@ export const DrawGeofence: React.FC = () => {
       return;
     }
 
+    const existing = geofences.find((g) => g.id === selectedGeofenceId);
+    const pendingDelete: Omit<QueuedWrite, 'id' | 'queuedAt'> = {
+      table: 'geofences',
+      op: 'delete',
+      match: { id: selectedGeofenceId, user_id: user.id },
+      expectedUpdatedAt: existing?.updated_at ?? null,
+      label: `Delete zone "${existing?.name || 'Zone'}"`,
+    };
+
+    const resetToCreate = () => {
+      setMode('create');
+      setSelectedGeofenceId(null);
+      setSavedShape([]);
+      setCurrentPolygon([]);
+      setDrawingRing(null);
+      setCircle(null);
+      setAnchorPoint(null);
+      setCrossings([]);
+      history.reset();
+      setSearchParams({ mode: 'create' });
+    };
+
+    // Queues the delete and hides the zone straight away; false (after telling
+    // the user) when it could not be stored
+    const queueDelete = async () => {
+      if ((await queueWrite(pendingDelete)) === null) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return false;
+      }
+      removeLocalGeofence(selectedGeofenceId);
+      return true;
+    };
+
     try {
+      if (!isOnline()) {
+        if (!(await queueDelete())) return;
+        toast.success('Offline: zone will be deleted when you are back online');
+        resetToCreate();
+        return;
+      }
+
       // SECURITY: Verify ownership before delete (defense in depth)
       const { data: existingGeofence, error: verifyError } = await supabase
         .from('geofences')
@@ -536,6 +893,10 @@ export const DrawGeofence: React.FC = () => {
         .eq('user_id', user.id)
         .single();
 
+      if (verifyError && isNetworkError(verifyError)) {
+        throw verifyError;
+      }
+
       if (verifyError || !existingGeofence) {
         toast.error('You don\'t have permission to delete this zone.');
         console.error('Geofence ownership verification failed:', verifyError);
@@ -565,52 +926,115 @@ export const DrawGeofence: React.FC = () => {
       await refetchGeofences();
       
       // Switch back to create mode
-      setMode('create');
-      setSelectedGeofenceId(null);
-      setSavedPolygon([]);
-      setCurrentPolygon([]);
-      setSearchParams({ mode: 'create' });
+      resetToCreate();
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        if (!(await queueDelete())) return;
+        toast.success('Connection lost: zone will be deleted when you are back online');
+        resetToCreate();
+        return;
+      }
       console.error('Delete geofence failed', error);
       toast.error('Unable to delete zone: ' + (error?.message || 'unknown error'));
     }
   };
 
-  // Prepare polygons for display
-  const displayPolygon = savedPolygon.length > 0 ? savedPolygon : currentPolygon;
+  const hasShape = savedShape.length > 0 || currentPolygon.length > 0;
+  const canSave = savedShape.length > 0 || currentPolygon.length >= 3;
   
   // Convert existing geofences to polygon format
   const existingPolygons = useMemo(() => {
     return geofences.map((geofence) => {
-      const coords = toLatLngArray(geofence.boundary_inner);
       return {
-        coordinates: coords,
+        coordinates: toLatLngPolygons(geofence.boundary_inner),
         color: '#78A64A',
         fillColor: '#78A64A',
         fillOpacity: 0.2,
         id: geofence.id,
+        kind: geofence.kind || 'include', // exclusion zones are drawn red by LeafletMap
       };
     });
   }, [geofences]);
 
-  // Current drawing polygon
-  const drawingPolygon = displayPolygon.length >= 3 ? [{
-    coordinates: displayPolygon,
-    color: mode === 'edit' ? '#3FB7FF' : '#78A64A',
-    fillColor: mode === 'edit' ? '#3FB7FF' : '#78A64A',
+  // Current drawing polygon: the completed shape (parts and holes), or the
+  // first outline while it is being drawn. A dragged vertex shows up live.
+  const shownShape = dragPreview?.savedShape ?? savedShape;
+  const shownPolygon = dragPreview?.currentPolygon ?? currentPolygon;
+  const drawingColor = mode === 'edit' ? '#3FB7FF' : '#78A64A';
+  const drawingPolygon = shownShape.length > 0 || (!drawingRing && shownPolygon.length >= 3) ? [{
+    coordinates: shownShape.length > 0 ? shownShape : [[shownPolygon]],
+    color: drawingColor,
+    fillColor: drawingColor,
     fillOpacity: 0.3,
     id: selectedGeofenceId || 'drawing',
+    kind: zoneKind,
+  }] : [];
+
+  // Extra part or hole being drawn
+  const ringPolygon = drawingRing && shownPolygon.length >= 3 ? [{
+    coordinates: shownPolygon,
+    color: drawingRing === 'hole' ? '#FFFFFF' : drawingColor,
+    fillColor: drawingRing === 'hole' ? '#FFFFFF' : drawingColor,
+    fillOpacity: drawingRing === 'hole' ? 0.4 : 0.3,
+    id: 'drawing-ring',
   }] : [];
 
   // Combine existing and drawing polygons
-  const allPolygons = [...existingPolygons, ...drawingPolygon];
+  const allPolygons = [...existingPolygons, ...drawingPolygon, ...ringPolygon];
 
-  // Prepare markers for polygon points
-  const markers = displayPolygon.map((p, i) => ({
-    position: p as [number, number],
-    color: isMovingPoint && movingPointIndex === i ? '#FF0000' : '#F59E0B',
-    label: `${i + 1}`,
+  // Draggable handles for every vertex, and between neighbouring vertices
+  // for inserting a new one (a circle is edited with its two handles instead)
+  const vertexHandles: NonNullable<React.ComponentProps<typeof LeafletMap>['handles']> = [];
+  const midpointHandles: typeof vertexHandles = [];
+  const addRingHandles = (ring: LatLng[], part: number, r: number, closed: boolean) => {
+    ring.forEach((position, index) => {
+      const ref = { part, ring: r, index };
+      vertexHandles.push({
+        id: vertexHandleId('vertex', ref),
+        position,
+        size: 16,
+        color: sameVertex(selectedVertex, ref) ? '#FF0000' : r > 0 ? '#3FB7FF' : '#F59E0B',
+        title: 'Drag to move, tap for options',
+      });
+      const next = ring[index + 1] ?? (closed && ring.length >= 3 ? ring[0] : undefined);
+      if (!next) return;
+      const id = vertexHandleId('mid', ref);
+      // Only the handle being dragged stays while a vertex moves
+      if (dragPreview && dragPreview.id !== id) return;
+      midpointHandles.push({
+        id,
+        position: dragPreview?.id === id ? ring[index + 1] : [(position[0] + next[0]) / 2, (position[1] + next[1]) / 2],
+        size: 12,
+        color: drawingColor,
+        title: 'Drag to add a point',
+      });
+    });
+  };
+  if (!circle) {
+    shownShape.forEach((rings, part) => rings.forEach((ring, r) => addRingHandles(ring, part, r, true)));
+  }
+  addRingHandles(shownPolygon, -1, 0, false);
+
+  const circleHandles = circle && !drawingRing ? [
+    { id: 'circle-center', position: circle.center, color: '#F59E0B', title: 'Drag to move the circle' },
+    {
+      id: 'circle-radius',
+      position: destinationPoint(circle.center, circle.radius_m, 90),
+      color: '#3FB7FF',
+      title: 'Drag to change the radius',
+    },
+  ] : [];
+
+  const markers: NonNullable<React.ComponentProps<typeof LeafletMap>['markers']> = crossings.map((position) => ({
+    position,
+    color: '#EF4444',
+    label: '!',
+    popup: 'Edges cross here',
   }));
+  // Circle centre / first rectangle corner while waiting for the second tap
+  if (anchorPoint) {
+    markers.push({ position: anchorPoint, color: '#F59E0B', label: '1' });
+  }
 
   const stopLeaflet = (e: React.SyntheticEvent) => {
     e.preventDefault();
@@ -648,13 +1072,32 @@ export const DrawGeofence: React.FC = () => {
           onZoomChange={setMapZoom}
           onMapClick={handleMapClick}
           onPolygonClick={handlePolygonClick}
-          onMarkerClick={handleMarkerClick}
           polygons={allPolygons}
           markers={markers}
           selectedPolygonId={selectedGeofenceId}
+          flyTo={flyTarget}
+          measurement={measureTool.measurement}
+          onMeasurePoint={measureTool.addPoint}
+          handles={[...circleHandles, ...midpointHandles, ...vertexHandles]}
+          onHandleDrag={handleHandleDrag}
+          onHandleDragEnd={handleHandleDragEnd}
+          onHandleClick={handleHandleClick}
           className="w-full h-full"
         />
 
+        {/* Circle / rectangle hint and circle radius */}
+        {!measureTool.isMeasuring && (circle || (drawTool !== 'polygon' && savedShape.length === 0)) && (
+          <div className="absolute top-4 left-4 right-20 z-[1000] pointer-events-none">
+            <span className="inline-block bg-white/90 text-[var(--deep-forest)] text-xs px-3 py-2 rounded-lg shadow-lg">
+              {circle
+                ? `Radius ${formatDistance(circle.radius_m, settings?.units ?? 'km')} · drag the handles to adjust`
+                : drawTool === 'circle'
+                  ? anchorPoint ? 'Tap a point on the edge' : 'Tap the centre of the circle'
+                  : anchorPoint ? 'Tap the opposite corner' : 'Tap the first corner'}
+            </span>
+          </div>
+        )}
+
         {/* Floating buttons */}
         <div className="absolute right-4 top-4 z-[5000] pointer-events-auto">
           <div className="bg-[var(--grass-green)]/90 backdrop-blur-sm rounded-lg p-1 shadow-lg flex flex-col gap-2">
@@ -681,13 +1124,98 @@ export const DrawGeofence: React.FC = () => {
             >
               <Navigation className="w-4 h-4 text-[var(--deep-forest)]" />
             </button>
+
+            <button
+              onPointerDown={stopLeaflet}
+              onClick={(e) => {
+                stopLeaflet(e);
+                setSelectedVertex(null);
+                setSelectedPointPosition(null);
+                measureTool.toggle();
+              }}
+              className={`p-3 rounded-lg transition-colors ${
+                measureTool.isMeasuring ? 'bg-[var(--deep-forest)] text-white' : 'bg-white/90 hover:bg-white text-[var(--deep-forest)]'
+              }`}
+              aria-pressed={measureTool.isMeasuring}
+              title="Measure distance and area"
+            >
+              <Ruler className="w-4 h-4" />
+            </button>
+
+            <button
+              onPointerDown={stopLeaflet}
+              onClick={(e) => {
+                stopLeaflet(e);
+                handleUndo();
+              }}
+              disabled={!history.canUndo || isValidating}
+              className="bg-white/90 hover:bg-white p-3 rounded-lg transition-colors disabled:opacity-40"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4 text-[var(--deep-forest)]" />
+            </button>
+
+            <button
+              onPointerDown={stopLeaflet}
+              onClick={(e) => {
+                stopLeaflet(e);
+                handleRedo();
+              }}
+              disabled={!history.canRedo || isValidating}
+              className="bg-white/90 hover:bg-white p-3 rounded-lg transition-colors disabled:opacity-40"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4 text-[var(--deep-forest)]" />
+            </button>
+
+            {mode === 'edit' && selectedGeofenceId && (
+              <button
+                onPointerDown={stopLeaflet}
+                onClick={(e) => {
+                  stopLeaflet(e);
+                  navigate(`/zone-history?id=${selectedGeofenceId}`);
+                }}
+                className="bg-white/90 hover:bg-white p-3 rounded-lg transition-colors"
+                title="Zone history"
+              >
+                <History className="w-4 h-4 text-[var(--deep-forest)]" />
+              </button>
+            )}
+
+            {mode === 'edit' && selectedGeofenceId && (
+              <button
+                onPointerDown={stopLeaflet}
+                onClick={(e) => {
+                  stopLeaflet(e);
+                  navigate(`/zone-schedule?id=${selectedGeofenceId}`);
+                }}
+                className="bg-white/90 hover:bg-white p-3 rounded-lg transition-colors"
+                title="Zone schedule"
+              >
+                <Clock className="w-4 h-4 text-[var(--deep-forest)]" />
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Measure panel (map taps measure instead of drawing meanwhile) */}
+        {measureTool.measurement && (
+          <div className="absolute left-4 right-20 top-4 z-[2000] pointer-events-auto">
+            <MeasurePanel
+              measurement={measureTool.measurement}
+              units={settings?.units ?? 'km'}
+              onUndo={measureTool.undo}
+              onClear={measureTool.clear}
+              onCloseShape={measureTool.close}
+              onExit={measureTool.stop}
+            />
+          </div>
+        )}
+
         
 
         {/* Point Action Popover */}
-        {selectedPointIndex !== null && selectedPointPosition && !isMovingPoint && (
+        {selectedVertex !== null && selectedPointPosition && !dragPreview && (
           <div 
             className="absolute z-[1001] bg-white rounded-lg shadow-xl p-2 border border-gray-200"
             style={{
@@ -697,26 +1225,33 @@ export const DrawGeofence: React.FC = () => {
             }}
           >
             <button
-              onClick={handleMovePoint}
-              className="flex items-center gap-2 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded w-full"
-            >
-              <Move className="w-4 h-4" />
-              Move Point
-            </button>
-            <button
-              onClick={() => {
-                handleDeletePoint(selectedPointIndex);
-                setSelectedPointIndex(null);
-                setSelectedPointPosition(null);
-              }}
-              className="flex items-center gap-2 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded w-full mt-1"
+              onClick={() => handleDeletePoint(selectedVertex)}
+              className="flex items-center gap-2 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded w-full"
             >
               <X className="w-4 h-4" />
               Delete
             </button>
+            {selectedVertex.ring > 0 && (
+              <button
+                onClick={() => handleDeleteRing(selectedVertex)}
+                className="flex items-center gap-2 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded w-full mt-1"
+              >
+                <CircleDashed className="w-4 h-4" />
+                Delete hole
+              </button>
+            )}
+            {selectedVertex.part >= 0 && selectedVertex.ring === 0 && savedShape.length > 1 && (
+              <button
+                onClick={() => handleDeleteRing(selectedVertex)}
+                className="flex items-center gap-2 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded w-full mt-1"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete part
+              </button>
+            )}
             <button
               onClick={() => {
-                setSelectedPointIndex(null);
+                setSelectedVertex(null);
                 setSelectedPointPosition(null);
               }}
               className="mt-1 text-xs text-gray-500 hover:text-gray-700 w-full text-center"
@@ -727,22 +1262,61 @@ export const DrawGeofence: React.FC = () => {
         )}
 
         {/* Complete Polygon Button */}
-        {currentPolygon.length >= 3 && savedPolygon.length === 0 && mode === 'create' && (
+        {currentPolygon.length >= 3 && ((savedShape.length === 0 && mode === 'create') || drawingRing) && (
           <div className="absolute top-4 right-4 z-[1000]">
             <button
               onClick={handleCompletePolygon}
               className="bg-[var(--grass-green)] text-white px-4 py-2 rounded-lg shadow-lg"
             >
-              Complete ({currentPolygon.length})
+              {drawingRing === 'hole' ? 'Add hole' : drawingRing === 'part' ? 'Add part' : 'Complete'} ({currentPolygon.length})
             </button>
           </div>
         )}
 
+        {/* Extra parts and holes of the zone */}
+        {savedShape.length > 0 && !dragPreview && (
+          <div className="absolute bottom-4 left-4 z-[1000] flex items-center gap-2">
+            {drawingRing ? (
+              <>
+                <span className="bg-white/90 text-[var(--deep-forest)] text-xs px-3 py-2 rounded-lg shadow-lg">
+                  {drawingRing === 'hole' ? 'Drawing a hole' : 'Drawing an extra part'}
+                </span>
+                <button
+                  onClick={handleCancelRing}
+                  className="bg-white/90 hover:bg-white text-[var(--deep-forest)] text-sm px-3 py-2 rounded-lg shadow-lg"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleStartRing('part')}
+                  className="bg-white/90 hover:bg-white text-[var(--deep-forest)] text-sm px-3 py-2 rounded-lg shadow-lg flex items-center gap-1"
+                  title="Add a separate area to this zone"
+                >
+                  <SquarePlus className="w-4 h-4" />
+                  Add part
+                </button>
+                <button
+                  onClick={() => handleStartRing('hole')}
+                  className="bg-white/90 hover:bg-white text-[var(--deep-forest)] text-sm px-3 py-2 rounded-lg shadow-lg flex items-center gap-1"
+                  title="Cut an area (e.g. a pond) out of this zone"
+                >
+                  <CircleDashed className="w-4 h-4" />
+                  Add hole
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Clear Button */}
-        {displayPolygon.length > 0 && (
+        {hasShape && (
           <div className="absolute bottom-4 right-4 z-[1000]">
             <button
-              onClick={handleDeleteZone}
+              onClick={mode === 'edit' ? handleDeleteZone : handleClearPolygon}
+              title={mode === 'edit' ? 'Delete zone' : 'Clear drawing'}
               className="bg-red-500 text-white px-3 py-2 rounded-lg shadow-lg flex items-center opacity-50"
             >
               <Trash2 className="w-5 h-5" />
@@ -754,7 +1328,7 @@ export const DrawGeofence: React.FC = () => {
       {/* Bottom Controls */}
       <div className="bg-[var(--deep-forest)] p-4 shrink-0 space-y-3">
         {/* Buffer slider (only in create mode) */}
-        {savedPolygon.length >= 3 && mode === 'create' && (
+        {savedShape.length > 0 && mode === 'create' && (
           <div className="bg-[var(--pine-green)] p-3 rounded-lg text-white">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm">Buffer (meters)</span>
@@ -772,6 +1346,59 @@ export const DrawGeofence: React.FC = () => {
           </div>
         )}
 
+        {/* Drawing tool (before anything is drawn) */}
+        {savedShape.length === 0 && currentPolygon.length === 0 && !drawingRing && (
+          <div className="flex gap-2">
+            {([
+              { tool: 'polygon', label: 'Polygon', Icon: Pentagon },
+              { tool: 'circle', label: 'Circle', Icon: Circle },
+              { tool: 'rectangle', label: 'Rectangle', Icon: RectangleHorizontal },
+            ] as const).map(({ tool, label, Icon }) => (
+              <button
+                key={tool}
+                type="button"
+                onClick={() => handleToolChange(tool)}
+                className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                  drawTool === tool
+                    ? 'bg-[var(--grass-green)] text-white'
+                    : 'bg-[var(--pine-green)] text-white/70 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Zone kind: safe area or keep-out area */}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setZoneKind('include')}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+              zoneKind === 'include'
+                ? 'bg-[var(--grass-green)] text-white'
+                : 'bg-[var(--pine-green)] text-white/70 hover:text-white'
+            }`}
+          >
+            <ShieldCheck className="w-4 h-4" />
+            Safe zone
+          </button>
+          <button
+            type="button"
+            onClick={() => setZoneKind('exclude')}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+              zoneKind === 'exclude'
+                ? 'bg-red-500 text-white'
+                : 'bg-[var(--pine-green)] text-white/70 hover:text-white'
+            }`}
+          >
+            <Ban className="w-4 h-4" />
+            Exclusion zone
+          </button>
+        </div>
+
         {/* Action Buttons */}
         <div className="flex gap-2">
           {mode === 'create' ? (
@@ -787,7 +1414,7 @@ export const DrawGeofence: React.FC = () => {
                 variant="primary" 
                 onClick={handleSaveGeofence}
                 className="flex-1"
-                disabled={displayPolygon.length < 3 || isValidating}
+                disabled={!canSave || isValidating}
               >
                 {isValidating ? 'Validating...' : 'Continue'}
               </GeoButton>
@@ -805,7 +1432,7 @@ export const DrawGeofence: React.FC = () => {
                 variant="primary" 
                 onClick={handleSaveGeofence}
                 className="flex-1"
-                disabled={displayPolygon.length < 3 || isValidating}
+                disabled={!canSave || isValidating}
               >
                 {isValidating ? 'Validating...' : 'Save'}
               </GeoButton>
@@ -816,36 +1443,11 @@ export const DrawGeofence: React.FC = () => {
 
       {/* Search Modal */}
       {showSearchModal && (
-        <div className="absolute inset-0 bg-black/50 z-[2000] flex items-end">
-          <div className="bg-white w-full p-4 rounded-t-2xl">
-            <div className="flex gap-2 mb-4">
-              <input
-                type="text"
-                placeholder="Search place or address"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSearchLocation()}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)]"
-                autoFocus
-              />
-              <button
-                onClick={() => setShowSearchModal(false)}
-                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
-              >
-                Cancel
-              </button>
-            </div>
-            <button
-              onClick={handleSearchLocation}
-              className="w-full bg-[var(--grass-green)] text-white px-4 py-2 rounded-lg"
-            >
-              Search
-            </button>
-            <p className="text-xs text-gray-500 mt-2 text-center">
-              TODO: Geocoding service integration
-            </p>
-          </div>
-        </div>
+        <LocationSearch
+          localEntries={searchEntries}
+          onSelect={handleSearchSelect}
+          onClose={() => setShowSearchModal(false)}
+        />
       )}
     </div>
   );
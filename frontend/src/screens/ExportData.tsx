@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, MapPin, Route, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from '../components/GeoButton';
+import { useAuth } from '../hooks/useAuth';
+import { useGeofences } from '../hooks/useGeofences';
+import { useDevices } from '../hooks/useDevices';
+import { useLocationHistory } from '../hooks/useLocationHistory';
+import {
+  GeofenceExportFormat,
+  MAX_TRACK_DAYS,
+  TrackExportFormat,
+  downloadExport,
+  exportGeofences,
+  exportTrack,
+} from '../lib/geoExport';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]';
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+const toDateInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+};
+
+/**
+ * Downloads zones (GeoJSON / KML) and an animal's track (GPX / KML). Files
+ * are built in the browser; GET /api/export on the server produces the same
+ * files for automated backups.
+ */
+export const ExportData: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { geofences, loading: geofencesLoading } = useGeofences(user?.id);
+  const { devices } = useDevices(user?.id);
+
+  // Zones
+  const [selectedZoneIds, setSelectedZoneIds] = useState<Set<number> | null>(null); // null = all
+  const [zoneFormat, setZoneFormat] = useState<GeofenceExportFormat>('geojson');
+
+  // Track
+  const [trackerId, setTrackerId] = useState('');
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 6 * DAY_MS)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [trackFormat, setTrackFormat] = useState<TrackExportFormat>('gpx');
+
+  useEffect(() => {
+    if (!trackerId && devices.length > 0) setTrackerId(devices[0].tracker_id);
+  }, [devices, trackerId]);
+
+  // Whole local days, from 00:00 of the first to 24:00 of the last
+  const range = useMemo(() => {
+    const from = new Date(`${fromDate}T00:00:00`);
+    const to = new Date(`${toDate}T00:00:00`);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) return null;
+    return { from, to: new Date(to.getTime() + DAY_MS - 1) };
+  }, [fromDate, toDate]);
+
+  const rangeProblem = !range
+    ? 'Choose both dates'
+    : range.to <= range.from
+      ? 'The end date must not be before the start date'
+      : range.to.getTime() - range.from.getTime() > MAX_TRACK_DAYS * DAY_MS
+        ? `At most ${MAX_TRACK_DAYS} days per export`
+        : null;
+
+  const {
+    points: trackPoints,
+    loading: trackLoading,
+    error: trackError,
+  } = useLocationHistory(
+    rangeProblem ? null : trackerId || null,
+    range?.from,
+    range?.to
+  );
+
+  const isZoneSelected = (id: number) => !selectedZoneIds || selectedZoneIds.has(id);
+  const zonesToExport = geofences.filter((geofence) => isZoneSelected(geofence.id));
+
+  const toggleZone = (id: number) => {
+    setSelectedZoneIds((current) => {
+      const next = new Set(current ?? geofences.map((geofence) => geofence.id));
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExportZones = () => {
+    if (zonesToExport.length === 0) {
+      toast.error('Select at least one zone');
+      return;
+    }
+    downloadExport(exportGeofences(zonesToExport, zoneFormat));
+  };
+
+  const handleExportTrack = () => {
+    if (!range || rangeProblem) return;
+    if (trackPoints.length === 0) {
+      toast.error('No positions recorded in this period');
+      return;
+    }
+    const device = devices.find((d) => d.tracker_id === trackerId);
+    const name = device?.animal_name || device?.name || `Tracker ${trackerId}`;
+    downloadExport(exportTrack({ tracker_id: trackerId, name, points: trackPoints }, range.from, range.to, trackFormat));
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Export data</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {/* Zones */}
+        <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+          <div className="flex items-center gap-3">
+            <MapPin className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="flex-1 text-[var(--deep-forest)]">Zones</h4>
+            <span className="text-sm text-gray-600">
+              {zonesToExport.length} of {geofences.length}
+            </span>
+          </div>
+
+          {geofencesLoading ? (
+            <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+          ) : geofences.length === 0 ? (
+            <p className="text-sm text-gray-600">No zones yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100 max-h-60 overflow-y-auto">
+              {geofences.map((geofence) => (
+                <label key={geofence.id} className="py-2 flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isZoneSelected(geofence.id)}
+                    onChange={() => toggleZone(geofence.id)}
+                    className="w-4 h-4 accent-[var(--grass-green)]"
+                  />
+                  <span className="flex-1 min-w-0 truncate text-[var(--deep-forest)]">{geofence.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {geofence.kind === 'exclude' ? 'Exclusion' : 'Safe'}
+                    {geofence.buffer_m > 0 && ` · buffer ${geofence.buffer_m} m`}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <select
+              value={zoneFormat}
+              onChange={(e) => setZoneFormat(e.target.value as GeofenceExportFormat)}
+              className={`${inputClassName} flex-1`}
+            >
+              <option value="geojson">GeoJSON</option>
+              <option value="kml">KML</option>
+            </select>
+            <GeoButton
+              variant="primary"
+              onClick={handleExportZones}
+              className="flex-1"
+              disabled={zonesToExport.length === 0}
+            >
+              <span className="flex items-center justify-center gap-2">
+                <Download className="w-4 h-4" />
+                Download
+              </span>
+            </GeoButton>
+          </div>
+        </div>
+
+        {/* Track */}
+        <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+          <div className="flex items-center gap-3">
+            <Route className="w-5 h-5 text-[var(--accent-aqua)]" />
+            <h4 className="flex-1 text-[var(--deep-forest)]">Animal track</h4>
+          </div>
+
+          {devices.length === 0 ? (
+            <p className="text-sm text-gray-600">No trackers linked yet.</p>
+          ) : (
+            <>
+              <div>
+                <label className="text-sm text-gray-600">Animal</label>
+                <select
+                  value={trackerId}
+                  onChange={(e) => setTrackerId(e.target.value)}
+                  className={inputClassName}
+                >
+                  {devices.map((device) => (
+                    <option key={device.id} value={device.tracker_id}>
+                      {device.animal_name || device.name || `Tracker ${device.tracker_id}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm text-gray-600">From</label>
+                  <input
+                    type="date"
+                    value={fromDate}
+                    max={toDate}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">To</label>
+                  <input
+                    type="date"
+                    value={toDate}
+                    min={fromDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <p className={`text-xs ${rangeProblem || trackError ? 'text-red-600' : 'text-gray-600'}`}>
+                {rangeProblem ? (
+                  rangeProblem
+                ) : trackError ? (
+                  trackError
+                ) : trackLoading ? (
+                  <span className="flex items-center gap-1">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Loading positions...
+                  </span>
+                ) : (
+                  `${trackPoints.length} position${trackPoints.length === 1 ? '' : 's'} in this period`
+                )}
+              </p>
+
+              <div className="flex gap-2">
+                <select
+                  value={trackFormat}
+                  onChange={(e) => setTrackFormat(e.target.value as TrackExportFormat)}
+                  className={`${inputClassName} flex-1`}
+                >
+                  <option value="gpx">GPX</option>
+                  <option value="kml">KML</option>
+                </select>
+                <GeoButton
+                  variant="primary"
+                  onClick={handleExportTrack}
+                  className="flex-1"
+                  disabled={!!rangeProblem || trackLoading || trackPoints.length === 0}
+                >
+                  <span className="flex items-center justify-center gap-2">
+                    <Download className="w-4 h-4" />
+                    Download
+                  </span>
+                </GeoButton>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,537 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CalendarRange, Hourglass, Pencil, Plus, Repeat, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from '../components/GeoButton';
+import { Calendar } from '../components/ui/calendar';
+import { useAuth } from '../hooks/useAuth';
+import { useSettings } from '../hooks/useSettings';
+import { useGeofences } from '../hooks/useGeofences';
+import { useDevices } from '../hooks/useDevices';
+import { GrazingPlanEntry, GrazingPlanEntryInput, useGrazingPlan } from '../hooks/useGrazingPlan';
+import { usePaddockOccupancy } from '../hooks/usePaddockOccupancy';
+import {
+  PLAN_SLACK_DAYS,
+  PlanEntryState,
+  addDays,
+  batchLabel,
+  comparePlanEntry,
+  dateToDay,
+  dayToDate,
+  daysBetween,
+  describeComparison,
+  findPlanOverlaps,
+  formatDay,
+  grazedDays,
+} from '../lib/grazingPlan';
+import { localDay } from '../lib/zoneSchedule';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)] bg-white';
+
+// Batch filter: 'all', 'herd' (whole herd entries) or 'batch:<batch_id>'
+type BatchFilter = string;
+
+// How far back the rotation list and its tracked occupancy go at first
+const DEFAULT_HISTORY_DAYS = 60;
+const HISTORY_STEP_DAYS = 90;
+// Default length of a new stay
+const DEFAULT_STAY_DAYS = 7;
+
+const STATE_COLORS: Record<PlanEntryState, string> = {
+  upcoming: 'text-gray-500',
+  waiting: 'text-[var(--high-yellow)]',
+  grazing: 'text-[var(--grass-green)]',
+  done: 'text-[var(--deep-forest)]',
+  missed: 'text-red-600',
+};
+
+const formatDwell = (seconds: number) =>
+  seconds >= 3600 ? `${(seconds / 3600).toFixed(1)} h` : `${Math.round(seconds / 60)} min`;
+
+// Batch whose tracked grazing is shown; null = every animal
+const filterBatchId = (filter: BatchFilter) => (filter.startsWith('batch:') ? filter.slice('batch:'.length) : null);
+
+const matchesFilter = (batchId: string | null, filter: BatchFilter) =>
+  filter === 'all' || (filter === 'herd' ? batchId === null : batchId === filterBatchId(filter));
+
+/**
+ * Rotational grazing plan: the paddock sequence of each batch with planned
+ * entry / exit days, a calendar of planned against tracked occupancy, and
+ * the rest days of every paddock.
+ */
+export const GrazingPlanner: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { settings } = useSettings(user?.id);
+  const { geofences } = useGeofences(user?.id);
+  const { devices } = useDevices(user?.id);
+  const { entries, loading, error, saveEntry, deleteEntry } = useGrazingPlan(user?.id);
+  const today = localDay(new Date(), settings?.timezone ?? 'UTC');
+
+  const [filter, setFilter] = useState<BatchFilter>('all');
+  const [month, setMonth] = useState<Date>(() => dayToDate(today));
+  const [selectedDay, setSelectedDay] = useState<string>(today);
+  const [historyDays, setHistoryDays] = useState(DEFAULT_HISTORY_DAYS);
+  const [draft, setDraft] = useState<(GrazingPlanEntryInput & { id?: number }) | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const paddocks = useMemo(() => geofences.filter((g) => g.kind !== 'exclude'), [geofences]);
+  const paddockName = (geofenceId: number) => geofences.find((g) => g.id === geofenceId)?.name ?? 'Deleted zone';
+  const batchIds = Array.from(
+    new Set(devices.map((d) => d.batch_id).filter((id): id is string => !!id))
+  ).sort();
+
+  // Tracked occupancy for the shown month and the rotation list
+  const monthStart = dateToDay(new Date(month.getFullYear(), month.getMonth(), 1));
+  const monthEnd = dateToDay(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+  const historyStart = addDays(today, -historyDays);
+  const rangeFrom = addDays(monthStart < historyStart ? monthStart : historyStart, -PLAN_SLACK_DAYS);
+  const rangeTo = monthEnd > today ? monthEnd : today;
+  const { days: occupancy, restDays } = usePaddockOccupancy(user?.id, rangeFrom, rangeTo);
+
+  const visibleEntries = useMemo(
+    () => entries.filter((entry) => matchesFilter(entry.batch_id, filter)),
+    [entries, filter]
+  );
+  const listedEntries = visibleEntries.filter((entry) => entry.planned_exit >= historyStart);
+
+  // Rotation sequence per batch, in date order
+  const sequenceMap = new Map<string, GrazingPlanEntry[]>();
+  listedEntries.forEach((entry) => {
+    const key = entry.batch_id ?? '';
+    sequenceMap.set(key, [...(sequenceMap.get(key) ?? []), entry]);
+  });
+  const sequences = Array.from(sequenceMap).sort(([a], [b]) => a.localeCompare(b));
+
+  const comparisons = useMemo(() => {
+    const result: Record<number, ReturnType<typeof comparePlanEntry>> = {};
+    entries.forEach((entry) => {
+      result[entry.id] = comparePlanEntry(entry, grazedDays(occupancy, entry.geofence_id, entry.batch_id), today);
+    });
+    return result;
+  }, [entries, occupancy, today]);
+
+  // Calendar marks: planned days of the visible entries, tracked grazing of
+  // the filtered batches, and tracked days no visible entry planned
+  const calendarDays = useMemo(() => {
+    const planned = new Set<string>();
+    visibleEntries.forEach((entry) => {
+      if (entry.planned_exit < rangeFrom || entry.planned_entry > rangeTo) return;
+      for (let day = entry.planned_entry; day <= entry.planned_exit; day = addDays(day, 1)) {
+        planned.add(day);
+      }
+    });
+    const grazed = new Set<string>();
+    const offPlan = new Set<string>();
+    paddocks.forEach((paddock) => {
+      grazedDays(occupancy, paddock.id, filterBatchId(filter)).forEach((day) => {
+        grazed.add(day);
+        const isPlanned = visibleEntries.some(
+          (entry) => entry.geofence_id === paddock.id && day >= entry.planned_entry && day <= entry.planned_exit
+        );
+        if (!isPlanned) offPlan.add(day);
+      });
+    });
+    return { planned, grazed, offPlan };
+  }, [visibleEntries, occupancy, paddocks, filter, rangeFrom, rangeTo]);
+
+  const selectedPlanned = visibleEntries.filter(
+    (entry) => selectedDay >= entry.planned_entry && selectedDay <= entry.planned_exit
+  );
+  const selectedActual = occupancy.filter(
+    (row) => row.day === selectedDay && (filterBatchId(filter) === null || row.batch_id === filterBatchId(filter))
+  );
+
+  const restByPaddock = paddocks
+    .map((paddock) => ({ paddock, rest: restDays.find((r) => r.geofence_id === paddock.id) }))
+    // Never grazed first, then longest rested
+    .sort((a, b) => (b.rest?.rest_days ?? Number.MAX_SAFE_INTEGER) - (a.rest?.rest_days ?? Number.MAX_SAFE_INTEGER));
+
+  const startNewEntry = (batchId: string | null) => {
+    // Next stay of the batch starts the day after its last planned exit
+    const last = entries.filter((entry) => entry.batch_id === batchId).pop();
+    const entryDay = last && last.planned_exit >= today ? addDays(last.planned_exit, 1) : today;
+    // Suggest the paddock that has rested longest
+    const rested = restByPaddock.find(({ paddock }) => paddock.id !== last?.geofence_id)?.paddock ?? paddocks[0];
+    setDraft({
+      geofence_id: rested?.id ?? 0,
+      batch_id: batchId,
+      planned_entry: entryDay,
+      planned_exit: addDays(entryDay, DEFAULT_STAY_DAYS - 1),
+      notes: null,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.geofence_id) {
+      toast.error('Select a paddock');
+      return;
+    }
+    if (!draft.planned_entry || !draft.planned_exit || draft.planned_exit < draft.planned_entry) {
+      toast.error('The exit day must not be before the entry day');
+      return;
+    }
+
+    const overlaps = findPlanOverlaps(entries, draft);
+    if (
+      overlaps.length > 0 &&
+      !confirm(
+        `${batchLabel(draft.batch_id)} is already planned in ${overlaps
+          .map((entry) => `${paddockName(entry.geofence_id)} (${formatDay(entry.planned_entry)} – ${formatDay(entry.planned_exit)})`)
+          .join(', ')}. Save anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    const { error: saveError } = await saveEntry({ ...draft, notes: draft.notes?.trim() || null });
+    setIsSaving(false);
+
+    if (saveError) {
+      toast.error('Unable to save plan: ' + ((saveError as any)?.message || 'unknown error'));
+      return;
+    }
+    toast.success('Plan saved');
+    setDraft(null);
+  };
+
+  const handleDelete = async (entry: GrazingPlanEntry) => {
+    if (!confirm(`Remove ${paddockName(entry.geofence_id)} from the plan of ${batchLabel(entry.batch_id).toLowerCase()}?`)) {
+      return;
+    }
+    const { error: deleteError } = await deleteEntry(entry.id);
+    if (deleteError) {
+      toast.error('Unable to remove entry: ' + ((deleteError as any)?.message || 'unknown error'));
+    }
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Grazing plan</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {loading ? (
+          <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+        ) : error ? (
+          <div className="bg-white rounded-lg p-4 shadow-sm text-sm text-red-600">{error}</div>
+        ) : paddocks.length === 0 ? (
+          <div className="bg-white rounded-lg p-4 shadow-sm text-sm text-gray-600">
+            Draw your paddocks as zones first, then plan the rotation through them.
+          </div>
+        ) : (
+          <>
+            {/* Batch filter */}
+            <select value={filter} onChange={(e) => setFilter(e.target.value)} className={inputClassName}>
+              <option value="all">All batches</option>
+              <option value="herd">Whole herd</option>
+              {batchIds.map((id) => (
+                <option key={id} value={`batch:${id}`}>
+                  {batchLabel(id)}
+                </option>
+              ))}
+            </select>
+
+            {/* Calendar */}
+            <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+              <div className="flex items-center gap-3">
+                <CalendarRange className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="flex-1 text-[var(--deep-forest)]">Calendar</h4>
+              </div>
+              <Calendar
+                mode="single"
+                month={month}
+                onMonthChange={setMonth}
+                selected={dayToDate(selectedDay)}
+                onSelect={(date?: Date) => date && setSelectedDay(dateToDay(date))}
+                modifiers={{
+                  planned: Array.from(calendarDays.planned).map(dayToDate),
+                  grazed: Array.from(calendarDays.grazed).map(dayToDate),
+                  offPlan: Array.from(calendarDays.offPlan).map(dayToDate),
+                }}
+                modifiersClassNames={{
+                  planned: 'ring-2 ring-inset ring-[var(--accent-aqua)]',
+                  grazed: 'bg-[var(--grass-green)]/30',
+                  offPlan: 'bg-[var(--high-yellow)]/40',
+                }}
+                className="mx-auto"
+              />
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded ring-2 ring-inset ring-[var(--accent-aqua)]" /> Planned
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded bg-[var(--grass-green)]/30" /> Grazed (tracked)
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded bg-[var(--high-yellow)]/40" /> Grazed off plan
+                </span>
+              </div>
+
+              {/* Selected day */}
+              <div className="border-t border-gray-100 pt-3 space-y-2 text-sm">
+                <p className="text-[var(--deep-forest)]">{formatDay(selectedDay)}</p>
+                {selectedPlanned.length === 0 && selectedActual.length === 0 && (
+                  <p className="text-gray-500">Nothing planned or tracked.</p>
+                )}
+                {selectedPlanned.map((entry) => (
+                  <p key={`plan-${entry.id}`} className="text-gray-600">
+                    Planned: {batchLabel(entry.batch_id)} in {paddockName(entry.geofence_id)}
+                  </p>
+                ))}
+                {selectedActual.map((row) => (
+                  <p key={`actual-${row.geofence_id}-${row.batch_id ?? ''}`} className="text-gray-600">
+                    Tracked: {batchLabel(row.batch_id)} in {paddockName(row.geofence_id)} ·{' '}
+                    {formatDwell(row.dwell_s)}, {row.trackers} animal{row.trackers === 1 ? '' : 's'}
+                  </p>
+                ))}
+              </div>
+            </div>
+
+            {/* Entry form */}
+            {draft && (
+              <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+                <h4 className="text-[var(--deep-forest)]">{draft.id ? 'Edit stay' : 'Add paddock to rotation'}</h4>
+                <div>
+                  <label className="text-sm text-gray-600">Paddock</label>
+                  <select
+                    value={draft.geofence_id || ''}
+                    onChange={(e) => setDraft({ ...draft, geofence_id: Number(e.target.value) })}
+                    className={inputClassName}
+                  >
+                    <option value="">Select a paddock</option>
+                    {paddocks.map((paddock) => (
+                      <option key={paddock.id} value={paddock.id}>
+                        {paddock.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">Batch</label>
+                  <select
+                    value={draft.batch_id ?? ''}
+                    onChange={(e) => setDraft({ ...draft, batch_id: e.target.value || null })}
+                    className={inputClassName}
+                  >
+                    <option value="">Whole herd</option>
+                    {Array.from(new Set([...batchIds, ...(draft.batch_id ? [draft.batch_id] : [])])).map((id) => (
+                      <option key={id} value={id}>
+                        {batchLabel(id)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-sm text-gray-600">Entry</label>
+                    <input
+                      type="date"
+                      value={draft.planned_entry}
+                      onChange={(e) => {
+                        // Keep the stay length when the entry moves
+                        const length = daysBetween(draft.planned_entry, draft.planned_exit);
+                        const entryDay = e.target.value;
+                        setDraft({
+                          ...draft,
+                          planned_entry: entryDay,
+                          planned_exit: entryDay ? addDays(entryDay, Math.max(length, 0)) : draft.planned_exit,
+                        });
+                      }}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">Exit (last day)</label>
+                    <input
+                      type="date"
+                      value={draft.planned_exit}
+                      min={draft.planned_entry}
+                      onChange={(e) => setDraft({ ...draft, planned_exit: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">Notes</label>
+                  <input
+                    type="text"
+                    value={draft.notes ?? ''}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    placeholder="Optional"
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <GeoButton variant="outline" onClick={() => setDraft(null)} className="flex-1">
+                    Cancel
+                  </GeoButton>
+                  <GeoButton variant="primary" onClick={handleSave} disabled={isSaving} className="flex-1">
+                    Save
+                  </GeoButton>
+                </div>
+              </div>
+            )}
+
+            {/* Rotation */}
+            <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+              <div className="flex items-center gap-3">
+                <Repeat className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="flex-1 text-[var(--deep-forest)]">Rotation</h4>
+                {!draft && (
+                  <button
+                    onClick={() =>
+                      startNewEntry(filterBatchId(filter))
+                    }
+                    className="flex items-center gap-1 text-sm text-[var(--grass-green)] hover:underline"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                )}
+              </div>
+
+              {sequences.length === 0 && (
+                <p className="text-sm text-gray-600">No paddocks planned yet.</p>
+              )}
+
+              {sequences.map(([batchKey, batchEntries]) => (
+                <div key={batchKey} className="space-y-1">
+                  <p className="text-xs uppercase tracking-wide text-gray-500">{batchLabel(batchKey || null)}</p>
+                  <div className="divide-y divide-gray-100">
+                    {batchEntries.map((entry, index) => {
+                      const comparison = comparisons[entry.id];
+                      return (
+                        <div key={entry.id} className="py-2 flex items-center gap-3">
+                          <span className="w-6 h-6 shrink-0 rounded-full bg-gray-100 text-xs text-[var(--deep-forest)] flex items-center justify-center">
+                            {index + 1}
+                          </span>
+                          <button
+                            onClick={() => {
+                              setSelectedDay(entry.planned_entry);
+                              setMonth(dayToDate(entry.planned_entry));
+                            }}
+                            className="flex-1 min-w-0 text-left"
+                          >
+                            <p className="text-[var(--deep-forest)] truncate">{paddockName(entry.geofence_id)}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatDay(entry.planned_entry)} – {formatDay(entry.planned_exit)} ·{' '}
+                              {comparison.plannedDays} day{comparison.plannedDays === 1 ? '' : 's'}
+                              {comparison.grazedDays > 0 && `, ${comparison.grazedDays} tracked`}
+                            </p>
+                            <p className={`text-xs ${STATE_COLORS[comparison.state]}`}>
+                              {describeComparison(comparison, entry, today)}
+                            </p>
+                            {entry.notes && <p className="text-xs text-gray-500 truncate">{entry.notes}</p>}
+                          </button>
+                          <button
+                            onClick={() =>
+                              setDraft({
+                                id: entry.id,
+                                geofence_id: entry.geofence_id,
+                                batch_id: entry.batch_id,
+                                planned_entry: entry.planned_entry,
+                                planned_exit: entry.planned_exit,
+                                notes: entry.notes,
+                              })
+                            }
+                            className="p-1 text-[var(--deep-forest)] hover:bg-gray-100 rounded"
+                            title="Edit"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entry)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {!draft && (
+                    <button
+                      onClick={() => startNewEntry(batchKey || null)}
+                      className="flex items-center gap-1 text-xs text-[var(--grass-green)] hover:underline"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Next paddock
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {visibleEntries.length > listedEntries.length && (
+                <button
+                  onClick={() => setHistoryDays((days) => days + HISTORY_STEP_DAYS)}
+                  className="text-sm text-[var(--grass-green)] hover:underline"
+                >
+                  Show earlier stays
+                </button>
+              )}
+            </div>
+
+            {/* Rest days */}
+            <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+              <div className="flex items-center gap-3">
+                <Hourglass className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="flex-1 text-[var(--deep-forest)]">Rest days</h4>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {restByPaddock.map(({ paddock, rest }) => (
+                  <div key={paddock.id} className="py-2 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[var(--deep-forest)] truncate">{paddock.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {rest
+                          ? `Last grazed ${formatDay(rest.last_grazed)}${rest.source === 'planned' ? ' (planned)' : ''}`
+                          : 'No grazing recorded'}
+                      </p>
+                    </div>
+                    <span className="text-sm text-[var(--deep-forest)]">
+                      {rest ? (rest.rest_days === 0 ? 'Grazing' : `${rest.rest_days} d`) : '–'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                A day counts as grazed after an hour of tracked time in the paddock.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,417 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, FileUp, AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeafletMap } from '../components/LeafletMap';
+import { GeoButton } from '../components/GeoButton';
+import { useAuth } from '../hooks/useAuth';
+import { useGeofences, GeofenceKind } from '../hooks/useGeofences';
+import { supabase } from '../lib/supabase';
+import { isOnline, isNetworkError, queueWrite, QUEUE_FAILED_MESSAGE } from '../lib/offlineQueue';
+import { toLatLngPolygons, toMultiPolygonGeometry } from '../lib/geometry';
+import { validateZoneGeometry } from '../lib/zoneValidation';
+import {
+  GEO_IMPORT_ACCEPT,
+  GEO_IMPORT_FORMAT_LABELS,
+  GeoImportResult,
+  ImportedFeature,
+  guessNameProperty,
+  importedFeatureName,
+  parseGeoFile,
+} from '../lib/geoImport';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const FALLBACK_NAME = 'Imported zone';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]';
+
+type Bounds = [[number, number], [number, number]];
+
+const featureBounds = (features: ImportedFeature[]): Bounds | null => {
+  const points = features.flatMap((feature) => feature.polygons.flatMap((rings) => rings[0]));
+  if (points.length === 0) return null;
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  return [
+    [Math.min(...lats), Math.min(...lngs)],
+    [Math.max(...lats), Math.max(...lngs)],
+  ];
+};
+
+/**
+ * Imports paddock boundaries from GIS files (GeoJSON, KML/KMZ, GPX, zipped
+ * Shapefile). Files are read in the browser; each selected area is checked
+ * like a drawn zone before it is saved.
+ */
+export const ImportZones: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { geofences, refetch: refetchGeofences } = useGeofences(user?.id);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<GeoImportResult | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [nameProperty, setNameProperty] = useState('');
+  const [zoneKind, setZoneKind] = useState<GeofenceKind>('include');
+  const [saving, setSaving] = useState(false);
+  const [flyTarget, setFlyTarget] = useState<{
+    center: [number, number];
+    bounds?: Bounds;
+  } | null>(null);
+
+  const features = result?.features ?? [];
+  const selectableIds = features.filter((feature) => !feature.problem).map((feature) => feature.id);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const parsed = await parseGeoFile(file);
+      setFileName(file.name);
+      setResult(parsed);
+      setSelectedIds(new Set(parsed.features.filter((feature) => !feature.problem).map((feature) => feature.id)));
+      setFocusedId(null);
+      setNameProperty(guessNameProperty(parsed.propertyKeys));
+
+      const bounds = featureBounds(parsed.features);
+      if (bounds) {
+        setFlyTarget({
+          center: [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2],
+          bounds,
+        });
+      }
+    } catch (err) {
+      console.error('Error reading zone file:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not read the file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleFeature = (feature: ImportedFeature) => {
+    if (feature.problem) return;
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(feature.id)) next.delete(feature.id);
+      else next.add(feature.id);
+      return next;
+    });
+  };
+
+  const handleSelectAll = (select: boolean) => {
+    setSelectedIds(new Set(select ? selectableIds : []));
+  };
+
+  const handlePolygonClick = (polygonIndex: number) => {
+    // Imported areas are drawn after the existing zones
+    const feature = features[polygonIndex - geofences.length];
+    if (!feature) return;
+    setFocusedId(feature.id);
+    toggleFeature(feature);
+  };
+
+  const handleSave = async () => {
+    if (!user) {
+      toast.error('User not found. Please log in again.');
+      return;
+    }
+    const toSave = features.filter((feature) => selectedIds.has(feature.id));
+    if (toSave.length === 0) {
+      toast.error('Select at least one area to import');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Same check as a drawn zone (server validate_polygon_simple, local offline)
+      const rows: Record<string, unknown>[] = [];
+      let invalid = 0;
+      for (const feature of toSave) {
+        if (!(await validateZoneGeometry(feature.polygons))) {
+          invalid += 1;
+          continue;
+        }
+        rows.push({
+          name: importedFeatureName(feature, nameProperty, FALLBACK_NAME),
+          user_id: user.id,
+          boundary_inner: toMultiPolygonGeometry(feature.polygons),
+          boundary_outer: null,
+          buffer_m: 0,
+          kind: zoneKind,
+          shape: null,
+        });
+      }
+
+      if (rows.length === 0) {
+        toast.error('None of the selected areas is a valid zone (edges must not cross)');
+        return;
+      }
+
+      // False when a row could not be stored (IndexedDB unavailable)
+      const queueRows = async () => {
+        for (const row of rows) {
+          const queuedId = await queueWrite({
+            table: 'geofences',
+            op: 'insert',
+            values: row,
+            label: `Create zone "${row.name}"`,
+          });
+          if (queuedId === null) return false;
+        }
+        return true;
+      };
+
+      let offline = !isOnline();
+      let queued = true;
+      if (offline) {
+        queued = await queueRows();
+      } else {
+        const { error } = await supabase.from('geofences').insert(rows);
+        if (error) {
+          if (!isNetworkError(error)) throw error;
+          // Connection dropped mid-save: queue instead of losing the import
+          queued = await queueRows();
+          offline = true;
+        }
+      }
+
+      if (!queued) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return;
+      }
+
+      const skippedText = invalid > 0 ? ` (${invalid} invalid area${invalid === 1 ? '' : 's'} skipped)` : '';
+      const countText = `${rows.length} zone${rows.length === 1 ? '' : 's'}`;
+      if (offline) {
+        toast.success(`Offline: ${countText} will sync when you are back online${skippedText}`);
+      } else {
+        toast.success(`Imported ${countText}${skippedText}`);
+        await refetchGeofences();
+      }
+      navigate('/main', { state: { restoreTab: 'map' } });
+    } catch (err: any) {
+      console.error('Import zones failed', err);
+      toast.error('Unable to import zones: ' + (err?.message || 'unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const existingPolygons = useMemo(
+    () =>
+      geofences.map((geofence) => ({
+        coordinates: toLatLngPolygons(geofence.boundary_inner),
+        color: '#9CA3AF',
+        fillColor: '#9CA3AF',
+        fillOpacity: 0.15,
+        id: `zone-${geofence.id}`,
+      })),
+    [geofences]
+  );
+
+  // Selected areas in the zone colour, unselected grey, invalid red
+  const importPolygons = features.map((feature) => {
+    const color = feature.problem ? '#EF4444' : selectedIds.has(feature.id) ? '#78A64A' : '#6B7280';
+    return {
+      coordinates: feature.polygons,
+      color,
+      fillColor: color,
+      fillOpacity: selectedIds.has(feature.id) ? 0.3 : 0.1,
+      id: `import-${feature.id}`,
+      kind: selectedIds.has(feature.id) ? zoneKind : undefined,
+    };
+  });
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Import zones</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {/* File */}
+        <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+          <div className="flex items-center gap-3">
+            <FileUp className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="flex-1 text-[var(--deep-forest)]">Boundary file</h4>
+          </div>
+          <p className="text-sm text-gray-600">
+            GeoJSON, KML/KMZ, GPX or a zipped Shapefile. The file is read on this device;
+            projected coordinates are converted to latitude/longitude.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={GEO_IMPORT_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing || saving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border-2 border-dashed border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50 disabled:opacity-50"
+          >
+            {parsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+            {parsing ? 'Reading...' : fileName ? 'Choose another file' : 'Choose file'}
+          </button>
+          {result && (
+            <p className="text-xs text-gray-600">
+              {fileName} · {GEO_IMPORT_FORMAT_LABELS[result.format]} · {features.length} area
+              {features.length === 1 ? '' : 's'}
+              {result.reprojectedFrom && ` · converted from ${result.reprojectedFrom}`}
+              {result.skipped > 0 && ` · ${result.skipped} point/line feature${result.skipped === 1 ? '' : 's'} ignored`}
+            </p>
+          )}
+        </div>
+
+        {/* Preview */}
+        {result && (
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="h-64 relative">
+              <LeafletMap
+                center={flyTarget?.center ?? [51.969205, 7.595761]}
+                zoom={15}
+                onPolygonClick={handlePolygonClick}
+                polygons={[...existingPolygons, ...importPolygons]}
+                selectedPolygonId={focusedId === null ? null : `import-${focusedId}`}
+                flyTo={flyTarget}
+                className="w-full h-full"
+              />
+            </div>
+            <p className="text-xs text-gray-500 px-4 py-2">
+              Tap an area to select or deselect it. Existing zones are shown in grey.
+            </p>
+          </div>
+        )}
+
+        {/* Options and areas */}
+        {result && (
+          <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-gray-600">Zone name from</label>
+                <select
+                  value={nameProperty}
+                  onChange={(e) => setNameProperty(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">(numbered)</option>
+                  {result.propertyKeys.map((key) => (
+                    <option key={key} value={key}>
+                      {key}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Import as</label>
+                <select
+                  value={zoneKind}
+                  onChange={(e) => setZoneKind(e.target.value as GeofenceKind)}
+                  className={inputClassName}
+                >
+                  <option value="include">Safe zones</option>
+                  <option value="exclude">Exclusion zones</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3 text-sm">
+              <span className="flex-1 text-[var(--deep-forest)]">
+                {selectedIds.size} of {features.length} selected
+              </span>
+              <button
+                onClick={() => handleSelectAll(true)}
+                className="text-[var(--grass-green)] hover:underline"
+              >
+                All
+              </button>
+              <button
+                onClick={() => handleSelectAll(false)}
+                className="text-[var(--grass-green)] hover:underline"
+              >
+                None
+              </button>
+            </div>
+
+            <div className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {features.map((feature) => (
+                <label
+                  key={feature.id}
+                  className={`py-2 flex items-center gap-3 ${feature.problem ? 'opacity-60' : 'cursor-pointer'} ${
+                    focusedId === feature.id ? 'bg-gray-50' : ''
+                  }`}
+                  onClick={() => setFocusedId(feature.id)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(feature.id)}
+                    disabled={!!feature.problem}
+                    onChange={() => toggleFeature(feature)}
+                    className="w-4 h-4 accent-[var(--grass-green)]"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[var(--deep-forest)] truncate">
+                      {importedFeatureName(feature, nameProperty, FALLBACK_NAME)}
+                    </p>
+                    {feature.problem ? (
+                      <p className="text-xs text-red-600 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {feature.problem}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500">
+                        {feature.polygons.length > 1 ? `${feature.polygons.length} parts` : '1 part'}
+                        {feature.polygons.some((rings) => rings.length > 1) && ' · with holes'}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <GeoButton
+              variant="primary"
+              onClick={handleSave}
+              className="w-full"
+              disabled={saving || selectedIds.size === 0}
+            >
+              {saving ? 'Validating and saving...' : `Import ${selectedIds.size} zone${selectedIds.size === 1 ? '' : 's'}`}
+            </GeoButton>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
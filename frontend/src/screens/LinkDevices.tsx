@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { GeoButton } from '../components/GeoButton';
 import { GeoInput } from '../components/GeoInput';
@@ -6,6 +6,7 @@ import { useAuth } from '../hooks/useAuth';
 import { useDevices } from '../hooks/useDevices';
 import { useApp } from '../contexts/AppContext';
 import { supabase } from '../lib/supabase';
+import { isOnline, isNetworkError, queueWrite, QUEUE_FAILED_MESSAGE } from '../lib/offlineQueue';
 import { Plus, Edit2, Trash2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import backgroundImage from '../assets/P1260790-2.jpg';
@@ -62,7 +63,55 @@ export const LinkDevices: React.FC = () => {
 
     setSubmitting(true);
 
+    // Offline: queue the link. The tracker check is skipped; the server
+    // rejects unknown trackers when the queue is replayed.
+    // No expectedUpdatedAt: devices.updated_at changes with every fix, so
+    // device details are last-write-wins.
+    const queueDeviceWrite = async () => {
+      const offlineData = {
+        tracker_id: formData.tracker_id,
+        user_id: user.id,
+        name: formData.name,
+        animal_name: formData.name,
+        age: formData.age ? parseInt(formData.age) : null,
+        weight: formData.weight ? parseFloat(formData.weight) : null,
+        batch_id: formData.batch_id || null,
+      };
+
+      const queuedId = editingId
+        ? await queueWrite({
+            table: 'devices',
+            op: 'update',
+            values: offlineData,
+            match: { id: editingId, user_id: user.id },
+            label: `Edit device "${formData.name}"`,
+          })
+        : await queueWrite({
+            table: 'devices',
+            op: 'upsert',
+            values: offlineData,
+            onConflict: 'user_id,tracker_id',
+            label: `Link device "${formData.name}"`,
+          });
+
+      // Not stored: keep the form open so nothing is lost
+      if (queuedId === null) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return;
+      }
+
+      setEditingId(null);
+      toast.success('Offline: device will sync when you are back online');
+      setFormData({ tracker_id: '', name: '', age: '', weight: '', batch_id: '' });
+      setShowForm(false);
+    };
+
     try {
+      if (!isOnline()) {
+        await queueDeviceWrite();
+        return;
+      }
+
       // STEP 1: Check if tracker_id exists in live_locations
       const { data: trackerData, error: trackerError } = await supabase.rpc(
         'check_tracker_exists',
@@ -70,6 +119,10 @@ export const LinkDevices: React.FC = () => {
       );
 
       if (trackerError) {
+        if (isNetworkError(trackerError)) {
+          await queueDeviceWrite();
+          return;
+        }
         console.error('Error checking tracker:', trackerError);
         toast.error('Failed to check tracker. Please try again.');
         setSubmitting(false);
@@ -109,6 +162,10 @@ export const LinkDevices: React.FC = () => {
           .eq('user_id', user.id)
           .single();
 
+        if (verifyError && isNetworkError(verifyError)) {
+          throw verifyError;
+        }
+
         if (verifyError || !existingDevice) {
           toast.error('You don\'t have permission to edit this device.');
           console.error('Device ownership verification failed:', verifyError);
@@ -166,6 +223,10 @@ export const LinkDevices: React.FC = () => {
       setFormData({ tracker_id: '', name: '', age: '', weight: '', batch_id: '' });
       setShowForm(false);
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueDeviceWrite();
+        return;
+      }
       console.error('Error linking device:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to link device. Please try again.');
     } finally {
@@ -185,6 +246,19 @@ export const LinkDevices: React.FC = () => {
     setShowForm(true);
   };
 
+  // Open the form for one device when linked from the map
+  // (/link-devices?mode=edit&device=<id>)
+  const deepLinkDeviceId = searchParams.get('device');
+  const handledDeepLinkRef = useRef(false);
+  useEffect(() => {
+    if (!deepLinkDeviceId || handledDeepLinkRef.current) return;
+    const device = devices.find((d) => d.id === deepLinkDeviceId);
+    if (device) {
+      handledDeepLinkRef.current = true;
+      handleEdit(device);
+    }
+  }, [deepLinkDeviceId, devices]);
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to remove this device?')) {
       return;
@@ -195,7 +269,27 @@ export const LinkDevices: React.FC = () => {
       return;
     }
 
+    const queueDeviceDelete = async () => {
+      const device = devices.find((d) => d.id === id);
+      const queuedId = await queueWrite({
+        table: 'devices',
+        op: 'delete',
+        match: { id, user_id: user.id },
+        label: `Remove device "${device?.name || device?.animal_name || device?.tracker_id || 'Device'}"`,
+      });
+      if (queuedId === null) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return;
+      }
+      toast.success('Offline: device will be removed when you are back online');
+    };
+
     try {
+      if (!isOnline()) {
+        await queueDeviceDelete();
+        return;
+      }
+
       // SECURITY: Verify ownership before delete (defense in depth)
       const { data: existingDevice, error: verifyError } = await supabase
         .from('devices')
@@ -204,6 +298,10 @@ export const LinkDevices: React.FC = () => {
         .eq('user_id', user.id)
         .single();
 
+      if (verifyError && isNetworkError(verifyError)) {
+        throw verifyError;
+      }
+
       if (verifyError || !existingDevice) {
         toast.error('You don\'t have permission to remove this device.');
         console.error('Device ownership verification failed:', verifyError);
@@ -233,6 +331,10 @@ export const LinkDevices: React.FC = () => {
       toast.success('Device removed successfully');
       await refetchDevices();
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueDeviceDelete();
+        return;
+      }
       console.error('Error removing device:', error);
       toast.error('Failed to remove device. Please try again.');
     }
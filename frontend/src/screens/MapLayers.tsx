@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Layers, Plus, Edit, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from '../components/GeoButton';
+import { useAuth } from '../hooks/useAuth';
+import { useMapLayers } from '../hooks/useMapLayers';
+import {
+  MAP_LAYER_KIND_LABELS,
+  MapLayer,
+  MapLayerInput,
+  MapLayerKind,
+  MapLayerUsage,
+  validateMapLayer,
+} from '../lib/mapLayers';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const EMPTY_LAYER: MapLayerInput = {
+  name: '',
+  kind: 'xyz',
+  url: '',
+  attribution: '',
+  max_zoom: 19,
+  opacity: 1,
+  usage: 'overlay',
+  wms_layers: null,
+  wms_format: 'image/png',
+};
+
+const URL_PLACEHOLDERS: Record<MapLayerKind, string> = {
+  xyz: 'https://tiles.example.org/{z}/{x}/{y}.png',
+  tms: 'https://tiles.example.org/tms/{z}/{x}/{y}.png',
+  wms: 'https://wms.example.org/service',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]';
+
+/**
+ * Custom XYZ / TMS / WMS services (e.g. regional orthophotos, cadastral
+ * parcels) shown in the Map tab layer menu as basemaps or overlays.
+ */
+export const MapLayers: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { layers, loading, error, saveLayer, deleteLayer } = useMapLayers(user?.id);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<MapLayerInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const updateForm = (updates: Partial<MapLayerInput>) => {
+    setForm((current) => (current ? { ...current, ...updates } : current));
+  };
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm(EMPTY_LAYER);
+  };
+
+  const handleEdit = (layer: MapLayer) => {
+    setEditingId(layer.id);
+    setForm({
+      name: layer.name,
+      kind: layer.kind,
+      url: layer.url,
+      attribution: layer.attribution,
+      max_zoom: layer.max_zoom,
+      opacity: layer.opacity,
+      usage: layer.usage,
+      wms_layers: layer.wms_layers,
+      wms_format: layer.wms_format,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const input: MapLayerInput = {
+      ...form,
+      name: form.name.trim(),
+      url: form.url.trim(),
+      attribution: form.attribution.trim(),
+      wms_layers: form.kind === 'wms' ? form.wms_layers?.trim() || null : null,
+    };
+    const problem = validateMapLayer(input);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const { error: saveError } = await saveLayer(editingId ? { ...input, id: editingId } : input);
+    setSaving(false);
+
+    if (saveError) {
+      toast.error('Could not save map layer');
+      return;
+    }
+    toast.success(editingId ? 'Map layer updated' : 'Map layer added');
+    handleCancel();
+  };
+
+  const handleDelete = async (layer: MapLayer) => {
+    if (!confirm(`Delete map layer "${layer.name}"?`)) return;
+    setDeletingId(layer.id);
+    const { error: deleteError } = await deleteLayer(layer.id);
+    setDeletingId(null);
+    if (deleteError) {
+      toast.error('Could not delete map layer');
+    } else {
+      toast.success('Map layer deleted');
+      if (editingId === layer.id) handleCancel();
+    }
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Map layers</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {/* Registered layers */}
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <Layers className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="flex-1 text-[var(--deep-forest)]">Custom layers</h4>
+            {!form && (
+              <button
+                onClick={handleAdd}
+                className="flex items-center gap-1 px-3 py-1 text-sm rounded-lg bg-[var(--grass-green)] text-white hover:bg-[var(--pine-green)]"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+          ) : error && layers.length === 0 ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : layers.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No custom layers yet. Add an XYZ, TMS or WMS service, e.g. your region's
+              orthophotos or cadastral parcels.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {layers.map((layer) => (
+                <div key={layer.id} className="py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[var(--deep-forest)] truncate">{layer.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {MAP_LAYER_KIND_LABELS[layer.kind]} · {layer.usage === 'basemap' ? 'Basemap' : 'Overlay'} ·
+                      {' '}zoom ≤ {layer.max_zoom} · {Math.round(layer.opacity * 100)}%
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{layer.url}</p>
+                  </div>
+                  <button
+                    onClick={() => handleEdit(layer)}
+                    className="p-2 text-[var(--deep-forest)] hover:bg-gray-50 rounded-lg transition-colors"
+                    aria-label={`Edit ${layer.name}`}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(layer)}
+                    disabled={deletingId !== null}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    aria-label={`Delete ${layer.name}`}
+                  >
+                    {deletingId === layer.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Add / edit form */}
+        {form && (
+          <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+            <h4 className="text-[var(--deep-forest)]">{editingId ? 'Edit layer' : 'New layer'}</h4>
+
+            <div>
+              <label className="text-sm text-gray-600">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="Orthophotos 2024"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-gray-600">Type</label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => updateForm({ kind: e.target.value as MapLayerKind })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(MAP_LAYER_KIND_LABELS) as MapLayerKind[]).map((kind) => (
+                    <option key={kind} value={kind}>
+                      {MAP_LAYER_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Show as</label>
+                <select
+                  value={form.usage}
+                  onChange={(e) => updateForm({ usage: e.target.value as MapLayerUsage })}
+                  className={inputClassName}
+                >
+                  <option value="basemap">Basemap</option>
+                  <option value="overlay">Overlay</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-600">
+                {form.kind === 'wms' ? 'Service URL' : 'URL template'}
+              </label>
+              <input
+                type="url"
+                value={form.url}
+                onChange={(e) => updateForm({ url: e.target.value })}
+                placeholder={URL_PLACEHOLDERS[form.kind]}
+                className={inputClassName}
+              />
+              {form.kind !== 'wms' && (
+                <p className="text-xs text-gray-500 mt-1">Use {'{z}'}, {'{x}'}, {'{y}'} and optionally {'{s}'}</p>
+              )}
+            </div>
+
+            {form.kind === 'wms' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm text-gray-600">Layers</label>
+                  <input
+                    type="text"
+                    value={form.wms_layers ?? ''}
+                    onChange={(e) => updateForm({ wms_layers: e.target.value })}
+                    placeholder="parcels,buildings"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-gray-600">Format</label>
+                  <select
+                    value={form.wms_format}
+                    onChange={(e) => updateForm({ wms_format: e.target.value })}
+                    className={inputClassName}
+                  >
+                    <option value="image/png">PNG</option>
+                    <option value="image/jpeg">JPEG</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm text-gray-600">Attribution</label>
+              <input
+                type="text"
+                value={form.attribution}
+                onChange={(e) => updateForm({ attribution: e.target.value })}
+                placeholder="© Survey office"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm text-gray-600">Max zoom</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={24}
+                  value={form.max_zoom}
+                  onChange={(e) => updateForm({ max_zoom: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Opacity {Math.round(form.opacity * 100)}%</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={Math.round(form.opacity * 100)}
+                  onChange={(e) => updateForm({ opacity: Number(e.target.value) / 100 })}
+                  className="w-full mt-3"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={handleCancel}
+                className="flex-1 px-4 py-2 rounded-full border-2 border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <GeoButton variant="primary" onClick={handleSave} className="flex-1" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </GeoButton>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
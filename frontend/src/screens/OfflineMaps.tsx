@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, HardDrive, Map, Trash2, Loader2, Layers } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOfflineAreas } from '../hooks/useOfflineAreas';
+import { TILE_SOURCES, TileArea, formatBytes } from '../lib/tileCache';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+export const OfflineMaps: React.FC = () => {
+  const navigate = useNavigate();
+  const { areas, usage, loading, error, deleteArea } = useOfflineAreas();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const offlineBytes = areas.reduce((sum, area) => sum + area.bytes, 0);
+
+  const handleDelete = async (area: TileArea) => {
+    if (!confirm(`Delete offline map "${area.name}"?`)) return;
+    setDeletingId(area.id);
+    const { error: deleteError } = await deleteArea(area);
+    setDeletingId(null);
+    if (deleteError) {
+      toast.error('Could not delete offline map');
+    } else {
+      toast.success('Offline map deleted');
+    }
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Offline maps</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {/* Storage usage */}
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <HardDrive className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="text-[var(--deep-forest)]">Storage</h4>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Offline maps</span>
+              <span className="text-[var(--deep-forest)]">{formatBytes(offlineBytes)}</span>
+            </div>
+            {usage && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Used by GeoSense</span>
+                  <span className="text-[var(--deep-forest)]">
+                    {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-[var(--grass-green)]"
+                    style={{ width: `${usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : 0}%` }}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Downloaded areas */}
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <Map className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="text-[var(--deep-forest)]">Downloaded areas</h4>
+          </div>
+
+          {loading ? (
+            <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : areas.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No offline maps yet. On the Map tab, open the layer menu
+              <Layers className="w-4 h-4 inline mx-1" />
+              and choose "Download area for offline use".
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {areas.map((area) => (
+                <div key={area.id} className="py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[var(--deep-forest)] truncate">{area.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {TILE_SOURCES[area.basemap]?.label ?? area.basemap} · zoom {area.min_zoom}–{area.max_zoom}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {area.tile_count} tiles · {formatBytes(area.bytes)} ·{' '}
+                      {new Date(area.created_at).toLocaleDateString()}
+                      {area.failed_count > 0 && ` · ${area.failed_count} missing`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(area)}
+                    disabled={deletingId !== null}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    aria-label={`Delete ${area.name}`}
+                  >
+                    {deletingId === area.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,11 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { GeoButton } from '../components/GeoButton';
 import { useAuth } from '../hooks/useAuth';
 import { useApp } from '../contexts/AppContext';
+import { useSettings } from '../hooks/useSettings';
+import type { DistanceUnits } from '../lib/measurement';
+import { listTimeZones } from '../lib/zoneSchedule';
 import { supabase } from '../lib/supabase';
-import { ArrowLeft, User, MapPin, Smartphone, Bell, Globe, Ruler, LogOut } from 'lucide-react';
+import { ArrowLeft, User, MapPin, Smartphone, Bell, Globe, Ruler, LogOut, HardDrive, Layers, FileUp, Download, Clock, CalendarRange, KeyRound } from 'lucide-react';
 import logo from '../assets/logo.png';
 import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
 
@@ -13,6 +16,7 @@ export const Settings: React.FC = () => {
   const location = useLocation();
   const { user, loading: authLoading, signOut } = useAuth();
   const { setLastRoute, setLastMainTab } = useApp();
+  const { settings, updateSettings } = useSettings(user?.id);
   
   // Track navigation state when Settings opens
   useEffect(() => {
@@ -29,10 +33,29 @@ export const Settings: React.FC = () => {
     }
   }, [location.state, setLastRoute, setLastMainTab]);
   const [language, setLanguage] = useState('EN');
-  const [units, setUnits] = useState('km');
+  const [units, setUnits] = useState<DistanceUnits>('km');
+  const [timezone, setTimezone] = useState('UTC');
+  const timeZones = React.useMemo(() => listTimeZones(), []);
 
-  const handleSaveSettings = () => {
-    // TODO: Save language and units to user profile/settings if needed
+  // Show the saved units once settings have loaded
+  useEffect(() => {
+    if (settings?.units) {
+      setUnits(settings.units);
+    }
+  }, [settings?.units]);
+
+  useEffect(() => {
+    if (settings?.timezone) {
+      setTimezone(settings.timezone);
+    }
+  }, [settings?.timezone]);
+
+  const handleSaveSettings = async () => {
+    // Units are used by the map measure tool, the timezone by zone and alert rule schedules
+    if (settings && (units !== (settings.units ?? 'km') || timezone !== (settings.timezone ?? 'UTC'))) {
+      await updateSettings({ units, timezone });
+    }
+    // TODO: Save language to user profile/settings if needed
     // Navigate back to last screen/tab
     const fromState = (location.state as { from?: { pathname: string; mainTab?: string } })?.from;
     if (fromState?.pathname === '/main' && fromState.mainTab) {
@@ -150,6 +173,14 @@ export const Settings: React.FC = () => {
             <MapPin className="w-5 h-5 text-[var(--grass-green)]" />
             <span className="flex-1 text-left text-[var(--deep-forest)]">Edit zones</span>
           </button>
+
+          <button
+            onClick={() => navigate('/import-zones')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <FileUp className="w-5 h-5 text-[var(--grass-green)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Import zones</span>
+          </button>
           
           <button
             onClick={() => navigate('/link-devices?mode=edit', {
@@ -176,6 +207,46 @@ export const Settings: React.FC = () => {
             <Bell className="w-5 h-5 text-[var(--high-yellow)]" />
             <span className="flex-1 text-left text-[var(--deep-forest)]">Set Alerts</span>
           </button>
+
+          <button
+            onClick={() => navigate('/grazing-planner')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <CalendarRange className="w-5 h-5 text-[var(--grass-green)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Grazing plan</span>
+          </button>
+
+          <button
+            onClick={() => navigate('/offline-maps')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <HardDrive className="w-5 h-5 text-[var(--accent-aqua)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Offline maps</span>
+          </button>
+
+          <button
+            onClick={() => navigate('/map-layers')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <Layers className="w-5 h-5 text-[var(--accent-aqua)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Map layers</span>
+          </button>
+
+          <button
+            onClick={() => navigate('/tracker-keys')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <KeyRound className="w-5 h-5 text-[var(--accent-aqua)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Tracker API keys</span>
+          </button>
+
+          <button
+            onClick={() => navigate('/export')}
+            className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors border-b border-gray-100"
+          >
+            <Download className="w-5 h-5 text-[var(--accent-aqua)]" />
+            <span className="flex-1 text-left text-[var(--deep-forest)]">Export data</span>
+          </button>
           
           <button
             onClick={async () => {
@@ -225,6 +296,26 @@ export const Settings: React.FC = () => {
           </select>
         </div>
 
+        {/* Farm timezone */}
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <Clock className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="text-[var(--deep-forest)]">Farm timezone</h4>
+          </div>
+          <select
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]"
+          >
+            {(timeZones.includes(timezone) ? timeZones : [timezone, ...timeZones]).map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-2">Zone schedules switch at these local times.</p>
+        </div>
+
         {/* Units Selection */}
         <div className="bg-white rounded-lg p-4 shadow-sm">
           <div className="flex items-center gap-3 mb-3">
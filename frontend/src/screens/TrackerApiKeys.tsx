@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, KeyRound, Plus, Trash2, Loader2, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from '../components/GeoButton';
+import { useAuth } from '../hooks/useAuth';
+import { useDevices } from '../hooks/useDevices';
+import { TrackerApiKey, useTrackerApiKeys } from '../hooks/useTrackerApiKeys';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * API keys trackers (or their gateway) use to push fixes to POST /api/ingest.
+ * A new key is shown once; keys of unlinked trackers are rejected by the server.
+ */
+export const TrackerApiKeys: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { devices } = useDevices(user?.id);
+  const { keys, loading, error, createKey, revokeKey } = useTrackerApiKeys(user?.id);
+  const [showForm, setShowForm] = useState(false);
+  const [trackerId, setTrackerId] = useState('');
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  // Tracker id -> device name, for linked trackers only
+  const deviceNames = useMemo(
+    () => new Map(devices.map((d) => [d.tracker_id, d.name || d.animal_name || `Tracker ${d.tracker_id}`])),
+    [devices]
+  );
+
+  const handleAdd = () => {
+    setNewKey(null);
+    setTrackerId(devices[0]?.tracker_id ?? '');
+    setLabel('');
+    setShowForm(true);
+  };
+
+  const handleCreate = async () => {
+    if (!trackerId) {
+      toast.error('Select a tracker');
+      return;
+    }
+
+    setCreating(true);
+    const { data, error: createError } = await createKey(trackerId, label.trim() || null);
+    setCreating(false);
+
+    if (createError || !data) {
+      toast.error('Could not create API key');
+      return;
+    }
+    setShowForm(false);
+    setNewKey(data);
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      toast.success('API key copied');
+    } catch {
+      toast.error('Could not copy, please select the key and copy it manually');
+    }
+  };
+
+  const handleRevoke = async (key: TrackerApiKey) => {
+    if (!confirm(`Revoke key ${key.key_prefix}…? Trackers using it can no longer send positions.`)) return;
+    setRevokingId(key.id);
+    const { error: revokeError } = await revokeKey(key.id);
+    setRevokingId(null);
+    if (revokeError) {
+      toast.error('Could not revoke API key');
+    } else {
+      toast.success('API key revoked');
+    }
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={() => navigate('/settings')}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3>Tracker API keys</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {/* Key shown once after creating it */}
+        {newKey && (
+          <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+            <h4 className="text-[var(--deep-forest)]">New API key</h4>
+            <p className="text-sm text-gray-600">
+              Copy the key now, it is not shown again. The tracker sends it as{' '}
+              <code>Authorization: Bearer &lt;key&gt;</code> to <code>POST /api/ingest</code>.
+            </p>
+            <input type="text" readOnly value={newKey} onFocus={(e) => e.target.select()} className={inputClassName} />
+            <div className="flex gap-2">
+              <button
+                onClick={() => setNewKey(null)}
+                className="flex-1 px-4 py-2 rounded-full border-2 border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50"
+              >
+                Done
+              </button>
+              <GeoButton variant="primary" onClick={handleCopy} className="flex-1">
+                <Copy className="w-4 h-4 inline mr-1" />
+                Copy
+              </GeoButton>
+            </div>
+          </div>
+        )}
+
+        {/* Active keys */}
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-3 mb-3">
+            <KeyRound className="w-5 h-5 text-[var(--grass-green)]" />
+            <h4 className="flex-1 text-[var(--deep-forest)]">Active keys</h4>
+            {!showForm && (
+              <button
+                onClick={handleAdd}
+                disabled={devices.length === 0}
+                className="flex items-center gap-1 px-3 py-1 text-sm rounded-lg bg-[var(--grass-green)] text-white hover:bg-[var(--pine-green)] disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+          ) : error && keys.length === 0 ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              {devices.length === 0
+                ? 'Link a tracker first, then create a key for it here.'
+                : 'No API keys yet. Create one for each tracker or gateway that sends positions to the server.'}
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {keys.map((key) => {
+                const deviceName = deviceNames.get(key.tracker_id);
+                return (
+                  <div key={key.id} className="py-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[var(--deep-forest)] truncate">
+                        {key.label || deviceName || `Tracker ${key.tracker_id}`}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        <code>{key.key_prefix}…</code> · {deviceName ?? `Tracker ${key.tracker_id}`} · created{' '}
+                        {formatDate(key.created_at)}
+                      </p>
+                      <p className={`text-xs ${deviceName ? 'text-gray-500' : 'text-red-600'}`}>
+                        {!deviceName
+                          ? 'Tracker not linked: the server rejects this key'
+                          : key.last_used_at
+                            ? `Last used ${formatDate(key.last_used_at)}`
+                            : 'Not used yet'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(key)}
+                      disabled={revokingId !== null}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      aria-label={`Revoke ${key.key_prefix}`}
+                    >
+                      {revokingId === key.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* New key form */}
+        {showForm && (
+          <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+            <h4 className="text-[var(--deep-forest)]">New key</h4>
+
+            <div>
+              <label className="text-sm text-gray-600">Tracker</label>
+              <select value={trackerId} onChange={(e) => setTrackerId(e.target.value)} className={inputClassName}>
+                {devices.map((device) => (
+                  <option key={device.id} value={device.tracker_id}>
+                    {deviceNames.get(device.tracker_id)} ({device.tracker_id})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-sm text-gray-600">Label (optional)</label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Collar 1"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 rounded-full border-2 border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <GeoButton variant="primary" onClick={handleCreate} className="flex-1" disabled={creating}>
+                {creating ? 'Creating...' : 'Create key'}
+              </GeoButton>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, History, RotateCcw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeafletMap } from '../components/LeafletMap';
+import { GeoButton } from '../components/GeoButton';
+import { useAuth } from '../hooks/useAuth';
+import { useSettings } from '../hooks/useSettings';
+import { useGeofences } from '../hooks/useGeofences';
+import { GeofenceVersion, useGeofenceVersions } from '../hooks/useGeofenceVersions';
+import { isOnline } from '../lib/offlineQueue';
+import { LatLngMultiPolygon, closeRing, compareShapes, polygonsAreaM2, toLatLngPolygons } from '../lib/geometry';
+import { formatArea } from '../lib/measurement';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)]';
+
+type Bounds = [[number, number], [number, number]];
+
+const shapeBounds = (shapes: LatLngMultiPolygon[]): Bounds | null => {
+  const points = shapes.flatMap((polygons) => polygons.flatMap((rings) => rings[0]));
+  if (points.length === 0) return null;
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+  return [
+    [Math.min(...lats), Math.min(...lngs)],
+    [Math.max(...lats), Math.max(...lngs)],
+  ];
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const versionLabel = (version: GeofenceVersion, latest: GeofenceVersion | undefined) =>
+  `Version ${version.version}${version.id === latest?.id ? ' (current)' : ''}`;
+
+/**
+ * Saved versions of one zone (?id=<geofence id>). Two versions are overlaid
+ * with the area gained and lost between them; restoring an old version saves
+ * it as the newest one, so nothing in the history is lost.
+ */
+export const ZoneHistory: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const geofenceId = Number(searchParams.get('id')) || null;
+  const { user } = useAuth();
+  const { settings } = useSettings(user?.id);
+  const { geofences } = useGeofences(user?.id);
+  const { versions, loading, error, restoreVersion } = useGeofenceVersions(user?.id, geofenceId);
+  const units = settings?.units ?? 'km';
+
+  // Older version being looked at, and the one it is compared with
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [flyTarget, setFlyTarget] = useState<{ center: [number, number]; bounds?: Bounds } | null>(null);
+
+  const geofence = geofences.find((g) => g.id === geofenceId);
+  const latest = versions[0];
+  // Defaults: the previous version against the current one
+  const base = versions.find((v) => v.id === baseId) ?? versions[1] ?? latest;
+  const compare = versions.find((v) => v.id === compareId) ?? latest;
+
+  const baseShape = useMemo(() => toLatLngPolygons(base?.boundary_inner), [base]);
+  const compareShape = useMemo(() => toLatLngPolygons(compare?.boundary_inner), [compare]);
+  const difference = useMemo(() => {
+    try {
+      return compareShapes(baseShape, compareShape);
+    } catch (err) {
+      console.error('Error comparing zone versions:', err);
+      return null;
+    }
+  }, [baseShape, compareShape]);
+
+  // Frame both versions once they are loaded
+  useEffect(() => {
+    if (flyTarget || !latest) return;
+    const bounds = shapeBounds([baseShape, compareShape]);
+    if (bounds) {
+      setFlyTarget({
+        center: [(bounds[0][0] + bounds[1][0]) / 2, (bounds[0][1] + bounds[1][1]) / 2],
+        bounds,
+      });
+    }
+  }, [latest, baseShape, compareShape, flyTarget]);
+
+  const handleBack = () => {
+    navigate(geofenceId ? `/draw-geofence?mode=edit&id=${geofenceId}` : '/draw-geofence');
+  };
+
+  const handleRestore = async (version: GeofenceVersion) => {
+    if (!isOnline()) {
+      toast.error('Restoring a version needs a connection');
+      return;
+    }
+    if (!confirm(`Restore version ${version.version}? It will be saved as a new version.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    const { data, error: restoreError } = await restoreVersion(version.id);
+    setRestoring(false);
+
+    if (restoreError) {
+      toast.error('Unable to restore version: ' + ((restoreError as any)?.message || 'unknown error'));
+      return;
+    }
+    toast.success(`Version ${version.version} restored${data ? ` as version ${data.version}` : ''}`);
+    // Show what the restore changed: the replaced version against the new one
+    setBaseId(latest?.id ?? null);
+    setCompareId(null);
+  };
+
+  // Compared version filled, the older one as a dashed outline, and the
+  // difference on top: green = added, red = removed
+  const polygons = [
+    ...(compareShape.length > 0
+      ? [{ coordinates: compareShape, color: '#3FB7FF', fillColor: '#3FB7FF', fillOpacity: 0.15, id: 'compare' }]
+      : []),
+    ...(difference && base?.id !== compare?.id
+      ? [
+          ...(difference.added.length > 0
+            ? [{ coordinates: difference.added, color: '#78A64A', fillColor: '#78A64A', fillOpacity: 0.6, id: 'added' }]
+            : []),
+          ...(difference.removed.length > 0
+            ? [{ coordinates: difference.removed, color: '#EF4444', fillColor: '#EF4444', fillOpacity: 0.6, id: 'removed' }]
+            : []),
+        ]
+      : []),
+  ];
+  const polylines = base?.id !== compare?.id
+    ? baseShape.flat().map((ring, index) => ({
+        coordinates: closeRing(ring),
+        color: '#374151',
+        weight: 2,
+        dashArray: '6 6',
+        id: `base-${index}`,
+      }))
+    : [];
+
+  const baseArea = polygonsAreaM2(baseShape);
+  const compareArea = polygonsAreaM2(compareShape);
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={handleBack}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2 min-w-0">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3 className="truncate">History{geofence ? ` · ${geofence.name}` : ''}</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {loading ? (
+          <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+        ) : error ? (
+          <div className="bg-white rounded-lg p-4 shadow-sm text-sm text-red-600">{error}</div>
+        ) : versions.length === 0 ? (
+          <div className="bg-white rounded-lg p-4 shadow-sm text-sm text-gray-600">
+            No saved versions of this zone yet.
+          </div>
+        ) : (
+          <>
+            {/* Overlay */}
+            <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+              <div className="h-64 relative">
+                <LeafletMap
+                  center={flyTarget?.center ?? [51.969205, 7.595761]}
+                  zoom={15}
+                  polygons={polygons}
+                  polylines={polylines}
+                  flyTo={flyTarget}
+                  className="w-full h-full"
+                />
+              </div>
+
+              <div className="p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-sm text-gray-600">Compare</label>
+                    <select
+                      value={base?.id ?? ''}
+                      onChange={(e) => setBaseId(Number(e.target.value))}
+                      className={inputClassName}
+                    >
+                      {versions.map((version) => (
+                        <option key={version.id} value={version.id}>
+                          {versionLabel(version, latest)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">With</label>
+                    <select
+                      value={compare?.id ?? ''}
+                      onChange={(e) => setCompareId(Number(e.target.value))}
+                      className={inputClassName}
+                    >
+                      {versions.map((version) => (
+                        <option key={version.id} value={version.id}>
+                          {versionLabel(version, latest)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {base && compare && base.id !== compare.id ? (
+                  <div className="text-sm text-[var(--deep-forest)] space-y-1">
+                    <p>
+                      {formatArea(baseArea, units)} → {formatArea(compareArea, units)}
+                      {base.buffer_m !== compare.buffer_m && ` · buffer ${base.buffer_m} m → ${compare.buffer_m} m`}
+                    </p>
+                    {difference ? (
+                      <p className="flex flex-wrap gap-x-3">
+                        <span className="text-[var(--grass-green)]">+{formatArea(difference.addedM2, units)} added</span>
+                        <span className="text-red-600">−{formatArea(difference.removedM2, units)} removed</span>
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500">The area difference could not be computed.</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Dashed: version {base.version} · blue: version {compare.version}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">Pick two different versions to see what changed.</p>
+                )}
+              </div>
+            </div>
+
+            {/* Versions */}
+            <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+              <div className="flex items-center gap-3">
+                <History className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="flex-1 text-[var(--deep-forest)]">Versions</h4>
+                <span className="text-sm text-gray-600">{versions.length}</span>
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {versions.map((version) => {
+                  const isCurrent = version.id === latest?.id;
+                  return (
+                    <div
+                      key={version.id}
+                      className={`py-2 flex items-center gap-3 ${version.id === base?.id ? 'bg-gray-50' : ''}`}
+                    >
+                      <button
+                        onClick={() => {
+                          setBaseId(version.id);
+                          setCompareId(null);
+                        }}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-[var(--deep-forest)]">
+                          {versionLabel(version, latest)}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {formatTimestamp(version.created_at)}
+                          {version.author_email && ` · ${version.author_email}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatArea(polygonsAreaM2(toLatLngPolygons(version.boundary_inner)), units)}
+                          {` · buffer ${version.buffer_m} m`}
+                          {version.restored_from_version && ` · restored from version ${version.restored_from_version}`}
+                        </p>
+                      </button>
+                      {!isCurrent && (
+                        <GeoButton
+                          variant="outline"
+                          onClick={() => handleRestore(version)}
+                          disabled={restoring}
+                          className="shrink-0"
+                        >
+                          <span className="flex items-center gap-1 text-sm">
+                            {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                            Restore
+                          </span>
+                        </GeoButton>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,413 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CalendarDays, Clock, Moon, Sun, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { GeoButton } from '../components/GeoButton';
+import { Switch } from '../components/ui/switch';
+import { useAuth } from '../hooks/useAuth';
+import { useSettings } from '../hooks/useSettings';
+import { useGeofences, Geofence } from '../hooks/useGeofences';
+import { supabase } from '../lib/supabase';
+import { isOnline, isNetworkError, queueWrite, QueuedWrite, QUEUE_FAILED_MESSAGE } from '../lib/offlineQueue';
+import {
+  ALL_SCHEDULE_DAYS,
+  ScheduleEdge,
+  ScheduleWindow,
+  ZoneSchedule as ZoneScheduleDraft,
+  formatScheduleChange,
+  getZoneScheduleStatus,
+  isSunEdge,
+  localDay,
+  sunEventAt,
+  toScheduleWindows,
+  zoneCenter,
+} from '../lib/zoneSchedule';
+import logo from '../assets/logo.png';
+import welcomeImage from '../assets/20250621-P1300259-2-3.jpg';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--grass-green)] text-[var(--deep-forest)] bg-white';
+
+// Typical day / night paddock switch-over around dusk and dawn
+const PRESETS: { label: string; Icon: typeof Sun; window: ScheduleWindow }[] = [
+  {
+    label: 'Day paddock',
+    Icon: Sun,
+    window: { start: 'sunrise', start_offset_min: 15, end: 'sunset', end_offset_min: -30 },
+  },
+  {
+    label: 'Night paddock',
+    Icon: Moon,
+    window: { start: 'sunset', start_offset_min: -30, end: 'sunrise', end_offset_min: 15 },
+  },
+];
+
+const EMPTY_DRAFT: ZoneScheduleDraft = {
+  schedule_enabled: false,
+  schedule_days: ALL_SCHEDULE_DAYS,
+  schedule_windows: [],
+};
+
+const EdgeInput: React.FC<{
+  edge: ScheduleEdge;
+  offsetMin: number;
+  onChange: (edge: ScheduleEdge, offsetMin: number) => void;
+}> = ({ edge, offsetMin, onChange }) => (
+  <div className="flex gap-2">
+    <select
+      value={isSunEdge(edge) ? edge : 'time'}
+      onChange={(e) => onChange(e.target.value === 'time' ? '06:00' : e.target.value, 0)}
+      className={`${inputClassName} w-28`}
+    >
+      <option value="time">Time</option>
+      <option value="sunrise">Sunrise</option>
+      <option value="sunset">Sunset</option>
+    </select>
+    {isSunEdge(edge) ? (
+      <label className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="number"
+          step={5}
+          min={-720}
+          max={720}
+          value={offsetMin}
+          onChange={(e) => onChange(edge, Math.round(Number(e.target.value)) || 0)}
+          className={`${inputClassName} w-full`}
+        />
+        min
+      </label>
+    ) : (
+      <input
+        type="time"
+        value={edge}
+        onChange={(e) => onChange(e.target.value || '00:00', 0)}
+        className={`${inputClassName} flex-1`}
+      />
+    )}
+  </div>
+);
+
+/**
+ * Activation schedule of one zone (?id=<geofence id>): weekdays and time
+ * windows in the farm timezone, with sunrise / sunset edges for day and
+ * night paddocks. While a zone is switched off it does not raise alerts.
+ */
+export const ZoneSchedule: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const geofenceId = Number(searchParams.get('id')) || null;
+  const { user } = useAuth();
+  const { settings } = useSettings(user?.id);
+  const {
+    geofences,
+    loading,
+    refetch: refetchGeofences,
+    updateLocal: updateLocalGeofence,
+  } = useGeofences(user?.id);
+  const timeZone = settings?.timezone ?? 'UTC';
+
+  const geofence = geofences.find((g) => g.id === geofenceId);
+  const center = useMemo(() => zoneCenter(geofence?.boundary_inner), [geofence?.boundary_inner]);
+
+  const [draft, setDraft] = useState<ZoneScheduleDraft>(EMPTY_DRAFT);
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved schedule once the zone has loaded
+  useEffect(() => {
+    if (!geofence || draftLoaded) return;
+    setDraft({
+      schedule_enabled: !!geofence.schedule_enabled,
+      schedule_days: geofence.schedule_days ?? ALL_SCHEDULE_DAYS,
+      schedule_windows: toScheduleWindows(geofence.schedule_windows),
+    });
+    setDraftLoaded(true);
+  }, [geofence, draftLoaded]);
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    setDraft((current) => ({
+      ...current,
+      schedule_windows: current.schedule_windows.map((w, i) => (i === index ? { ...w, ...changes } : w)),
+    }));
+  };
+
+  const addWindow = (window: ScheduleWindow) => {
+    setDraft((current) => ({ ...current, schedule_enabled: true, schedule_windows: [...current.schedule_windows, window] }));
+  };
+
+  const removeWindow = (index: number) => {
+    setDraft((current) => ({ ...current, schedule_windows: current.schedule_windows.filter((_, i) => i !== index) }));
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft((current) => ({
+      ...current,
+      schedule_days: current.schedule_days.includes(day)
+        ? current.schedule_days.filter((d) => d !== day)
+        : [...current.schedule_days, day].sort(),
+    }));
+  };
+
+  const now = new Date();
+  const status = center ? getZoneScheduleStatus(draft, center, timeZone, now) : null;
+  const today = localDay(now, timeZone);
+  const sunrise = center ? sunEventAt(today, center[0], center[1], 'sunrise') : null;
+  const sunset = center ? sunEventAt(today, center[0], center[1], 'sunset') : null;
+
+  const handleBack = () => {
+    navigate(geofenceId ? `/draw-geofence?mode=edit&id=${geofenceId}` : '/draw-geofence');
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !geofence) return;
+    if (draft.schedule_enabled && draft.schedule_days.length === 0) {
+      toast.error('Select at least one day');
+      return;
+    }
+
+    const pendingWrite: Omit<QueuedWrite, 'id' | 'queuedAt'> = {
+      table: 'geofences',
+      op: 'update',
+      values: {
+        schedule_enabled: draft.schedule_enabled,
+        schedule_days: draft.schedule_days,
+        schedule_windows: draft.schedule_windows,
+        updated_at: new Date().toISOString(),
+      },
+      match: { id: geofence.id, user_id: user.id },
+      // Replay stops with a conflict if the zone was edited elsewhere meanwhile
+      expectedUpdatedAt: geofence.updated_at ?? null,
+      label: `Schedule of zone "${geofence.name}"`,
+    };
+
+    // Queues the change (shown straight away) and leaves; stays on the
+    // screen when it could not be stored
+    const queueForLater = async () => {
+      if ((await queueWrite(pendingWrite)) === null) {
+        toast.error(QUEUE_FAILED_MESSAGE);
+        return;
+      }
+      updateLocalGeofence(geofence.id, pendingWrite.values as Partial<Geofence>);
+      toast.success('Offline: schedule will sync when you are back online');
+      handleBack();
+    };
+
+    setIsSaving(true);
+    try {
+      if (!isOnline()) {
+        await queueForLater();
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('geofences')
+        .update(pendingWrite.values!)
+        .eq('id', geofence.id)
+        .eq('user_id', user.id) // Explicit user filter
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (!data) {
+        toast.error('You don\'t have permission to edit this zone.');
+        return;
+      }
+
+      toast.success('Schedule saved');
+      await refetchGeofences();
+      handleBack();
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        await queueForLater();
+        return;
+      }
+      console.error('Save zone schedule failed', error);
+      toast.error('Unable to save schedule: ' + (error?.message || 'unknown error'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mobile-screen flex flex-col green-gradient-bg relative">
+      {/* Background Image Overlay */}
+      <div
+        className="absolute inset-0 bg-cover bg-center opacity-20"
+        style={{
+          backgroundImage: `url(${welcomeImage})`
+        }}
+      />
+      {/* Header */}
+      <div className="bg-[var(--deep-forest)] text-white p-4 flex items-center gap-3 shrink-0 relative z-10">
+        <button
+          onClick={handleBack}
+          className="p-1 hover:bg-[var(--pine-green)] rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-2 min-w-0">
+          <img
+            src={logo}
+            alt="GeoSense logo"
+            className="w-6 h-6"
+            style={{ objectFit: 'contain' }}
+          />
+          <h3 className="truncate">Schedule{geofence ? ` · ${geofence.name}` : ''}</h3>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 relative z-10">
+        {loading && !geofence ? (
+          <p className="text-[var(--deep-forest)] text-sm opacity-50">Loading...</p>
+        ) : !geofence ? (
+          <div className="bg-white rounded-lg p-4 shadow-sm text-sm text-gray-600">Zone not found.</div>
+        ) : (
+          <>
+            {/* On / off */}
+            <div className="bg-white rounded-lg p-4 shadow-sm space-y-2">
+              <div className="flex items-center gap-3">
+                <Clock className="w-5 h-5 text-[var(--grass-green)]" />
+                <h4 className="flex-1 text-[var(--deep-forest)]">Use a schedule</h4>
+                <Switch
+                  checked={draft.schedule_enabled}
+                  onCheckedChange={(checked: boolean) => setDraft((current) => ({ ...current, schedule_enabled: checked }))}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                {draft.schedule_enabled
+                  ? 'The zone only counts for alerts while it is switched on.'
+                  : 'The zone is always active.'}
+              </p>
+              {draft.schedule_enabled && status && (
+                <p className={`text-sm ${status.active ? 'text-[var(--grass-green)]' : 'text-gray-500'}`}>
+                  {status.active ? 'On now' : 'Off now'}
+                  {status.nextChange &&
+                    ` · switches ${status.active ? 'off' : 'on'} ${formatScheduleChange(status.nextChange, timeZone, now)}`}
+                </p>
+              )}
+            </div>
+
+            {draft.schedule_enabled && (
+              <>
+                {/* Days */}
+                <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+                  <div className="flex items-center gap-3">
+                    <CalendarDays className="w-5 h-5 text-[var(--grass-green)]" />
+                    <h4 className="flex-1 text-[var(--deep-forest)]">Days</h4>
+                  </div>
+                  <div className="flex justify-between gap-1">
+                    {ALL_SCHEDULE_DAYS.map((day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleDay(day)}
+                        className={`flex-1 py-1 rounded-lg text-xs transition-colors ${
+                          draft.schedule_days.includes(day)
+                            ? 'bg-[var(--grass-green)] text-white'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {DAY_LABELS[day]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    A window that ends after midnight belongs to the day it starts on.
+                  </p>
+                </div>
+
+                {/* Windows */}
+                <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+                  <div className="flex items-center gap-3">
+                    <Sun className="w-5 h-5 text-[var(--grass-green)]" />
+                    <h4 className="flex-1 text-[var(--deep-forest)]">Active times</h4>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Times in {timeZone} (change the farm timezone in Settings).
+                    {sunrise && sunset &&
+                      ` Today: sunrise ${formatScheduleChange(sunrise, timeZone, now)}, sunset ${formatScheduleChange(sunset, timeZone, now)}.`}
+                  </p>
+
+                  {draft.schedule_windows.length === 0 && (
+                    <p className="text-sm text-gray-600">All day on the selected days.</p>
+                  )}
+
+                  {draft.schedule_windows.map((window, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-[var(--deep-forest)]">Window {index + 1}</span>
+                        <button
+                          onClick={() => removeWindow(index)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          title="Remove window"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div>
+                        <label className="text-xs text-gray-600">From</label>
+                        <EdgeInput
+                          edge={window.start}
+                          offsetMin={window.start_offset_min}
+                          onChange={(start, start_offset_min) => updateWindow(index, { start, start_offset_min })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-xs text-gray-600">To</label>
+                        <EdgeInput
+                          edge={window.end}
+                          offsetMin={window.end_offset_min}
+                          onChange={(end, end_offset_min) => updateWindow(index, { end, end_offset_min })}
+                        />
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => addWindow({ start: '06:00', start_offset_min: 0, end: '20:00', end_offset_min: 0 })}
+                      className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Time window
+                    </button>
+                    {PRESETS.map(({ label, Icon, window }) => (
+                      <button
+                        key={label}
+                        onClick={() => addWindow(window)}
+                        className="flex items-center gap-1 px-3 py-2 text-sm rounded-lg border border-gray-300 text-[var(--deep-forest)] hover:bg-gray-50"
+                      >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Bottom Buttons */}
+      <div className="bg-[var(--deep-forest)] p-3 shrink-0 relative z-10">
+        <div className="flex gap-2">
+          <GeoButton variant="outline" onClick={handleBack} className="flex-1">
+            Discard
+          </GeoButton>
+          <GeoButton
+            variant="primary"
+            onClick={handleSave}
+            className="flex-1"
+            disabled={!geofence || isSaving}
+          >
+            Save
+          </GeoButton>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -59,6 +59,10 @@
     server: {
       port: 3000,
       open: true,
+      // File formats shared with the API server (../shared/geoExport.mjs)
+      fs: {
+        allow: ['.', '../shared'],
+      },
       proxy: {
         "/api": "http://localhost:4000",
       },
@@ -0,0 +1,19 @@
+// Example payload decoder for MQTT_PAYLOAD_DECODER=./decoders/example-binary.js
+//
+// Frame layout (big endian, fPort 1):
+//   bytes 0-3  latitude  * 1e7 (int32)
+//   bytes 4-7  longitude * 1e7 (int32)
+//   byte  8    speed in 0.1 m/s (uint8)
+//   byte  9    battery percent (uint8)
+//
+// Return null for frames without a position; they are skipped.
+module.exports = (bytes, fPort) => {
+  if (fPort !== 1 || bytes.length < 10) return null;
+
+  return {
+    lat: bytes.readInt32BE(0) / 1e7,
+    lon: bytes.readInt32BE(4) / 1e7,
+    speed_mps: bytes.readUInt8(8) / 10,
+    battery_percent: bytes.readUInt8(9),
+  };
+};
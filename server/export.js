@@ -0,0 +1,148 @@
+// Zone and track exports for GET /api/export. The file formats are in
+// shared/geoExport.mjs, the same module the app's Export screen uses.
+
+// PostgREST returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+class ExportError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Supabase access token of the signed-in user from `Authorization: Bearer <token>`
+const getAccessToken = (req) => {
+  const auth = req.get('authorization') || '';
+  return auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : '';
+};
+
+// Returns the user id the token belongs to, or throws 401
+const authenticateUser = async (supabase, accessToken) => {
+  if (!accessToken) {
+    throw new ExportError(401, 'Missing access token');
+  }
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  if (error || !data?.user) {
+    throw new ExportError(401, 'Invalid or expired access token');
+  }
+  return data.user.id;
+};
+
+// File formats shared with the app's Export screen. ESM, so loaded with
+// import() from this CommonJS module.
+const loadFormats = () => import('../shared/geoExport.mjs');
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+const parseDate = (value, name) => {
+  const ms = Date.parse(value || '');
+  if (!Number.isFinite(ms)) {
+    throw new ExportError(400, `${name} must be an ISO 8601 date`);
+  }
+  return new Date(ms);
+};
+
+// ids: optional comma-separated geofence ids (default: all zones)
+const loadGeofences = async (supabase, userId, ids) => {
+  let query = supabase
+    .from('geofences')
+    .select('id, name, kind, buffer_m, boundary_inner, boundary_outer, created_at, updated_at')
+    .eq('user_id', userId) // SECURITY: service role bypasses RLS
+    .order('created_at', { ascending: true });
+
+  if (ids) {
+    const idList = String(ids).split(',').map((id) => Number(id.trim()));
+    if (idList.some((id) => !Number.isInteger(id))) {
+      throw new ExportError(400, 'ids must be a comma-separated list of zone ids');
+    }
+    query = query.in('id', idList);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+const loadTrack = async (supabase, userId, trackerId, from, to, maxDays) => {
+  if (!trackerId) {
+    throw new ExportError(400, 'tracker_id is required');
+  }
+  if (to <= from) {
+    throw new ExportError(400, 'to must be after from');
+  }
+  if (to - from > maxDays * 24 * 60 * 60 * 1000) {
+    throw new ExportError(400, `At most ${maxDays} days per export`);
+  }
+
+  // SECURITY: only trackers linked to the user
+  const { data: devices, error: deviceError } = await supabase
+    .from('devices')
+    .select('tracker_id, name, animal_name')
+    .eq('tracker_id', trackerId)
+    .eq('user_id', userId)
+    .limit(1);
+  if (deviceError) throw deviceError;
+  const device = devices?.[0];
+  if (!device) {
+    throw new ExportError(404, 'Tracker not found');
+  }
+
+  const points = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('location_history')
+      .select('captured_at, lat, lng, altitude_m')
+      .eq('tracker_id', trackerId)
+      .gte('captured_at', from.toISOString())
+      .lte('captured_at', to.toISOString())
+      .order('captured_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    points.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    tracker_id: trackerId,
+    name: device.animal_name || device.name || `Tracker ${trackerId}`,
+    points,
+  };
+};
+
+/**
+ * Builds the export file for a GET /api/export query:
+ * - type=geofences&format=geojson|kml[&ids=1,2]
+ * - type=track&format=gpx|kml&tracker_id=...&from=...&to=...
+ */
+const buildExport = async (supabase, userId, query) => {
+  const { type, format } = query;
+  const { MAX_TRACK_DAYS, exportGeofences, exportTrack } = await loadFormats();
+
+  if (type === 'geofences') {
+    if (format !== 'geojson' && format !== 'kml') {
+      throw new ExportError(400, 'format must be geojson or kml for zones');
+    }
+    return exportGeofences(await loadGeofences(supabase, userId, query.ids), format);
+  }
+
+  if (type === 'track') {
+    if (format !== 'gpx' && format !== 'kml') {
+      throw new ExportError(400, 'format must be gpx or kml for tracks');
+    }
+    const from = parseDate(query.from, 'from');
+    const to = parseDate(query.to, 'to');
+    return exportTrack(await loadTrack(supabase, userId, query.tracker_id, from, to, MAX_TRACK_DAYS), from, to, format);
+  }
+
+  throw new ExportError(400, 'type must be geofences or track');
+};
+
+module.exports = {
+  ExportError,
+  getAccessToken,
+  authenticateUser,
+  buildExport,
+};
@@ -3,7 +3,11 @@ const cors = require('cors');
 const { Pool } = require('pg');
 const { createClient } = require('@supabase/supabase-js');
 const path = require('path');
+// Load server/.env before the modules below read their settings
 require('dotenv').config({ path: path.join(__dirname, '.env') });
+const { IngestError, getApiKey, authenticateTracker, ingestFixes } = require('./ingest');
+const { ExportError, getAccessToken, authenticateUser, buildExport } = require('./export');
+const { startMqttBridge } = require('./mqtt-bridge');
 
 
 const app = express();
@@ -19,6 +23,11 @@ if (!supabaseKey) {
   console.warn('⚠️ Missing SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY. Geofences will not be saved to Supabase.');
 }
 
+// Service-role client for routes that call privileged RPCs (no anon fallback:
+// with the anon key those calls fail or RLS silently returns nothing)
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabaseAdmin = serviceRoleKey ? createClient(supabaseUrl, serviceRoleKey) : null;
+
 const pool = new Pool({
   host: process.env.PGHOST || 'localhost',
   user: process.env.PGUSER || 'postgres',
@@ -173,7 +182,74 @@ app.get('/api/geofences', async (req, res) => {
   }
 });
 
+// Tracker ingestion. Body: a single fix `{ ts, lat, lon, ... }` or a batch
+// `{ fixes: [...] }`. The API key identifies the tracker; an optional
+// tracker_id in the body must match it.
+app.post('/api/ingest', async (req, res) => {
+  if (!supabaseAdmin) {
+    return res.status(503).json({ error: 'Ingestion is not configured (missing SUPABASE_SERVICE_ROLE_KEY)' });
+  }
+
+  try {
+    const trackerId = await authenticateTracker(supabaseAdmin, getApiKey(req));
+
+    const body = req.body || {};
+    if (body.tracker_id && body.tracker_id !== trackerId) {
+      return res.status(403).json({ error: 'API key does not belong to this tracker' });
+    }
+
+    const fixes = Array.isArray(body.fixes) ? body.fixes : [body];
+    const result = await ingestFixes(supabaseAdmin, trackerId, fixes);
+
+    // Nothing usable in the request at all
+    if (result.accepted === 0 && result.duplicates === 0) {
+      return res.status(400).json({ trackerId, ...result });
+    }
+
+    res.json({ trackerId, ...result });
+  } catch (err) {
+    if (err instanceof IngestError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Zone / track export for backups. Authenticated with the user's Supabase
+// access token; see buildExport for the query parameters.
+app.get('/api/export', async (req, res) => {
+  // The anon client would see no rows through RLS and export an empty backup
+  if (!supabaseAdmin) {
+    return res.status(503).json({ error: 'Export is not configured (missing SUPABASE_SERVICE_ROLE_KEY)' });
+  }
+
+  try {
+    const userId = await authenticateUser(supabaseAdmin, getAccessToken(req));
+    const file = await buildExport(supabaseAdmin, userId, req.query);
+
+    res.set('Content-Type', `${file.mimeType}; charset=utf-8`);
+    res.set('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.content);
+  } catch (err) {
+    if (err instanceof ExportError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 const port = process.env.PORT || 4000;
 app.listen(port, () => {
   console.log(`Geosense server listening on port ${port}`);
 });
+
+// Optional LoRaWAN uplinks over MQTT (same ingestion path as /api/ingest)
+if (process.env.MQTT_URL) {
+  try {
+    startMqttBridge({ supabase: supabaseAdmin });
+  } catch (err) {
+    console.error('⚠️ MQTT bridge not started:', err.message);
+  }
+}
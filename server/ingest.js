@@ -0,0 +1,218 @@
+// Tracker fix ingestion shared by POST /api/ingest (and other transports).
+// Every fix goes through the ingest_tracker_fix() RPC (migration 032) so the
+// speed tables, battery readings, live_locations and location_history stay
+// consistent with each other.
+const crypto = require('crypto');
+
+const MAX_BATCH_SIZE = 500;
+// Reject fixes too far in the future (clock drift) or too old to be useful
+const MAX_FUTURE_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_AGE_DAYS = 7;
+
+// INGEST_MAX_AGE_DAYS is read per call, so server/.env applies however the
+// module was loaded; invalid values fall back to the default
+const getMaxAgeMs = () => {
+  const days = Number(process.env.INGEST_MAX_AGE_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+};
+
+class IngestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const hashApiKey = (apiKey) =>
+  crypto.createHash('sha256').update(apiKey, 'utf8').digest('hex');
+
+// API key from `Authorization: Bearer <key>` or `X-Api-Key: <key>`
+const getApiKey = (req) => {
+  const auth = req.get('authorization') || '';
+  if (auth.toLowerCase().startsWith('bearer ')) {
+    return auth.slice(7).trim();
+  }
+  return (req.get('x-api-key') || '').trim();
+};
+
+// Returns the tracker_id the key belongs to, or throws 401
+const authenticateTracker = async (supabase, apiKey) => {
+  if (!apiKey) {
+    throw new IngestError(401, 'Missing API key');
+  }
+
+  const { data, error } = await supabase
+    .from('tracker_api_keys')
+    .select('id, tracker_id, user_id')
+    .eq('key_hash', hashApiKey(apiKey))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new IngestError(401, 'Invalid API key');
+  }
+
+  // SECURITY: a key only works while its owner still has the tracker linked,
+  // so it stops working once the tracker is unlinked or moves to another account
+  const { data: links, error: linkError } = await supabase
+    .from('devices')
+    .select('id')
+    .eq('user_id', data.user_id)
+    .eq('tracker_id', data.tracker_id)
+    .limit(1);
+
+  if (linkError) {
+    throw linkError;
+  }
+  if (!links || links.length === 0) {
+    throw new IngestError(401, 'API key is no longer valid (tracker not linked to its owner)');
+  }
+
+  // Best effort, never blocks ingestion
+  supabase
+    .from('tracker_api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id)
+    .then(({ error: updateError }) => {
+      if (updateError) console.error('Could not update last_used_at:', updateError);
+    });
+
+  return data.tracker_id;
+};
+
+const optionalNumber = (value, name, min, max) => {
+  if (value === undefined || value === null) return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+  return n;
+};
+
+// Accepts ISO strings or epoch (seconds or milliseconds)
+const parseTimestamp = (value) => {
+  if (value === undefined || value === null || value === '') {
+    throw new Error('ts is required');
+  }
+  let ms;
+  if (typeof value === 'number') {
+    ms = value < 1e12 ? value * 1000 : value;
+  } else {
+    ms = Date.parse(value);
+  }
+  if (!Number.isFinite(ms)) {
+    throw new Error('ts must be an ISO 8601 string or epoch time');
+  }
+  const now = Date.now();
+  if (ms > now + MAX_FUTURE_MS) {
+    throw new Error('ts is in the future');
+  }
+  if (ms < now - getMaxAgeMs()) {
+    throw new Error('ts is too old');
+  }
+  return new Date(ms).toISOString();
+};
+
+// Normalizes one raw fix; throws with a readable message when invalid
+const validateFix = (raw) => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('fix must be an object');
+  }
+
+  const lat = optionalNumber(raw.lat, 'lat', -90, 90);
+  const lon = optionalNumber(raw.lon ?? raw.lng, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    throw new Error('lat and lon are required');
+  }
+  if (lat === 0 && lon === 0) {
+    throw new Error('lat/lon 0,0 is not a valid fix');
+  }
+
+  return {
+    ts: parseTimestamp(raw.ts ?? raw.timestamp ?? raw.captured_at),
+    lat,
+    lon,
+    speed_mps: optionalNumber(raw.speed_mps, 'speed_mps', 0, 100),
+    accuracy_m: optionalNumber(raw.accuracy_m, 'accuracy_m', 0, 100000),
+    heading_deg: optionalNumber(raw.heading_deg, 'heading_deg', 0, 360),
+    altitude_m: optionalNumber(raw.altitude_m, 'altitude_m', -1000, 10000),
+    battery_percent: optionalNumber(raw.battery_percent, 'battery_percent', 0, 100),
+    battery_voltage_v: optionalNumber(raw.battery_voltage_v, 'battery_voltage_v', 0, 60),
+  };
+};
+
+/**
+ * Validates and ingests fixes for one tracker, oldest first.
+ * Returns { accepted, duplicates, rejected: [{ index, error }] } where index
+ * refers to the position in the `fixes` array as sent.
+ */
+const ingestFixes = async (supabase, trackerId, fixes) => {
+  if (!Array.isArray(fixes) || fixes.length === 0) {
+    throw new IngestError(400, 'No fixes in request');
+  }
+  if (fixes.length > MAX_BATCH_SIZE) {
+    throw new IngestError(413, `At most ${MAX_BATCH_SIZE} fixes per request`);
+  }
+
+  const result = { accepted: 0, duplicates: 0, rejected: [] };
+  const valid = [];
+  const seen = new Set();
+
+  fixes.forEach((raw, index) => {
+    try {
+      const fix = validateFix(raw);
+      // Duplicates inside the same batch
+      if (seen.has(fix.ts)) {
+        result.duplicates += 1;
+        return;
+      }
+      seen.add(fix.ts);
+      valid.push({ index, fix });
+    } catch (err) {
+      result.rejected.push({ index, error: err.message });
+    }
+  });
+
+  valid.sort((a, b) => a.fix.ts.localeCompare(b.fix.ts));
+
+  // Sequential on purpose: live_locations must end on the newest fix
+  for (const { index, fix } of valid) {
+    const { data, error } = await supabase.rpc('ingest_tracker_fix', {
+      p_tracker_id: trackerId,
+      p_ts: fix.ts,
+      p_lat: fix.lat,
+      p_lon: fix.lon,
+      p_speed_mps: fix.speed_mps,
+      p_accuracy_m: fix.accuracy_m,
+      p_heading_deg: fix.heading_deg,
+      p_altitude_m: fix.altitude_m,
+      p_battery_percent: fix.battery_percent,
+      p_battery_voltage_v: fix.battery_voltage_v,
+    });
+
+    if (error) {
+      console.error(`ingest_tracker_fix failed for ${trackerId}:`, error);
+      result.rejected.push({ index, error: 'Could not store fix' });
+    } else if (data === 'duplicate') {
+      result.duplicates += 1;
+    } else {
+      result.accepted += 1;
+    }
+  }
+
+  result.rejected.sort((a, b) => a.index - b.index);
+  return result;
+};
+
+module.exports = {
+  IngestError,
+  MAX_BATCH_SIZE,
+  hashApiKey,
+  getApiKey,
+  authenticateTracker,
+  validateFix,
+  ingestFixes,
+};
@@ -0,0 +1,154 @@
+// MQTT / LoRaWAN uplink bridge.
+// Subscribes to the network server's uplink topic, decodes each uplink
+// (uplink-decoders.js) and stores the fix through the same path as
+// POST /api/ingest (ingest.js).
+//
+// Started by index.js when MQTT_URL is set, or standalone:
+//   node mqtt-bridge.js
+const mqtt = require('mqtt');
+const path = require('path');
+const { createClient } = require('@supabase/supabase-js');
+const { decodeUplink, loadPayloadDecoder } = require('./uplink-decoders');
+const { ingestFixes } = require('./ingest');
+
+// TTN v3 default uplink topic; ChirpStack v4: application/+/device/+/event/up
+const DEFAULT_TOPIC = 'v3/+/devices/+/up';
+// How long a tracker_id lookup in devices is cached
+const TRACKER_CACHE_MS = 60 * 1000;
+
+// Literal value for ILIKE: backslash, % and _ escaped
+const escapeLikePattern = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const getBridgeConfig = () => ({
+  url: process.env.MQTT_URL,
+  topic: process.env.MQTT_TOPIC || DEFAULT_TOPIC,
+  username: process.env.MQTT_USERNAME || undefined,
+  password: process.env.MQTT_PASSWORD || undefined,
+  clientId: process.env.MQTT_CLIENT_ID || `geosense-bridge-${process.pid}`,
+  payloadDecoder: process.env.MQTT_PAYLOAD_DECODER || null,
+  // Log decoded fixes instead of storing them (testing against a local broker)
+  dryRun: process.env.MQTT_DRY_RUN === '1',
+});
+
+/**
+ * Starts the bridge. Returns the mqtt client (call .end() to stop).
+ * Uplinks from devices that are not linked in `devices` are ignored so an
+ * open broker cannot create trackers.
+ */
+const startMqttBridge = ({ supabase, config = getBridgeConfig() }) => {
+  if (!config.url) {
+    throw new Error('MQTT_URL is not set');
+  }
+  if (!supabase && !config.dryRun) {
+    throw new Error('MQTT bridge needs a Supabase client (SUPABASE_SERVICE_ROLE_KEY)');
+  }
+
+  const payloadDecoder = loadPayloadDecoder(config.payloadDecoder);
+  const trackerCache = new Map(); // device EUI (lower case) -> { trackerId, at }
+
+  // EUIs arrive upper or lower case depending on the network server, so the
+  // lookup ignores case but is otherwise exact: `_` and `%` in device ids are
+  // escaped, they must not act as LIKE wildcards
+  const resolveTrackerId = async (deviceId) => {
+    const key = deviceId.toLowerCase();
+    const cached = trackerCache.get(key);
+    if (cached && Date.now() - cached.at < TRACKER_CACHE_MS) {
+      return cached.trackerId;
+    }
+
+    const { data, error } = await supabase
+      .from('devices')
+      .select('tracker_id')
+      .ilike('tracker_id', escapeLikePattern(deviceId))
+      .order('tracker_id', { ascending: true });
+
+    if (error) throw error;
+
+    const matches = (data || []).filter((row) => row.tracker_id.toLowerCase() === key);
+    // Trackers that differ only in case: only an exact match is unambiguous
+    const match = matches.length === 1 ? matches[0] : matches.find((row) => row.tracker_id === deviceId);
+    if (!match && matches.length > 1) {
+      console.warn(`[mqtt] Device ${deviceId} matches several trackers: ${matches.map((row) => row.tracker_id).join(', ')}`);
+    }
+
+    const trackerId = match ? match.tracker_id : null;
+    trackerCache.set(key, { trackerId, at: Date.now() });
+    return trackerId;
+  };
+
+  const handleMessage = async (topic, message) => {
+    let decoded;
+    try {
+      decoded = decodeUplink(JSON.parse(message.toString('utf8')), payloadDecoder);
+    } catch (err) {
+      console.warn(`[mqtt] Skipping message on ${topic}: ${err.message}`);
+      return;
+    }
+
+    if (!decoded) {
+      return; // no position in this uplink
+    }
+
+    // Per-fix logging only in dry runs; stored fixes are not logged
+    if (config.dryRun) {
+      console.log(`[mqtt] Dry run, ${decoded.trackerId}:`, decoded.fix);
+      return;
+    }
+
+    try {
+      const trackerId = await resolveTrackerId(decoded.trackerId);
+      if (!trackerId) {
+        console.warn(`[mqtt] Ignoring uplink from unlinked device ${decoded.trackerId}`);
+        return;
+      }
+
+      const result = await ingestFixes(supabase, trackerId, [decoded.fix]);
+      if (result.rejected.length > 0) {
+        console.warn(`[mqtt] Rejected fix from ${trackerId}: ${result.rejected[0].error}`);
+      }
+    } catch (err) {
+      console.error(`[mqtt] Ingestion failed for ${decoded.trackerId}:`, err);
+    }
+  };
+
+  const client = mqtt.connect(config.url, {
+    username: config.username,
+    password: config.password,
+    clientId: config.clientId,
+    reconnectPeriod: 5000,
+  });
+
+  client.on('connect', () => {
+    // No broker URL here: it can carry credentials
+    console.log(`MQTT bridge connected, subscribing to ${config.topic}`);
+    client.subscribe(config.topic, { qos: 1 }, (err) => {
+      if (err) console.error('[mqtt] Subscribe failed:', err);
+    });
+  });
+
+  client.on('error', (err) => {
+    console.error('[mqtt] Connection error:', err.message);
+  });
+
+  client.on('message', (topic, message) => {
+    handleMessage(topic, message);
+  });
+
+  return client;
+};
+
+module.exports = { DEFAULT_TOPIC, getBridgeConfig, startMqttBridge };
+
+if (require.main === module) {
+  require('dotenv').config({ path: path.join(__dirname, '.env') });
+
+  const supabaseUrl = process.env.SUPABASE_URL || 'https://thrmkorvklpvbbctsgti.supabase.co';
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  const supabase = supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
+
+  const client = startMqttBridge({ supabase });
+
+  process.on('SIGINT', () => {
+    client.end(false, () => process.exit(0));
+  });
+}
@@ -0,0 +1,166 @@
+// Decoding of LoRaWAN network server uplinks (MQTT JSON) into GeoSense fixes.
+//
+// Supported envelopes:
+// - The Things Network / The Things Stack v3  (end_device_ids + uplink_message)
+// - ChirpStack v4                             (deviceInfo + data/object)
+// - ChirpStack v3                             (devEUI + data/object|objectJSON)
+//
+// The position itself comes from the payload decoder of the network server
+// (TTN decoded_payload / ChirpStack object). When a custom payload decoder is
+// configured, the raw frame bytes are handed to it instead:
+//
+//   module.exports = (bytes, fPort, uplink) => ({ lat, lon, ... } | null)
+
+const path = require('path');
+
+const FORMAT_TTN = 'ttn';
+const FORMAT_CHIRPSTACK_V4 = 'chirpstack_v4';
+const FORMAT_CHIRPSTACK_V3 = 'chirpstack_v3';
+
+const detectFormat = (uplink) => {
+  if (uplink && uplink.end_device_ids && uplink.uplink_message) return FORMAT_TTN;
+  if (uplink && uplink.deviceInfo) return FORMAT_CHIRPSTACK_V4;
+  if (uplink && (uplink.devEUI || uplink.devEui)) return FORMAT_CHIRPSTACK_V3;
+  return null;
+};
+
+const firstDefined = (...values) => values.find((v) => v !== undefined && v !== null);
+
+// Maps the usual field names of tracker payload decoders onto our fix fields
+const normalizeDecodedFields = (decoded) => {
+  if (!decoded || typeof decoded !== 'object') return null;
+
+  // Some decoders nest the position (e.g. { gps: { latitude, longitude } })
+  const pos = decoded.gps || decoded.location || decoded.position || decoded;
+
+  const lat = firstDefined(pos.lat, pos.latitude);
+  const lon = firstDefined(pos.lon, pos.lng, pos.longitude);
+  if (lat === undefined || lon === undefined) return null;
+
+  // A bare `battery` is volts in many collar codecs (e.g. 3.6), so it never
+  // counts as a percentage; values a cell voltage can have are read as volts
+  const bareBattery = typeof decoded.battery === 'number' && decoded.battery > 0 && decoded.battery <= 5
+    ? decoded.battery
+    : undefined;
+  const batteryVoltage = firstDefined(decoded.battery_voltage_v, decoded.batteryVoltage, decoded.battery_v, decoded.vbat, bareBattery);
+
+  return {
+    lat,
+    lon,
+    ts: firstDefined(decoded.ts, decoded.timestamp, decoded.time),
+    speed_mps: firstDefined(pos.speed_mps, decoded.speed_mps, pos.speed, decoded.speed),
+    accuracy_m: firstDefined(pos.accuracy_m, pos.accuracy, pos.hdop_m, decoded.accuracy_m, decoded.accuracy),
+    heading_deg: firstDefined(pos.heading_deg, pos.heading, pos.course, decoded.heading),
+    altitude_m: firstDefined(pos.altitude_m, pos.altitude, pos.alt, decoded.altitude),
+    battery_percent: firstDefined(decoded.battery_percent, decoded.batteryPercent),
+    battery_voltage_v: batteryVoltage,
+  };
+};
+
+const base64ToBytes = (value) => (value ? Buffer.from(value, 'base64') : Buffer.alloc(0));
+
+// Envelope -> { trackerId, receivedAt, fPort, bytes, decoded }
+const unwrapUplink = (uplink) => {
+  const format = detectFormat(uplink);
+
+  switch (format) {
+    case FORMAT_TTN: {
+      const ids = uplink.end_device_ids || {};
+      const msg = uplink.uplink_message || {};
+      return {
+        format,
+        trackerId: firstDefined(ids.dev_eui, ids.device_id),
+        receivedAt: firstDefined(msg.received_at, uplink.received_at),
+        fPort: msg.f_port,
+        bytes: base64ToBytes(msg.frm_payload),
+        decoded: msg.decoded_payload,
+      };
+    }
+    case FORMAT_CHIRPSTACK_V4: {
+      const info = uplink.deviceInfo || {};
+      return {
+        format,
+        trackerId: firstDefined(info.devEui, info.deviceName),
+        receivedAt: uplink.time,
+        fPort: uplink.fPort,
+        bytes: base64ToBytes(uplink.data),
+        decoded: uplink.object,
+      };
+    }
+    case FORMAT_CHIRPSTACK_V3: {
+      let decoded = uplink.object;
+      if (!decoded && uplink.objectJSON) {
+        try {
+          decoded = JSON.parse(uplink.objectJSON);
+        } catch (err) {
+          decoded = null;
+        }
+      }
+      // v3 JSON marshaler sends devEUI base64 encoded
+      const devEui = firstDefined(uplink.devEUI, uplink.devEui);
+      return {
+        format,
+        trackerId: /^[0-9a-fA-F]{16}$/.test(devEui) ? devEui : base64ToBytes(devEui).toString('hex'),
+        receivedAt: firstDefined(uplink.publishedAt, uplink.time),
+        fPort: uplink.fPort,
+        bytes: base64ToBytes(uplink.data),
+        decoded,
+      };
+    }
+    default:
+      throw new Error('Unknown uplink format');
+  }
+};
+
+/**
+ * Loads a custom payload decoder module (path relative to server/).
+ * Returns null when no decoder is configured.
+ */
+const loadPayloadDecoder = (modulePath) => {
+  if (!modulePath) return null;
+  const decoder = require(path.resolve(__dirname, modulePath));
+  const fn = typeof decoder === 'function' ? decoder : decoder.decode;
+  if (typeof fn !== 'function') {
+    throw new Error(`Payload decoder ${modulePath} must export a function or { decode }`);
+  }
+  return fn;
+};
+
+/**
+ * Decodes one uplink into { trackerId, fix } or returns null when the uplink
+ * carries no position (e.g. status-only frames).
+ * The custom payload decoder, when given, wins over the network server decoding.
+ */
+const decodeUplink = (uplink, payloadDecoder = null) => {
+  const envelope = unwrapUplink(uplink);
+  if (!envelope.trackerId) {
+    throw new Error('Uplink has no device EUI / id');
+  }
+
+  const decoded = payloadDecoder
+    ? payloadDecoder(envelope.bytes, envelope.fPort, uplink)
+    : envelope.decoded;
+
+  const fields = normalizeDecodedFields(decoded);
+  if (!fields) return null;
+
+  return {
+    trackerId: String(envelope.trackerId),
+    fix: {
+      ...fields,
+      // Device time when the payload has one, otherwise network server time
+      ts: firstDefined(fields.ts, envelope.receivedAt),
+    },
+  };
+};
+
+module.exports = {
+  FORMAT_TTN,
+  FORMAT_CHIRPSTACK_V4,
+  FORMAT_CHIRPSTACK_V3,
+  detectFormat,
+  normalizeDecodedFields,
+  unwrapUplink,
+  loadPayloadDecoder,
+  decodeUplink,
+};
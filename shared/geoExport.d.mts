@@ -0,0 +1,48 @@
+// Types for geoExport.mjs
+
+export declare const MAX_TRACK_DAYS: number;
+
+export type GeofenceExportFormat = 'geojson' | 'kml';
+export type TrackExportFormat = 'gpx' | 'kml';
+
+// Polygon or MultiPolygon, as PostGIS serializes geometry columns
+export interface ExportGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: number[][][] | number[][][][];
+}
+
+export interface ExportGeofence {
+  id: number;
+  name: string;
+  kind?: 'include' | 'exclude' | null;
+  buffer_m?: number | null;
+  boundary_inner: ExportGeometry | null;
+  boundary_outer?: ExportGeometry | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExportTrackPoint {
+  captured_at: string;
+  lat: number;
+  lng: number;
+  altitude_m?: number | null;
+}
+
+export interface ExportTrack {
+  tracker_id: string;
+  name: string;
+  points: ExportTrackPoint[];
+}
+
+export interface ExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+/** Zones with name, kind, buffer and inner / outer boundary */
+export declare const exportGeofences: (geofences: ExportGeofence[], format: GeofenceExportFormat) => ExportFile;
+
+/** One tracker's positions between two dates, oldest first */
+export declare const exportTrack: (track: ExportTrack, from: Date, to: Date, format: TrackExportFormat) => ExportFile;
@@ -0,0 +1,164 @@
+// Zone and track file formats (GeoJSON, KML, GPX). Shared by the app's
+// Export screen (frontend/src/lib/geoExport.ts) and GET /api/export
+// (server/export.js), so both produce the same files. Plain ESM without
+// dependencies: it runs in the browser and in Node.
+
+// Longest track window per export
+export const MAX_TRACK_DAYS = 31;
+
+const MIME_TYPES = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+const escapeXml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const slug = (value) => value.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'export';
+
+const isoDate = (value) => new Date(value).toISOString().slice(0, 10);
+
+const asMultiPolygon = (geometry) => {
+  if (geometry?.type === 'MultiPolygon') return geometry;
+  if (geometry?.type === 'Polygon') return { type: 'MultiPolygon', coordinates: [geometry.coordinates] };
+  return null;
+};
+
+// Inner boundary, plus the buffered outer boundary when the zone has one
+const zoneBoundaries = (geofence) => {
+  const boundaries = [];
+  const inner = asMultiPolygon(geofence.boundary_inner);
+  const outer = asMultiPolygon(geofence.boundary_outer);
+  if (inner) boundaries.push({ boundary: 'inner', geometry: inner });
+  if (outer) boundaries.push({ boundary: 'outer', geometry: outer });
+  return boundaries;
+};
+
+const zoneProperties = (geofence, boundary) => ({
+  id: geofence.id,
+  name: geofence.name,
+  kind: geofence.kind || 'include',
+  buffer_m: geofence.buffer_m ?? 0,
+  boundary,
+  created_at: geofence.created_at,
+  updated_at: geofence.updated_at,
+});
+
+const geofencesToGeoJSON = (geofences) =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: geofences.flatMap((geofence) =>
+        zoneBoundaries(geofence).map(({ boundary, geometry }) => ({
+          type: 'Feature',
+          id: boundary === 'inner' ? geofence.id : `${geofence.id}-outer`,
+          geometry,
+          properties: zoneProperties(geofence, boundary),
+        }))
+      ),
+    },
+    null,
+    2
+  );
+
+const kmlCoordinates = (ring) => ring.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+
+const kmlGeometry = (geometry) => {
+  const polygons = geometry.coordinates.map(
+    ([outer, ...holes]) =>
+      '<Polygon>' +
+      `<outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>` +
+      holes
+        .map((hole) => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`)
+        .join('') +
+      '</Polygon>'
+  );
+  return polygons.length === 1 ? polygons[0] : `<MultiGeometry>${polygons.join('')}</MultiGeometry>`;
+};
+
+const kmlExtendedData = (properties) =>
+  '<ExtendedData>' +
+  Object.entries(properties)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+    .join('') +
+  '</ExtendedData>';
+
+const kmlDocument = (name, body) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+  `<name>${escapeXml(name)}</name>` +
+  // KML colours are aabbggrr
+  '<Style id="include"><LineStyle><color>ff4aa678</color><width>2</width></LineStyle><PolyStyle><color>4d4aa678</color></PolyStyle></Style>' +
+  '<Style id="exclude"><LineStyle><color>ff4444ef</color><width>2</width></LineStyle><PolyStyle><color>4d4444ef</color></PolyStyle></Style>' +
+  '<Style id="outer"><LineStyle><color>ff4aa678</color><width>1</width></LineStyle><PolyStyle><fill>0</fill></PolyStyle></Style>' +
+  '<Style id="track"><LineStyle><color>ffffb73f</color><width>3</width></LineStyle></Style>' +
+  body +
+  '</Document></kml>\n';
+
+const geofencesToKml = (geofences) =>
+  kmlDocument(
+    'GeoSense zones',
+    geofences
+      .flatMap((geofence) =>
+        zoneBoundaries(geofence).map(({ boundary, geometry }) => {
+          const properties = zoneProperties(geofence, boundary);
+          const name = boundary === 'inner' ? geofence.name : `${geofence.name} (buffer)`;
+          const style = boundary === 'inner' ? properties.kind : 'outer';
+          return (
+            `<Placemark><name>${escapeXml(name)}</name><styleUrl>#${style}</styleUrl>` +
+            kmlExtendedData(properties) +
+            kmlGeometry(geometry) +
+            '</Placemark>'
+          );
+        })
+      )
+      .join('')
+  );
+
+const trackToGpx = (track) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<gpx version="1.1" creator="GeoSense" xmlns="http://www.topografix.com/GPX/1/1">' +
+  `<trk><name>${escapeXml(track.name)}</name><type>${escapeXml(track.tracker_id)}</type><trkseg>` +
+  track.points
+    .map(
+      (point) =>
+        `<trkpt lat="${point.lat}" lon="${point.lng}">` +
+        (point.altitude_m !== null && point.altitude_m !== undefined ? `<ele>${point.altitude_m}</ele>` : '') +
+        `<time>${new Date(point.captured_at).toISOString()}</time></trkpt>`
+    )
+    .join('') +
+  '</trkseg></trk></gpx>\n';
+
+const trackToKml = (track) => {
+  const first = track.points[0];
+  const last = track.points[track.points.length - 1];
+  const timeSpan = first
+    ? `<TimeSpan><begin>${new Date(first.captured_at).toISOString()}</begin><end>${new Date(last.captured_at).toISOString()}</end></TimeSpan>`
+    : '';
+  return kmlDocument(
+    track.name,
+    `<Placemark><name>${escapeXml(track.name)}</name><styleUrl>#track</styleUrl>${timeSpan}` +
+      kmlExtendedData({ tracker_id: track.tracker_id, points: track.points.length }) +
+      `<LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(track.points.map((point) => [point.lng, point.lat]))}</coordinates></LineString>` +
+      '</Placemark>'
+  );
+};
+
+/** Zones with name, kind, buffer and inner / outer boundary */
+export const exportGeofences = (geofences, format) => ({
+  content: format === 'kml' ? geofencesToKml(geofences) : geofencesToGeoJSON(geofences),
+  fileName: `geosense-zones-${isoDate(new Date())}.${format}`,
+  mimeType: MIME_TYPES[format],
+});
+
+/** One tracker's positions between two dates, oldest first */
+export const exportTrack = (track, from, to, format) => ({
+  content: format === 'kml' ? trackToKml(track) : trackToGpx(track),
+  fileName: `geosense-track-${slug(track.name)}-${isoDate(from)}-${isoDate(to)}.${format}`,
+  mimeType: MIME_TYPES[format],
+});
@@ -0,0 +1,342 @@
+-- ============================================================================
+-- 027 - PERSISTENT LOCATION HISTORY
+-- ============================================================================
+-- Goal: Keep every position written to live_locations so analytics, track
+--       playback and exports have a real history to read from.
+--
+-- live_locations keeps only one row per tracker and speed_samples_2s is
+-- cleaned up after 1 minute, so past positions were lost. This migration:
+-- 1) Creates location_history, range-partitioned by captured_at (1 partition/day)
+-- 2) Copies each new live_locations fix into it from an AFTER trigger
+-- 3) Stores the retention period in location_history_config (default 30 days)
+-- 4) Adds partition maintenance + retention jobs (pg_cron, if available)
+--
+-- Design rules:
+-- - The trigger NEVER blocks ingestion (errors are logged via RAISE NOTICE)
+-- - A DEFAULT partition catches rows when the daily partition is missing
+-- - Retention drops whole partitions instead of deleting row by row
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: CREATE PARTITIONED TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.location_history (
+  tracker_id TEXT NOT NULL,
+  captured_at TIMESTAMPTZ NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  geom geometry(Point, 4326),
+  accuracy_m DOUBLE PRECISION,
+  speed_mps DOUBLE PRECISION,
+  heading_deg DOUBLE PRECISION,
+  altitude_m DOUBLE PRECISION,
+  is_high_accuracy BOOLEAN DEFAULT FALSE,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- One fix per tracker per timestamp (re-sent fixes are ignored)
+  PRIMARY KEY (tracker_id, captured_at)
+) PARTITION BY RANGE (captured_at);
+
+COMMENT ON TABLE public.location_history IS
+  'Every position received in live_locations, partitioned by day on captured_at. Retention: location_history_config.retention_days.';
+
+-- Catch-all partition so inserts never fail when a daily partition is missing
+CREATE TABLE IF NOT EXISTS public.location_history_default
+  PARTITION OF public.location_history DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_location_history_captured_at
+  ON public.location_history (captured_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_location_history_geom
+  ON public.location_history USING GIST (geom);
+
+-- ============================================================================
+-- STEP 2: RETENTION CONFIGURATION
+-- ============================================================================
+-- Single-row table (id is always 1)
+CREATE TABLE IF NOT EXISTS public.location_history_config (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  retention_days INTEGER NOT NULL DEFAULT 30 CHECK (retention_days >= 1),
+  partitions_ahead_days INTEGER NOT NULL DEFAULT 3 CHECK (partitions_ahead_days >= 1),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.location_history_config (id)
+VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.location_history_config IS
+  'Retention settings for location_history. Change with: UPDATE location_history_config SET retention_days = 90;';
+
+-- ============================================================================
+-- STEP 3: PARTITION MAINTENANCE
+-- ============================================================================
+-- Creates daily partitions from today up to partitions_ahead_days in the future.
+-- Partition names: location_history_pYYYYMMDD
+CREATE OR REPLACE FUNCTION public.ensure_location_history_partitions(
+  p_days_ahead INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days_ahead INTEGER;
+  v_day DATE;
+  v_name TEXT;
+  v_created INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p_days_ahead, partitions_ahead_days)
+  INTO v_days_ahead
+  FROM public.location_history_config
+  WHERE id = 1;
+
+  v_days_ahead := COALESCE(v_days_ahead, 3);
+
+  FOR i IN 0..v_days_ahead LOOP
+    v_day := (now() AT TIME ZONE 'UTC')::DATE + i;
+    v_name := 'location_history_p' || to_char(v_day, 'YYYYMMDD');
+
+    IF to_regclass('public.' || v_name) IS NULL THEN
+      BEGIN
+        EXECUTE format(
+          'CREATE TABLE public.%I PARTITION OF public.location_history FOR VALUES FROM (%L) TO (%L)',
+          v_name,
+          (v_day::TIMESTAMP AT TIME ZONE 'UTC'),
+          ((v_day + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+        );
+        v_created := v_created + 1;
+      EXCEPTION
+        WHEN OTHERS THEN
+          -- e.g. the DEFAULT partition already holds rows for this day;
+          -- they stay queryable there until retention removes them
+          RAISE NOTICE 'Could not create partition %: %', v_name, SQLERRM;
+      END;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: RETENTION CLEANUP
+-- ============================================================================
+-- Drops daily partitions that are entirely older than the retention period and
+-- deletes old rows that ended up in the DEFAULT partition.
+-- Returns the number of partitions dropped.
+CREATE OR REPLACE FUNCTION public.cleanup_location_history(
+  p_retention_days INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_retention_days INTEGER;
+  v_cutoff TIMESTAMPTZ;
+  v_partition RECORD;
+  v_dropped INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p_retention_days, retention_days)
+  INTO v_retention_days
+  FROM public.location_history_config
+  WHERE id = 1;
+
+  v_retention_days := COALESCE(v_retention_days, 30);
+  v_cutoff := now() - make_interval(days => v_retention_days);
+
+  FOR v_partition IN
+    SELECT c.relname AS name,
+           to_date(substring(c.relname FROM 'location_history_p([0-9]{8})$'), 'YYYYMMDD') AS day
+    FROM pg_inherits i
+    JOIN pg_class c ON c.oid = i.inhrelid
+    JOIN pg_class p ON p.oid = i.inhparent
+    JOIN pg_namespace n ON n.oid = p.relnamespace
+    WHERE n.nspname = 'public'
+      AND p.relname = 'location_history'
+      AND c.relname ~ '^location_history_p[0-9]{8}$'
+  LOOP
+    -- Partition covers [day, day + 1) in UTC
+    IF ((v_partition.day + 1)::TIMESTAMP AT TIME ZONE 'UTC') <= v_cutoff THEN
+      EXECUTE format('DROP TABLE IF EXISTS public.%I', v_partition.name);
+      v_dropped := v_dropped + 1;
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.location_history_default
+  WHERE captured_at < v_cutoff;
+
+  RETURN v_dropped;
+END;
+$$;
+
+-- Create today's partitions right away
+SELECT public.ensure_location_history_partitions();
+
+-- ============================================================================
+-- STEP 5: LIVE_LOCATIONS -> LOCATION_HISTORY TRIGGER
+-- ============================================================================
+-- Runs AFTER the geom sync trigger so NEW.geom is already set.
+-- Only writes when a new fix arrives (captured_at changed); touching
+-- updated_at alone does not create a history row.
+CREATE OR REPLACE FUNCTION public.handle_live_location_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.captured_at IS NOT DISTINCT FROM OLD.captured_at THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.location_history (
+      tracker_id,
+      captured_at,
+      lat,
+      lng,
+      geom,
+      accuracy_m,
+      speed_mps,
+      heading_deg,
+      altitude_m,
+      is_high_accuracy
+    ) VALUES (
+      NEW.tracker_id,
+      NEW.captured_at,
+      NEW.lat,
+      NEW.lng,
+      COALESCE(NEW.geom, ST_SetSRID(ST_MakePoint(NEW.lng, NEW.lat), 4326)),
+      NEW.accuracy_m,
+      NEW.speed_mps,
+      NEW.heading_deg,
+      NEW.altitude_m,
+      NEW.is_high_accuracy
+    )
+    ON CONFLICT (tracker_id, captured_at) DO NOTHING;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Never block ingestion
+      RAISE NOTICE 'location_history insert failed for tracker %: %', NEW.tracker_id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_live_locations_history ON public.live_locations;
+
+CREATE TRIGGER trg_live_locations_history
+AFTER INSERT OR UPDATE ON public.live_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_live_location_history();
+
+-- Seed history with the current position of every tracker
+INSERT INTO public.location_history (
+  tracker_id, captured_at, lat, lng, geom,
+  accuracy_m, speed_mps, heading_deg, altitude_m, is_high_accuracy
+)
+SELECT
+  tracker_id, captured_at, lat, lng,
+  COALESCE(geom, ST_SetSRID(ST_MakePoint(lng, lat), 4326)),
+  accuracy_m, speed_mps, heading_deg, altitude_m, is_high_accuracy
+FROM public.live_locations
+ON CONFLICT (tracker_id, captured_at) DO NOTHING;
+
+-- ============================================================================
+-- STEP 6: ROW LEVEL SECURITY
+-- ============================================================================
+-- Same rule as live_locations: users only see trackers linked to them in devices.
+-- Rows are written by the trigger (SECURITY DEFINER); no user write policies.
+ALTER TABLE public.location_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.location_history_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view linked tracker history" ON public.location_history;
+
+CREATE POLICY "Users can view linked tracker history"
+  ON public.location_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.devices
+      WHERE devices.user_id = auth.uid()
+        AND devices.tracker_id = location_history.tracker_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can read history config" ON public.location_history_config;
+
+CREATE POLICY "Authenticated users can read history config"
+  ON public.location_history_config FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================================
+-- STEP 7: SCHEDULED JOBS (pg_cron)
+-- ============================================================================
+-- If pg_cron is not available, call ensure_location_history_partitions() and
+-- cleanup_location_history() once a day from an Edge Function.
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('location-history-partitions');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- job did not exist yet or pg_cron missing
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'location-history-partitions',
+    '5 0 * * *',  -- Daily at 00:05
+    $job1$SELECT public.ensure_location_history_partitions()$job1$
+  );
+EXCEPTION
+  WHEN undefined_function THEN
+    RAISE NOTICE 'pg_cron not available. Call ensure_location_history_partitions() daily via an Edge Function.';
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule location-history-partitions job: %', SQLERRM;
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('location-history-retention');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- job did not exist yet or pg_cron missing
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'location-history-retention',
+    '15 0 * * *',  -- Daily at 00:15
+    $job2$SELECT public.cleanup_location_history()$job2$
+  );
+EXCEPTION
+  WHEN undefined_function THEN
+    RAISE NOTICE 'pg_cron not available. Call cleanup_location_history() daily via an Edge Function.';
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule location-history-retention job: %', SQLERRM;
+END $$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Partitions exist for today and the next days:
+--    SELECT inhrelid::regclass FROM pg_inherits
+--    WHERE inhparent = 'public.location_history'::regclass;
+--
+-- 2) A new fix is copied into history:
+--    UPDATE live_locations SET captured_at = now() WHERE tracker_id = 'test';
+--    SELECT * FROM location_history WHERE tracker_id = 'test'
+--    ORDER BY captured_at DESC LIMIT 1;
+--
+-- 3) Retention can be changed and applied:
+--    UPDATE location_history_config SET retention_days = 90, updated_at = now();
+--    SELECT cleanup_location_history();
+-- ============================================================================
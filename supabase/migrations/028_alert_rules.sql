@@ -0,0 +1,547 @@
+-- ============================================================================
+-- 028 - PER-GEOFENCE ALERT RULES
+-- ============================================================================
+-- Goal: Replace the global alert toggles in settings (enable_out_of_range,
+--       enable_inactiviy, enable_low_battery, boundary_buffer_m) with rules
+--       keyed by geofence and, optionally, by device batch.
+--
+-- Each rule has:
+-- - enable flags for out-of-range / inactivity / low battery alerts
+-- - buffer_m: tolerance outside the boundary before the animal counts as out
+-- - grace_period_s: how long the animal must stay out before alerting
+-- - schedule: weekdays + time window (local time of the farm)
+--
+-- Schedules are evaluated in the farm timezone (settings.timezone, one per
+-- user), so a "22:00-06:00" night window means local time, not UTC.
+--
+-- Rule resolution for (geofence, device):
+--   1) rule for that geofence AND the device's batch_id
+--   2) rule for that geofence with batch_id IS NULL (all batches)
+--   3) the user's global settings row (legacy fallback)
+--
+-- CRITICAL RULES:
+-- 1) DO NOT modify live_locations table
+-- 2) Triggers must never block ingestion; always RETURN NEW
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: CREATE alert_rules TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  geofence_id BIGINT NOT NULL REFERENCES public.geofences(id) ON DELETE CASCADE,
+  batch_id TEXT NULL, -- NULL = applies to all batches
+  enable_out_of_range BOOLEAN NOT NULL DEFAULT true,
+  enable_inactivity BOOLEAN NOT NULL DEFAULT true,
+  enable_low_battery BOOLEAN NOT NULL DEFAULT true,
+  buffer_m INTEGER NOT NULL DEFAULT 0 CHECK (buffer_m >= 0 AND buffer_m <= 50),
+  grace_period_s INTEGER NOT NULL DEFAULT 0 CHECK (grace_period_s >= 0 AND grace_period_s <= 86400),
+  -- 0 = Sunday ... 6 = Saturday (same as EXTRACT(DOW))
+  schedule_days SMALLINT[] NOT NULL DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[],
+  -- NULL start/end = all day. start > end = overnight window (e.g. 20:00-06:00)
+  schedule_start TIME NULL,
+  schedule_end TIME NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- At least one day: an empty list would silently switch off every alert
+  CONSTRAINT alert_rules_schedule_days_check
+    CHECK (schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[] AND cardinality(schedule_days) > 0),
+  CONSTRAINT alert_rules_schedule_window_check
+    CHECK ((schedule_start IS NULL) = (schedule_end IS NULL))
+);
+
+COMMENT ON TABLE public.alert_rules IS
+  'Alert configuration per geofence and optional device batch. Replaces the global toggles in settings.';
+
+COMMENT ON COLUMN public.alert_rules.batch_id IS
+  'devices.batch_id this rule applies to. NULL = default rule for all batches of the geofence.';
+
+COMMENT ON COLUMN public.alert_rules.grace_period_s IS
+  'Seconds an animal must stay outside (beyond buffer_m) before an out-of-range alert is created.';
+
+-- One rule per (geofence, batch); NULL batch counts as its own value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_rules_geofence_batch
+  ON public.alert_rules(geofence_id, COALESCE(batch_id, ''));
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user_id
+  ON public.alert_rules(user_id);
+
+DROP TRIGGER IF EXISTS update_alert_rules_updated_at ON public.alert_rules;
+
+CREATE TRIGGER update_alert_rules_updated_at
+  BEFORE UPDATE ON public.alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Timezone of the user's farm; rule schedules are evaluated in it
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN public.settings.timezone IS
+  'IANA timezone of the farm (e.g. Europe/Berlin). Schedules are evaluated in it.';
+
+-- ============================================================================
+-- STEP 2: ROW LEVEL SECURITY
+-- ============================================================================
+-- Users can only manage rules for their own geofences
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own alert rules" ON public.alert_rules;
+DROP POLICY IF EXISTS "Users can insert own alert rules" ON public.alert_rules;
+DROP POLICY IF EXISTS "Users can update own alert rules" ON public.alert_rules;
+DROP POLICY IF EXISTS "Users can delete own alert rules" ON public.alert_rules;
+
+CREATE POLICY "Users can view own alert rules"
+  ON public.alert_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own alert rules"
+  ON public.alert_rules FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.geofences g
+      WHERE g.id = alert_rules.geofence_id
+        AND g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own alert rules"
+  ON public.alert_rules FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.geofences g
+      WHERE g.id = alert_rules.geofence_id
+        AND g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own alert rules"
+  ON public.alert_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 3: BACKFILL DEFAULT RULES FROM GLOBAL SETTINGS
+-- ============================================================================
+-- Every existing geofence gets an "all batches" rule with the user's current
+-- global values, so behaviour is unchanged until the user edits the rules.
+INSERT INTO public.alert_rules (
+  user_id,
+  geofence_id,
+  batch_id,
+  enable_out_of_range,
+  enable_inactivity,
+  enable_low_battery,
+  buffer_m
+)
+SELECT
+  g.user_id,
+  g.id,
+  NULL,
+  COALESCE(s.enable_out_of_range, true),
+  COALESCE(s.enable_inactiviy, true),
+  COALESCE(s.enable_low_battery, true),
+  LEAST(GREATEST(COALESCE(s.boundary_buffer_m, 0), 0), 50)
+FROM public.geofences g
+LEFT JOIN public.settings s ON s.user_id = g.user_id
+WHERE g.user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.alert_rules ar
+    WHERE ar.geofence_id = g.id
+      AND ar.batch_id IS NULL
+  );
+
+-- New geofences get a default rule the same way
+CREATE OR REPLACE FUNCTION public.handle_geofence_default_alert_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.alert_rules (
+    user_id,
+    geofence_id,
+    batch_id,
+    enable_out_of_range,
+    enable_inactivity,
+    enable_low_battery,
+    buffer_m
+  )
+  SELECT
+    NEW.user_id,
+    NEW.id,
+    NULL,
+    COALESCE(s.enable_out_of_range, true),
+    COALESCE(s.enable_inactiviy, true),
+    COALESCE(s.enable_low_battery, true),
+    LEAST(GREATEST(COALESCE(s.boundary_buffer_m, 0), 0), 50)
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.settings s ON s.user_id = NEW.user_id
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never block geofence creation; resolve_alert_rule falls back to settings
+    RAISE NOTICE 'handle_geofence_default_alert_rule error: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_geofences_default_alert_rule ON public.geofences;
+
+CREATE TRIGGER trg_geofences_default_alert_rule
+AFTER INSERT ON public.geofences
+FOR EACH ROW
+WHEN (NEW.user_id IS NOT NULL)
+EXECUTE FUNCTION public.handle_geofence_default_alert_rule();
+
+-- ============================================================================
+-- STEP 4: RULE RESOLUTION HELPERS
+-- ============================================================================
+
+-- TRUE if p_at falls inside the schedule (weekdays + optional time window).
+-- Overnight windows (start > end) belong to the weekday they start on.
+CREATE OR REPLACE FUNCTION public.alert_rule_in_schedule(
+  p_days SMALLINT[],
+  p_start TIME,
+  p_end TIME,
+  p_timezone TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_local TIMESTAMP;
+  v_time TIME;
+  v_dow SMALLINT;
+BEGIN
+  BEGIN
+    v_local := p_at AT TIME ZONE COALESCE(p_timezone, 'UTC');
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Unknown timezone name: evaluate in UTC rather than failing
+      v_local := p_at AT TIME ZONE 'UTC';
+  END;
+
+  v_time := v_local::TIME;
+  v_dow := EXTRACT(DOW FROM v_local)::SMALLINT;
+
+  -- All day
+  IF p_start IS NULL OR p_end IS NULL OR p_start = p_end THEN
+    RETURN p_days IS NULL OR v_dow = ANY(p_days);
+  END IF;
+
+  -- Same-day window (e.g. 06:00-20:00)
+  IF p_start < p_end THEN
+    RETURN (p_days IS NULL OR v_dow = ANY(p_days))
+      AND v_time >= p_start
+      AND v_time < p_end;
+  END IF;
+
+  -- Overnight window (e.g. 20:00-06:00)
+  IF v_time >= p_start THEN
+    RETURN p_days IS NULL OR v_dow = ANY(p_days);
+  END IF;
+
+  IF v_time < p_end THEN
+    -- After midnight: the window started on the previous weekday
+    RETURN p_days IS NULL OR ((v_dow + 6) % 7)::SMALLINT = ANY(p_days);
+  END IF;
+
+  RETURN FALSE;
+END;
+$$;
+
+-- Returns the effective rule for a geofence + batch (see resolution order above)
+CREATE OR REPLACE FUNCTION public.resolve_alert_rule(
+  p_user_id UUID,
+  p_geofence_id BIGINT,
+  p_batch_id TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  rule_id BIGINT,
+  enable_out_of_range BOOLEAN,
+  enable_inactivity BOOLEAN,
+  enable_low_battery BOOLEAN,
+  buffer_m INTEGER,
+  grace_period_s INTEGER,
+  in_schedule BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.alert_rules%ROWTYPE;
+  v_out_of_range BOOLEAN;
+  v_inactivity BOOLEAN;
+  v_low_battery BOOLEAN;
+  v_buffer INTEGER;
+  v_timezone TEXT;
+BEGIN
+  -- Schedules run in the farm timezone; the flags are the legacy fallback
+  SELECT s.enable_out_of_range, s.enable_inactiviy, s.enable_low_battery, s.boundary_buffer_m, s.timezone
+  INTO v_out_of_range, v_inactivity, v_low_battery, v_buffer, v_timezone
+  FROM public.settings s
+  WHERE s.user_id = p_user_id;
+
+  IF p_geofence_id IS NOT NULL THEN
+    SELECT ar.*
+    INTO v_rule
+    FROM public.alert_rules ar
+    WHERE ar.user_id = p_user_id
+      AND ar.geofence_id = p_geofence_id
+      AND (ar.batch_id IS NULL OR ar.batch_id = p_batch_id)
+    ORDER BY (ar.batch_id IS NULL) ASC -- batch-specific rule wins
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT
+        v_rule.id,
+        v_rule.enable_out_of_range,
+        v_rule.enable_inactivity,
+        v_rule.enable_low_battery,
+        v_rule.buffer_m,
+        v_rule.grace_period_s,
+        public.alert_rule_in_schedule(
+          v_rule.schedule_days,
+          v_rule.schedule_start,
+          v_rule.schedule_end,
+          v_timezone,
+          p_at
+        );
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Legacy fallback: global settings row
+  RETURN QUERY SELECT
+    NULL::BIGINT,
+    COALESCE(v_out_of_range, true),
+    COALESCE(v_inactivity, true),
+    COALESCE(v_low_battery, true),
+    COALESCE(v_buffer, 0),
+    0,
+    true;
+END;
+$$;
+
+-- Where is the device relative to its owner's geofences?
+-- - has_zones: user has at least one geofence
+-- - inside: device is within buffer_m (of that zone's rule) of any geofence
+-- - geofence_id: the zone the device is in, or the nearest zone when outside
+--   (its rule decides whether/when an out-of-range alert is raised)
+CREATE OR REPLACE FUNCTION public.device_zone_status(p_device_id UUID)
+RETURNS TABLE (
+  has_zones BOOLEAN,
+  inside BOOLEAN,
+  geofence_id BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_device RECORD;
+  v_zone RECORD;
+  v_buffer INTEGER;
+  v_nearest_id BIGINT;
+BEGIN
+  SELECT d.id, d.user_id, d.batch_id, d.geom
+  INTO v_device
+  FROM public.devices d
+  WHERE d.id = p_device_id;
+
+  IF NOT FOUND OR v_device.geom IS NULL OR v_device.user_id IS NULL THEN
+    RETURN QUERY SELECT false, false, NULL::BIGINT;
+    RETURN;
+  END IF;
+
+  FOR v_zone IN
+    SELECT
+      g.id,
+      ST_Distance(v_device.geom::geography, g.boundary_inner::geography) AS distance_m
+    FROM public.geofences g
+    WHERE g.user_id = v_device.user_id
+      AND g.boundary_inner IS NOT NULL
+    ORDER BY distance_m ASC
+  LOOP
+    IF v_nearest_id IS NULL THEN
+      v_nearest_id := v_zone.id;
+    END IF;
+
+    SELECT r.buffer_m
+    INTO v_buffer
+    FROM public.resolve_alert_rule(v_device.user_id, v_zone.id, v_device.batch_id) r;
+
+    IF v_zone.distance_m <= COALESCE(v_buffer, 0) THEN
+      RETURN QUERY SELECT true, true, v_zone.id;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT (v_nearest_id IS NOT NULL), false, v_nearest_id;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: DEVICES.outside_since (grace period tracking)
+-- ============================================================================
+ALTER TABLE public.devices
+  ADD COLUMN IF NOT EXISTS outside_since TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN public.devices.outside_since IS
+  'When the device was first seen outside all geofences (NULL while inside). Used for alert_rules.grace_period_s.';
+
+-- ============================================================================
+-- STEP 6: UPDATE TRIGGER FUNCTION TO EVALUATE alert_rules
+-- ============================================================================
+-- Same responsibilities as 025, but:
+-- - inside/outside uses the buffer of each zone's rule
+-- - out-of-range alerts respect the rule's enable flag, schedule and grace period
+
+CREATE OR REPLACE FUNCTION public.handle_live_location_update_devices_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $func$
+DECLARE
+  d_rec RECORD;
+  v_status RECORD;
+  v_rule RECORD;
+  v_outside_since TIMESTAMPTZ;
+BEGIN
+  -- ========================================================================
+  -- A) SYNC DEVICES FIELDS FROM live_locations
+  -- ========================================================================
+  UPDATE public.devices d
+  SET
+    last_update = NEW.updated_at,
+    geom = NEW.geom,
+    active = true  -- Set TRUE immediately (scheduled job will set FALSE after 30s)
+  WHERE d.tracker_id = NEW.tracker_id
+    AND NEW.geom IS NOT NULL;
+
+  -- ========================================================================
+  -- B) EVALUATE ZONE + RULE FOR EACH LINKED DEVICE
+  -- ========================================================================
+  FOR d_rec IN
+    SELECT d.id, d.user_id, d.batch_id
+    FROM public.devices d
+    WHERE d.tracker_id = NEW.tracker_id
+      AND d.geom IS NOT NULL
+      AND d.user_id IS NOT NULL
+  LOOP
+    SELECT * INTO v_status FROM public.device_zone_status(d_rec.id);
+
+    -- No geofences: nothing to be outside of
+    IF NOT v_status.has_zones THEN
+      CONTINUE;
+    END IF;
+
+    IF v_status.inside THEN
+      -- Inside: reset grace timer, start the alert clear timer
+      UPDATE public.devices
+      SET outside_since = NULL
+      WHERE id = d_rec.id
+        AND outside_since IS NOT NULL;
+
+      UPDATE public.alerts
+      SET clear_candidate_at = COALESCE(clear_candidate_at, now())
+      WHERE device_id = d_rec.id
+        AND type_alert IN ('out', 'out_of_zone', 'Out of Range')
+        AND active = true
+        AND clear_candidate_at IS NULL;
+    ELSE
+      -- Outside: start grace timer (if not running), stop the clear timer
+      UPDATE public.devices
+      SET outside_since = COALESCE(outside_since, now())
+      WHERE id = d_rec.id
+      RETURNING outside_since INTO v_outside_since;
+
+      UPDATE public.alerts
+      SET clear_candidate_at = NULL
+      WHERE device_id = d_rec.id
+        AND type_alert IN ('out', 'out_of_zone', 'Out of Range')
+        AND active = true;
+
+      -- Rule of the nearest zone decides whether to alert
+      SELECT * INTO v_rule
+      FROM public.resolve_alert_rule(d_rec.user_id, v_status.geofence_id, d_rec.batch_id);
+
+      IF v_rule.enable_out_of_range
+        AND v_rule.in_schedule
+        AND v_outside_since <= now() - make_interval(secs => v_rule.grace_period_s)
+      THEN
+        INSERT INTO public.alerts (device_id, user_id, type_alert, active, created_at, updated_at)
+        VALUES (d_rec.id, d_rec.user_id, 'out', true, now(), now())
+        ON CONFLICT (device_id, type_alert) WHERE active = true
+        DO NOTHING;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Always return NEW to allow live_locations insert/update to proceed
+  RETURN NEW;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- CRITICAL: Never block live_locations ingestion
+    RAISE NOTICE 'handle_live_location_update_devices_alerts error: %', SQLERRM;
+    RETURN NEW;
+END;
+$func$;
+
+-- ============================================================================
+-- STEP 7: ALERT CLEARING USES THE SAME INSIDE CHECK
+-- ============================================================================
+-- A device inside a zone's buffer counts as inside, so the safety check must
+-- use device_zone_status() instead of a plain ST_Intersects.
+CREATE OR REPLACE FUNCTION public.job_clear_out_of_zone_alerts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.alerts a
+  USING public.devices d
+  WHERE a.device_id = d.id
+    AND a.type_alert IN ('out', 'out_of_zone', 'Out of Range')
+    AND a.active = true
+    AND a.clear_candidate_at IS NOT NULL
+    AND a.clear_candidate_at <= (now() - interval '5 seconds')
+    -- Safety check: device is still inside a zone
+    AND EXISTS (
+      SELECT 1
+      FROM public.device_zone_status(d.id) s
+      WHERE s.inside
+    );
+END;
+$$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Every geofence has a default rule:
+--    SELECT g.id, g.name, ar.id AS rule_id
+--    FROM geofences g LEFT JOIN alert_rules ar ON ar.geofence_id = g.id AND ar.batch_id IS NULL;
+--
+-- 2) Rule resolution (batch-specific rule wins):
+--    SELECT * FROM resolve_alert_rule('<user_uuid>', <geofence_id>, 'night-batch');
+--
+-- 3) Night-only paddock rule:
+--    UPDATE settings SET timezone = 'Europe/Berlin' WHERE user_id = '<user_uuid>';
+--    UPDATE alert_rules SET schedule_start = '20:00', schedule_end = '06:00' WHERE id = <rule_id>;
+--    SELECT in_schedule FROM resolve_alert_rule('<user_uuid>', <geofence_id>, NULL);
+-- ============================================================================
@@ -0,0 +1,428 @@
+-- ============================================================================
+-- 029 - EXCLUSION ZONES (KEEP-OUT POLYGONS)
+-- ============================================================================
+-- Goal: Let users draw hazard areas (pond, road verge, neighbour's crop) and
+--       get an alert when an animal enters one.
+--
+-- 1) geofences.kind: 'include' (safe area, default) | 'exclude' (keep-out)
+-- 2) Out-of-zone evaluation only looks at 'include' zones
+-- 3) New alert type 'in_exclusion_zone', raised when a device is inside an
+--    'exclude' zone (respects the zone's alert rule: flag, schedule, grace)
+-- 4) Exclusion alerts are cleared like out-of-zone alerts: 5s after leaving
+--
+-- CRITICAL RULES:
+-- 1) DO NOT modify live_locations table
+-- 2) Triggers must never block ingestion; always RETURN NEW
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: geofences.kind
+-- ============================================================================
+ALTER TABLE public.geofences
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'include';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'geofences_kind_check'
+      AND conrelid = 'public.geofences'::regclass
+  ) THEN
+    ALTER TABLE public.geofences
+      ADD CONSTRAINT geofences_kind_check
+      CHECK (kind IN ('include', 'exclude'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.geofences.kind IS
+  'include = safe area (alert when outside all of them), exclude = keep-out area (alert when inside).';
+
+CREATE INDEX IF NOT EXISTS idx_geofences_user_kind
+  ON public.geofences(user_id, kind);
+
+-- ============================================================================
+-- STEP 2: ALLOW 'in_exclusion_zone' ALERT TYPE
+-- ============================================================================
+DO $$
+BEGIN
+  ALTER TABLE public.alerts
+    DROP CONSTRAINT IF EXISTS alerts_type_alert_check;
+
+  ALTER TABLE public.alerts
+    ADD CONSTRAINT alerts_type_alert_check
+    CHECK (type_alert IN ('Inactivity Detected', 'Out of Range', 'Low Battery', 'out', 'out_of_zone', 'in_exclusion_zone'));
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not update alerts_type_alert_check: %', SQLERRM;
+END $$;
+
+-- ============================================================================
+-- STEP 3: ALERT RULE FLAG + DEVICE STATE
+-- ============================================================================
+ALTER TABLE public.alert_rules
+  ADD COLUMN IF NOT EXISTS enable_exclusion_zone BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.alert_rules.enable_exclusion_zone IS
+  'For exclude zones: alert when a device enters the zone.';
+
+ALTER TABLE public.devices
+  ADD COLUMN IF NOT EXISTS exclusion_since TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN public.devices.exclusion_since IS
+  'When the device was first seen inside an exclusion zone (NULL while not in one). Used for alert_rules.grace_period_s.';
+
+-- resolve_alert_rule gains a column, so it has to be dropped first
+DROP FUNCTION IF EXISTS public.resolve_alert_rule(UUID, BIGINT, TEXT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.resolve_alert_rule(
+  p_user_id UUID,
+  p_geofence_id BIGINT,
+  p_batch_id TEXT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  rule_id BIGINT,
+  enable_out_of_range BOOLEAN,
+  enable_inactivity BOOLEAN,
+  enable_low_battery BOOLEAN,
+  enable_exclusion_zone BOOLEAN,
+  buffer_m INTEGER,
+  grace_period_s INTEGER,
+  in_schedule BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.alert_rules%ROWTYPE;
+  v_out_of_range BOOLEAN;
+  v_inactivity BOOLEAN;
+  v_low_battery BOOLEAN;
+  v_buffer INTEGER;
+  v_timezone TEXT;
+BEGIN
+  -- Schedules run in the farm timezone; the flags are the legacy fallback
+  SELECT s.enable_out_of_range, s.enable_inactiviy, s.enable_low_battery, s.boundary_buffer_m, s.timezone
+  INTO v_out_of_range, v_inactivity, v_low_battery, v_buffer, v_timezone
+  FROM public.settings s
+  WHERE s.user_id = p_user_id;
+
+  IF p_geofence_id IS NOT NULL THEN
+    SELECT ar.*
+    INTO v_rule
+    FROM public.alert_rules ar
+    WHERE ar.user_id = p_user_id
+      AND ar.geofence_id = p_geofence_id
+      AND (ar.batch_id IS NULL OR ar.batch_id = p_batch_id)
+    ORDER BY (ar.batch_id IS NULL) ASC -- batch-specific rule wins
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT
+        v_rule.id,
+        v_rule.enable_out_of_range,
+        v_rule.enable_inactivity,
+        v_rule.enable_low_battery,
+        v_rule.enable_exclusion_zone,
+        v_rule.buffer_m,
+        v_rule.grace_period_s,
+        public.alert_rule_in_schedule(
+          v_rule.schedule_days,
+          v_rule.schedule_start,
+          v_rule.schedule_end,
+          v_timezone,
+          p_at
+        );
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Legacy fallback: global settings row
+  RETURN QUERY SELECT
+    NULL::BIGINT,
+    COALESCE(v_out_of_range, true),
+    COALESCE(v_inactivity, true),
+    COALESCE(v_low_battery, true),
+    true,
+    COALESCE(v_buffer, 0),
+    0,
+    true;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: ZONE HELPERS
+-- ============================================================================
+
+-- Same as 028, but only safe areas ('include') count for inside/outside
+CREATE OR REPLACE FUNCTION public.device_zone_status(p_device_id UUID)
+RETURNS TABLE (
+  has_zones BOOLEAN,
+  inside BOOLEAN,
+  geofence_id BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_device RECORD;
+  v_zone RECORD;
+  v_buffer INTEGER;
+  v_nearest_id BIGINT;
+BEGIN
+  SELECT d.id, d.user_id, d.batch_id, d.geom
+  INTO v_device
+  FROM public.devices d
+  WHERE d.id = p_device_id;
+
+  IF NOT FOUND OR v_device.geom IS NULL OR v_device.user_id IS NULL THEN
+    RETURN QUERY SELECT false, false, NULL::BIGINT;
+    RETURN;
+  END IF;
+
+  FOR v_zone IN
+    SELECT
+      g.id,
+      ST_Distance(v_device.geom::geography, g.boundary_inner::geography) AS distance_m
+    FROM public.geofences g
+    WHERE g.user_id = v_device.user_id
+      AND g.kind = 'include'
+      AND g.boundary_inner IS NOT NULL
+    ORDER BY distance_m ASC
+  LOOP
+    IF v_nearest_id IS NULL THEN
+      v_nearest_id := v_zone.id;
+    END IF;
+
+    SELECT r.buffer_m
+    INTO v_buffer
+    FROM public.resolve_alert_rule(v_device.user_id, v_zone.id, v_device.batch_id) r;
+
+    IF v_zone.distance_m <= COALESCE(v_buffer, 0) THEN
+      RETURN QUERY SELECT true, true, v_zone.id;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT (v_nearest_id IS NOT NULL), false, v_nearest_id;
+END;
+$$;
+
+-- Exclusion zone the device is currently inside (NULL if none)
+CREATE OR REPLACE FUNCTION public.device_exclusion_zone(p_device_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id
+  FROM public.devices d
+  JOIN public.geofences g
+    ON g.user_id = d.user_id
+   AND g.kind = 'exclude'
+   AND g.boundary_inner IS NOT NULL
+  WHERE d.id = p_device_id
+    AND d.geom IS NOT NULL
+    AND ST_Intersects(d.geom, g.boundary_inner)
+  ORDER BY g.id
+  LIMIT 1;
+$$;
+
+-- ============================================================================
+-- STEP 5: UPDATE TRIGGER FUNCTION
+-- ============================================================================
+-- Same as 028, plus section C for exclusion zones.
+
+CREATE OR REPLACE FUNCTION public.handle_live_location_update_devices_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $func$
+DECLARE
+  d_rec RECORD;
+  v_status RECORD;
+  v_rule RECORD;
+  v_outside_since TIMESTAMPTZ;
+  v_exclusion_id BIGINT;
+  v_exclusion_since TIMESTAMPTZ;
+BEGIN
+  -- ========================================================================
+  -- A) SYNC DEVICES FIELDS FROM live_locations
+  -- ========================================================================
+  UPDATE public.devices d
+  SET
+    last_update = NEW.updated_at,
+    geom = NEW.geom,
+    active = true  -- Set TRUE immediately (scheduled job will set FALSE after 30s)
+  WHERE d.tracker_id = NEW.tracker_id
+    AND NEW.geom IS NOT NULL;
+
+  FOR d_rec IN
+    SELECT d.id, d.user_id, d.batch_id
+    FROM public.devices d
+    WHERE d.tracker_id = NEW.tracker_id
+      AND d.geom IS NOT NULL
+      AND d.user_id IS NOT NULL
+  LOOP
+    -- ======================================================================
+    -- B) SAFE AREAS: OUT-OF-ZONE ALERTS
+    -- ======================================================================
+    SELECT * INTO v_status FROM public.device_zone_status(d_rec.id);
+
+    IF v_status.has_zones THEN
+      IF v_status.inside THEN
+        -- Inside: reset grace timer, start the alert clear timer
+        UPDATE public.devices
+        SET outside_since = NULL
+        WHERE id = d_rec.id
+          AND outside_since IS NOT NULL;
+
+        UPDATE public.alerts
+        SET clear_candidate_at = COALESCE(clear_candidate_at, now())
+        WHERE device_id = d_rec.id
+          AND type_alert IN ('out', 'out_of_zone', 'Out of Range')
+          AND active = true
+          AND clear_candidate_at IS NULL;
+      ELSE
+        -- Outside: start grace timer (if not running), stop the clear timer
+        UPDATE public.devices
+        SET outside_since = COALESCE(outside_since, now())
+        WHERE id = d_rec.id
+        RETURNING outside_since INTO v_outside_since;
+
+        UPDATE public.alerts
+        SET clear_candidate_at = NULL
+        WHERE device_id = d_rec.id
+          AND type_alert IN ('out', 'out_of_zone', 'Out of Range')
+          AND active = true;
+
+        -- Rule of the nearest zone decides whether to alert
+        SELECT * INTO v_rule
+        FROM public.resolve_alert_rule(d_rec.user_id, v_status.geofence_id, d_rec.batch_id);
+
+        IF v_rule.enable_out_of_range
+          AND v_rule.in_schedule
+          AND v_outside_since <= now() - make_interval(secs => v_rule.grace_period_s)
+        THEN
+          INSERT INTO public.alerts (device_id, user_id, type_alert, active, created_at, updated_at)
+          VALUES (d_rec.id, d_rec.user_id, 'out', true, now(), now())
+          ON CONFLICT (device_id, type_alert) WHERE active = true
+          DO NOTHING;
+        END IF;
+      END IF;
+    END IF;
+
+    -- ======================================================================
+    -- C) EXCLUSION ZONES: IN-EXCLUSION-ZONE ALERTS
+    -- ======================================================================
+    v_exclusion_id := public.device_exclusion_zone(d_rec.id);
+
+    IF v_exclusion_id IS NOT NULL THEN
+      -- Inside a keep-out area: start grace timer, stop the clear timer
+      UPDATE public.devices
+      SET exclusion_since = COALESCE(exclusion_since, now())
+      WHERE id = d_rec.id
+      RETURNING exclusion_since INTO v_exclusion_since;
+
+      UPDATE public.alerts
+      SET clear_candidate_at = NULL
+      WHERE device_id = d_rec.id
+        AND type_alert = 'in_exclusion_zone'
+        AND active = true;
+
+      SELECT * INTO v_rule
+      FROM public.resolve_alert_rule(d_rec.user_id, v_exclusion_id, d_rec.batch_id);
+
+      IF v_rule.enable_exclusion_zone
+        AND v_rule.in_schedule
+        AND v_exclusion_since <= now() - make_interval(secs => v_rule.grace_period_s)
+      THEN
+        INSERT INTO public.alerts (device_id, user_id, type_alert, active, created_at, updated_at)
+        VALUES (d_rec.id, d_rec.user_id, 'in_exclusion_zone', true, now(), now())
+        ON CONFLICT (device_id, type_alert) WHERE active = true
+        DO NOTHING;
+      END IF;
+    ELSE
+      -- Not in any keep-out area: reset grace timer, start the clear timer
+      UPDATE public.devices
+      SET exclusion_since = NULL
+      WHERE id = d_rec.id
+        AND exclusion_since IS NOT NULL;
+
+      UPDATE public.alerts
+      SET clear_candidate_at = COALESCE(clear_candidate_at, now())
+      WHERE device_id = d_rec.id
+        AND type_alert = 'in_exclusion_zone'
+        AND active = true
+        AND clear_candidate_at IS NULL;
+    END IF;
+  END LOOP;
+
+  -- Always return NEW to allow live_locations insert/update to proceed
+  RETURN NEW;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- CRITICAL: Never block live_locations ingestion
+    RAISE NOTICE 'handle_live_location_update_devices_alerts error: %', SQLERRM;
+    RETURN NEW;
+END;
+$func$;
+
+-- ============================================================================
+-- STEP 6: CLEAR EXCLUSION ALERTS AFTER LEAVING THE ZONE
+-- ============================================================================
+-- Keeps the existing cron job name (clear-out-of-zone-alerts) from 025.
+CREATE OR REPLACE FUNCTION public.job_clear_out_of_zone_alerts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Out-of-zone: device back inside a safe area for 5+ seconds
+  DELETE FROM public.alerts a
+  USING public.devices d
+  WHERE a.device_id = d.id
+    AND a.type_alert IN ('out', 'out_of_zone', 'Out of Range')
+    AND a.active = true
+    AND a.clear_candidate_at IS NOT NULL
+    AND a.clear_candidate_at <= (now() - interval '5 seconds')
+    -- Safety check: device is still inside a zone
+    AND EXISTS (
+      SELECT 1
+      FROM public.device_zone_status(d.id) s
+      WHERE s.inside
+    );
+
+  -- In-exclusion-zone: device out of every keep-out area for 5+ seconds
+  DELETE FROM public.alerts a
+  USING public.devices d
+  WHERE a.device_id = d.id
+    AND a.type_alert = 'in_exclusion_zone'
+    AND a.active = true
+    AND a.clear_candidate_at IS NOT NULL
+    AND a.clear_candidate_at <= (now() - interval '5 seconds')
+    -- Safety check: device is still outside all exclusion zones
+    AND public.device_exclusion_zone(d.id) IS NULL;
+END;
+$$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Mark a zone as keep-out:
+--    UPDATE geofences SET kind = 'exclude' WHERE id = <geofence_id>;
+--
+-- 2) Move a tracker inside it:
+--    UPDATE live_locations SET lat = <lat>, lng = <lng>, geom = NULL,
+--      captured_at = now() WHERE tracker_id = 'test';
+--    SELECT type_alert, active FROM alerts
+--    WHERE device_id = (SELECT id FROM devices WHERE tracker_id = 'test');
+--    -- Should show 'in_exclusion_zone' (after the rule's grace period)
+-- ============================================================================
@@ -0,0 +1,278 @@
+-- ============================================================================
+-- 030 - INACTIVITY ALERTS FROM SPEED AGGREGATES
+-- ============================================================================
+-- Goal: Actually create 'Inactivity Detected' alerts. Until now the UI showed
+--       "No movement detected for over 15 minutes" but nothing generated them.
+--
+-- A device is INACTIVE when, for the last settings.inactivity_minutes:
+-- - every minute in speed_samples_1m has avg_speed_mps below
+--   settings.inactivity_speed_threshold_mps, and
+-- - (windows longer than 1h) every hour in hourly_speed_stats before that
+--   has avg_speed_mps below the threshold, and
+-- - the tracker is still reporting (a minute row in the last 5 minutes) and
+--   there is data reaching back to the start of the window.
+--   A tracker that stopped reporting is offline, not inactive.
+--
+-- Alerts are opened only when:
+-- - settings.enable_inactiviy = true (master switch), and
+-- - the alert rule of the device's zone allows it (enable_inactivity + schedule)
+--
+-- Alerts are cleared (deleted, like out-of-zone alerts) when movement resumes,
+-- when inactivity alerts are switched off, or when the zone rule no longer
+-- allows them (enable_inactivity off or outside its schedule).
+--
+-- Run: SELECT * FROM public.job_detect_inactivity();
+-- Test: SELECT * FROM public.job_detect_inactivity('2025-01-01 12:00+00');
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: SETTINGS COLUMNS
+-- ============================================================================
+-- inactivity_minutes exists since 001 (default 15); it is used again here
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS inactivity_minutes INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS inactivity_speed_threshold_mps DOUBLE PRECISION NOT NULL DEFAULT 0.1;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'settings_inactivity_minutes_check'
+      AND conrelid = 'public.settings'::regclass
+  ) THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_inactivity_minutes_check
+      CHECK (inactivity_minutes BETWEEN 1 AND 1440);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'settings_inactivity_speed_threshold_check'
+      AND conrelid = 'public.settings'::regclass
+  ) THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_inactivity_speed_threshold_check
+      CHECK (inactivity_speed_threshold_mps >= 0);
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not add inactivity settings constraints: %', SQLERRM;
+END $$;
+
+COMMENT ON COLUMN public.settings.inactivity_minutes IS
+  'Minutes of movement below inactivity_speed_threshold_mps before an Inactivity Detected alert (1-1440).';
+
+COMMENT ON COLUMN public.settings.inactivity_speed_threshold_mps IS
+  'Average speed (m/s) below which a minute counts as no movement. Default 0.1 m/s (GPS jitter).';
+
+-- ============================================================================
+-- STEP 2: INACTIVITY CHECK FOR ONE TRACKER
+-- ============================================================================
+-- Returns:
+--   TRUE  = no movement for the whole window
+--   FALSE = movement in the window
+--   NULL  = not enough data to decide (offline / just started reporting)
+CREATE OR REPLACE FUNCTION public.tracker_is_inactive(
+  p_tracker_uuid UUID,
+  p_minutes INTEGER,
+  p_threshold_mps DOUBLE PRECISION,
+  p_now TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ;
+  v_minute_start TIMESTAMPTZ;
+  v_latest_minute TIMESTAMPTZ;
+  v_earliest_minute TIMESTAMPTZ;
+  v_max_minute_speed DOUBLE PRECISION;
+  v_earliest_hour TIMESTAMPTZ;
+  v_max_hour_speed DOUBLE PRECISION;
+BEGIN
+  v_window_start := p_now - make_interval(mins => p_minutes);
+  -- speed_samples_1m only keeps 1 hour (cleanup_speed_samples_1m)
+  v_minute_start := GREATEST(v_window_start, p_now - interval '1 hour');
+
+  SELECT MAX(minute_ts), MIN(minute_ts), MAX(avg_speed_mps)
+  INTO v_latest_minute, v_earliest_minute, v_max_minute_speed
+  FROM public.speed_samples_1m
+  WHERE tracker_id = p_tracker_uuid
+    AND minute_ts >= date_trunc('minute', v_minute_start)
+    AND minute_ts <= p_now;
+
+  -- Still reporting?
+  IF v_latest_minute IS NULL OR v_latest_minute < p_now - interval '5 minutes' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Any movement in the recent minutes decides immediately
+  IF v_max_minute_speed >= p_threshold_mps THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_window_start >= v_minute_start THEN
+    -- Window fits in the minute table: data must reach back to its start
+    IF v_earliest_minute > date_trunc('minute', v_window_start) + interval '2 minutes' THEN
+      RETURN NULL;
+    END IF;
+    RETURN TRUE;
+  END IF;
+
+  -- Older part of the window comes from hourly stats (hour averages only)
+  SELECT MIN(hour_ts), MAX(avg_speed_mps)
+  INTO v_earliest_hour, v_max_hour_speed
+  FROM public.hourly_speed_stats
+  WHERE tracker_id = p_tracker_uuid
+    AND hour_ts >= date_trunc('hour', v_window_start)
+    AND hour_ts < v_minute_start;
+
+  IF v_earliest_hour IS NULL OR v_earliest_hour > date_trunc('hour', v_window_start) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_max_hour_speed < p_threshold_mps;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: SCHEDULED JOB FUNCTION
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.job_detect_inactivity(p_now TIMESTAMPTZ DEFAULT now())
+RETURNS TABLE (
+  opened INTEGER,
+  cleared INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  d_rec RECORD;
+  v_inactive BOOLEAN;
+  v_zone RECORD;
+  v_rule RECORD;
+  v_opened INTEGER := 0;
+  v_cleared INTEGER := 0;
+  v_rows INTEGER;
+BEGIN
+  FOR d_rec IN
+    SELECT
+      d.id,
+      d.user_id,
+      d.batch_id,
+      t.id AS tracker_uuid,
+      COALESCE(s.enable_inactiviy, true) AS enabled,
+      COALESCE(s.inactivity_minutes, 15) AS minutes,
+      COALESCE(s.inactivity_speed_threshold_mps, 0.1) AS threshold_mps
+    FROM public.devices d
+    JOIN public.trackers t ON t.tracker_id = d.tracker_id
+    LEFT JOIN public.settings s ON s.user_id = d.user_id
+    WHERE d.user_id IS NOT NULL
+  LOOP
+    BEGIN
+      -- Zone rule (per geofence / batch) can mute it
+      SELECT * INTO v_zone FROM public.device_zone_status(d_rec.id);
+      SELECT * INTO v_rule
+      FROM public.resolve_alert_rule(d_rec.user_id, v_zone.geofence_id, d_rec.batch_id, p_now);
+
+      IF NOT d_rec.enabled OR NOT COALESCE(v_rule.enable_inactivity AND v_rule.in_schedule, false) THEN
+        -- Switched off or muted by the rule: clear open ones
+        DELETE FROM public.alerts
+        WHERE device_id = d_rec.id
+          AND type_alert = 'Inactivity Detected'
+          AND active = true;
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_cleared := v_cleared + v_rows;
+        CONTINUE;
+      END IF;
+
+      v_inactive := public.tracker_is_inactive(
+        d_rec.tracker_uuid, d_rec.minutes, d_rec.threshold_mps, p_now
+      );
+
+      IF v_inactive IS TRUE THEN
+        INSERT INTO public.alerts (device_id, user_id, type_alert, active, created_at, updated_at)
+        VALUES (d_rec.id, d_rec.user_id, 'Inactivity Detected', true, now(), now())
+        ON CONFLICT (device_id, type_alert) WHERE active = true
+        DO NOTHING;
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_opened := v_opened + v_rows;
+      ELSIF v_inactive IS FALSE THEN
+        -- Movement resumed
+        DELETE FROM public.alerts
+        WHERE device_id = d_rec.id
+          AND type_alert = 'Inactivity Detected'
+          AND active = true;
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_cleared := v_cleared + v_rows;
+      END IF;
+      -- NULL (not enough data): leave any open alert as it is
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- One bad device must not stop the job
+        RAISE NOTICE 'job_detect_inactivity error for device %: %', d_rec.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN QUERY SELECT v_opened, v_cleared;
+END;
+$$;
+
+-- Opens and clears alerts of every farm: not callable by clients
+DO $$
+BEGIN
+  REVOKE EXECUTE ON FUNCTION public.job_detect_inactivity(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+EXCEPTION
+  WHEN undefined_object THEN
+    -- Plain Postgres without Supabase roles
+    REVOKE EXECUTE ON FUNCTION public.job_detect_inactivity(TIMESTAMPTZ) FROM PUBLIC;
+END $$;
+
+-- ============================================================================
+-- STEP 4: SCHEDULE JOB (pg_cron)
+-- ============================================================================
+-- If pg_cron is not available, call job_detect_inactivity() every minute from
+-- an Edge Function.
+DO $$
+BEGIN
+  PERFORM cron.unschedule('detect-inactivity');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- job did not exist yet or pg_cron missing
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'detect-inactivity',
+    '* * * * *',  -- Every minute
+    $job1$SELECT public.job_detect_inactivity()$job1$
+  );
+EXCEPTION
+  WHEN undefined_function THEN
+    RAISE NOTICE 'pg_cron not available. Call job_detect_inactivity() every minute via an Edge Function.';
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule detect-inactivity job: %', SQLERRM;
+END $$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification (local Postgres):
+-- 1) Feed 16 minutes of standing still for tracker 'test':
+--    SELECT ingest_gps_sample_text('test', now() - make_interval(mins => m), 51.97, 7.59, 0.02, 5)
+--    FROM generate_series(16, 0, -1) AS m;
+--
+-- 2) Run the job:
+--    SELECT * FROM job_detect_inactivity();   -- opened = 1
+--    SELECT type_alert, active FROM alerts
+--    WHERE device_id = (SELECT id FROM devices WHERE tracker_id = 'test');
+--
+-- 3) Movement resumes:
+--    SELECT ingest_gps_sample_text('test', now(), 51.9701, 7.5901, 1.2, 5);
+--    SELECT * FROM job_detect_inactivity();   -- cleared = 1
+-- ============================================================================
@@ -0,0 +1,452 @@
+-- ============================================================================
+-- 031 - BATTERY TELEMETRY AND LOW BATTERY ALERTS
+-- ============================================================================
+-- Goal: devices.battery_level exists and the UI says "Device battery is below
+--       15%", but nothing ingested battery readings or raised 'Low Battery'
+--       alerts.
+--
+-- - battery_readings: one row per tracker per reading (percent + voltage)
+-- - ingest_battery_reading(): new RPC, accepts percent OR voltage. Server
+--   side only (service role): it writes readings for any tracker id
+-- - ingest_gps_sample_text(): optional battery params on the existing RPC
+-- - devices.battery_level follows the latest reading
+-- - settings.low_battery_threshold (exists since 001) opens the alert,
+--   settings.low_battery_clear_margin closes it again (hysteresis):
+--
+--     open  when percent <= threshold
+--     clear when percent >= threshold + clear_margin
+--     in between: keep the current state (no flapping around the threshold)
+--
+-- Opening respects settings.enable_low_battery (master switch) and the alert
+-- rule of the device's zone (enable_low_battery + schedule).
+--
+-- Run: SELECT public.ingest_battery_reading('test', now(), NULL, 3.62);
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: SETTINGS COLUMNS
+-- ============================================================================
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS low_battery_threshold INTEGER NOT NULL DEFAULT 15;
+
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS low_battery_clear_margin INTEGER NOT NULL DEFAULT 5;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'settings_low_battery_threshold_check'
+      AND conrelid = 'public.settings'::regclass
+  ) THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_low_battery_threshold_check
+      CHECK (low_battery_threshold BETWEEN 1 AND 99);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'settings_low_battery_clear_margin_check'
+      AND conrelid = 'public.settings'::regclass
+  ) THEN
+    ALTER TABLE public.settings
+      ADD CONSTRAINT settings_low_battery_clear_margin_check
+      CHECK (low_battery_clear_margin BETWEEN 0 AND 50);
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not add low battery settings constraints: %', SQLERRM;
+END $$;
+
+COMMENT ON COLUMN public.settings.low_battery_threshold IS
+  'Battery percent at or below which a Low Battery alert opens (1-99, default 15).';
+
+COMMENT ON COLUMN public.settings.low_battery_clear_margin IS
+  'Hysteresis: the alert clears once battery is back at threshold + margin percent (0-50, default 5).';
+
+-- ============================================================================
+-- STEP 2: BATTERY READINGS TABLE
+-- ============================================================================
+-- Keyed by the TEXT tracker_id like live_locations / location_history, so
+-- readings survive re-linking a tracker to another device row.
+CREATE TABLE IF NOT EXISTS public.battery_readings (
+  tracker_id TEXT NOT NULL,
+  ts TIMESTAMPTZ NOT NULL,
+  percent SMALLINT NOT NULL CHECK (percent BETWEEN 0 AND 100),
+  voltage_v DOUBLE PRECISION, -- raw voltage when the tracker sent one
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (tracker_id, ts)
+);
+
+CREATE INDEX IF NOT EXISTS idx_battery_readings_ts
+  ON public.battery_readings(ts DESC);
+
+COMMENT ON TABLE public.battery_readings IS
+  'Battery level over time per tracker. Written by ingest_battery_reading().';
+
+-- ============================================================================
+-- STEP 3: VOLTAGE TO PERCENT
+-- ============================================================================
+-- Piecewise-linear discharge curve of a single Li-ion / LiPo cell (3.30-4.20 V).
+-- Trackers with other chemistries should send percent instead.
+CREATE OR REPLACE FUNCTION public.battery_voltage_to_percent(p_voltage_v DOUBLE PRECISION)
+RETURNS SMALLINT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_volts DOUBLE PRECISION[] := ARRAY[3.30, 3.55, 3.65, 3.70, 3.75, 3.80, 3.85, 3.90, 3.98, 4.10, 4.20];
+  v_pcts DOUBLE PRECISION[] := ARRAY[0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+  i INTEGER;
+BEGIN
+  IF p_voltage_v IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_voltage_v <= v_volts[1] THEN
+    RETURN 0;
+  END IF;
+
+  IF p_voltage_v >= v_volts[array_length(v_volts, 1)] THEN
+    RETURN 100;
+  END IF;
+
+  FOR i IN 2..array_length(v_volts, 1) LOOP
+    IF p_voltage_v <= v_volts[i] THEN
+      RETURN round(
+        v_pcts[i - 1]
+        + (p_voltage_v - v_volts[i - 1]) / (v_volts[i] - v_volts[i - 1]) * (v_pcts[i] - v_pcts[i - 1])
+      )::SMALLINT;
+    END IF;
+  END LOOP;
+
+  RETURN 100;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: LOW BATTERY ALERT EVALUATION (with hysteresis)
+-- ============================================================================
+-- Returns the alert state after evaluation: TRUE = open, FALSE = none.
+CREATE OR REPLACE FUNCTION public.evaluate_low_battery_alert(
+  p_device_id UUID,
+  p_percent INTEGER,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_device RECORD;
+  v_zone RECORD;
+  v_rule RECORD;
+  v_enabled BOOLEAN;
+  v_threshold INTEGER;
+  v_margin INTEGER;
+  v_has_alert BOOLEAN;
+BEGIN
+  SELECT d.id, d.user_id, d.batch_id
+  INTO v_device
+  FROM public.devices d
+  WHERE d.id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id IS NULL OR p_percent IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT
+    COALESCE(s.enable_low_battery, true),
+    COALESCE(s.low_battery_threshold, 15),
+    COALESCE(s.low_battery_clear_margin, 5)
+  INTO v_enabled, v_threshold, v_margin
+  FROM public.settings s
+  WHERE s.user_id = v_device.user_id;
+
+  v_enabled := COALESCE(v_enabled, true);
+  v_threshold := COALESCE(v_threshold, 15);
+  v_margin := COALESCE(v_margin, 5);
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.alerts
+    WHERE device_id = p_device_id
+      AND type_alert = 'Low Battery'
+      AND active = true
+  ) INTO v_has_alert;
+
+  -- Switched off, or recovered past the hysteresis band: clear
+  IF NOT v_enabled OR p_percent >= v_threshold + v_margin THEN
+    IF v_has_alert THEN
+      DELETE FROM public.alerts
+      WHERE device_id = p_device_id
+        AND type_alert = 'Low Battery'
+        AND active = true;
+    END IF;
+    RETURN FALSE;
+  END IF;
+
+  -- Inside the band: keep whatever state we are in
+  IF p_percent > v_threshold OR v_has_alert THEN
+    RETURN v_has_alert;
+  END IF;
+
+  -- At or below threshold: zone rule (per geofence / batch) can still mute it
+  SELECT * INTO v_zone FROM public.device_zone_status(p_device_id);
+  SELECT * INTO v_rule
+  FROM public.resolve_alert_rule(v_device.user_id, v_zone.geofence_id, v_device.batch_id, p_at);
+
+  IF NOT (v_rule.enable_low_battery AND v_rule.in_schedule) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.alerts (device_id, user_id, type_alert, active, created_at, updated_at)
+  VALUES (p_device_id, v_device.user_id, 'Low Battery', true, now(), now())
+  ON CONFLICT (device_id, type_alert) WHERE active = true
+  DO NOTHING;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: INGESTION RPC
+-- ============================================================================
+-- Accepts percent OR voltage (percent wins when both are given).
+-- Returns the stored percent.
+CREATE OR REPLACE FUNCTION public.ingest_battery_reading(
+  p_tracker_id TEXT,
+  p_ts TIMESTAMPTZ,
+  p_percent DOUBLE PRECISION DEFAULT NULL,
+  p_voltage_v DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SMALLINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_percent SMALLINT;
+  v_latest_ts TIMESTAMPTZ;
+  d_rec RECORD;
+BEGIN
+  IF p_tracker_id IS NULL OR p_ts IS NULL THEN
+    RAISE EXCEPTION 'tracker_id and ts are required';
+  END IF;
+
+  IF p_percent IS NOT NULL THEN
+    v_percent := round(GREATEST(0, LEAST(100, p_percent)))::SMALLINT;
+  ELSIF p_voltage_v IS NOT NULL THEN
+    v_percent := public.battery_voltage_to_percent(p_voltage_v);
+  ELSE
+    RAISE EXCEPTION 'Either percent or voltage is required';
+  END IF;
+
+  INSERT INTO public.battery_readings (tracker_id, ts, percent, voltage_v)
+  VALUES (p_tracker_id, p_ts, v_percent, p_voltage_v)
+  ON CONFLICT (tracker_id, ts) DO UPDATE SET
+    percent = EXCLUDED.percent,
+    voltage_v = EXCLUDED.voltage_v,
+    recorded_at = now();
+
+  -- Late (out of order) readings are stored but do not change the current level
+  SELECT MAX(ts) INTO v_latest_ts
+  FROM public.battery_readings
+  WHERE tracker_id = p_tracker_id;
+
+  IF p_ts < v_latest_ts THEN
+    RETURN v_percent;
+  END IF;
+
+  FOR d_rec IN
+    SELECT id FROM public.devices WHERE tracker_id = p_tracker_id
+  LOOP
+    UPDATE public.devices
+    SET battery_level = v_percent,
+        updated_at = now()
+    WHERE id = d_rec.id;
+
+    BEGIN
+      PERFORM public.evaluate_low_battery_alert(d_rec.id, v_percent, p_ts);
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Never block ingestion
+        RAISE NOTICE 'Low battery evaluation failed for device %: %', d_rec.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_percent;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: BATTERY PARAMS ON ingest_gps_sample_text
+-- ============================================================================
+-- Adding DEFAULT params with CREATE OR REPLACE would create an ambiguous
+-- overload, so the 6-argument version is dropped first. Existing callers
+-- (5 or 6 arguments) keep working.
+DROP FUNCTION IF EXISTS public.ingest_gps_sample_text(
+  TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION
+);
+
+CREATE OR REPLACE FUNCTION public.ingest_gps_sample_text(
+  p_tracker_id TEXT,
+  p_ts TIMESTAMPTZ,
+  p_lat DOUBLE PRECISION,
+  p_lon DOUBLE PRECISION,
+  p_speed_mps DOUBLE PRECISION,
+  p_accuracy_m DOUBLE PRECISION DEFAULT NULL,
+  p_battery_percent DOUBLE PRECISION DEFAULT NULL,
+  p_battery_voltage_v DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_tracker_uuid UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get or create tracker UUID
+  SELECT id INTO v_tracker_uuid
+  FROM public.trackers
+  WHERE tracker_id = p_tracker_id;
+
+  -- If tracker doesn't exist, try to find user_id from devices table
+  -- If still not found, use auth.uid() or NULL
+  IF v_tracker_uuid IS NULL THEN
+    SELECT user_id INTO v_user_id
+    FROM public.devices
+    WHERE tracker_id = p_tracker_id
+    LIMIT 1;
+
+    INSERT INTO public.trackers (tracker_id, user_id)
+    VALUES (p_tracker_id, COALESCE(v_user_id, auth.uid()))
+    RETURNING id INTO v_tracker_uuid;
+  END IF;
+
+  -- Call the main ingestion function
+  PERFORM ingest_gps_sample(
+    v_tracker_uuid,
+    p_ts,
+    p_lat,
+    p_lon,
+    p_speed_mps,
+    p_accuracy_m
+  );
+
+  -- Optional battery telemetry sent along with the fix
+  IF p_battery_percent IS NOT NULL OR p_battery_voltage_v IS NOT NULL THEN
+    BEGIN
+      PERFORM public.ingest_battery_reading(
+        p_tracker_id,
+        p_ts,
+        p_battery_percent,
+        p_battery_voltage_v
+      );
+    EXCEPTION
+      WHEN insufficient_privilege THEN
+        -- anon / authenticated callers may not write battery readings; the
+        -- fix itself is still stored
+        RAISE NOTICE 'Battery reading for % ignored: %', p_tracker_id, SQLERRM;
+    END;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- STEP 7: RETENTION
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.cleanup_battery_readings(
+  p_retention_days INTEGER DEFAULT 90
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.battery_readings
+  WHERE ts < now() - make_interval(days => p_retention_days);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 8: PERMISSIONS + ROW LEVEL SECURITY
+-- ============================================================================
+-- The SECURITY DEFINER functions above take any device / tracker id, so only
+-- the server (service role) and the database itself may call them.
+DO $$
+BEGIN
+  REVOKE EXECUTE ON FUNCTION public.evaluate_low_battery_alert(UUID, INTEGER, TIMESTAMPTZ)
+    FROM PUBLIC, anon, authenticated;
+  REVOKE EXECUTE ON FUNCTION public.ingest_battery_reading(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION)
+    FROM PUBLIC, anon, authenticated;
+  REVOKE EXECUTE ON FUNCTION public.cleanup_battery_readings(INTEGER)
+    FROM PUBLIC, anon, authenticated;
+EXCEPTION
+  WHEN undefined_object THEN
+    -- Plain Postgres without Supabase roles
+    REVOKE EXECUTE ON FUNCTION public.evaluate_low_battery_alert(UUID, INTEGER, TIMESTAMPTZ) FROM PUBLIC;
+    REVOKE EXECUTE ON FUNCTION public.ingest_battery_reading(TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC;
+    REVOKE EXECUTE ON FUNCTION public.cleanup_battery_readings(INTEGER) FROM PUBLIC;
+END $$;
+
+-- Same rule as location_history: users only see trackers linked to them in
+-- devices. Rows are written by ingest_battery_reading() (SECURITY DEFINER).
+ALTER TABLE public.battery_readings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view linked tracker battery" ON public.battery_readings;
+
+CREATE POLICY "Users can view linked tracker battery"
+  ON public.battery_readings FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.devices
+      WHERE devices.user_id = auth.uid()
+        AND devices.tracker_id = battery_readings.tracker_id
+    )
+  );
+
+-- ============================================================================
+-- STEP 9: SCHEDULE RETENTION JOB (pg_cron)
+-- ============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('battery-readings-retention');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- job did not exist yet or pg_cron missing
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'battery-readings-retention',
+    '25 0 * * *',  -- Daily at 00:25
+    $job1$SELECT public.cleanup_battery_readings()$job1$
+  );
+EXCEPTION
+  WHEN undefined_function THEN
+    RAISE NOTICE 'pg_cron not available. Call cleanup_battery_readings() daily via an Edge Function.';
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule battery-readings-retention job: %', SQLERRM;
+END $$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification (local Postgres, tracker 'test' linked in devices):
+-- 1) Drop below the threshold (default 15%):
+--    SELECT ingest_battery_reading('test', now() - interval '2 minutes', 14);
+--    SELECT type_alert, active FROM alerts
+--    WHERE device_id = (SELECT id FROM devices WHERE tracker_id = 'test');  -- Low Battery
+--
+-- 2) Inside the hysteresis band, alert stays open:
+--    SELECT ingest_battery_reading('test', now() - interval '1 minute', NULL, 3.62);  -- ~17%
+--
+-- 3) Back above threshold + margin (20%), alert clears:
+--    SELECT ingest_gps_sample_text('test', now(), 51.97, 7.59, 0.4, 5, 22);
+-- ============================================================================
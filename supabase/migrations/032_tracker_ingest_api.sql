@@ -0,0 +1,248 @@
+-- ============================================================================
+-- 032 - TRACKER INGESTION API (API KEYS + FIX INGESTION RPC)
+-- ============================================================================
+-- Goal: Trackers push fixes to the Express server (POST /api/ingest) instead
+--       of writing straight into Supabase.
+--
+-- - tracker_api_keys: one or more API keys per tracker. Only the SHA-256 hash
+--   is stored; the plain key is shown once by create_tracker_api_key().
+--   The server only accepts a key while its owner still has the tracker
+--   linked in devices. Users manage keys in the app (Settings > Tracker
+--   API keys).
+-- - ingest_tracker_fix(): one fix -> speed tables (ingest_gps_sample),
+--   battery (ingest_battery_reading), live_locations and location_history.
+--   Duplicates (same tracker + timestamp) are reported, not stored twice.
+--
+-- The server calls ingest_tracker_fix() with the service role key; it is not
+-- executable by anon / authenticated users.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: API KEYS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.tracker_api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  tracker_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_hash TEXT NOT NULL UNIQUE, -- hex SHA-256 of the plain key
+  key_prefix TEXT NOT NULL, -- first characters, to tell keys apart in the UI
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracker_api_keys_tracker_id
+  ON public.tracker_api_keys(tracker_id);
+
+CREATE INDEX IF NOT EXISTS idx_tracker_api_keys_user_id
+  ON public.tracker_api_keys(user_id);
+
+COMMENT ON TABLE public.tracker_api_keys IS
+  'Per-tracker API keys for POST /api/ingest. Only hashes are stored.';
+
+-- ============================================================================
+-- STEP 2: CREATE / REVOKE KEYS
+-- ============================================================================
+-- Returns the plain key. It cannot be read again later.
+CREATE OR REPLACE FUNCTION public.create_tracker_api_key(
+  p_tracker_id TEXT,
+  p_label TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_key TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- SECURITY: only for trackers linked to the caller
+  IF NOT EXISTS (
+    SELECT 1 FROM public.devices
+    WHERE tracker_id = p_tracker_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Tracker % is not linked to this user', p_tracker_id;
+  END IF;
+
+  v_key := 'gsk_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.tracker_api_keys (tracker_id, user_id, key_hash, key_prefix, label)
+  VALUES (
+    p_tracker_id,
+    v_user_id,
+    encode(sha256(convert_to(v_key, 'UTF8')), 'hex'),
+    left(v_key, 10),
+    p_label
+  );
+
+  RETURN v_key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_tracker_api_key(p_key_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tracker_api_keys
+  SET revoked_at = now()
+  WHERE id = p_key_id
+    AND user_id = auth.uid() -- SECURITY: only own keys
+    AND revoked_at IS NULL;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: INGEST ONE FIX
+-- ============================================================================
+-- Returns 'inserted' or 'duplicate'.
+-- Fixes older than the current live position are stored in the speed tables
+-- and location_history but do not move live_locations back in time.
+CREATE OR REPLACE FUNCTION public.ingest_tracker_fix(
+  p_tracker_id TEXT,
+  p_ts TIMESTAMPTZ,
+  p_lat DOUBLE PRECISION,
+  p_lon DOUBLE PRECISION,
+  p_speed_mps DOUBLE PRECISION DEFAULT NULL,
+  p_accuracy_m DOUBLE PRECISION DEFAULT NULL,
+  p_heading_deg DOUBLE PRECISION DEFAULT NULL,
+  p_altitude_m DOUBLE PRECISION DEFAULT NULL,
+  p_battery_percent DOUBLE PRECISION DEFAULT NULL,
+  p_battery_voltage_v DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_high_accuracy BOOLEAN;
+  v_live_captured_at TIMESTAMPTZ;
+BEGIN
+  IF p_tracker_id IS NULL OR p_ts IS NULL OR p_lat IS NULL OR p_lon IS NULL THEN
+    RAISE EXCEPTION 'tracker_id, ts, lat and lon are required';
+  END IF;
+
+  IF p_lat NOT BETWEEN -90 AND 90 OR p_lon NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Coordinates out of range: %, %', p_lat, p_lon;
+  END IF;
+
+  -- Duplicate: same tracker + timestamp already ingested
+  IF EXISTS (
+    SELECT 1
+    FROM public.speed_samples_2s s
+    JOIN public.trackers t ON t.id = s.tracker_id
+    WHERE t.tracker_id = p_tracker_id
+      AND s.ts = p_ts
+  ) OR EXISTS (
+    SELECT 1 FROM public.location_history
+    WHERE tracker_id = p_tracker_id
+      AND captured_at = p_ts
+  ) THEN
+    RETURN 'duplicate';
+  END IF;
+
+  -- Speed tables (+ battery when sent along)
+  PERFORM public.ingest_gps_sample_text(
+    p_tracker_id,
+    p_ts,
+    p_lat,
+    p_lon,
+    COALESCE(p_speed_mps, 0),
+    p_accuracy_m,
+    p_battery_percent,
+    p_battery_voltage_v
+  );
+
+  v_is_high_accuracy := p_accuracy_m IS NOT NULL AND p_accuracy_m <= 10;
+
+  SELECT captured_at INTO v_live_captured_at
+  FROM public.live_locations
+  WHERE tracker_id = p_tracker_id;
+
+  IF v_live_captured_at IS NULL OR p_ts > v_live_captured_at THEN
+    -- Newest fix: live_locations triggers handle history, devices and alerts
+    INSERT INTO public.live_locations (
+      tracker_id, lat, lng, accuracy_m, speed_mps, heading_deg, altitude_m,
+      captured_at, updated_at, is_high_accuracy
+    ) VALUES (
+      p_tracker_id, p_lat, p_lon, p_accuracy_m, p_speed_mps, p_heading_deg, p_altitude_m,
+      p_ts, now(), v_is_high_accuracy
+    )
+    ON CONFLICT (tracker_id) DO UPDATE SET
+      lat = EXCLUDED.lat,
+      lng = EXCLUDED.lng,
+      accuracy_m = EXCLUDED.accuracy_m,
+      speed_mps = EXCLUDED.speed_mps,
+      heading_deg = EXCLUDED.heading_deg,
+      altitude_m = EXCLUDED.altitude_m,
+      captured_at = EXCLUDED.captured_at,
+      updated_at = EXCLUDED.updated_at,
+      is_high_accuracy = EXCLUDED.is_high_accuracy;
+  ELSE
+    -- Late fix (e.g. buffered while offline): history only
+    INSERT INTO public.location_history (
+      tracker_id, captured_at, lat, lng, geom,
+      accuracy_m, speed_mps, heading_deg, altitude_m, is_high_accuracy
+    ) VALUES (
+      p_tracker_id, p_ts, p_lat, p_lon, ST_SetSRID(ST_MakePoint(p_lon, p_lat), 4326),
+      p_accuracy_m, p_speed_mps, p_heading_deg, p_altitude_m, v_is_high_accuracy
+    )
+    ON CONFLICT (tracker_id, captured_at) DO NOTHING;
+  END IF;
+
+  RETURN 'inserted';
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: PERMISSIONS + ROW LEVEL SECURITY
+-- ============================================================================
+DO $$
+BEGIN
+  REVOKE EXECUTE ON FUNCTION public.ingest_tracker_fix(
+    TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION
+  ) FROM PUBLIC, anon, authenticated;
+EXCEPTION
+  WHEN undefined_object THEN
+    -- Plain Postgres without Supabase roles
+    REVOKE EXECUTE ON FUNCTION public.ingest_tracker_fix(
+      TEXT, TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+      DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION
+    ) FROM PUBLIC;
+END $$;
+
+-- Users see and revoke the keys of their own trackers; hashes never leave
+-- the server in practice because the app only selects metadata columns.
+ALTER TABLE public.tracker_api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tracker api keys" ON public.tracker_api_keys;
+
+CREATE POLICY "Users can view own tracker api keys"
+  ON public.tracker_api_keys FOR SELECT
+  USING (user_id = auth.uid());
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification (local Postgres, tracker 'test' linked in devices):
+-- 1) Create a key as the owner (Supabase SQL editor / RPC):
+--    SELECT create_tracker_api_key('test', 'collar 1');
+--
+-- 2) Ingest the same fix twice:
+--    SELECT ingest_tracker_fix('test', '2025-01-01 12:00+00', 51.97, 7.59, 0.4, 5);  -- inserted
+--    SELECT ingest_tracker_fix('test', '2025-01-01 12:00+00', 51.97, 7.59, 0.4, 5);  -- duplicate
+--
+-- 3) live_locations follows the newest fix only:
+--    SELECT captured_at FROM live_locations WHERE tracker_id = 'test';
+-- ============================================================================
@@ -0,0 +1,123 @@
+-- ============================================================================
+-- 033 - GRAZING DENSITY (HEATMAP) FROM LOCATION HISTORY
+-- ============================================================================
+-- Goal: Show where the herd actually spends its time inside each paddock.
+--
+-- get_grazing_density() aggregates location_history (027) into a square grid
+-- for a time window and returns one row per occupied cell. Each fix is
+-- weighted by the time until the tracker's next fix (capped at p_max_gap_s),
+-- so trackers that report more often do not dominate the map and a cell's
+-- weight is the time spent there.
+--
+-- Design rules:
+-- - SECURITY INVOKER: the location_history RLS policy limits the result to
+--   trackers linked to the caller, no extra checks needed
+-- - Aggregation happens in the database so the app never downloads raw
+--   history for a whole herd
+-- - Window scans use idx_location_history_captured_at (027)
+--
+-- Run: SELECT * FROM public.get_grazing_density(now() - interval '7 days', now());
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: DENSITY FUNCTION
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.get_grazing_density(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_tracker_ids TEXT[] DEFAULT NULL,      -- NULL = all trackers the caller can see
+  p_cell_m DOUBLE PRECISION DEFAULT 10,   -- grid cell size in meters
+  p_max_gap_s INTEGER DEFAULT 300         -- a fix counts for at most this many seconds
+)
+RETURNS TABLE (
+  lat DOUBLE PRECISION,       -- cell center
+  lng DOUBLE PRECISION,
+  dwell_s DOUBLE PRECISION,   -- seconds spent in the cell (all trackers)
+  fixes INTEGER,
+  trackers INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_lat_step DOUBLE PRECISION;
+BEGIN
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'get_grazing_density: p_to must be after p_from';
+  END IF;
+
+  IF p_to - p_from > INTERVAL '93 days' THEN
+    RAISE EXCEPTION 'get_grazing_density: window is limited to 93 days';
+  END IF;
+
+  -- 1 degree of latitude ~ 111.32 km; longitude steps shrink with cos(lat)
+  v_lat_step := GREATEST(COALESCE(p_cell_m, 10), 1) / 111320.0;
+
+  RETURN QUERY
+  WITH weighted AS (
+    SELECT
+      h.tracker_id,
+      h.lat AS fix_lat,
+      h.lng AS fix_lng,
+      LEAST(
+        COALESCE(
+          EXTRACT(EPOCH FROM (
+            LEAD(h.captured_at) OVER (PARTITION BY h.tracker_id ORDER BY h.captured_at)
+            - h.captured_at
+          )),
+          0
+        ),
+        GREATEST(COALESCE(p_max_gap_s, 300), 1)
+      )::DOUBLE PRECISION AS weight_s
+    FROM public.location_history h
+    WHERE h.captured_at >= p_from
+      AND h.captured_at < p_to
+      AND (p_tracker_ids IS NULL OR h.tracker_id = ANY (p_tracker_ids))
+  ),
+  cells AS (
+    SELECT
+      f.*,
+      FLOOR(f.fix_lat / v_lat_step)::BIGINT AS cell_y
+    FROM weighted f
+  ),
+  gridded AS (
+    SELECT
+      c.*,
+      -- Longitude step of the cell's latitude band, so cells stay square
+      v_lat_step / GREATEST(COS(RADIANS((c.cell_y + 0.5) * v_lat_step)), 0.01) AS lng_step
+    FROM cells c
+  )
+  SELECT
+    (g.cell_y + 0.5) * v_lat_step AS lat,
+    (FLOOR(g.fix_lng / g.lng_step) + 0.5) * g.lng_step AS lng,
+    SUM(g.weight_s) AS dwell_s,
+    COUNT(*)::INTEGER AS fixes,
+    COUNT(DISTINCT g.tracker_id)::INTEGER AS trackers
+  FROM gridded g
+  GROUP BY g.cell_y, FLOOR(g.fix_lng / g.lng_step), g.lng_step
+  HAVING SUM(g.weight_s) > 0;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_grazing_density(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], DOUBLE PRECISION, INTEGER) IS
+  'Time spent per grid cell from location_history for a window (heatmap). RLS limits it to the caller''s trackers.';
+
+GRANT EXECUTE ON FUNCTION public.get_grazing_density(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], DOUBLE PRECISION, INTEGER)
+  TO authenticated;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Cells for the last 7 days (as an authenticated user):
+--    SELECT * FROM get_grazing_density(now() - interval '7 days', now())
+--    ORDER BY dwell_s DESC LIMIT 10;
+--
+-- 2) One animal, 25 m cells:
+--    SELECT * FROM get_grazing_density(now() - interval '24 hours', now(),
+--      ARRAY['TRACKER-001'], 25);
+--
+-- 3) Total dwell time never exceeds window x trackers:
+--    SELECT SUM(dwell_s) / 3600 AS hours FROM get_grazing_density(now() - interval '24 hours', now());
+-- ============================================================================
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- 034 - ACKNOWLEDGE ALERTS
+-- ============================================================================
+-- Goal: Let the user mark an alert as seen from the map's animal sheet
+--       without resolving it.
+--
+-- An acknowledged alert stays active (active = true), so:
+-- - the partial unique index on (device_id, type_alert) WHERE active = true
+--   still prevents a new alert for the same episode on the next fix, and
+-- - the clearing jobs still delete it once the animal is back / moving.
+-- A new episode creates a new row, which starts unacknowledged again.
+--
+-- Updates go through the existing "Users can update own alerts" policy (021).
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: ACKNOWLEDGEMENT COLUMN
+-- ============================================================================
+ALTER TABLE public.alerts
+  ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ NULL;
+
+COMMENT ON COLUMN public.alerts.acknowledged_at IS
+  'When the owner acknowledged the alert; NULL = not yet seen. Does not resolve the alert.';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Acknowledge an active alert as its owner:
+--    UPDATE alerts SET acknowledged_at = now() WHERE id = '<alert id>';
+--
+-- 2) It is still active and no duplicate is opened on the next fix:
+--    SELECT type_alert, active, acknowledged_at FROM alerts
+--    WHERE device_id = '<device id>';
+-- ============================================================================
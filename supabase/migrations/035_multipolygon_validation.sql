@@ -0,0 +1,61 @@
+-- ============================================================================
+-- 035 - VALIDATE MULTIPOLYGON GEOFENCES (HOLES AND EXTRA PARTS)
+-- ============================================================================
+-- Goal: The zone editor now saves boundary_inner as a MultiPolygon with
+--       interior rings (e.g. a pond inside a paddock) and several disjoint
+--       parts. validate_polygon_simple (011) only accepted plain Polygons.
+--
+-- Still rejected: self-intersecting rings, holes outside their shell,
+-- overlapping holes or parts (ST_IsValid), and anything that is not a
+-- (Multi)Polygon.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: ACCEPT POLYGON AND MULTIPOLYGON
+-- ============================================================================
+CREATE OR REPLACE FUNCTION validate_polygon_simple(p_geojson JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_geom GEOMETRY;
+BEGIN
+  BEGIN
+    v_geom := ST_SetSRID(ST_GeomFromGeoJSON(p_geojson::text), 4326);
+  EXCEPTION WHEN OTHERS THEN
+    -- Invalid GeoJSON format
+    RETURN FALSE;
+  END;
+
+  IF ST_GeometryType(v_geom) NOT IN ('ST_Polygon', 'ST_MultiPolygon') THEN
+    RETURN FALSE;
+  END IF;
+
+  -- ST_IsValid covers holes inside their shell and non-overlapping parts;
+  -- ST_IsSimple matches the geofences_boundary_inner_geom_valid check (019)
+  RETURN ST_IsValid(v_geom) AND ST_IsSimple(v_geom);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION validate_polygon_simple(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION validate_polygon_simple(JSONB) IS
+  'Validates a GeoJSON Polygon or MultiPolygon (with holes) is valid and simple using PostGIS';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Square with a hole -> true
+--    SELECT validate_polygon_simple('{"type":"MultiPolygon","coordinates":[[
+--      [[0,0],[10,0],[10,10],[0,10],[0,0]],
+--      [[2,2],[4,2],[4,4],[2,4],[2,2]]]]}');
+--
+-- 2) Hole outside its shell -> false
+--    SELECT validate_polygon_simple('{"type":"MultiPolygon","coordinates":[[
+--      [[0,0],[10,0],[10,10],[0,10],[0,0]],
+--      [[20,20],[24,20],[24,24],[20,24],[20,20]]]]}');
+--
+-- 3) Two overlapping parts -> false
+--    SELECT validate_polygon_simple('{"type":"MultiPolygon","coordinates":[
+--      [[[0,0],[10,0],[10,10],[0,10],[0,0]]],
+--      [[[5,5],[15,5],[15,15],[5,15],[5,5]]]]}');
+-- ============================================================================
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- 036 - DISTANCE / AREA UNITS IN SETTINGS
+-- ============================================================================
+-- Goal: Persist the Units choice of the Settings screen (it was only kept in
+--       component state) so the map measure tool can show results in it.
+--
+-- - 'km'    → meters / kilometers, areas in hectares (default)
+-- - 'miles' → feet / miles, areas in acres
+--
+-- Reads and updates go through the existing settings policies (002).
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: UNITS COLUMN
+-- ============================================================================
+ALTER TABLE public.settings
+  ADD COLUMN IF NOT EXISTS units TEXT NOT NULL DEFAULT 'km';
+
+ALTER TABLE public.settings
+  DROP CONSTRAINT IF EXISTS check_settings_units;
+
+ALTER TABLE public.settings
+  ADD CONSTRAINT check_settings_units
+  CHECK (units IN ('km', 'miles'));
+
+COMMENT ON COLUMN public.settings.units IS
+  'Display units for distances and areas: km (m/km, ha) or miles (ft/mi, acres).';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Existing rows default to km:
+--    SELECT user_id, units FROM settings;
+--
+-- 2) Anything else is rejected:
+--    UPDATE settings SET units = 'furlongs' WHERE user_id = auth.uid(); -- fails
+-- ============================================================================
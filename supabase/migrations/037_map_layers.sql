@@ -0,0 +1,97 @@
+-- ============================================================================
+-- 037 - USER-DEFINED MAP LAYERS (XYZ / TMS / WMS)
+-- ============================================================================
+-- Goal: Let each user register extra tile services, e.g. regional
+--       orthophotos or cadastral parcels, and use them on the map either as
+--       a basemap (replacing street/terrain/satellite) or as an overlay
+--       stacked above the basemap.
+--
+-- Layer kinds:
+-- - xyz: URL template with {z}/{x}/{y} (optionally {s} subdomains)
+-- - tms: same template, y axis counted from the south
+-- - wms: base service URL; wms_layers names the layer(s) to request
+--
+-- Layers are private to their owner (RLS below).
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: CREATE map_layers TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.map_layers (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  kind TEXT NOT NULL DEFAULT 'xyz' CHECK (kind IN ('xyz', 'tms', 'wms')),
+  url TEXT NOT NULL CHECK (url ~* '^https?://'),
+  attribution TEXT NOT NULL DEFAULT '',
+  max_zoom SMALLINT NOT NULL DEFAULT 19 CHECK (max_zoom BETWEEN 1 AND 24),
+  opacity REAL NOT NULL DEFAULT 1 CHECK (opacity >= 0 AND opacity <= 1),
+  -- 'basemap' = choose instead of the built-in basemaps, 'overlay' = stack on top
+  usage TEXT NOT NULL DEFAULT 'overlay' CHECK (usage IN ('basemap', 'overlay')),
+  -- WMS only: comma-separated LAYERS parameter and image format
+  wms_layers TEXT NULL,
+  wms_format TEXT NOT NULL DEFAULT 'image/png',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT map_layers_wms_layers_check
+    CHECK (kind <> 'wms' OR length(trim(coalesce(wms_layers, ''))) > 0)
+);
+
+COMMENT ON TABLE public.map_layers IS
+  'Custom XYZ/TMS/WMS tile layers registered by a user, shown in the Map tab layer menu.';
+
+COMMENT ON COLUMN public.map_layers.url IS
+  'xyz/tms: tile URL template with {z} {x} {y} (and optional {s}); wms: service base URL.';
+
+CREATE INDEX IF NOT EXISTS idx_map_layers_user_id
+  ON public.map_layers(user_id);
+
+DROP TRIGGER IF EXISTS update_map_layers_updated_at ON public.map_layers;
+
+CREATE TRIGGER update_map_layers_updated_at
+  BEFORE UPDATE ON public.map_layers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE public.map_layers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own map layers" ON public.map_layers;
+DROP POLICY IF EXISTS "Users can insert own map layers" ON public.map_layers;
+DROP POLICY IF EXISTS "Users can update own map layers" ON public.map_layers;
+DROP POLICY IF EXISTS "Users can delete own map layers" ON public.map_layers;
+
+CREATE POLICY "Users can view own map layers"
+  ON public.map_layers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own map layers"
+  ON public.map_layers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own map layers"
+  ON public.map_layers FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own map layers"
+  ON public.map_layers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Register an XYZ overlay as the signed-in user:
+--    INSERT INTO map_layers (user_id, name, kind, url, usage)
+--    VALUES (auth.uid(), 'Parcels', 'xyz', 'https://tiles.example.org/{z}/{x}/{y}.png', 'overlay');
+--
+-- 2) A WMS layer without wms_layers is rejected:
+--    INSERT INTO map_layers (user_id, name, kind, url)
+--    VALUES (auth.uid(), 'Ortho', 'wms', 'https://wms.example.org/service'); -- fails
+--
+-- 3) Other users see nothing:
+--    SELECT count(*) FROM map_layers WHERE user_id <> auth.uid(); -- 0
+-- ============================================================================
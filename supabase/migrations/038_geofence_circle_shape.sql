@@ -0,0 +1,50 @@
+-- ============================================================================
+-- 038 - REMEMBER CIRCLE GEOFENCES
+-- ============================================================================
+-- Goal: The zone editor can draw a circle (centre + radius) and saves it as
+--       a polygon approximation in boundary_inner like any other zone.
+--       To re-open it as an editable circle instead of a 24-64 vertex
+--       polygon, the circle itself is kept in geofences.shape.
+--
+-- boundary_inner / boundary_outer stay the only geometry used by alerts.
+-- shape is editor metadata: NULL = drawn as a polygon (or rectangle).
+--
+-- Format: {"type": "circle", "center": [lat, lng], "radius_m": 35.5}
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: SHAPE COLUMN
+-- ============================================================================
+ALTER TABLE public.geofences
+  ADD COLUMN IF NOT EXISTS shape JSONB NULL;
+
+ALTER TABLE public.geofences
+  DROP CONSTRAINT IF EXISTS geofences_shape_check;
+
+ALTER TABLE public.geofences
+  ADD CONSTRAINT geofences_shape_check
+  CHECK (
+    shape IS NULL
+    OR (
+      shape->>'type' = 'circle'
+      AND jsonb_typeof(shape->'center') = 'array'
+      AND jsonb_array_length(shape->'center') = 2
+      AND jsonb_typeof(shape->'radius_m') = 'number'
+      AND (shape->>'radius_m')::numeric > 0
+    )
+  );
+
+COMMENT ON COLUMN public.geofences.shape IS
+  'Editor shape the boundary was generated from: {"type":"circle","center":[lat,lng],"radius_m":n}. NULL = polygon. Not used for alerts.';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Circle zones:
+--    SELECT id, name, shape->>'radius_m' AS radius_m, ST_NPoints(boundary_inner)
+--    FROM geofences WHERE shape IS NOT NULL;
+--
+-- 2) Invalid metadata is rejected:
+--    UPDATE geofences SET shape = '{"type":"circle","radius_m":-1}' WHERE id = <id>; -- fails
+-- ============================================================================
@@ -0,0 +1,217 @@
+-- ============================================================================
+-- 039 - GEOFENCE VERSION HISTORY
+-- ============================================================================
+-- Goal: Saving a zone overwrites the geofences row in place, so a bad edit
+--       used to lose the previous boundary. Every change to a zone's
+--       boundary, buffer, name or kind is now kept as a version with its
+--       author and timestamp, and any version can be restored.
+--
+-- 1) geofence_versions: one row per saved state of a zone, numbered 1, 2, ...
+--    per geofence. Written only by the trigger below, whichever path changed
+--    the zone (editor, import, update_geofence_buffer, offline sync).
+-- 2) restore_geofence_version(): copies an old version back onto the zone.
+--    That is an ordinary update, so it creates a new version (history is
+--    never rewritten) which remembers the version it was restored from.
+-- 3) Versions are deleted with their zone.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: CREATE geofence_versions TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.geofence_versions (
+  id BIGSERIAL PRIMARY KEY,
+  geofence_id BIGINT NOT NULL REFERENCES public.geofences(id) ON DELETE CASCADE,
+  -- Owner of the zone (for RLS); author_id is whoever made the change
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'include',
+  boundary_inner GEOMETRY(Geometry, 4326) NOT NULL,
+  boundary_outer GEOMETRY(Geometry, 4326) NULL,
+  buffer_m INTEGER NOT NULL DEFAULT 0,
+  shape JSONB NULL,
+  author_id UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email TEXT NULL,
+  restored_from_version INTEGER NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT geofence_versions_unique_version UNIQUE (geofence_id, version)
+);
+
+COMMENT ON TABLE public.geofence_versions IS
+  'Saved states of each geofence (boundary, buffer, name, kind), newest = current. Written by trigger only.';
+
+COMMENT ON COLUMN public.geofence_versions.author_email IS
+  'Email of the author at the time of the change, so the history still reads after the account is gone.';
+
+COMMENT ON COLUMN public.geofence_versions.restored_from_version IS
+  'Set when this version was created by restore_geofence_version().';
+
+CREATE INDEX IF NOT EXISTS idx_geofence_versions_user_id
+  ON public.geofence_versions(user_id);
+
+-- ============================================================================
+-- STEP 2: ROW LEVEL SECURITY (read-only for the owner)
+-- ============================================================================
+ALTER TABLE public.geofence_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own geofence versions" ON public.geofence_versions;
+
+CREATE POLICY "Users can view own geofence versions"
+  ON public.geofence_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- No INSERT / UPDATE / DELETE policies: versions come from the trigger and
+-- go away with their zone.
+
+-- ============================================================================
+-- STEP 3: RECORD A VERSION ON EVERY CHANGE
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.record_geofence_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_author UUID := COALESCE(auth.uid(), NEW.user_id);
+  v_restored_from INTEGER;
+BEGIN
+  -- Only changes that matter for the boundary history (not e.g. updated_at)
+  IF TG_OP = 'UPDATE'
+     AND NEW.boundary_inner IS NOT DISTINCT FROM OLD.boundary_inner -- exact equality (PostGIS >= 2.4)
+     AND NEW.boundary_outer IS NOT DISTINCT FROM OLD.boundary_outer
+     AND NEW.buffer_m IS NOT DISTINCT FROM OLD.buffer_m
+     AND NEW.shape IS NOT DISTINCT FROM OLD.shape
+     AND NEW.name IS NOT DISTINCT FROM OLD.name
+     AND NEW.kind IS NOT DISTINCT FROM OLD.kind THEN
+    RETURN NEW;
+  END IF;
+
+  -- Set by restore_geofence_version() for the duration of its update
+  v_restored_from := NULLIF(current_setting('geosense.restored_from_version', true), '')::INTEGER;
+
+  INSERT INTO public.geofence_versions (
+    geofence_id, user_id, version, name, kind,
+    boundary_inner, boundary_outer, buffer_m, shape,
+    author_id, author_email, restored_from_version
+  )
+  SELECT
+    NEW.id, NEW.user_id,
+    COALESCE((SELECT MAX(v.version) FROM public.geofence_versions v WHERE v.geofence_id = NEW.id), 0) + 1,
+    NEW.name, COALESCE(NEW.kind, 'include'),
+    NEW.boundary_inner, NEW.boundary_outer, COALESCE(NEW.buffer_m, 0), NEW.shape,
+    v_author, (SELECT u.email FROM auth.users u WHERE u.id = v_author), v_restored_from;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- History must never block saving a zone
+    RAISE WARNING 'record_geofence_version: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_geofence_version ON public.geofences;
+
+CREATE TRIGGER record_geofence_version
+  AFTER INSERT OR UPDATE ON public.geofences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_geofence_version();
+
+-- ============================================================================
+-- STEP 4: RESTORE A VERSION
+-- ============================================================================
+-- Copies the version's boundary, buffer, name and kind back onto the zone.
+-- The trigger records the result as the newest version.
+CREATE OR REPLACE FUNCTION public.restore_geofence_version(p_version_id BIGINT)
+RETURNS public.geofence_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.geofence_versions;
+  v_restored public.geofence_versions;
+  v_rows INTEGER;
+BEGIN
+  -- SECURITY: only versions of the caller's own zones
+  SELECT * INTO v_version
+  FROM public.geofence_versions v
+  WHERE v.id = p_version_id
+    AND v.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found or you do not have permission to restore it';
+  END IF;
+
+  PERFORM set_config('geosense.restored_from_version', v_version.version::TEXT, true);
+
+  UPDATE public.geofences g
+  SET
+    name = v_version.name,
+    kind = v_version.kind,
+    boundary_inner = v_version.boundary_inner,
+    boundary_outer = v_version.boundary_outer,
+    buffer_m = v_version.buffer_m,
+    shape = v_version.shape,
+    updated_at = now()
+  WHERE g.id = v_version.geofence_id
+    AND g.user_id = auth.uid();
+
+  -- Before PERFORM, which resets FOUND
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM set_config('geosense.restored_from_version', '', true);
+
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'Restore failed: zone not found or permission denied';
+  END IF;
+
+  SELECT * INTO v_restored
+  FROM public.geofence_versions v
+  WHERE v.geofence_id = v_version.geofence_id
+  ORDER BY v.version DESC
+  LIMIT 1;
+
+  RETURN v_restored;
+END;
+$$;
+
+COMMENT ON FUNCTION public.restore_geofence_version(BIGINT) IS
+  'Restores an old version of one of the caller''s zones as a new version.';
+
+GRANT EXECUTE ON FUNCTION public.restore_geofence_version(BIGINT) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: BACKFILL VERSION 1 FOR EXISTING ZONES
+-- ============================================================================
+INSERT INTO public.geofence_versions (
+  geofence_id, user_id, version, name, kind,
+  boundary_inner, boundary_outer, buffer_m, shape,
+  author_id, author_email, created_at
+)
+SELECT
+  g.id, g.user_id, 1, g.name, COALESCE(g.kind, 'include'),
+  g.boundary_inner, g.boundary_outer, COALESCE(g.buffer_m, 0), g.shape,
+  g.user_id, u.email, COALESCE(g.updated_at, g.created_at, now())
+FROM public.geofences g
+LEFT JOIN auth.users u ON u.id = g.user_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.geofence_versions v WHERE v.geofence_id = g.id
+);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Editing a zone adds a version:
+--    UPDATE geofences SET buffer_m = 10 WHERE id = <id>;
+--    SELECT version, buffer_m, author_email, created_at
+--    FROM geofence_versions WHERE geofence_id = <id> ORDER BY version;
+--
+-- 2) Touching only updated_at does not:
+--    UPDATE geofences SET updated_at = now() WHERE id = <id>;
+--
+-- 3) Restore version 1 as the signed-in owner (creates a new version):
+--    SELECT version, restored_from_version FROM restore_geofence_version(<version id>);
+-- ============================================================================
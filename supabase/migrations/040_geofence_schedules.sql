@@ -0,0 +1,343 @@
+-- ============================================================================
+-- 040 - TIME-SCHEDULED GEOFENCES (DAY / NIGHT PADDOCKS)
+-- ============================================================================
+-- Goal: Herds move to a night paddock at dusk and back out in the morning.
+--       Until now every zone was always active, so an animal in the "other"
+--       paddock never raised an alert. A zone can now have an activation
+--       schedule; while it is switched off it is ignored by the alert
+--       trigger (out-of-zone and exclusion alerts alike).
+--
+-- Schedules run in the farm timezone (settings.timezone, 028), the same one
+-- alert rule schedules use.
+--
+-- 1) geofences.schedule_*: weekdays + time windows. A window edge is a clock
+--    time or sunrise / sunset at the zone's centroid, plus an offset in
+--    minutes (e.g. sunset - 30 min to sunrise + 15 min).
+-- 2) geofence_is_active(): TRUE when the zone has no schedule or the schedule
+--    covers the moment. device_zone_status() and device_exclusion_zone()
+--    (029) only look at active zones.
+--
+-- Schedule semantics match alert_rule_in_schedule() (028):
+-- - 0 = Sunday ... 6 = Saturday
+-- - no windows = active all day on the selected days
+-- - a window whose end is before its start runs overnight and belongs to
+--   the weekday it starts on
+--
+-- The app computes the same thing in frontend/src/lib/zoneSchedule.ts (map
+-- greying and "next switch" times); keep the two in sync.
+--
+-- CRITICAL RULES:
+-- 1) DO NOT modify live_locations table
+-- 2) Triggers must never block ingestion; always RETURN NEW
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: SCHEDULE COLUMNS
+-- ============================================================================
+ALTER TABLE public.geofences
+  ADD COLUMN IF NOT EXISTS schedule_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS schedule_days SMALLINT[] NOT NULL DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[],
+  ADD COLUMN IF NOT EXISTS schedule_windows JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.geofences
+  DROP CONSTRAINT IF EXISTS geofences_schedule_days_check;
+
+ALTER TABLE public.geofences
+  ADD CONSTRAINT geofences_schedule_days_check
+  CHECK (schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+ALTER TABLE public.geofences
+  DROP CONSTRAINT IF EXISTS geofences_schedule_windows_check;
+
+ALTER TABLE public.geofences
+  ADD CONSTRAINT geofences_schedule_windows_check
+  CHECK (jsonb_typeof(schedule_windows) = 'array');
+
+COMMENT ON COLUMN public.geofences.schedule_enabled IS
+  'FALSE = zone is always active. TRUE = only active on schedule_days within schedule_windows.';
+
+COMMENT ON COLUMN public.geofences.schedule_windows IS
+  'Active windows: [{"start":"HH:MM"|"sunrise"|"sunset","start_offset_min":n,"end":...,"end_offset_min":n}]. [] = all day.';
+
+-- ============================================================================
+-- STEP 2: SCHEDULE HELPERS
+-- ============================================================================
+
+-- Sunrise / sunset (upper limb, standard refraction) for a calendar day at a
+-- position. NULL when the sun does not rise or set that day (polar regions).
+CREATE OR REPLACE FUNCTION public.sun_event_at(
+  p_day DATE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_event TEXT -- 'sunrise' | 'sunset'
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_j_star DOUBLE PRECISION;
+  v_anomaly DOUBLE PRECISION;
+  v_longitude DOUBLE PRECISION;
+  v_transit DOUBLE PRECISION;
+  v_declination DOUBLE PRECISION;
+  v_cos_hour_angle DOUBLE PRECISION;
+  v_event DOUBLE PRECISION;
+BEGIN
+  -- Sunrise equation; Julian dates, 2451545.0 = 2000-01-01 12:00 UTC
+  v_j_star := (p_day - DATE '2000-01-01') - p_lng / 360.0;
+  v_anomaly := 357.5291 + 0.98560028 * v_j_star;
+  v_anomaly := v_anomaly - 360.0 * floor(v_anomaly / 360.0);
+  v_longitude := v_anomaly
+    + 1.9148 * sin(radians(v_anomaly))
+    + 0.02 * sin(radians(2 * v_anomaly))
+    + 0.0003 * sin(radians(3 * v_anomaly))
+    + 180.0 + 102.9372;
+  v_longitude := v_longitude - 360.0 * floor(v_longitude / 360.0);
+  v_transit := 2451545.0 + v_j_star
+    + 0.0053 * sin(radians(v_anomaly))
+    - 0.0069 * sin(radians(2 * v_longitude));
+  v_declination := asin(sin(radians(v_longitude)) * sin(radians(23.4397)));
+  v_cos_hour_angle := (sin(radians(-0.833)) - sin(radians(p_lat)) * sin(v_declination))
+    / (cos(radians(p_lat)) * cos(v_declination));
+
+  IF v_cos_hour_angle < -1 OR v_cos_hour_angle > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  v_event := v_transit
+    + CASE WHEN p_event = 'sunrise' THEN -1 ELSE 1 END * degrees(acos(v_cos_hour_angle)) / 360.0;
+
+  RETURN to_timestamp((v_event - 2440587.5) * 86400.0);
+END;
+$$;
+
+-- One window edge on a local calendar day: 'HH:MM', 'sunrise' or 'sunset',
+-- shifted by p_offset_min. NULL when the edge does not exist that day.
+CREATE OR REPLACE FUNCTION public.geofence_schedule_edge(
+  p_edge TEXT,
+  p_offset_min INTEGER,
+  p_day DATE,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_timezone TEXT
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_at TIMESTAMPTZ;
+BEGIN
+  IF p_edge IN ('sunrise', 'sunset') THEN
+    v_at := public.sun_event_at(p_day, p_lat, p_lng, p_edge);
+  ELSE
+    v_at := (p_day + p_edge::TIME) AT TIME ZONE p_timezone;
+  END IF;
+
+  RETURN v_at + make_interval(mins => COALESCE(p_offset_min, 0));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$;
+
+-- TRUE if the zone counts at p_at: no schedule, or inside one of its windows
+CREATE OR REPLACE FUNCTION public.geofence_is_active(
+  p_geofence_id BIGINT,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_zone RECORD;
+  v_timezone TEXT;
+  v_today DATE;
+  v_day DATE;
+  v_window JSONB;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+BEGIN
+  SELECT
+    g.user_id,
+    g.schedule_enabled,
+    g.schedule_days,
+    g.schedule_windows,
+    ST_Y(ST_Centroid(g.boundary_inner)) AS lat,
+    ST_X(ST_Centroid(g.boundary_inner)) AS lng
+  INTO v_zone
+  FROM public.geofences g
+  WHERE g.id = p_geofence_id;
+
+  IF NOT FOUND OR NOT v_zone.schedule_enabled THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT s.timezone INTO v_timezone
+  FROM public.settings s
+  WHERE s.user_id = v_zone.user_id
+  LIMIT 1;
+
+  BEGIN
+    v_today := (p_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Unknown timezone name: evaluate in UTC rather than failing
+      v_timezone := 'UTC';
+      v_today := (p_at AT TIME ZONE 'UTC')::DATE;
+  END;
+  v_timezone := COALESCE(v_timezone, 'UTC');
+
+  -- Yesterday too, for overnight windows that are still running
+  FOREACH v_day IN ARRAY ARRAY[v_today - 1, v_today] LOOP
+    CONTINUE WHEN NOT (EXTRACT(DOW FROM v_day)::SMALLINT = ANY (v_zone.schedule_days));
+
+    IF jsonb_array_length(v_zone.schedule_windows) = 0 THEN
+      IF v_day = v_today THEN
+        RETURN TRUE;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    FOR v_window IN SELECT * FROM jsonb_array_elements(v_zone.schedule_windows) LOOP
+      v_start := public.geofence_schedule_edge(
+        v_window->>'start', (v_window->>'start_offset_min')::INTEGER,
+        v_day, v_zone.lat, v_zone.lng, v_timezone
+      );
+      v_end := public.geofence_schedule_edge(
+        v_window->>'end', (v_window->>'end_offset_min')::INTEGER,
+        v_day, v_zone.lat, v_zone.lng, v_timezone
+      );
+      CONTINUE WHEN v_start IS NULL OR v_end IS NULL;
+
+      -- Overnight: ends on the next day
+      IF v_end <= v_start THEN
+        v_end := public.geofence_schedule_edge(
+          v_window->>'end', (v_window->>'end_offset_min')::INTEGER,
+          v_day + 1, v_zone.lat, v_zone.lng, v_timezone
+        );
+        CONTINUE WHEN v_end IS NULL;
+      END IF;
+
+      IF p_at >= v_start AND p_at < v_end THEN
+        RETURN TRUE;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN FALSE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.geofence_is_active(BIGINT, TIMESTAMPTZ) IS
+  'Whether a zone is switched on at the given time (schedule_* columns, farm timezone from settings).';
+
+-- ============================================================================
+-- STEP 3: ONLY ACTIVE ZONES COUNT FOR ALERTS
+-- ============================================================================
+-- Same as 029, plus the schedule filter. The trigger function
+-- handle_live_location_update_devices_alerts() and the clearing job call
+-- these, so neither needs to change.
+
+CREATE OR REPLACE FUNCTION public.device_zone_status(p_device_id UUID)
+RETURNS TABLE (
+  has_zones BOOLEAN,
+  inside BOOLEAN,
+  geofence_id BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_device RECORD;
+  v_zone RECORD;
+  v_buffer INTEGER;
+  v_nearest_id BIGINT;
+BEGIN
+  SELECT d.id, d.user_id, d.batch_id, d.geom
+  INTO v_device
+  FROM public.devices d
+  WHERE d.id = p_device_id;
+
+  IF NOT FOUND OR v_device.geom IS NULL OR v_device.user_id IS NULL THEN
+    RETURN QUERY SELECT false, false, NULL::BIGINT;
+    RETURN;
+  END IF;
+
+  FOR v_zone IN
+    SELECT
+      g.id,
+      ST_Distance(v_device.geom::geography, g.boundary_inner::geography) AS distance_m
+    FROM public.geofences g
+    WHERE g.user_id = v_device.user_id
+      AND g.kind = 'include'
+      AND g.boundary_inner IS NOT NULL
+      AND (NOT g.schedule_enabled OR public.geofence_is_active(g.id))
+    ORDER BY distance_m ASC
+  LOOP
+    IF v_nearest_id IS NULL THEN
+      v_nearest_id := v_zone.id;
+    END IF;
+
+    SELECT r.buffer_m
+    INTO v_buffer
+    FROM public.resolve_alert_rule(v_device.user_id, v_zone.id, v_device.batch_id) r;
+
+    IF v_zone.distance_m <= COALESCE(v_buffer, 0) THEN
+      RETURN QUERY SELECT true, true, v_zone.id;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT (v_nearest_id IS NOT NULL), false, v_nearest_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.device_exclusion_zone(p_device_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT g.id
+  FROM public.devices d
+  JOIN public.geofences g
+    ON g.user_id = d.user_id
+   AND g.kind = 'exclude'
+   AND g.boundary_inner IS NOT NULL
+  WHERE d.id = p_device_id
+    AND d.geom IS NOT NULL
+    AND ST_Intersects(d.geom, g.boundary_inner)
+    AND (NOT g.schedule_enabled OR public.geofence_is_active(g.id))
+  ORDER BY g.id
+  LIMIT 1;
+$$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Night paddock from 30 min before sunset to 15 min after sunrise:
+--    UPDATE geofences SET schedule_enabled = true, schedule_windows =
+--      '[{"start":"sunset","start_offset_min":-30,"end":"sunrise","end_offset_min":15}]'
+--    WHERE id = <night paddock id>;
+--
+-- 2) Day paddock the other way round, weekdays only:
+--    UPDATE geofences SET schedule_enabled = true, schedule_days = ARRAY[1,2,3,4,5]::SMALLINT[],
+--      schedule_windows = '[{"start":"sunrise","start_offset_min":15,"end":"sunset","end_offset_min":-30}]'
+--    WHERE id = <day paddock id>;
+--
+-- 3) Which zones are on right now / at midnight:
+--    SELECT id, name, geofence_is_active(id), geofence_is_active(id, date_trunc('day', now()))
+--    FROM geofences WHERE user_id = auth.uid();
+--
+-- 4) Today's sunrise / sunset at a position:
+--    SELECT sun_event_at(current_date, 51.97, 7.60, 'sunrise'), sun_event_at(current_date, 51.97, 7.60, 'sunset');
+-- ============================================================================
@@ -0,0 +1,366 @@
+-- ============================================================================
+-- 041 - ROTATIONAL GRAZING PLAN AND PADDOCK OCCUPANCY
+-- ============================================================================
+-- Goal: Plan which paddock (include geofence) each batch grazes when, and
+--       compare that plan with where the trackers actually were.
+--
+-- 1) grazing_plan_entries: one planned stay of a batch in a paddock
+--    (planned entry / exit day). The rotation sequence of a batch is its
+--    entries in date order.
+-- 2) paddock_occupancy_daily: time spent per paddock, local day (farm
+--    timezone, 028) and batch, rolled up from location_history (027).
+--    location_history is only kept for retention_days (default 30), the
+--    rollup is kept for good so rest days stay known after that.
+-- 3) refresh_paddock_occupancy(): recomputes the last days of the rollup;
+--    runs hourly via pg_cron.
+-- 4) get_paddock_rest_days(): days since each paddock was last grazed,
+--    from the rollup, or from the plan for paddocks without tracker data.
+--
+-- Dwell time is weighted as in get_grazing_density() (033): each fix counts
+-- until the tracker's next fix, capped at 5 minutes.
+--
+-- CRITICAL RULES:
+-- 1) DO NOT modify live_locations table
+-- 2) The rollup is written by SECURITY DEFINER jobs only; users read it via RLS
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: CREATE grazing_plan_entries TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.grazing_plan_entries (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  geofence_id BIGINT NOT NULL REFERENCES public.geofences(id) ON DELETE CASCADE,
+  batch_id TEXT NULL, -- NULL = whole herd
+  planned_entry DATE NOT NULL,
+  planned_exit DATE NOT NULL, -- last day in the paddock
+  notes TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT grazing_plan_entries_dates_check
+    CHECK (planned_exit >= planned_entry)
+);
+
+COMMENT ON TABLE public.grazing_plan_entries IS
+  'Rotational grazing plan: a batch grazes a paddock from planned_entry to planned_exit (both days included).';
+
+COMMENT ON COLUMN public.grazing_plan_entries.batch_id IS
+  'devices.batch_id moved into the paddock. NULL = the whole herd.';
+
+CREATE INDEX IF NOT EXISTS idx_grazing_plan_entries_user_dates
+  ON public.grazing_plan_entries(user_id, planned_entry);
+
+CREATE INDEX IF NOT EXISTS idx_grazing_plan_entries_geofence_id
+  ON public.grazing_plan_entries(geofence_id);
+
+DROP TRIGGER IF EXISTS update_grazing_plan_entries_updated_at ON public.grazing_plan_entries;
+
+CREATE TRIGGER update_grazing_plan_entries_updated_at
+  BEFORE UPDATE ON public.grazing_plan_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: CREATE paddock_occupancy_daily TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.paddock_occupancy_daily (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  geofence_id BIGINT NOT NULL REFERENCES public.geofences(id) ON DELETE CASCADE,
+  day DATE NOT NULL, -- local day in the farm timezone (settings.timezone)
+  batch_id TEXT NULL, -- devices.batch_id at refresh time, NULL = no batch
+  dwell_s DOUBLE PRECISION NOT NULL, -- seconds spent inside (all trackers)
+  fixes INTEGER NOT NULL,
+  trackers INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.paddock_occupancy_daily IS
+  'Time spent per paddock, day and batch, rolled up from location_history by refresh_paddock_occupancy().';
+
+-- One row per (paddock, day, batch); NULL batch counts as its own value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_paddock_occupancy_daily_key
+  ON public.paddock_occupancy_daily(geofence_id, day, COALESCE(batch_id, ''));
+
+CREATE INDEX IF NOT EXISTS idx_paddock_occupancy_daily_user_day
+  ON public.paddock_occupancy_daily(user_id, day);
+
+-- ============================================================================
+-- STEP 3: ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE public.grazing_plan_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.paddock_occupancy_daily ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own grazing plan" ON public.grazing_plan_entries;
+DROP POLICY IF EXISTS "Users can insert own grazing plan" ON public.grazing_plan_entries;
+DROP POLICY IF EXISTS "Users can update own grazing plan" ON public.grazing_plan_entries;
+DROP POLICY IF EXISTS "Users can delete own grazing plan" ON public.grazing_plan_entries;
+
+CREATE POLICY "Users can view own grazing plan"
+  ON public.grazing_plan_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own grazing plan"
+  ON public.grazing_plan_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.geofences g
+      WHERE g.id = grazing_plan_entries.geofence_id
+        AND g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own grazing plan"
+  ON public.grazing_plan_entries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.geofences g
+      WHERE g.id = grazing_plan_entries.geofence_id
+        AND g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own grazing plan"
+  ON public.grazing_plan_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Rollup rows are written by refresh_paddock_occupancy(); no user write policies
+DROP POLICY IF EXISTS "Users can view own paddock occupancy" ON public.paddock_occupancy_daily;
+
+CREATE POLICY "Users can view own paddock occupancy"
+  ON public.paddock_occupancy_daily FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 4: OCCUPANCY ROLLUP
+-- ============================================================================
+-- Recomputes the last p_days local days (today included) for every farm.
+-- History is read from one extra day back so the first local day is complete
+-- in every timezone. Returns the number of rows written.
+CREATE OR REPLACE FUNCTION public.refresh_paddock_occupancy(
+  p_days INTEGER DEFAULT 2,
+  p_max_gap_s INTEGER DEFAULT 300 -- a fix counts for at most this many seconds
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER := GREATEST(COALESCE(p_days, 2), 1);
+  v_since TIMESTAMPTZ;
+  v_rows INTEGER;
+BEGIN
+  v_since := now() - make_interval(days => v_days + 1);
+
+  CREATE TEMP TABLE IF NOT EXISTS tmp_paddock_farms (
+    user_id UUID PRIMARY KEY,
+    timezone TEXT NOT NULL,
+    first_day DATE NOT NULL
+  ) ON COMMIT DROP;
+  TRUNCATE tmp_paddock_farms;
+
+  -- Farm timezone per user with linked trackers; unknown names fall back to UTC
+  INSERT INTO tmp_paddock_farms (user_id, timezone, first_day)
+  SELECT
+    u.user_id,
+    COALESCE(tz.name, 'UTC'),
+    (now() AT TIME ZONE COALESCE(tz.name, 'UTC'))::DATE - (v_days - 1)
+  FROM (SELECT DISTINCT d.user_id FROM public.devices d WHERE d.user_id IS NOT NULL) u
+  LEFT JOIN public.settings s ON s.user_id = u.user_id
+  LEFT JOIN pg_timezone_names tz ON tz.name = s.timezone;
+
+  DELETE FROM public.paddock_occupancy_daily o
+  USING tmp_paddock_farms f
+  WHERE o.user_id = f.user_id
+    AND o.day >= f.first_day;
+
+  INSERT INTO public.paddock_occupancy_daily (
+    user_id, geofence_id, day, batch_id, dwell_s, fixes, trackers
+  )
+  WITH weighted AS (
+    SELECT
+      h.tracker_id,
+      h.captured_at,
+      h.geom,
+      LEAST(
+        COALESCE(
+          EXTRACT(EPOCH FROM (
+            LEAD(h.captured_at) OVER (PARTITION BY h.tracker_id ORDER BY h.captured_at)
+            - h.captured_at
+          )),
+          0
+        ),
+        GREATEST(COALESCE(p_max_gap_s, 300), 1)
+      )::DOUBLE PRECISION AS weight_s
+    FROM public.location_history h
+    WHERE h.captured_at >= v_since
+      AND h.geom IS NOT NULL
+  ),
+  local_fixes AS (
+    SELECT
+      d.user_id,
+      NULLIF(d.batch_id, '') AS batch_id,
+      w.tracker_id,
+      w.geom,
+      w.weight_s,
+      (w.captured_at AT TIME ZONE f.timezone)::DATE AS day,
+      f.first_day
+    FROM weighted w
+    JOIN public.devices d ON d.tracker_id = w.tracker_id AND d.user_id IS NOT NULL
+    JOIN tmp_paddock_farms f ON f.user_id = d.user_id
+  )
+  SELECT
+    x.user_id,
+    g.id,
+    x.day,
+    x.batch_id,
+    SUM(x.weight_s),
+    COUNT(*)::INTEGER,
+    COUNT(DISTINCT x.tracker_id)::INTEGER
+  FROM local_fixes x
+  JOIN public.geofences g
+    ON g.user_id = x.user_id
+   AND g.kind = 'include'
+   AND g.boundary_inner IS NOT NULL
+   AND ST_Intersects(g.boundary_inner, x.geom)
+  WHERE x.day >= x.first_day
+  GROUP BY x.user_id, g.id, x.day, x.batch_id;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_paddock_occupancy(INTEGER, INTEGER) IS
+  'Recomputes paddock_occupancy_daily for the last p_days local days of every farm from location_history.';
+
+-- Rebuilds every farm's rollup and can scan all of location_history: only the
+-- scheduled job (and the service role) may run it
+DO $$
+BEGIN
+  REVOKE EXECUTE ON FUNCTION public.refresh_paddock_occupancy(INTEGER, INTEGER)
+    FROM PUBLIC, anon, authenticated;
+EXCEPTION
+  WHEN undefined_object THEN
+    -- Plain Postgres without Supabase roles
+    REVOKE EXECUTE ON FUNCTION public.refresh_paddock_occupancy(INTEGER, INTEGER) FROM PUBLIC;
+END $$;
+
+-- ============================================================================
+-- STEP 5: REST DAYS
+-- ============================================================================
+-- Last day each of the caller's paddocks was grazed and the days since then
+-- (0 = grazed today). A tracked day needs at least p_min_dwell_s of total
+-- dwell time, so animals crossing a paddock do not reset it. Paddocks without
+-- any tracked day use the plan (the last planned day up to today).
+CREATE OR REPLACE FUNCTION public.get_paddock_rest_days(
+  p_min_dwell_s DOUBLE PRECISION DEFAULT 3600
+)
+RETURNS TABLE (
+  geofence_id BIGINT,
+  last_grazed DATE,
+  source TEXT, -- 'tracked' | 'planned'
+  rest_days INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE;
+BEGIN
+  SELECT (now() AT TIME ZONE COALESCE(tz.name, 'UTC'))::DATE
+  INTO v_today
+  FROM (SELECT 1) one
+  LEFT JOIN public.settings s ON s.user_id = auth.uid()
+  LEFT JOIN pg_timezone_names tz ON tz.name = s.timezone
+  LIMIT 1;
+
+  -- SECURITY INVOKER: RLS limits both tables to the caller's rows
+  RETURN QUERY
+  WITH tracked AS (
+    SELECT t.geofence_id, MAX(t.day) AS day
+    FROM (
+      SELECT o.geofence_id, o.day
+      FROM public.paddock_occupancy_daily o
+      GROUP BY o.geofence_id, o.day
+      HAVING SUM(o.dwell_s) >= COALESCE(p_min_dwell_s, 3600)
+    ) t
+    GROUP BY t.geofence_id
+  ),
+  planned AS (
+    SELECT p.geofence_id, MAX(LEAST(p.planned_exit, v_today)) AS day
+    FROM public.grazing_plan_entries p
+    WHERE p.planned_entry <= v_today
+    GROUP BY p.geofence_id
+  )
+  SELECT
+    g.id,
+    COALESCE(t.day, p.day),
+    CASE WHEN t.day IS NOT NULL THEN 'tracked' ELSE 'planned' END,
+    (v_today - COALESCE(t.day, p.day))::INTEGER
+  FROM public.geofences g
+  LEFT JOIN tracked t ON t.geofence_id = g.id
+  LEFT JOIN planned p ON p.geofence_id = g.id
+  WHERE g.user_id = auth.uid()
+    AND g.kind = 'include'
+    AND COALESCE(t.day, p.day) IS NOT NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_paddock_rest_days(DOUBLE PRECISION) IS
+  'Days since each of the caller''s paddocks was last grazed (tracked occupancy, else the grazing plan).';
+
+GRANT EXECUTE ON FUNCTION public.get_paddock_rest_days(DOUBLE PRECISION) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: BACKFILL AND SCHEDULED JOB (pg_cron)
+-- ============================================================================
+-- Roll up all history that is still kept
+SELECT public.refresh_paddock_occupancy(
+  (SELECT retention_days + 1 FROM public.location_history_config WHERE id = 1)
+);
+
+-- If pg_cron is not available, call refresh_paddock_occupancy() hourly from
+-- an Edge Function.
+DO $$
+BEGIN
+  PERFORM cron.unschedule('paddock-occupancy-rollup');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL; -- job did not exist yet or pg_cron missing
+END $$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'paddock-occupancy-rollup',
+    '20 * * * *',  -- Hourly at :20
+    $job$SELECT public.refresh_paddock_occupancy(2)$job$
+  );
+EXCEPTION
+  WHEN undefined_function THEN
+    RAISE NOTICE 'pg_cron not available. Call refresh_paddock_occupancy() hourly via an Edge Function.';
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule paddock-occupancy-rollup job: %', SQLERRM;
+END $$;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
+-- Verification:
+-- 1) Plan batch A into a paddock for a week:
+--    INSERT INTO grazing_plan_entries (user_id, geofence_id, batch_id, planned_entry, planned_exit)
+--    VALUES (auth.uid(), <paddock id>, 'A', current_date, current_date + 6);
+--
+-- 2) Refresh and read today's occupancy:
+--    SELECT refresh_paddock_occupancy(1);
+--    SELECT * FROM paddock_occupancy_daily WHERE day = current_date ORDER BY dwell_s DESC;
+--
+-- 3) Rest days (as an authenticated user):
+--    SELECT * FROM get_paddock_rest_days() ORDER BY rest_days DESC;
+-- ============================================================================